@@ -5,6 +5,7 @@ import FavoritesPage from "./pages/FavoritesPage";
 import LocationDetailPage from "./pages/LocationDetailPage";
 import AdminPage from "./pages/AdminPage";
 import LoginPage from "./pages/LoginPage";
+import AccountVerifyPage from "./pages/AccountVerifyPage";
 import "./App.css";
 
 function App() {
@@ -16,6 +17,7 @@ function App() {
           <Route path="favorites" element={<FavoritesPage />} />
           <Route path="location/:locationId" element={<LocationDetailPage />} />
           <Route path="admin" element={<AdminPage />} />
+          <Route path="account/verify" element={<AccountVerifyPage />} />
         </Route>
         <Route path="/admin/login" element={<LoginPage />} />
       </Routes>
@@ -0,0 +1,214 @@
+import React, { useState } from "react";
+import {
+  AlignmentLine,
+  AlignmentLineEventType,
+  Location,
+} from "@fuji-calendar/types";
+import { timeUtils } from "@fuji-calendar/utils";
+
+export interface AlignmentLineSearch {
+  date: string;
+  eventType: AlignmentLineEventType;
+  startTime?: string;
+  endTime?: string;
+  radius: number;
+}
+
+interface AlignmentLinePanelProps {
+  initialDate?: Date;
+  alignmentLine: AlignmentLine | null;
+  loading: boolean;
+  error: string | null;
+  onSearch: (search: AlignmentLineSearch) => void;
+  onLocationSelect?: (location: Location) => void;
+}
+
+const EVENT_TYPE_OPTIONS: { value: AlignmentLineEventType; label: string }[] = [
+  { value: "diamond_sunrise", label: "昇るダイヤモンド富士" },
+  { value: "diamond_sunset", label: "沈むダイヤモンド富士" },
+  { value: "pearl_moonrise", label: "昇るパール富士" },
+  { value: "pearl_moonset", label: "沈むパール富士" },
+];
+
+const RADIUS_OPTIONS = [500, 1000, 3000, 5000, 10000];
+
+const formatDistance = (meters: number): string =>
+  meters >= 1000
+    ? `${(meters / 1000).toFixed(1)}km`
+    : `${Math.round(meters)}m`;
+
+/**
+ * 撮影地点の逆算フォームと結果一覧
+ * 日付・イベント種別（・時間帯）から、天体が山頂に重なる線の近くの撮影地点を探す
+ */
+const AlignmentLinePanel: React.FC<AlignmentLinePanelProps> = ({
+  initialDate,
+  alignmentLine,
+  loading,
+  error,
+  onSearch,
+  onLocationSelect,
+}) => {
+  const [date, setDate] = useState(
+    timeUtils.formatDateString(initialDate ?? new Date()),
+  );
+  const [eventType, setEventType] =
+    useState<AlignmentLineEventType>("diamond_sunset");
+  const [useTimeRange, setUseTimeRange] = useState(false);
+  const [startTime, setStartTime] = useState("15:00");
+  const [endTime, setEndTime] = useState("18:00");
+  const [radius, setRadius] = useState(1000);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSearch({
+      date,
+      eventType,
+      ...(useTimeRange && { startTime, endTime }),
+      radius,
+    });
+  };
+
+  return (
+    <div className="px-4 py-3 border-t border-gray-200 bg-gray-50 text-sm">
+      <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-3">
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-gray-500">日付</span>
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded"
+            required
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-gray-500">種類</span>
+          <select
+            value={eventType}
+            onChange={(e) =>
+              setEventType(e.target.value as AlignmentLineEventType)
+            }
+            className="px-2 py-1 border border-gray-300 rounded"
+          >
+            {EVENT_TYPE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-gray-500">線からの距離</span>
+          <select
+            value={radius}
+            onChange={(e) => setRadius(parseInt(e.target.value))}
+            className="px-2 py-1 border border-gray-300 rounded"
+          >
+            {RADIUS_OPTIONS.map((value) => (
+              <option key={value} value={value}>
+                {formatDistance(value)} 以内
+              </option>
+            ))}
+          </select>
+        </label>
+        <div className="flex flex-col gap-1">
+          <label className="flex items-center gap-1 text-xs text-gray-500">
+            <input
+              type="checkbox"
+              checked={useTimeRange}
+              onChange={(e) => setUseTimeRange(e.target.checked)}
+            />
+            時間帯を指定
+          </label>
+          <div className="flex items-center gap-1">
+            <input
+              type="time"
+              value={startTime}
+              onChange={(e) => setStartTime(e.target.value)}
+              disabled={!useTimeRange}
+              className="px-2 py-1 border border-gray-300 rounded disabled:opacity-50"
+            />
+            <span>〜</span>
+            <input
+              type="time"
+              value={endTime}
+              onChange={(e) => setEndTime(e.target.value)}
+              disabled={!useTimeRange}
+              className="px-2 py-1 border border-gray-300 rounded disabled:opacity-50"
+            />
+          </div>
+        </div>
+        <button
+          type="submit"
+          disabled={loading}
+          className="px-3 py-1.5 rounded bg-gray-800 text-white hover:bg-gray-700 disabled:opacity-50"
+        >
+          {loading ? "計算中..." : "立ち位置を探す"}
+        </button>
+      </form>
+
+      {error && <p className="mt-3 text-red-600">{error}</p>}
+
+      {alignmentLine && !loading && (
+        <div className="mt-3">
+          {alignmentLine.points.length === 0 ? (
+            <p className="text-gray-500">
+              この日時に天体が山頂に重なる地点はありません。
+            </p>
+          ) : (
+            <>
+              <p className="text-gray-600">
+                {timeUtils.formatTimeString(alignmentLine.points[0].time).slice(0, 5)}〜
+                {timeUtils
+                  .formatTimeString(
+                    alignmentLine.points[alignmentLine.points.length - 1].time,
+                  )
+                  .slice(0, 5)}
+                に天体が山頂に重なる線（標高 {alignmentLine.observerElevation}m
+                で計算）
+              </p>
+              {alignmentLine.candidates.length === 0 ? (
+                <p className="mt-2 text-gray-500">
+                  線の近くに登録済みの撮影地点はありません。
+                </p>
+              ) : (
+                <ul className="mt-2 divide-y divide-gray-200 border border-gray-200 rounded bg-white">
+                  {alignmentLine.candidates.map((candidate) => (
+                    <li
+                      key={candidate.location.id}
+                      onClick={() => onLocationSelect?.(candidate.location)}
+                      className="px-3 py-2 flex items-center justify-between gap-3 cursor-pointer hover:bg-gray-50"
+                    >
+                      <div>
+                        <div className="font-medium text-gray-900">
+                          {candidate.location.name}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {candidate.location.prefecture}・線から
+                          {formatDistance(candidate.distance)}
+                        </div>
+                      </div>
+                      <div className="text-right text-xs text-gray-600">
+                        <div>
+                          {candidate.event
+                            ? timeUtils.formatTimeString(candidate.event.time)
+                            : `${timeUtils.formatTimeString(candidate.estimatedTime).slice(0, 5)} 頃`}
+                        </div>
+                        {candidate.event?.qualityScore !== undefined && (
+                          <div>品質 {candidate.event.qualityScore}</div>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlignmentLinePanel;
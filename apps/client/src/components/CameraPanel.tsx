@@ -1,5 +1,7 @@
 import React, { useState } from "react";
+import { FujiEvent } from "@fuji-calendar/types";
 import { Icon } from "@fuji-calendar/ui";
+import CompositionSimulator from "./CompositionSimulator";
 
 // よく使われる焦点距離
 export const COMMON_FOCAL_LENGTHS = [
@@ -23,14 +25,79 @@ export interface CameraSettings {
   orientation: "landscape" | "portrait";
 }
 
+// センサーサイズ（mm）
+const SENSOR_DIMENSIONS = {
+  fullframe: { width: 36, height: 24 },
+  apsc: { width: 23.5, height: 15.6 }, // Canon APS-C
+  micro43: { width: 17.3, height: 13 },
+};
+
+const ASPECT_RATIOS = {
+  "3:2": 3 / 2,
+  "4:3": 4 / 3,
+  "16:9": 16 / 9,
+  "1:1": 1 / 1,
+};
+
+/**
+ * 撮影範囲のセンサー上の大きさ（mm）
+ * センサーをアスペクト比で切り出し、縦位置では幅と高さを入れ替える
+ */
+export const getFrameSize = (
+  settings: Pick<
+    CameraSettings,
+    "sensorType" | "aspectRatio" | "orientation"
+  >,
+): { width: number; height: number } => {
+  const sensor =
+    SENSOR_DIMENSIONS[settings.sensorType] || SENSOR_DIMENSIONS.fullframe;
+  const ratio = ASPECT_RATIOS[settings.aspectRatio] || ASPECT_RATIOS["3:2"];
+
+  let width = sensor.width;
+  let height = sensor.height;
+
+  if (ratio > sensor.width / sensor.height) {
+    height = sensor.width / ratio;
+  } else {
+    width = sensor.height * ratio;
+  }
+
+  return settings.orientation === "portrait"
+    ? { width: height, height: width }
+    : { width, height };
+};
+
+/**
+ * 水平・垂直画角（度）
+ */
+export const getFieldOfView = (
+  settings: Pick<
+    CameraSettings,
+    "focalLength" | "sensorType" | "aspectRatio" | "orientation"
+  >,
+): { horizontal: number; vertical: number } => {
+  const frame = getFrameSize(settings);
+  const toAngle = (size: number) =>
+    2 * Math.atan(size / (2 * settings.focalLength)) * (180 / Math.PI);
+
+  return {
+    horizontal: toAngle(frame.width),
+    vertical: toAngle(frame.height),
+  };
+};
+
 interface CameraPanelProps {
   cameraSettings: CameraSettings;
   onCameraSettingsChange: (settings: CameraSettings) => void;
+  selectedEvent?: FujiEvent; // 構図のシミュレーションを表示するイベント
+  isFujiTarget?: boolean; // 選択中の整列対象が富士山か
 }
 
 const CameraPanel: React.FC<CameraPanelProps> = ({
   cameraSettings,
   onCameraSettingsChange,
+  selectedEvent,
+  isFujiTarget = true,
 }) => {
   const [isExpanded, setIsExpanded] = useState(false);
 
@@ -414,6 +481,32 @@ const CameraPanel: React.FC<CameraPanelProps> = ({
               ))}
             </div>
           </div>
+
+          {/* 構図のシミュレーション */}
+          <div>
+            <label
+              style={{
+                fontSize: "0.7rem",
+                fontWeight: "500",
+                color: "#6b7280",
+                marginBottom: "0.25rem",
+                display: "block",
+              }}
+            >
+              構図のシミュレーション
+            </label>
+            {selectedEvent ? (
+              <CompositionSimulator
+                event={selectedEvent}
+                cameraSettings={cameraSettings}
+                isFujiTarget={isFujiTarget}
+              />
+            ) : (
+              <p style={{ fontSize: "0.65rem", color: "#6b7280" }}>
+                地図で撮影地点を選択すると、イベント時刻の構図を表示します。
+              </p>
+            )}
+          </div>
         </div>
       )}
     </div>
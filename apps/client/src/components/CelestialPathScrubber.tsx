@@ -0,0 +1,263 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { EventCelestialPath, FujiEvent } from "@fuji-calendar/types";
+import { timeUtils } from "@fuji-calendar/utils";
+import { Icon } from "@fuji-calendar/ui";
+import { apiClient } from "../services/apiClient";
+
+// 再生時に 1 点進める間隔（ms、30 秒間隔の点を 1 秒で 10 点）
+const PLAYBACK_INTERVAL_MS = 100;
+
+const CHART_WIDTH = 480;
+const CHART_HEIGHT = 220;
+const CHART_PADDING = 24;
+
+/**
+ * 地図に表示する天体の軌跡と、スクラバーで選択中の点
+ */
+export interface CelestialTrack {
+  path: EventCelestialPath;
+  index: number;
+}
+
+interface CelestialPathScrubberProps {
+  event: FujiEvent;
+  onTrackChange?: (track: CelestialTrack | null) => void;
+}
+
+/**
+ * 方位角を山頂の方位角 ±180° の範囲に揃える（北をまたぐ軌跡を連続させる）
+ */
+const unwrapAzimuth = (azimuth: number, reference: number): number =>
+  reference + ((((azimuth - reference + 540) % 360) + 360) % 360) - 180;
+
+/**
+ * イベント前後の天体の軌跡（方位角・高度のチャートとタイムラインのスクラバー）
+ * 軌跡はサーバーで整列計算と同じ条件で計算したものを表示する
+ */
+const CelestialPathScrubber: React.FC<CelestialPathScrubberProps> = ({
+  event,
+  onTrackChange,
+}) => {
+  const [path, setPath] = useState<EventCelestialPath | null>(null);
+  const [index, setIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPath(null);
+    setError(null);
+    setPlaying(false);
+
+    apiClient
+      .getEventPath(event.id)
+      .then((result) => {
+        if (cancelled) return;
+        // 初期位置はイベント時刻に最も近い点
+        const eventTime = result.eventTime.getTime();
+        const closest = result.points.reduce(
+          (best, point, i) =>
+            Math.abs(point.time.getTime() - eventTime) <
+            Math.abs(result.points[best].time.getTime() - eventTime)
+              ? i
+              : best,
+          0,
+        );
+        setPath(result);
+        setIndex(closest);
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setError("天体の軌跡を取得できませんでした。");
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [event.id]);
+
+  // 地図に選択中の点を反映
+  useEffect(() => {
+    onTrackChange?.(path && path.points.length > 0 ? { path, index } : null);
+  }, [path, index, onTrackChange]);
+
+  useEffect(() => {
+    return () => onTrackChange?.(null);
+  }, [onTrackChange]);
+
+  // 再生：最後の点まで進めて停止
+  useEffect(() => {
+    if (!playing || !path) return;
+
+    const timer = setInterval(() => {
+      setIndex((current) => Math.min(current + 1, path.points.length - 1));
+    }, PLAYBACK_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [playing, path]);
+
+  useEffect(() => {
+    if (playing && path && index >= path.points.length - 1) {
+      setPlaying(false);
+    }
+  }, [playing, path, index]);
+
+  // チャートの座標変換（方位角・高度とも同じ縮尺にして見かけの角度を保つ）
+  const chart = useMemo(() => {
+    if (!path || path.points.length === 0) return null;
+
+    const points = path.points.map((point) => ({
+      azimuth: unwrapAzimuth(point.azimuth, path.summitAzimuth),
+      elevation: point.elevation,
+    }));
+    const azimuths = [...points.map((p) => p.azimuth), path.summitAzimuth];
+    const elevations = [
+      ...points.map((p) => p.elevation),
+      path.summitElevation,
+      0,
+    ];
+    const minAzimuth = Math.min(...azimuths);
+    const maxAzimuth = Math.max(...azimuths);
+    const minElevation = Math.min(...elevations);
+    const maxElevation = Math.max(...elevations);
+
+    const scale = Math.min(
+      (CHART_WIDTH - CHART_PADDING * 2) /
+        Math.max(maxAzimuth - minAzimuth, 0.5),
+      (CHART_HEIGHT - CHART_PADDING * 2) /
+        Math.max(maxElevation - minElevation, 0.5),
+    );
+    const centerAzimuth = (minAzimuth + maxAzimuth) / 2;
+    const centerElevation = (minElevation + maxElevation) / 2;
+
+    const toX = (azimuth: number) =>
+      CHART_WIDTH / 2 + (azimuth - centerAzimuth) * scale;
+    const toY = (elevation: number) =>
+      CHART_HEIGHT / 2 - (elevation - centerElevation) * scale;
+
+    return {
+      scale,
+      points: points.map((p) => ({ x: toX(p.azimuth), y: toY(p.elevation) })),
+      summit: { x: toX(path.summitAzimuth), y: toY(path.summitElevation) },
+      horizonY: toY(0),
+    };
+  }, [path]);
+
+  if (error) {
+    return <p className="mt-2 text-xs text-gray-500">{error}</p>;
+  }
+
+  if (!path || !chart) {
+    return <p className="mt-2 text-xs text-gray-500">軌跡を計算中...</p>;
+  }
+
+  const current = path.points[index];
+  const currentPoint = chart.points[index];
+  const azimuthOffset =
+    unwrapAzimuth(current.azimuth, path.summitAzimuth) - path.summitAzimuth;
+  const elevationOffset = current.elevation - path.summitElevation;
+  const bodyColor =
+    event.type === "diamond"
+      ? "#f59e0b"
+      : event.type === "pearl"
+        ? "#a855f7"
+        : "#6366f1";
+  // 太陽・月は視半径の大きさで描画（小さすぎる場合は最小サイズ）
+  const bodyRadius = Math.max(
+    (path.apparentRadius ?? 0) * chart.scale,
+    event.celestialBody ? 3 : 4,
+  );
+
+  const handlePlay = () => {
+    if (playing) {
+      setPlaying(false);
+      return;
+    }
+    if (index >= path.points.length - 1) {
+      setIndex(0);
+    }
+    setPlaying(true);
+  };
+
+  return (
+    <div className="mt-3 p-3 bg-gray-50 border border-gray-200 rounded">
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        className="w-full h-auto bg-slate-800 rounded"
+        role="img"
+        aria-label={`${path.bodyName}の軌跡`}
+      >
+        {/* 地平線（見かけの高度 0°） */}
+        {chart.horizonY >= 0 && chart.horizonY <= CHART_HEIGHT && (
+          <line
+            x1={0}
+            x2={CHART_WIDTH}
+            y1={chart.horizonY}
+            y2={chart.horizonY}
+            stroke="#64748b"
+            strokeDasharray="4 4"
+          />
+        )}
+        <polyline
+          points={chart.points.map((p) => `${p.x},${p.y}`).join(" ")}
+          fill="none"
+          stroke={bodyColor}
+          strokeOpacity={0.5}
+          strokeWidth={1.5}
+        />
+        <circle
+          cx={currentPoint.x}
+          cy={currentPoint.y}
+          r={bodyRadius}
+          fill={bodyColor}
+          fillOpacity={0.85}
+        />
+        {/* 山頂（天体より手前に描画） */}
+        <polygon
+          points={`${chart.summit.x},${chart.summit.y} ${chart.summit.x - 8},${chart.summit.y + 10} ${chart.summit.x + 8},${chart.summit.y + 10}`}
+          fill="#e2e8f0"
+        />
+      </svg>
+
+      <div className="mt-2 flex items-center gap-3">
+        <button
+          onClick={handlePlay}
+          className="px-2 py-1 text-xs rounded border border-gray-300 bg-white hover:bg-gray-100 text-gray-700 shrink-0"
+        >
+          {playing ? "停止" : "再生"}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={path.points.length - 1}
+          value={index}
+          onChange={(e) => {
+            setPlaying(false);
+            setIndex(parseInt(e.target.value));
+          }}
+          className="flex-1"
+          aria-label="時刻"
+        />
+        <span className="text-xs font-medium text-gray-900 w-16 text-right">
+          {timeUtils.formatJstTime(current.time)}
+        </span>
+      </div>
+
+      <div className="mt-1 flex flex-wrap gap-x-4 text-xs text-gray-600">
+        <span className="flex items-center gap-1">
+          <Icon name={event.type === "pearl" ? "moon" : "sun"} size={12} />
+          {path.bodyName} 方位角 {current.azimuth.toFixed(2)}° / 高度{" "}
+          {current.elevation.toFixed(2)}°
+        </span>
+        <span title="山頂に対する天体中心の位置（右・上が正）">
+          山頂から 方位 {azimuthOffset >= 0 ? "+" : ""}
+          {azimuthOffset.toFixed(2)}° / 高度 {elevationOffset >= 0 ? "+" : ""}
+          {elevationOffset.toFixed(2)}°
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default CelestialPathScrubber;
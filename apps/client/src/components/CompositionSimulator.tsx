@@ -0,0 +1,435 @@
+import React, { useEffect, useMemo, useRef } from "react";
+import * as Astronomy from "astronomy-engine";
+import {
+  FujiEvent,
+  FUJI_COORDINATES,
+  FUJI_SUMMIT_RIDGE,
+} from "@fuji-calendar/types";
+import { CameraSettings, getFieldOfView } from "./CameraPanel";
+
+// 描画する枠の長辺（CSS px）
+const CANVAS_LONG_SIDE = 320;
+
+const EARTH_RADIUS = 6371000; // m
+const REFRACTION_COEFFICIENT = 0.13; // 地上の視線の屈折係数（標準大気）
+const AU_KM = 149597870.7;
+const SUN_RADIUS_KM = 696000;
+const MOON_RADIUS_KM = 1737.4;
+
+/**
+ * 山頂からの水平距離（m）と標高（m）による富士山の断面
+ * 山頂付近は FUJI_SUMMIT_RIDGE、山腹は地形図から読み取った概形（軸対称とみなす）
+ */
+const FUJI_PROFILE: [number, number][] = [
+  ...FUJI_SUMMIT_RIDGE.filter((point) => point.offset >= 0).map(
+    (point): [number, number] => [point.offset, point.elevation],
+  ),
+  [1000, 3450],
+  [2000, 3000],
+  [3000, 2650],
+  [4000, 2350],
+  [5000, 2100],
+  [6000, 1900],
+  [8000, 1550],
+  [10000, 1300],
+  [12000, 1100],
+  [15000, 900],
+  [20000, 650],
+  [25000, 500],
+];
+
+const getProfileElevation = (distance: number): number => {
+  const d = Math.abs(distance);
+  for (let i = 1; i < FUJI_PROFILE.length; i++) {
+    const [d0, h0] = FUJI_PROFILE[i - 1];
+    const [d1, h1] = FUJI_PROFILE[i];
+    if (d <= d1) {
+      return h0 + ((h1 - h0) * (d - d0)) / (d1 - d0);
+    }
+  }
+  return FUJI_PROFILE[FUJI_PROFILE.length - 1][1];
+};
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+/**
+ * 撮影地点から見た地物の仰角（度）
+ * 地球の丸みと大気屈折による見かけの沈み込みを考慮する
+ */
+const getApparentElevation = (
+  height: number,
+  observerHeight: number,
+  distance: number,
+): number => {
+  const drop =
+    ((distance * distance) / (2 * EARTH_RADIUS)) * (1 - REFRACTION_COEFFICIENT);
+  return toDegrees(Math.atan((height - observerHeight - drop) / distance));
+};
+
+/**
+ * 天体の視直径（度）。惑星・恒星は点として扱い null
+ */
+const getDiskDiameter = (event: FujiEvent): number | null => {
+  const isSun = event.type === "diamond";
+  if (!isSun && event.type !== "pearl") {
+    return null;
+  }
+
+  const vector = Astronomy.GeoVector(
+    isSun ? Astronomy.Body.Sun : Astronomy.Body.Moon,
+    new Date(event.time),
+    true,
+  );
+  const radius = isSun ? SUN_RADIUS_KM : MOON_RADIUS_KM;
+  return toDegrees(2 * Math.asin(radius / (vector.Length() * AU_KM)));
+};
+
+/**
+ * 透視投影（カメラは center の方向を向き、傾きなし）
+ * 画面中心からの角度方向の位置を tan で返し、カメラの後ろ側は null
+ */
+const project = (
+  azimuth: number,
+  elevation: number,
+  center: { azimuth: number; elevation: number },
+): { x: number; y: number } | null => {
+  const az = toRadians(azimuth);
+  const el = toRadians(elevation);
+  const az0 = toRadians(center.azimuth);
+  const el0 = toRadians(center.elevation);
+
+  // 東・北・天頂の座標系での方向ベクトル
+  const d = [
+    Math.cos(el) * Math.sin(az),
+    Math.cos(el) * Math.cos(az),
+    Math.sin(el),
+  ];
+  const forward = [
+    Math.cos(el0) * Math.sin(az0),
+    Math.cos(el0) * Math.cos(az0),
+    Math.sin(el0),
+  ];
+  const right = [Math.cos(az0), -Math.sin(az0), 0];
+  const up = [
+    -Math.sin(el0) * Math.sin(az0),
+    -Math.sin(el0) * Math.cos(az0),
+    Math.cos(el0),
+  ];
+  const dot = (a: number[], b: number[]) =>
+    a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+  const depth = dot(d, forward);
+  if (depth <= 0) {
+    return null;
+  }
+  return { x: dot(d, right) / depth, y: dot(d, up) / depth };
+};
+
+/**
+ * 月の満ち欠けを描画（MoonPhaseGlyph と同じ向きの規則）
+ */
+const drawMoon = (
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  radius: number,
+  moonPhase: number,
+  tilt: number,
+) => {
+  const fraction = (1 - Math.cos(toRadians(moonPhase))) / 2;
+
+  ctx.save();
+  ctx.translate(x, y);
+  ctx.beginPath();
+  ctx.arc(0, 0, radius, 0, Math.PI * 2);
+  ctx.fillStyle = "#4b5563";
+  ctx.fill();
+
+  ctx.rotate(toRadians(-90 - tilt));
+  ctx.beginPath();
+  ctx.arc(0, 0, radius, -Math.PI / 2, Math.PI / 2, false);
+  ctx.ellipse(
+    0,
+    0,
+    Math.abs(1 - 2 * fraction) * radius,
+    radius,
+    0,
+    Math.PI / 2,
+    -Math.PI / 2,
+    fraction < 0.5,
+  );
+  ctx.fillStyle = "#fde68a";
+  ctx.fill();
+  ctx.restore();
+};
+
+interface CompositionSimulatorProps {
+  event: FujiEvent;
+  cameraSettings: CameraSettings;
+  isFujiTarget: boolean; // 整列の対象が富士山か（山容は富士山のみ描画できる）
+}
+
+/**
+ * イベント時刻の構図のシミュレーション
+ * 撮影地点から富士山頂の方向にカメラを向けたときの山容・天体・水平線を描画する
+ */
+const CompositionSimulator: React.FC<CompositionSimulatorProps> = ({
+  event,
+  cameraSettings,
+  isFujiTarget,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fov = getFieldOfView(cameraSettings);
+  const { location } = event;
+  const isFuji =
+    isFujiTarget && !!location.fujiAzimuth && !!location.fujiDistance;
+
+  const width =
+    fov.horizontal >= fov.vertical
+      ? CANVAS_LONG_SIDE
+      : Math.round((CANVAS_LONG_SIDE * fov.horizontal) / fov.vertical);
+  const height =
+    fov.horizontal >= fov.vertical
+      ? Math.round((CANVAS_LONG_SIDE * fov.vertical) / fov.horizontal)
+      : CANVAS_LONG_SIDE;
+
+  const diskDiameter = useMemo(() => getDiskDiameter(event), [event]);
+  // 画面中心（富士山頂の見かけの方向）
+  const center = useMemo(
+    () => ({
+      azimuth: location.fujiAzimuth ?? 0,
+      elevation: getApparentElevation(
+        FUJI_COORDINATES.elevation,
+        location.elevation,
+        location.fujiDistance ?? 1,
+      ),
+    }),
+    [location],
+  );
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx || !isFuji) {
+      return;
+    }
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = width * ratio;
+    canvas.height = height * ratio;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+
+    const distance = location.fujiDistance!;
+    // tan で表した画面上の位置から px への倍率
+    const scale = width / (2 * Math.tan(toRadians(fov.horizontal / 2)));
+    const toCanvas = (azimuth: number, elevation: number) => {
+      const point = project(azimuth, elevation, center);
+      return point
+        ? { x: width / 2 + point.x * scale, y: height / 2 - point.y * scale }
+        : null;
+    };
+
+    // 空
+    const rising = event.subType === "sunrise" || event.subType === "rising";
+    const sky = ctx.createLinearGradient(0, 0, 0, height);
+    if (event.type === "diamond") {
+      sky.addColorStop(0, "#1e3a8a");
+      sky.addColorStop(1, rising ? "#fdba74" : "#fb923c");
+    } else {
+      sky.addColorStop(0, "#0f172a");
+      sky.addColorStop(1, "#334155");
+    }
+    ctx.fillStyle = sky;
+    ctx.fillRect(0, 0, width, height);
+
+    // 水平線（地形を考慮しない見かけの水平線）
+    const dip = toDegrees(
+      Math.acos(
+        EARTH_RADIUS / (EARTH_RADIUS + Math.max(location.elevation, 0)),
+      ) * Math.sqrt(1 - REFRACTION_COEFFICIENT),
+    );
+    // 広角では仰角一定の線が曲線になるため、方位角ごとに投影する
+    const horizonSpan = Math.min(fov.horizontal / 2 + 1, 89);
+    const horizon = Array.from({ length: 41 }, (_, i) =>
+      toCanvas(center.azimuth - horizonSpan + (horizonSpan * i) / 20, -dip),
+    ).filter((point): point is { x: number; y: number } => point !== null);
+    if (horizon.length > 1) {
+      const first = horizon[0];
+      const last = horizon[horizon.length - 1];
+
+      ctx.fillStyle = "#1f2937";
+      ctx.beginPath();
+      horizon.forEach((point) => ctx.lineTo(point.x, point.y));
+      ctx.lineTo(last.x, height);
+      ctx.lineTo(first.x, height);
+      ctx.closePath();
+      ctx.fill();
+
+      ctx.strokeStyle = "rgba(255,255,255,0.5)";
+      ctx.setLineDash([4, 4]);
+      ctx.beginPath();
+      horizon.forEach((point) => ctx.lineTo(point.x, point.y));
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+
+    // 天体（山の後ろ側にあるため先に描画）
+    const body = toCanvas(event.azimuth, event.elevation ?? 0);
+    if (body) {
+      if (diskDiameter === null) {
+        ctx.beginPath();
+        ctx.arc(body.x, body.y, 2.5, 0, Math.PI * 2);
+        ctx.fillStyle = "#f8fafc";
+        ctx.fill();
+      } else {
+        const radius = Math.max(
+          Math.tan(toRadians(diskDiameter / 2)) * scale,
+          1,
+        );
+        if (event.type === "pearl" && event.moonPhase !== undefined) {
+          drawMoon(
+            ctx,
+            body.x,
+            body.y,
+            radius,
+            event.moonPhase,
+            event.moonTilt ?? 0,
+          );
+        } else {
+          const glow = ctx.createRadialGradient(
+            body.x,
+            body.y,
+            radius,
+            body.x,
+            body.y,
+            radius * 3,
+          );
+          glow.addColorStop(0, "rgba(254,243,199,0.6)");
+          glow.addColorStop(1, "rgba(254,243,199,0)");
+          ctx.fillStyle = glow;
+          ctx.fillRect(0, 0, width, height);
+
+          ctx.beginPath();
+          ctx.arc(body.x, body.y, radius, 0, Math.PI * 2);
+          ctx.fillStyle = "#fef3c7";
+          ctx.fill();
+        }
+      }
+    }
+
+    // 山容（視線と直交する方向の距離ごとに断面の標高を仰角に変換）
+    const halfBase = FUJI_PROFILE[FUJI_PROFILE.length - 1][0];
+    const steps = 400;
+    ctx.beginPath();
+    let started = false;
+    for (let i = 0; i <= steps; i++) {
+      const offset = -halfBase + (2 * halfBase * i) / steps;
+      const point = toCanvas(
+        center.azimuth + toDegrees(Math.atan2(offset, distance)),
+        getApparentElevation(
+          getProfileElevation(offset),
+          location.elevation,
+          Math.hypot(distance, offset),
+        ),
+      );
+      if (!point) {
+        continue;
+      }
+      if (!started) {
+        ctx.moveTo(point.x, height);
+        started = true;
+      }
+      ctx.lineTo(point.x, point.y);
+      if (i === steps) {
+        ctx.lineTo(point.x, height);
+      }
+    }
+    ctx.closePath();
+    ctx.fillStyle = "#374151";
+    ctx.fill();
+    ctx.strokeStyle = "#9ca3af";
+    ctx.lineWidth = 1;
+    ctx.stroke();
+
+    // 三分割線
+    ctx.strokeStyle = "rgba(255,255,255,0.25)";
+    ctx.beginPath();
+    for (const t of [1 / 3, 2 / 3]) {
+      ctx.moveTo(width * t, 0);
+      ctx.lineTo(width * t, height);
+      ctx.moveTo(0, height * t);
+      ctx.lineTo(width, height * t);
+    }
+    ctx.stroke();
+  }, [
+    event,
+    location,
+    center,
+    isFuji,
+    fov.horizontal,
+    fov.vertical,
+    width,
+    height,
+    diskDiameter,
+  ]);
+
+  if (!isFuji) {
+    return (
+      <p style={{ fontSize: "0.65rem", color: "#6b7280" }}>
+        構図のシミュレーションは富士山との整列のみ対応しています。
+      </p>
+    );
+  }
+
+  const body = project(event.azimuth, event.elevation ?? 0, center);
+  const inFrame =
+    !!body &&
+    Math.abs(body.x) <= Math.tan(toRadians(fov.horizontal / 2)) &&
+    Math.abs(body.y) <= Math.tan(toRadians(fov.vertical / 2));
+
+  return (
+    <div>
+      <canvas
+        ref={canvasRef}
+        role="img"
+        aria-label={`${cameraSettings.focalLength}mm で山頂に向けた構図のシミュレーション`}
+        style={{
+          width: `${width}px`,
+          height: `${height}px`,
+          maxWidth: "100%",
+          borderRadius: "4px",
+          display: "block",
+        }}
+      />
+      <div
+        style={{
+          fontSize: "0.65rem",
+          color: "#6b7280",
+          marginTop: "0.25rem",
+          lineHeight: 1.5,
+        }}
+      >
+        画角 {fov.horizontal.toFixed(1)}° × {fov.vertical.toFixed(1)}°
+        {diskDiameter !== null && (
+          <>
+            {" "}
+            / {event.type === "diamond" ? "太陽" : "月"}の視直径{" "}
+            {diskDiameter.toFixed(2)}°（フレームの高さの{" "}
+            {Math.round((diskDiameter / fov.vertical) * 100)}%）
+          </>
+        )}
+        {!inFrame && (
+          <div style={{ color: "#b45309" }}>
+            この焦点距離では天体がフレームの外にあります。
+          </div>
+        )}
+        <div>
+          山容は軸対称の概形、水平線は地形を考慮しない見かけの位置です。
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CompositionSimulator;
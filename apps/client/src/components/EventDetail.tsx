@@ -3,16 +3,28 @@ import { FujiEvent, Location } from "@fuji-calendar/types";
 import { timeUtils } from "@fuji-calendar/utils";
 import { useFavorites } from "../hooks/useFavorites";
 import { Icon } from "@fuji-calendar/ui";
+import MoonPhaseGlyph from "./MoonPhaseGlyph";
+import CelestialPathScrubber, { CelestialTrack } from "./CelestialPathScrubber";
+
+// これより短い移動は誤差の範囲として表示しない（m）
+const MIN_OBSERVER_OFFSET = 10;
 
 interface EventDetailProps {
   date: Date;
   events: FujiEvent[];
   selectedLocationId?: number;
   onLocationSelect?: (location: Location | null) => void;
+  onCelestialTrackChange?: (track: CelestialTrack | null) => void;
 }
 
 const EventDetail: React.FC<EventDetailProps> = memo(
-  ({ date, events, selectedLocationId, onLocationSelect }) => {
+  ({
+    date,
+    events,
+    selectedLocationId,
+    onLocationSelect,
+    onCelestialTrackChange,
+  }) => {
     const {
       isEventFavorite,
       toggleEventFavorite,
@@ -31,6 +43,8 @@ const EventDetail: React.FC<EventDetailProps> = memo(
         return new Set();
       },
     );
+    // 天体の軌跡を表示中のイベント（同時に 1 件のみ）
+    const [pathEventId, setPathEventId] = useState<string | null>(null);
 
     // selectedLocationId が変更された時にアコーディオンを更新
     useEffect(() => {
@@ -120,6 +134,11 @@ const EventDetail: React.FC<EventDetailProps> = memo(
     };
 
     const getEventDisplayName = (event: FujiEvent): string => {
+      // 惑星・恒星との整列は天体名で表示
+      if (event.celestialBody) {
+        return `${event.subType === "rising" ? "昇る" : "沈む"}${event.celestialBody.name}`;
+      }
+
       const typeLabel = event.type === "diamond" ? "ダイヤモンド富士" : "パール富士";
       let subTypeLabel = "";
 
@@ -148,6 +167,44 @@ const EventDetail: React.FC<EventDetailProps> = memo(
       return accuracyMap[accuracy as keyof typeof accuracyMap] || accuracy;
     };
 
+    const getSummitPositionDisplayName = (summitPosition: string): string => {
+      const summitPositionMap = {
+        left_shoulder: "左肩",
+        center: "山頂中央",
+        right_shoulder: "右肩",
+      };
+      return (
+        summitPositionMap[summitPosition as keyof typeof summitPositionMap] ||
+        summitPosition
+      );
+    };
+
+    // 特別イベントの表示名と配色（FilterPanel の特別ボタンと同系色）
+    const getSpecialEventBadge = (
+      specialEvent: string,
+    ): { label: string; className: string } => {
+      const specialEventMap = {
+        solar_eclipse: {
+          label: "日食",
+          className: "bg-red-50 text-red-800 border border-red-200",
+        },
+        lunar_eclipse: {
+          label: "月食",
+          className: "bg-amber-50 text-amber-800 border border-amber-200",
+        },
+        supermoon: {
+          label: "スーパームーン",
+          className: "bg-purple-50 text-purple-800 border border-purple-200",
+        },
+      };
+      return (
+        specialEventMap[specialEvent as keyof typeof specialEventMap] || {
+          label: specialEvent,
+          className: "bg-gray-50 text-gray-600 border border-gray-200",
+        }
+      );
+    };
+
     // 折りたたみボタンで地図連携も含めて制御
     const handleLocationToggle = (locationId: number, location: Location) => {
       const isExpanded = expandedLocationIds.has(locationId);
@@ -192,22 +249,18 @@ const EventDetail: React.FC<EventDetailProps> = memo(
           ) : (
             <div className="space-y-3">
               {(() => {
-                // 地点ごとにイベントをグループ化
-                const eventsByLocation = events.reduce(
-                  (acc, event) => {
-                    const locationId = event.location.id;
-                    if (!acc[locationId]) {
-                      acc[locationId] = [];
-                    }
-                    acc[locationId].push(event);
-                    return acc;
-                  },
-                  {} as Record<number, FujiEvent[]>,
-                );
+                // 地点ごとにイベントをグループ化（並び順は渡されたイベントの順を保つ）
+                const eventsByLocation = events.reduce((acc, event) => {
+                  const locationId = event.location.id;
+                  if (!acc.has(locationId)) {
+                    acc.set(locationId, []);
+                  }
+                  acc.get(locationId)!.push(event);
+                  return acc;
+                }, new Map<number, FujiEvent[]>());
 
-                return Object.entries(eventsByLocation).map(
-                  ([locationIdStr, locationEvents]: [string, FujiEvent[]]) => {
-                    const locationId = parseInt(locationIdStr);
+                return Array.from(eventsByLocation.entries()).map(
+                  ([locationId, locationEvents]) => {
                     const location = locationEvents[0].location;
                     const isExpanded = expandedLocationIds.has(locationId);
                     const isSelected = selectedLocationId === locationId;
@@ -345,9 +398,9 @@ const EventDetail: React.FC<EventDetailProps> = memo(
                                   <div className="flex items-center gap-3">
                                     <div className="flex items-center gap-2">
                                       <Icon
-                                        name={event.type === "diamond" ? "sun" : "moon"}
+                                        name={event.celestialBody ? "star" : event.type === "diamond" ? "sun" : "moon"}
                                         size={16}
-                                        className={event.type === "diamond" ? "text-yellow-500" : "text-blue-400"}
+                                        className={event.celestialBody ? "text-indigo-500" : event.type === "diamond" ? "text-yellow-500" : "text-blue-400"}
                                       />
                                       <span className="font-medium text-gray-900">
                                         {getEventDisplayName(event)}
@@ -361,6 +414,16 @@ const EventDetail: React.FC<EventDetailProps> = memo(
                                     }`}>
                                       {getAccuracyDisplayName(event.accuracy)}
                                     </span>
+                                    {event.summitPosition && (
+                                      <span className="px-2 py-1 text-xs rounded font-medium bg-gray-50 text-gray-600 border border-gray-200">
+                                        {getSummitPositionDisplayName(event.summitPosition)}
+                                      </span>
+                                    )}
+                                    {event.specialEvent && (
+                                      <span className={`px-2 py-1 text-xs rounded font-medium ${getSpecialEventBadge(event.specialEvent).className}`}>
+                                        {getSpecialEventBadge(event.specialEvent).label}
+                                      </span>
+                                    )}
                                   </div>
                                   <div className="text-right">
                                     <div className="font-medium text-gray-900">
@@ -369,6 +432,15 @@ const EventDetail: React.FC<EventDetailProps> = memo(
                                         minute: "2-digit"
                                       })}
                                     </div>
+                                    {event.timeWindowStart && event.timeWindowEnd && (
+                                      <div
+                                        className="text-xs text-gray-500"
+                                        title="座標精度・大気屈折のばらつきを考慮した整列時刻の幅"
+                                      >
+                                        {timeUtils.formatTimeString(event.timeWindowStart)}〜
+                                        {timeUtils.formatTimeString(event.timeWindowEnd)}
+                                      </div>
+                                    )}
                                   </div>
                                 </div>
 
@@ -382,12 +454,67 @@ const EventDetail: React.FC<EventDetailProps> = memo(
                                       )}
                                     </span>
                                     {event.moonPhase !== undefined && event.type === "pearl" && (
-                                      <span>
-                                        {getMoonPhaseName(event.moonPhase).icon} {getMoonPhaseName(event.moonPhase).name}
+                                      <span
+                                        className="flex items-center gap-1"
+                                        title={event.moonTilt !== undefined ? "観測者から見た月の欠け方と向き" : undefined}
+                                      >
+                                        {event.moonTilt !== undefined ? (
+                                          <MoonPhaseGlyph moonPhase={event.moonPhase} tilt={event.moonTilt} />
+                                        ) : (
+                                          getMoonPhaseName(event.moonPhase).icon
+                                        )}
+                                        {getMoonPhaseName(event.moonPhase).name}
+                                      </span>
+                                    )}
+                                    {event.qualityScore !== undefined && event.type === "pearl" && (
+                                      <span title="整列の精度・月の明るさ・空の暗さ・輝面の向きによる評価">
+                                        品質 {event.qualityScore}
+                                      </span>
+                                    )}
+                                    {event.visibilityProbability !== undefined && (
+                                      <span title="距離・季節・時間帯・太陽の位置による霞から推定した、山頂が見える確率">
+                                        見える確率 {event.visibilityProbability}%
                                       </span>
                                     )}
+                                    {event.weather && event.shootabilityScore !== undefined && (
+                                      <span
+                                        className={`flex items-center gap-1 ${event.shootabilityScore >= 50 ? "text-green-700" : "text-gray-500"}`}
+                                        title={`雲量予報（撮影地点 ${event.weather.observerCloudCover}%・山頂 ${event.weather.summitCloudCover}%）`}
+                                      >
+                                        <Icon name={event.shootabilityScore >= 50 ? "sun" : "cloud"} size={14} />
+                                        撮影見込み {event.shootabilityScore}%
+                                      </span>
+                                    )}
+                                    {event.celestialBody?.magnitude !== undefined && (
+                                      <span>{event.celestialBody.magnitude.toFixed(1)} 等</span>
+                                    )}
+                                    {event.observerOffsetDistance !== undefined &&
+                                      event.observerOffsetBearing !== undefined &&
+                                      event.observerOffsetDistance >= MIN_OBSERVER_OFFSET && (
+                                        <span
+                                          className="text-emerald-700"
+                                          title="視線と直交する方向に移動すると、天体中心が山頂中央に正確に重なります"
+                                        >
+                                          {getCompassDirection(event.observerOffsetBearing)}へ {event.observerOffsetDistance}m 移動
+                                        </span>
+                                      )}
                                   </div>
                                   <div className="flex items-center gap-2">
+                                    <button
+                                      onClick={(e) => {
+                                        e.stopPropagation();
+                                        setPathEventId(pathEventId === event.id ? null : event.id);
+                                      }}
+                                      className={`px-2 py-1 text-xs rounded transition-colors ${
+                                        pathEventId === event.id
+                                          ? "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                                          : "bg-gray-50 text-gray-600 hover:bg-gray-100"
+                                      }`}
+                                      title="イベント前後 30 分の天体の動き"
+                                    >
+                                      <Icon name="route" size={12} className="inline mr-1" />
+                                      軌跡
+                                    </button>
                                     <button
                                       onClick={(e) => {
                                         e.stopPropagation();
@@ -404,6 +531,40 @@ const EventDetail: React.FC<EventDetailProps> = memo(
                                     </button>
                                   </div>
                                 </div>
+
+                                {/* 接触タイムライン（円盤が山頂を通過する場合のみ） */}
+                                {event.firstContactTime && event.centerTime && event.lastContactTime && (
+                                  <div className="mt-3 px-2">
+                                    <div className="relative flex items-start justify-between">
+                                      <div className="absolute left-6 right-6 top-1.5 h-px bg-gray-300" />
+                                      {[
+                                        { label: "接触開始", time: event.firstContactTime },
+                                        { label: "中心", time: event.centerTime },
+                                        { label: "接触終了", time: event.lastContactTime },
+                                      ].map((phase) => (
+                                        <div key={phase.label} className="relative flex flex-col items-center w-12">
+                                          <span
+                                            className={`w-3 h-3 rounded-full border-2 bg-white ${
+                                              event.type === "diamond" ? "border-yellow-500" : "border-blue-400"
+                                            }`}
+                                          />
+                                          <span className="mt-1 text-xs text-gray-500 whitespace-nowrap">{phase.label}</span>
+                                          <span className="text-xs font-medium text-gray-900">
+                                            {timeUtils.formatTimeString(phase.time)}
+                                          </span>
+                                        </div>
+                                      ))}
+                                    </div>
+                                  </div>
+                                )}
+
+                                {/* 天体の軌跡（前後 30 分） */}
+                                {pathEventId === event.id && (
+                                  <CelestialPathScrubber
+                                    event={event}
+                                    onTrackChange={onCelestialTrackChange}
+                                  />
+                                )}
                               </div>
                             ))}
                           </div>
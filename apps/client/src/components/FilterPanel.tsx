@@ -1,5 +1,6 @@
 import React, { useState } from "react";
 import { Icon } from "@fuji-calendar/ui";
+import { SummitPosition } from "@fuji-calendar/types";
 
 export interface FilterOptions {
   distance: "all" | "very_near" | "near" | "medium" | "far" | "very_far"; // 全て | 50km 以内 | 100km 以内 | 200km 以内 | 300km 以内 | 300km 以上
@@ -7,11 +8,13 @@ export interface FilterOptions {
   diamondSunset: boolean; // ダイヤモンド富士（夕）
   pearlMoonrise: boolean; // パール富士（朝）
   pearlMoonset: boolean; // パール富士（夕）
+  summitPosition: "all" | SummitPosition; // 全て | 左肩 | 中央 | 右肩
   specialEvents: {
     solarEclipse: boolean; // 日食
     lunarEclipse: boolean; // 月食
     supermoon: boolean; // スーパームーン
   };
+  sortBy: "time" | "visibility"; // 時刻順 | 山頂が見える確率の高い順
 }
 
 interface FilterPanelProps {
@@ -54,11 +57,13 @@ const FilterPanel: React.FC<FilterPanelProps> = ({
     diamondSunset: false,
     pearlMoonrise: false,
     pearlMoonset: false,
+    summitPosition: "all",
     specialEvents: {
       solarEclipse: false,
       lunarEclipse: false,
       supermoon: false,
     },
+    sortBy: "time",
   });
 
   // パネルが開いている場合に ON とする
@@ -73,6 +78,7 @@ const FilterPanel: React.FC<FilterPanelProps> = ({
       filters.diamondSunset ||
       filters.pearlMoonrise ||
       filters.pearlMoonset ||
+      filters.summitPosition !== "all" ||
       filters.specialEvents.solarEclipse ||
       filters.specialEvents.lunarEclipse ||
       filters.specialEvents.supermoon
@@ -86,11 +92,13 @@ const FilterPanel: React.FC<FilterPanelProps> = ({
       diamondSunset: false,
       pearlMoonrise: false,
       pearlMoonset: false,
+      summitPosition: "all",
       specialEvents: {
         solarEclipse: false,
         lunarEclipse: false,
         supermoon: false,
       },
+      sortBy: "time",
     });
   };
 
@@ -376,6 +384,74 @@ const FilterPanel: React.FC<FilterPanelProps> = ({
             </div>
           </div>
 
+          {/* 山頂の位置フィルター */}
+          <div>
+            <label
+              style={{
+                display: "block",
+                fontSize: "0.7rem",
+                fontWeight: "500",
+                color: "#6b7280",
+                marginBottom: "0.25rem",
+              }}
+            >
+              山頂の位置
+            </label>
+            <select
+              value={filters.summitPosition}
+              onChange={(e) =>
+                updateFilter({ summitPosition: e.target.value as any })
+              }
+              style={{
+                width: "100%",
+                padding: "0.375rem",
+                fontSize: "0.75rem",
+                border: "1px solid #d1d5db",
+                borderRadius: "4px",
+                backgroundColor: "white",
+                color: "#374151",
+              }}
+            >
+              <option value="all">全て</option>
+              <option value="center">山頂中央</option>
+              <option value="left_shoulder">左肩</option>
+              <option value="right_shoulder">右肩</option>
+            </select>
+          </div>
+
+          {/* 並び順 */}
+          <div>
+            <label
+              style={{
+                display: "block",
+                fontSize: "0.7rem",
+                fontWeight: "500",
+                color: "#6b7280",
+                marginBottom: "0.25rem",
+              }}
+            >
+              並び順
+            </label>
+            <select
+              value={filters.sortBy}
+              onChange={(e) =>
+                updateFilter({ sortBy: e.target.value as FilterOptions["sortBy"] })
+              }
+              style={{
+                width: "100%",
+                padding: "0.375rem",
+                fontSize: "0.75rem",
+                border: "1px solid #d1d5db",
+                borderRadius: "4px",
+                backgroundColor: "white",
+                color: "#374151",
+              }}
+            >
+              <option value="time">時刻順</option>
+              <option value="visibility">見える確率の高い順</option>
+            </select>
+          </div>
+
           {/* 特別な天体イベント - コンパクト */}
           <div>
             <label
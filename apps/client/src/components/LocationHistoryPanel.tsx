@@ -0,0 +1,312 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  HistoricalEvent,
+  HistoricalStats,
+  MonthlyHistoricalSummary,
+  ObservationOutcome,
+} from "@fuji-calendar/types";
+import { timeUtils } from "@fuji-calendar/utils";
+import { apiClient } from "../services/apiClient";
+
+interface LocationHistoryPanelProps {
+  locationId: number;
+}
+
+// 一覧に表示する過去イベント数
+const RECENT_EVENT_LIMIT = 20;
+
+const OUTCOME_OPTIONS: {
+  value: ObservationOutcome;
+  label: string;
+  className: string;
+}[] = [
+  {
+    value: "success",
+    label: "撮影成功",
+    className: "bg-green-100 text-green-800 border-green-300",
+  },
+  {
+    value: "clouded_out",
+    label: "雲で見えず",
+    className: "bg-gray-200 text-gray-700 border-gray-300",
+  },
+  {
+    value: "missed",
+    label: "撮り逃し",
+    className: "bg-yellow-100 text-yellow-800 border-yellow-300",
+  },
+];
+
+const getEventTypeLabel = (type: HistoricalEvent["eventType"]): string => {
+  switch (type) {
+    case "diamond":
+      return "ダイヤモンド富士";
+    case "pearl":
+      return "パール富士";
+    case "planet":
+      return "惑星";
+    default:
+      return "恒星";
+  }
+};
+
+const formatRate = (rate: number | null): string =>
+  rate === null ? "—" : `${Math.round(rate)}%`;
+
+/**
+ * 月（1-12）ごとの成功率を全期間で集計
+ */
+const summarizeByMonth = (months: MonthlyHistoricalSummary[]) =>
+  Array.from({ length: 12 }, (_, index) => {
+    const summaries = months.filter((summary) => summary.month === index + 1);
+    const eventCount = summaries.reduce((sum, s) => sum + s.eventCount, 0);
+    const reportedCount = summaries.reduce(
+      (sum, s) => sum + s.reportedCount,
+      0,
+    );
+    const successCount = summaries.reduce((sum, s) => sum + s.successCount, 0);
+    return {
+      month: index + 1,
+      eventCount,
+      reportedCount,
+      successCount,
+      successRatePercent:
+        reportedCount > 0 ? (successCount / reportedCount) * 100 : null,
+    };
+  });
+
+/**
+ * 撮影地点の過去の記録
+ * 月別・年別の成功率と、過去イベントへの撮影結果の報告
+ */
+const LocationHistoryPanel: React.FC<LocationHistoryPanelProps> = ({
+  locationId,
+}) => {
+  const [events, setEvents] = useState<HistoricalEvent[]>([]);
+  const [stats, setStats] = useState<HistoricalStats[]>([]);
+  const [months, setMonths] = useState<MonthlyHistoricalSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [ratings, setRatings] = useState<Record<number, number>>({});
+  const [submittingId, setSubmittingId] = useState<number | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    try {
+      setError(null);
+      const [history, yearlyStats, monthlySummaries] = await Promise.all([
+        apiClient.getLocationHistory(locationId, RECENT_EVENT_LIMIT),
+        apiClient.getLocationHistoryStats(locationId),
+        apiClient.getLocationMonthlyHistory(locationId),
+      ]);
+      setEvents(history.events);
+      setStats(yearlyStats);
+      setMonths(monthlySummaries);
+    } catch (err) {
+      console.error("Failed to load location history:", err);
+      setError("過去の記録を読み込めませんでした。");
+    } finally {
+      setLoading(false);
+    }
+  }, [locationId]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadHistory();
+  }, [loadHistory]);
+
+  const handleReport = async (
+    event: HistoricalEvent,
+    outcome: ObservationOutcome,
+  ) => {
+    setSubmittingId(event.id);
+    try {
+      await apiClient.reportObservation(event.id, {
+        outcome,
+        visibilityRating: ratings[event.id] ?? event.visibilityRating,
+      });
+      await loadHistory();
+    } catch (err) {
+      console.error("Failed to report observation:", err);
+      setError(apiClient.getErrorMessage(err));
+    } finally {
+      setSubmittingId(null);
+    }
+  };
+
+  if (loading) {
+    return <div className="py-8 text-center text-gray-500">読み込み中...</div>;
+  }
+
+  if (error && events.length === 0) {
+    return <div className="py-8 text-center text-red-600">{error}</div>;
+  }
+
+  if (events.length === 0) {
+    return (
+      <div className="py-8 text-center text-gray-500">
+        <p>この地点の過去のイベントはまだありません。</p>
+      </div>
+    );
+  }
+
+  const monthlyRates = summarizeByMonth(months);
+
+  return (
+    <div className="space-y-6">
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {/* 月別の成功率（全期間） */}
+      <div>
+        <h3 className="text-base font-medium text-gray-900 mb-2">
+          月別の成功率
+        </h3>
+        <div className="grid grid-cols-6 sm:grid-cols-12 gap-1 text-center">
+          {monthlyRates.map((rate) => (
+            <div
+              key={rate.month}
+              className={`rounded p-1 ${rate.eventCount > 0 ? "bg-blue-50" : "bg-gray-50"}`}
+              title={`${rate.month}月: イベント ${rate.eventCount} 件・報告 ${rate.reportedCount} 件・成功 ${rate.successCount} 件`}
+            >
+              <div className="text-xs text-gray-500">{rate.month}月</div>
+              <div className="text-sm font-semibold text-gray-900">
+                {formatRate(rate.successRatePercent)}
+              </div>
+              <div className="text-[10px] text-gray-400">
+                {rate.successCount}/{rate.reportedCount}
+              </div>
+            </div>
+          ))}
+        </div>
+        <p className="mt-1 text-xs text-gray-500">
+          成功率は撮影結果が報告されたイベントに対する撮影成功の割合です。
+        </p>
+      </div>
+
+      {/* 年別の成功率 */}
+      {stats.length > 0 && (
+        <div>
+          <h3 className="text-base font-medium text-gray-900 mb-2">
+            年別の成功率
+          </h3>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                <th className="py-1">年</th>
+                <th className="py-1">種類</th>
+                <th className="py-1 text-right">イベント</th>
+                <th className="py-1 text-right">報告</th>
+                <th className="py-1 text-right">成功率</th>
+                <th className="py-1 text-right">見え具合</th>
+              </tr>
+            </thead>
+            <tbody>
+              {stats.map((stat) => (
+                <tr
+                  key={`${stat.year}-${stat.eventType}-${stat.subType}`}
+                  className="border-b border-gray-100 last:border-b-0"
+                >
+                  <td className="py-1">{stat.year}</td>
+                  <td className="py-1">
+                    {getEventTypeLabel(stat.eventType)}
+                    {stat.subType === "sunrise" || stat.subType === "rising"
+                      ? "（昇る）"
+                      : "（沈む）"}
+                  </td>
+                  <td className="py-1 text-right">{stat.totalEvents}</td>
+                  <td className="py-1 text-right">{stat.reportedEvents}</td>
+                  <td className="py-1 text-right">
+                    {formatRate(stat.successRatePercent)}
+                  </td>
+                  <td className="py-1 text-right">
+                    {stat.avgVisibility === null
+                      ? "—"
+                      : `${stat.avgVisibility} / 5`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* 最近の過去イベントと撮影結果の報告 */}
+      <div>
+        <h3 className="text-base font-medium text-gray-900 mb-2">
+          最近のイベントの撮影結果
+        </h3>
+        <ul className="space-y-2">
+          {events.map((event) => (
+            <li key={event.id} className="p-3 bg-gray-50 rounded-lg">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div>
+                  <div className="font-medium text-gray-900">
+                    {getEventTypeLabel(event.eventType)}
+                    {event.subType === "sunrise" || event.subType === "rising"
+                      ? "（昇る）"
+                      : "（沈む）"}
+                  </div>
+                  <div className="text-sm text-gray-600">
+                    {timeUtils.formatDateString(event.eventTime)}{" "}
+                    {timeUtils.formatTimeString(event.eventTime).slice(0, 5)}
+                    {event.outcome && (
+                      <span className="ml-2 text-xs text-gray-500">
+                        報告:{" "}
+                        {
+                          OUTCOME_OPTIONS.find(
+                            (option) => option.value === event.outcome,
+                          )?.label
+                        }
+                        {event.visibilityRating !== undefined &&
+                          `・見え具合 ${event.visibilityRating} / 5`}
+                        {event.reportCount > 1 &&
+                          `（${event.reportCount} 件）`}
+                      </span>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1">
+                  <select
+                    value={ratings[event.id] ?? event.visibilityRating ?? ""}
+                    onChange={(e) =>
+                      setRatings({
+                        ...ratings,
+                        [event.id]: parseInt(e.target.value),
+                      })
+                    }
+                    className="px-1 py-1 text-xs border border-gray-300 rounded"
+                    title="見え具合（1: 見えない〜5: 完璧）"
+                  >
+                    <option value="" disabled>
+                      見え具合
+                    </option>
+                    {[1, 2, 3, 4, 5].map((rating) => (
+                      <option key={rating} value={rating}>
+                        {rating}
+                      </option>
+                    ))}
+                  </select>
+                  {OUTCOME_OPTIONS.map((option) => (
+                    <button
+                      key={option.value}
+                      disabled={submittingId === event.id}
+                      onClick={() => handleReport(event, option.value)}
+                      className={`px-2 py-1 text-xs rounded border transition-colors disabled:opacity-50 ${
+                        event.outcome === option.value
+                          ? option.className
+                          : "bg-white text-gray-700 border-gray-300 hover:bg-gray-100"
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default LocationHistoryPanel;
@@ -0,0 +1,109 @@
+import React, { useState } from "react";
+import { apiClient } from "../services/apiClient";
+
+interface LocationSuggestionPanelProps {
+  position: { latitude: number; longitude: number } | null;
+  onSubmitted: () => void;
+}
+
+/**
+ * 撮影地点の候補の投稿フォーム
+ * 地図をクリックして選んだ位置に、地点名・都道府県・説明を添えて投稿する
+ */
+const LocationSuggestionPanel: React.FC<LocationSuggestionPanelProps> = ({
+  position,
+  onSubmitted,
+}) => {
+  const [name, setName] = useState("");
+  const [prefecture, setPrefecture] = useState("");
+  const [description, setDescription] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!position) return;
+
+    setSubmitting(true);
+    setError(null);
+    setMessage(null);
+    try {
+      setMessage(
+        await apiClient.submitLocationRequest({
+          name,
+          prefecture,
+          description,
+          suggestedCoordinates: position,
+        }),
+      );
+      setName("");
+      setPrefecture("");
+      setDescription("");
+      onSubmitted();
+    } catch (err) {
+      setError(apiClient.getErrorMessage(err));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="px-4 py-3 border-t border-gray-200 bg-gray-50 text-sm">
+      <p className="mb-3 text-gray-600">
+        {position
+          ? `選択中の位置: ${position.latitude.toFixed(5)}, ${position.longitude.toFixed(5)}`
+          : "地図をクリックして、撮影地点の位置を選んでください。"}
+      </p>
+      <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-3">
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-gray-500">地点名</span>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={255}
+            required
+            className="px-2 py-1 border border-gray-300 rounded"
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-gray-500">都道府県</span>
+          <input
+            type="text"
+            value={prefecture}
+            onChange={(e) => setPrefecture(e.target.value)}
+            maxLength={100}
+            required
+            placeholder="静岡県"
+            className="px-2 py-1 border border-gray-300 rounded w-28"
+          />
+        </label>
+        <label className="flex flex-col gap-1 flex-1 min-w-[12rem]">
+          <span className="text-xs text-gray-500">説明</span>
+          <input
+            type="text"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            maxLength={2000}
+            required
+            placeholder="見える方向・アクセス・駐車場など"
+            className="px-2 py-1 border border-gray-300 rounded"
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={!position || submitting}
+          className="px-3 py-1.5 rounded bg-gray-800 text-white hover:bg-gray-700 disabled:opacity-50"
+        >
+          {submitting ? "送信中..." : "投稿する"}
+        </button>
+      </form>
+
+      {error && <p className="mt-3 text-red-600">{error}</p>}
+      {message && <p className="mt-3 text-green-700">{message}</p>}
+    </div>
+  );
+};
+
+export default LocationSuggestionPanel;
@@ -0,0 +1,44 @@
+import React, { memo } from "react";
+
+interface MoonPhaseGlyphProps {
+  moonPhase: number; // 月相（0-360 度、0: 新月、180: 満月）
+  tilt: number; // 観測者から見た輝面の向き（度、天頂から反時計回り）
+  size?: number;
+}
+
+/**
+ * 観測者から見た向きで月の満ち欠けを描画
+ * 輝面を右向きに描いてから、輝面が tilt の方向を向くように回転する
+ */
+const MoonPhaseGlyph: React.FC<MoonPhaseGlyphProps> = memo(
+  ({ moonPhase, tilt, size = 16 }) => {
+    // 輝面比（月相角から求める。0: 新月、1: 満月）
+    const fraction = (1 - Math.cos((moonPhase * Math.PI) / 180)) / 2;
+    // 明暗境界線は楕円で描き、半月で直線、三日月と十三夜で膨らむ向きが逆になる
+    const terminatorRadius = Math.abs(1 - 2 * fraction);
+    const terminatorSweep = fraction < 0.5 ? 0 : 1;
+    const litPath = `M 0 -1 A 1 1 0 0 1 0 1 A ${terminatorRadius} 1 0 0 ${terminatorSweep} 0 -1 Z`;
+
+    return (
+      <svg
+        width={size}
+        height={size}
+        viewBox="-1.1 -1.1 2.2 2.2"
+        className="inline-block align-text-bottom"
+        role="img"
+        aria-label={`輝面比 ${Math.round(fraction * 100)}%`}
+      >
+        <circle r={1} fill="#374151" />
+        <path
+          d={litPath}
+          fill="#fde68a"
+          transform={`rotate(${-90 - tilt})`}
+        />
+      </svg>
+    );
+  },
+);
+
+MoonPhaseGlyph.displayName = "MoonPhaseGlyph";
+
+export default MoonPhaseGlyph;
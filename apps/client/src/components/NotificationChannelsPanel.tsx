@@ -0,0 +1,230 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  NotificationChannel,
+  NotificationChannelType,
+} from "@fuji-calendar/types";
+import { userService } from "../services/userService";
+
+const CHANNEL_TYPE_OPTIONS: {
+  value: NotificationChannelType;
+  label: string;
+  targetPlaceholder?: string;
+  secretLabel?: string;
+}[] = [
+  { value: "email", label: "メール" },
+  {
+    value: "slack",
+    label: "Slack",
+    targetPlaceholder: "https://hooks.slack.com/services/...",
+  },
+  {
+    value: "line",
+    label: "LINE",
+    targetPlaceholder: "https://api.line.me/v2/bot/message/broadcast",
+    secretLabel: "チャネルアクセストークン",
+  },
+  {
+    value: "webhook",
+    label: "Webhook",
+    targetPlaceholder: "https://example.com/webhook",
+    secretLabel: "署名鍵（任意）",
+  },
+];
+
+const LEAD_TIME_UNITS = [
+  { value: 60, label: "時間前" },
+  { value: 24 * 60, label: "日前" },
+];
+
+const getChannelTypeLabel = (type: NotificationChannelType): string =>
+  CHANNEL_TYPE_OPTIONS.find((option) => option.value === type)?.label ?? type;
+
+const formatLeadTime = (minutes: number): string => {
+  if (minutes % (24 * 60) === 0) {
+    return `${minutes / (24 * 60)} 日前`;
+  }
+  if (minutes % 60 === 0) {
+    return `${minutes / 60} 時間前`;
+  }
+  return `${minutes} 分前`;
+};
+
+/**
+ * お気に入りイベントの通知先の設定（ログイン中のみ表示）
+ */
+const NotificationChannelsPanel: React.FC = () => {
+  const [channels, setChannels] = useState<NotificationChannel[]>([]);
+  const [type, setType] = useState<NotificationChannelType>("email");
+  const [target, setTarget] = useState("");
+  const [secret, setSecret] = useState("");
+  const [leadTime, setLeadTime] = useState(1);
+  const [leadTimeUnit, setLeadTimeUnit] = useState(24 * 60);
+  const [message, setMessage] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const selectedType = CHANNEL_TYPE_OPTIONS.find(
+    (option) => option.value === type,
+  )!;
+
+  const loadChannels = useCallback(async () => {
+    const result = await userService.fetchNotificationChannels();
+    if (result) {
+      setChannels(result);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadChannels();
+  }, [loadChannels]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const result = await userService.createNotificationChannel({
+        type,
+        target: type === "email" ? undefined : target.trim(),
+        secret: selectedType.secretLabel && secret ? secret : undefined,
+        leadTimeMinutes: leadTime * leadTimeUnit,
+      });
+      setMessage(result.message ?? null);
+      if (result.success) {
+        setTarget("");
+        setSecret("");
+        await loadChannels();
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (channelId: number) => {
+    if (!confirm("この通知先を削除しますか？")) {
+      return;
+    }
+    if (await userService.deleteNotificationChannel(channelId)) {
+      setChannels(channels.filter((channel) => channel.id !== channelId));
+    }
+  };
+
+  const handleTest = async (channelId: number) => {
+    const result = await userService.sendTestNotification(channelId);
+    setMessage(result.message ?? null);
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200">
+      <h3 className="text-sm font-semibold text-gray-900">
+        お気に入りイベントの通知
+      </h3>
+      <p className="text-xs text-gray-500 mt-1 mb-3">
+        お気に入りに追加したイベントの前に、メール・Slack・LINE・Webhook
+        でお知らせします。
+      </p>
+
+      {channels.length > 0 && (
+        <ul className="mb-3 divide-y divide-gray-100 border border-gray-200 rounded-md">
+          {channels.map((channel) => (
+            <li
+              key={channel.id}
+              className="flex items-center justify-between px-3 py-2 text-sm"
+            >
+              <div className="min-w-0">
+                <span className="font-medium text-gray-900">
+                  {getChannelTypeLabel(channel.type)}
+                </span>
+                <span className="ml-2 text-gray-600">
+                  {formatLeadTime(channel.leadTimeMinutes)}
+                </span>
+                {!channel.enabled && (
+                  <span className="ml-2 text-xs text-gray-400">停止中</span>
+                )}
+                <div className="text-xs text-gray-500 truncate">
+                  {channel.target}
+                </div>
+              </div>
+              <div className="flex gap-2 shrink-0 ml-2">
+                <button
+                  className="px-2 py-1 text-xs text-blue-600 hover:bg-blue-50 rounded-md border border-blue-200"
+                  onClick={() => handleTest(channel.id)}
+                >
+                  テスト送信
+                </button>
+                <button
+                  className="px-2 py-1 text-xs text-red-600 hover:bg-red-50 rounded-md border border-red-200"
+                  onClick={() => handleDelete(channel.id)}
+                >
+                  削除
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleCreate} className="flex flex-wrap gap-2">
+        <select
+          value={type}
+          onChange={(e) => setType(e.target.value as NotificationChannelType)}
+          className="px-2 py-1.5 text-sm border border-gray-300 rounded-md"
+        >
+          {CHANNEL_TYPE_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        {selectedType.targetPlaceholder && (
+          <input
+            type="url"
+            required
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            placeholder={selectedType.targetPlaceholder}
+            className="flex-1 min-w-[12rem] px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+        )}
+        {selectedType.secretLabel && (
+          <input
+            type="password"
+            required={type === "line"}
+            value={secret}
+            onChange={(e) => setSecret(e.target.value)}
+            placeholder={selectedType.secretLabel}
+            className="flex-1 min-w-[10rem] px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+        )}
+        <input
+          type="number"
+          min={1}
+          max={leadTimeUnit === 60 ? 720 : 30}
+          required
+          value={leadTime}
+          onChange={(e) => setLeadTime(parseInt(e.target.value) || 1)}
+          className="w-16 px-2 py-1.5 text-sm border border-gray-300 rounded-md"
+        />
+        <select
+          value={leadTimeUnit}
+          onChange={(e) => setLeadTimeUnit(parseInt(e.target.value))}
+          className="px-2 py-1.5 text-sm border border-gray-300 rounded-md"
+        >
+          {LEAD_TIME_UNITS.map((unit) => (
+            <option key={unit.value} value={unit.value}>
+              {unit.label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-3 py-1.5 text-sm bg-blue-600 text-white hover:bg-blue-700 rounded-md transition-colors disabled:opacity-50"
+        >
+          通知先を追加
+        </button>
+      </form>
+      {message && <p className="text-sm text-gray-600 mt-2">{message}</p>}
+    </div>
+  );
+};
+
+export default NotificationChannelsPanel;
@@ -107,10 +107,19 @@ const SimpleCalendar: React.FC<SimpleCalendarProps> = ({
       (event) => event.type === "pearl",
     ).length;
 
+    // 予報期間内のイベントのうち、最も撮影できる見込みが高いもの
+    const shootabilityScores = allFujiEvents
+      .map((event) => event.shootabilityScore)
+      .filter((score): score is number => score !== undefined);
+
     return {
       total: allFujiEvents.length,
       diamond: diamondCount,
       pearl: pearlCount,
+      bestShootability:
+        shootabilityScores.length > 0
+          ? Math.max(...shootabilityScores)
+          : undefined,
       events: allFujiEvents,
     };
   };
@@ -236,6 +245,27 @@ const SimpleCalendar: React.FC<SimpleCalendarProps> = ({
                         <span className="text-xs font-semibold bg-white px-1.5 py-0.5 rounded-full border border-gray-200 text-gray-700">
                           {eventDetails.total}件
                         </span>
+                        {eventDetails.bestShootability !== undefined && (
+                          <span
+                            className={`flex items-center text-[10px] leading-none ${
+                              eventDetails.bestShootability >= 50
+                                ? "text-green-600"
+                                : "text-gray-400"
+                            }`}
+                            title="雲量予報による撮影できる見込み"
+                          >
+                            <Icon
+                              name={
+                                eventDetails.bestShootability >= 50
+                                  ? "sun"
+                                  : "cloud"
+                              }
+                              size={10}
+                              className="mr-0.5"
+                            />
+                            {eventDetails.bestShootability}%
+                          </span>
+                        )}
                       </div>
                     )}
                     {/* 月齢表示 */}
@@ -265,6 +295,10 @@ const SimpleCalendar: React.FC<SimpleCalendarProps> = ({
           <Icon name="moon" size={16} className="text-blue-500" />
           <span>パール富士</span>
         </div>
+        <div className="flex items-center space-x-1">
+          <Icon name="cloud" size={16} className="text-gray-400" />
+          <span>撮影見込み（予報）</span>
+        </div>
         <div className="flex items-center space-x-1">
           <div className="w-3 h-3 bg-blue-600 rounded-full"></div>
           <span>選択中</span>
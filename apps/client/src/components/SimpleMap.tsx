@@ -1,9 +1,18 @@
-import React, { useEffect, useRef } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import L from "leaflet";
 import "leaflet/dist/leaflet.css";
 import * as Astronomy from "astronomy-engine";
-import { Location, FujiEvent, FUJI_COORDINATES } from "@fuji-calendar/types";
-import { CameraSettings } from "./CameraPanel";
+import {
+  Location,
+  FujiEvent,
+  FUJI_COORDINATES,
+  AlignmentLine,
+} from "@fuji-calendar/types";
+import { CameraSettings, getFieldOfView } from "./CameraPanel";
+import AlignmentLinePanel, { AlignmentLineSearch } from "./AlignmentLinePanel";
+import LocationSuggestionPanel from "./LocationSuggestionPanel";
+import { CelestialTrack } from "./CelestialPathScrubber";
+import { apiClient } from "../services/apiClient";
 
 // Leaflet のアイコン設定を修正
 delete (L.Icon.Default.prototype as unknown as { _getIconUrl: unknown })
@@ -15,50 +24,12 @@ L.Icon.Default.mergeOptions({
   shadowUrl: "https://unpkg.com/leaflet@1.9.4/dist/images/marker-shadow.png",
 });
 
-// 画角計算ヘルパー関数
-const getFieldOfViewAngle = (
-  focalLength: number,
-  sensorType: string,
-  aspectRatio: string = "3:2",
-  orientation: string = "landscape",
-): number => {
-  const sensorDimensions = {
-    fullframe: { width: 36, height: 24 }, // mm
-    apsc: { width: 23.5, height: 15.6 }, // mm (Canon APS-C)
-    micro43: { width: 17.3, height: 13 }, // mm
-  };
-
-  const sensor =
-    sensorDimensions[sensorType as keyof typeof sensorDimensions] ||
-    sensorDimensions.fullframe;
-
-  const aspectRatios = {
-    "3:2": 3 / 2,
-    "4:3": 4 / 3,
-    "16:9": 16 / 9,
-    "1:1": 1 / 1,
-  };
-
-  const ratio =
-    aspectRatios[aspectRatio as keyof typeof aspectRatios] ||
-    aspectRatios["3:2"];
-
-  let actualWidth = sensor.width;
-  let actualHeight = sensor.height;
-
-  if (ratio > sensor.width / sensor.height) {
-    actualHeight = sensor.width / ratio;
-  } else {
-    actualWidth = sensor.height * ratio;
-  }
-
-  // 撮影向きに応じて水平画角を計算（地図表示用）
-  if (orientation === "portrait") {
-    [actualWidth, actualHeight] = [actualHeight, actualWidth];
-  }
+// これより短い移動は誤差の範囲として表示しない（m）
+const MIN_OBSERVER_OFFSET = 10;
 
-  return 2 * Math.atan(actualWidth / (2 * focalLength)) * (180 / Math.PI);
-};
+// 天体の軌跡の方向線の長さ（m）と、描画する点の間隔（点数）
+const TRACK_RAY_DISTANCE = 350000;
+const TRACK_RAY_STEP = 2;
 
 // 指定した方位角と距離の地点を計算
 const getPointAtDistance = (
@@ -152,18 +123,50 @@ interface SimpleMapProps {
   selectedEventId?: string;
   onLocationSelect?: (location: Location) => void;
   cameraSettings: CameraSettings;
+  celestialTrack?: CelestialTrack | null;
 }
 
 const SimpleMap: React.FC<SimpleMapProps> = ({
   locations: _locations,
+  selectedDate,
   selectedEvents,
   selectedLocationId,
   selectedEventId,
   onLocationSelect,
   cameraSettings,
+  celestialTrack,
 }) => {
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<L.Map | null>(null);
+  const trackLayerRef = useRef<L.LayerGroup | null>(null);
+  // events: 選択日のイベント表示、standpoint: 撮影地点の逆算、suggest: 撮影地点の候補の投稿
+  const [mode, setMode] = useState<"events" | "standpoint" | "suggest">(
+    "events",
+  );
+  const [suggestedPosition, setSuggestedPosition] = useState<{
+    latitude: number;
+    longitude: number;
+  } | null>(null);
+  const [alignmentLine, setAlignmentLine] = useState<AlignmentLine | null>(
+    null,
+  );
+  const [alignmentLineLoading, setAlignmentLineLoading] = useState(false);
+  const [alignmentLineError, setAlignmentLineError] = useState<string | null>(
+    null,
+  );
+
+  const handleAlignmentLineSearch = async (search: AlignmentLineSearch) => {
+    setAlignmentLineLoading(true);
+    setAlignmentLineError(null);
+    try {
+      setAlignmentLine(await apiClient.getAlignmentLine(search));
+    } catch (error) {
+      setAlignmentLine(null);
+      setAlignmentLineError("撮影地点の逆算に失敗しました。");
+    } finally {
+      setAlignmentLineLoading(false);
+    }
+  };
 
   // 地図の初期化
   useEffect(() => {
@@ -186,6 +189,26 @@ const SimpleMap: React.FC<SimpleMapProps> = ({
     };
   }, []);
 
+  // 候補の投稿中は地図のクリックで位置を選択
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map || mode !== "suggest") return;
+
+    const handleClick = (e: L.LeafletMouseEvent) => {
+      setSuggestedPosition({
+        latitude: e.latlng.lat,
+        longitude: e.latlng.lng,
+      });
+    };
+    map.on("click", handleClick);
+    map.getContainer().style.cursor = "crosshair";
+
+    return () => {
+      map.off("click", handleClick);
+      map.getContainer().style.cursor = "";
+    };
+  }, [mode]);
+
   // マーカーの更新
   useEffect(() => {
     if (!mapInstanceRef.current) return;
@@ -215,6 +238,88 @@ const SimpleMap: React.FC<SimpleMapProps> = ({
       icon: fujiIcon,
     }).addTo(map);
 
+    // 撮影地点の候補の投稿：選択した位置と富士山への方向
+    if (mode === "suggest") {
+      if (!suggestedPosition) return;
+
+      const position: [number, number] = [
+        suggestedPosition.latitude,
+        suggestedPosition.longitude,
+      ];
+      L.marker(position).bindTooltip("投稿する位置").addTo(map);
+      L.polyline(
+        [position, [FUJI_COORDINATES.latitude, FUJI_COORDINATES.longitude]],
+        { color: "#ef4444", weight: 2, opacity: 0.7, dashArray: "6, 6" },
+      ).addTo(map);
+      return;
+    }
+
+    // 撮影地点の逆算：天体が山頂に重なる線と、線の近くの撮影地点
+    if (mode === "standpoint") {
+      if (!alignmentLine || alignmentLine.points.length === 0) return;
+
+      const isDiamond = alignmentLine.eventType.startsWith("diamond");
+      const linePoints = alignmentLine.points.map(
+        (point) => [point.latitude, point.longitude] as [number, number],
+      );
+      L.polyline(linePoints, {
+        color: isDiamond ? "#f59e0b" : "#a855f7",
+        weight: 5,
+        opacity: 0.8,
+      })
+        .bindTooltip(
+          `${alignmentLine.points[0].time.toLocaleTimeString("ja-JP", {
+            hour: "2-digit",
+            minute: "2-digit",
+          })}〜${alignmentLine.points[
+            alignmentLine.points.length - 1
+          ].time.toLocaleTimeString("ja-JP", {
+            hour: "2-digit",
+            minute: "2-digit",
+          })}`,
+          { sticky: true },
+        )
+        .addTo(map);
+
+      alignmentLine.candidates.forEach((candidate) => {
+        const marker = L.marker(
+          [candidate.location.latitude, candidate.location.longitude],
+          {
+            icon: L.divIcon({
+              html: `<div style="
+                width: 22px;
+                height: 22px;
+                background: #10b981;
+                border: 2px solid white;
+                border-radius: 50%;
+                display: flex;
+                align-items: center;
+                justify-content: center;
+                font-size: 11px;
+                box-shadow: 0 2px 6px rgba(0,0,0,0.4);
+              ">📷</div>`,
+              className: "",
+              iconSize: [22, 22],
+              iconAnchor: [11, 11],
+            }),
+          },
+        )
+          .bindTooltip(candidate.location.name)
+          .addTo(map);
+
+        if (onLocationSelect) {
+          marker.on("click", () => {
+            onLocationSelect(candidate.location);
+          });
+        }
+      });
+
+      const bounds = L.latLngBounds(linePoints);
+      bounds.extend([FUJI_COORDINATES.latitude, FUJI_COORDINATES.longitude]);
+      map.fitBounds(bounds, { padding: [20, 20] });
+      return;
+    }
+
     // その日にイベントがある地点のみを表示
     const eventLocations = selectedEvents?.map((event) => event.location) || [];
     const uniqueEventLocations = eventLocations.filter(
@@ -347,7 +452,10 @@ const SimpleMap: React.FC<SimpleMapProps> = ({
           // Astronomy Engine による高精度計算の適用
 
           // 撮影地→太陽・月方向の線（ゴールド/紫）
-          const celestialAzimuth = calculatedCelestial.azimuth; // Astronomy Engine 計算値を使用
+          // 惑星・恒星はクライアントで位置を計算しないため、整列時の方位角を使用
+          const celestialAzimuth = event.celestialBody
+            ? event.azimuth
+            : calculatedCelestial.azimuth; // Astronomy Engine 計算値を使用
           const celestialDistance = 350000; // 撮影地点から 350km 先まで
 
           const celestialPoint = getPointAtDistance(
@@ -357,9 +465,12 @@ const SimpleMap: React.FC<SimpleMapProps> = ({
             celestialDistance,
           );
 
-          // 太陽の場合はゴールド、月の場合は薄い紫
-          const celestialColor =
-            event.type === "diamond" ? "#fbbf24" : "#c084fc";
+          // 太陽の場合はゴールド、月の場合は薄い紫、惑星・恒星は藍色
+          const celestialColor = event.celestialBody
+            ? "#6366f1"
+            : event.type === "diamond"
+              ? "#fbbf24"
+              : "#c084fc";
 
           L.polyline(
             [[location.latitude, location.longitude], celestialPoint],
@@ -370,16 +481,36 @@ const SimpleMap: React.FC<SimpleMapProps> = ({
               dashArray: event.type === "diamond" ? "15, 5" : "8, 8",
             },
           ).addTo(map);
+
+          // 山頂中央に正確に重なる位置への移動方向（数百 m のため縮尺に関わらず矢印で表示）
+          if (
+            event.observerOffsetDistance !== undefined &&
+            event.observerOffsetBearing !== undefined &&
+            event.observerOffsetDistance >= MIN_OBSERVER_OFFSET
+          ) {
+            L.marker([location.latitude, location.longitude], {
+              icon: L.divIcon({
+                html: `<svg width="64" height="64" viewBox="0 0 64 64" style="transform: rotate(${event.observerOffsetBearing}deg);">
+                  <line x1="32" y1="15" x2="32" y2="2" stroke="#059669" stroke-width="3" />
+                  <polygon points="32,0 26,9 38,9" fill="#059669" />
+                </svg>`,
+                className: "",
+                iconSize: [64, 64],
+                iconAnchor: [32, 32],
+              }),
+              zIndexOffset: -100,
+            })
+              .bindTooltip(
+                `${event.observerOffsetDistance}m 移動（方位 ${Math.round(event.observerOffsetBearing)}°）で山頂中央に重なります`,
+              )
+              .addTo(map);
+          }
         });
 
         // 画角表示
         if (cameraSettings.showAngles && location.fujiAzimuth) {
-          const angle = getFieldOfViewAngle(
-            cameraSettings.focalLength,
-            cameraSettings.sensorType,
-            cameraSettings.aspectRatio,
-            cameraSettings.orientation,
-          );
+          // 撮影向きに応じた水平画角
+          const angle = getFieldOfView(cameraSettings).horizontal;
           const distance = location.fujiDistance
             ? location.fujiDistance
             : 50000; // meters (既にメートル単位)
@@ -466,12 +597,112 @@ const SimpleMap: React.FC<SimpleMapProps> = ({
     selectedEvents,
     onLocationSelect,
     cameraSettings,
+    mode,
+    alignmentLine,
+    suggestedPosition,
+  ]);
+
+  // 天体の軌跡：前後の時刻の方向線と、スクラバーで選択中の時刻の方向線
+  // マーカーの更新で線が消えるため、同じ条件でも描き直す
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map) return;
+
+    trackLayerRef.current?.remove();
+    trackLayerRef.current = null;
+
+    if (mode !== "events" || !celestialTrack) return;
+
+    const { path, index } = celestialTrack;
+    const trackEvent = selectedEvents?.find(
+      (event) => event.id === path.eventId,
+    );
+    if (!trackEvent || trackEvent.location.id !== selectedLocationId) return;
+
+    const { location } = trackEvent;
+    const origin: [number, number] = [location.latitude, location.longitude];
+    const color = trackEvent.celestialBody
+      ? "#6366f1"
+      : trackEvent.type === "diamond"
+        ? "#fbbf24"
+        : "#c084fc";
+    const layer = L.layerGroup().addTo(map);
+
+    path.points.forEach((point, i) => {
+      if (i % TRACK_RAY_STEP !== 0 || i === index) return;
+      L.polyline(
+        [
+          origin,
+          getPointAtDistance(
+            location.latitude,
+            location.longitude,
+            point.azimuth,
+            TRACK_RAY_DISTANCE,
+          ),
+        ],
+        { color, weight: 1, opacity: point.elevation < 0 ? 0.15 : 0.35 },
+      ).addTo(layer);
+    });
+
+    const current = path.points[index];
+    L.polyline(
+      [
+        origin,
+        getPointAtDistance(
+          location.latitude,
+          location.longitude,
+          current.azimuth,
+          TRACK_RAY_DISTANCE,
+        ),
+      ],
+      { color, weight: 5, opacity: 0.95 },
+    )
+      .bindTooltip(
+        `${current.time.toLocaleTimeString("ja-JP", {
+          hour: "2-digit",
+          minute: "2-digit",
+          second: "2-digit",
+        })} 方位角 ${current.azimuth.toFixed(2)}° / 高度 ${current.elevation.toFixed(2)}°`,
+        { sticky: true },
+      )
+      .addTo(layer);
+
+    trackLayerRef.current = layer;
+  }, [
+    celestialTrack,
+    selectedLocationId,
+    selectedEventId,
+    selectedEvents,
+    onLocationSelect,
+    cameraSettings,
+    mode,
   ]);
 
   return (
     <div className="bg-white rounded-lg overflow-hidden shadow-md">
-      <div className="px-4 py-3 border-b border-gray-200 bg-gray-50">
+      <div className="px-4 py-3 border-b border-gray-200 bg-gray-50 flex items-center justify-between">
         <h3 className="m-0 text-lg font-semibold">撮影地点</h3>
+        <div className="flex rounded border border-gray-300 overflow-hidden text-sm">
+          {(
+            [
+              { value: "events", label: "イベント" },
+              { value: "standpoint", label: "立ち位置を探す" },
+              { value: "suggest", label: "地点を投稿" },
+            ] as const
+          ).map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setMode(option.value)}
+              className={`px-3 py-1 ${
+                mode === option.value
+                  ? "bg-gray-800 text-white"
+                  : "bg-white text-gray-700 hover:bg-gray-100"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
       </div>
 
       <div
@@ -479,6 +710,21 @@ const SimpleMap: React.FC<SimpleMapProps> = ({
         className="w-full h-96"
       />
 
+      {mode === "suggest" ? (
+        <LocationSuggestionPanel
+          position={suggestedPosition}
+          onSubmitted={() => setSuggestedPosition(null)}
+        />
+      ) : mode === "standpoint" ? (
+        <AlignmentLinePanel
+          initialDate={selectedDate}
+          alignmentLine={alignmentLine}
+          loading={alignmentLineLoading}
+          error={alignmentLineError}
+          onSearch={handleAlignmentLineSearch}
+          onLocationSelect={onLocationSelect}
+        />
+      ) : (
       <div className="px-3 py-2 bg-gray-50 border-t border-gray-200">
           <div className="flex items-center gap-4 text-sm flex-wrap">
             <div className="flex items-center gap-1">
@@ -493,6 +739,16 @@ const SimpleMap: React.FC<SimpleMapProps> = ({
               <div className="w-3 h-0.5 bg-purple-400 border-t border-b border-dashed border-purple-400"></div>
               <span>撮影地点→月</span>
             </div>
+            {celestialTrack && (
+              <div className="flex items-center gap-1">
+                <div className="w-3 h-0.5 bg-gray-400"></div>
+                <span>天体の軌跡（前後 30 分）</span>
+              </div>
+            )}
+            <div className="flex items-center gap-1">
+              <span className="text-emerald-600 font-bold leading-none">↑</span>
+              <span>山頂中央に重なる移動方向</span>
+            </div>
             <div className="flex items-center gap-1">
               <div className="w-3 h-3 bg-red-600 rounded-full"></div>
               <span>〜50km</span>
@@ -529,6 +785,7 @@ const SimpleMap: React.FC<SimpleMapProps> = ({
             )}
           </div>
       </div>
+      )}
     </div>
   );
 };
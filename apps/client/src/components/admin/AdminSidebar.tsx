@@ -72,6 +72,12 @@ const MENU_ITEMS = [
     label: '撮影地点管理',
     subLabel: '地点の登録・編集・削除',
   },
+  {
+    view: 'requests' as AdminView,
+    icon: 'mapPin' as const,
+    label: '地点候補の審査',
+    subLabel: '投稿された地点の承認・却下',
+  },
   {
     view: 'queue' as AdminView,
     icon: 'queue' as const,
@@ -96,6 +102,12 @@ const MENU_ITEMS = [
     label: 'ユーザー管理',
     subLabel: '管理者アカウント管理',
   },
+  {
+    view: 'apiKeys' as AdminView,
+    icon: 'key' as const,
+    label: 'API キー',
+    subLabel: '公開 API のキーと上限',
+  },
   {
     view: 'settings' as AdminView,
     icon: 'settings' as const,
@@ -0,0 +1,405 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Icon } from "@fuji-calendar/ui";
+import { ApiKey, ApiKeyRequest } from "@fuji-calendar/types";
+import { getComponentLogger } from "@fuji-calendar/utils";
+import { authService } from "../../services/authService";
+
+const logger = getComponentLogger("ApiKeyManager");
+
+// API レスポンスでは日時は文字列
+type ApiKeyItem = Omit<ApiKey, "lastUsedAt" | "createdAt"> & {
+  lastUsedAt?: string;
+  createdAt: string;
+};
+
+interface LimitForm {
+  rateLimitPerMinute: string;
+  dailyQuota: string;
+}
+
+const DEFAULT_FORM = {
+  name: "",
+  rateLimitPerMinute: "60",
+  dailyQuota: "10000",
+};
+
+/**
+ * 公開 API（/api/v1）の API キー管理
+ * 発行したキーは再表示できないため、発行直後に一度だけ表示する
+ */
+const ApiKeyManager: React.FC = () => {
+  const [apiKeys, setApiKeys] = useState<ApiKeyItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState(DEFAULT_FORM);
+  const [issuedKey, setIssuedKey] = useState<string | null>(null);
+  const [limits, setLimits] = useState<Record<number, LimitForm>>({});
+  const [processingId, setProcessingId] = useState<number | "new" | null>(null);
+
+  const loadApiKeys = useCallback(async () => {
+    try {
+      setError(null);
+      const response = await authService.authenticatedFetch(
+        "/api/admin/api-keys",
+      );
+
+      if (!response.ok) {
+        throw new Error(`API キーの取得に失敗しました: ${response.status}`);
+      }
+
+      const data = await response.json();
+      setApiKeys(data.apiKeys);
+    } catch (err) {
+      logger.error("API キー読み込みエラー", err);
+      setError(
+        err instanceof Error ? err.message : "API キーの読み込みに失敗しました",
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadApiKeys();
+  }, [loadApiKeys]);
+
+  const sendRequest = async (
+    id: number | "new",
+    path: string,
+    method: "POST" | "PUT" | "DELETE",
+    body?: ApiKeyRequest,
+  ) => {
+    setProcessingId(id);
+    setError(null);
+    try {
+      const response = await authService.authenticatedFetch(path, {
+        method,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(
+          data.message || `処理に失敗しました: ${response.status}`,
+        );
+      }
+
+      await loadApiKeys();
+      return data;
+    } catch (err) {
+      logger.error("API キー処理エラー", err, { id, method });
+      setError(err instanceof Error ? err.message : "処理に失敗しました");
+      return null;
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = await sendRequest("new", "/api/admin/api-keys", "POST", {
+      name: form.name.trim(),
+      rateLimitPerMinute: parseInt(form.rateLimitPerMinute),
+      dailyQuota: parseInt(form.dailyQuota),
+    });
+    if (data) {
+      setIssuedKey(data.key);
+      setForm(DEFAULT_FORM);
+    }
+  };
+
+  const handleUpdate = (apiKey: ApiKeyItem, changes: Partial<ApiKeyRequest>) =>
+    sendRequest(apiKey.id, `/api/admin/api-keys/${apiKey.id}`, "PUT", {
+      name: apiKey.name,
+      rateLimitPerMinute: apiKey.rateLimitPerMinute,
+      dailyQuota: apiKey.dailyQuota,
+      enabled: apiKey.enabled,
+      ...changes,
+    });
+
+  const handleSaveLimits = async (apiKey: ApiKeyItem) => {
+    const limit = limits[apiKey.id];
+    const data = await handleUpdate(apiKey, {
+      rateLimitPerMinute: parseInt(limit.rateLimitPerMinute),
+      dailyQuota: parseInt(limit.dailyQuota),
+    });
+    if (data) {
+      setLimits((current) => {
+        const next = { ...current };
+        delete next[apiKey.id];
+        return next;
+      });
+    }
+  };
+
+  const handleDelete = (apiKey: ApiKeyItem) => {
+    if (
+      !confirm(
+        `API キー「${apiKey.name}」を削除しますか？このキーを使っているスクリプトは利用できなくなります。`,
+      )
+    ) {
+      return;
+    }
+    sendRequest(apiKey.id, `/api/admin/api-keys/${apiKey.id}`, "DELETE");
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h3 className="text-lg font-semibold text-gray-900">API キー</h3>
+        <p className="text-sm text-gray-600 mt-1">
+          公開
+          API（/api/v1）のキーの発行とリクエスト数の上限の設定を行います。仕様は{" "}
+          <a
+            href="/api/v1/openapi.json"
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-blue-600 hover:underline"
+          >
+            OpenAPI ドキュメント
+          </a>
+          を参照してください
+        </p>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {error && (
+          <div className="flex items-center text-sm text-red-600">
+            <Icon name="warning" size={16} className="mr-2" />
+            {error}
+          </div>
+        )}
+
+        {issuedKey && (
+          <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+            <p className="text-sm font-medium text-yellow-800">
+              API
+              キーを発行しました。このキーは再表示できないため控えてください。
+            </p>
+            <div className="mt-2 flex items-center gap-2">
+              <code className="flex-1 px-2 py-1 bg-white border border-yellow-200 rounded text-sm break-all">
+                {issuedKey}
+              </code>
+              <button
+                onClick={() => navigator.clipboard.writeText(issuedKey)}
+                className="px-3 py-1 text-sm bg-white border border-gray-300 rounded hover:bg-gray-100"
+              >
+                コピー
+              </button>
+              <button
+                onClick={() => setIssuedKey(null)}
+                className="text-gray-500 hover:text-gray-700"
+                aria-label="閉じる"
+              >
+                <Icon name="close" size={16} />
+              </button>
+            </div>
+          </div>
+        )}
+
+        <form
+          onSubmit={handleCreate}
+          className="flex flex-wrap items-end gap-3 text-sm"
+        >
+          <label className="flex flex-col gap-1 flex-1 min-w-[12rem]">
+            <span className="text-xs text-gray-500">名前</span>
+            <input
+              type="text"
+              required
+              maxLength={100}
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="例: 集計スクリプト"
+              className="px-2 py-1 border border-gray-300 rounded"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-gray-500">回/分</span>
+            <input
+              type="number"
+              min={1}
+              required
+              value={form.rateLimitPerMinute}
+              onChange={(e) =>
+                setForm({ ...form, rateLimitPerMinute: e.target.value })
+              }
+              className="w-24 px-2 py-1 border border-gray-300 rounded"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-gray-500">回/日</span>
+            <input
+              type="number"
+              min={1}
+              required
+              value={form.dailyQuota}
+              onChange={(e) => setForm({ ...form, dailyQuota: e.target.value })}
+              className="w-28 px-2 py-1 border border-gray-300 rounded"
+            />
+          </label>
+          <button
+            type="submit"
+            disabled={processingId === "new"}
+            className="flex items-center px-3 py-1.5 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50"
+          >
+            <Icon name="key" size={14} className="mr-1" />
+            発行
+          </button>
+        </form>
+
+        {loading ? (
+          <p className="text-center text-gray-500">読み込み中...</p>
+        ) : apiKeys.length === 0 ? (
+          <p className="text-center text-gray-500">
+            発行済みの API キーはありません。
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {apiKeys.map((apiKey) => {
+              const limit = limits[apiKey.id];
+              return (
+                <li
+                  key={apiKey.id}
+                  className={`p-4 border border-gray-200 rounded-lg ${
+                    apiKey.enabled ? "" : "bg-gray-50"
+                  }`}
+                >
+                  <div className="flex flex-wrap justify-between gap-2">
+                    <div>
+                      <div className="font-medium text-gray-900">
+                        {apiKey.name}
+                        {!apiKey.enabled && (
+                          <span className="ml-2 text-xs text-gray-500">
+                            停止中
+                          </span>
+                        )}
+                      </div>
+                      <code className="text-xs text-gray-500">
+                        {apiKey.keyPrefix}...
+                      </code>
+                    </div>
+                    <div className="text-right text-xs text-gray-500">
+                      <div>
+                        今日: {apiKey.usageToday ?? "-"} /{" "}
+                        {apiKey.dailyQuota.toLocaleString()} 回
+                      </div>
+                      <div>
+                        最終使用:{" "}
+                        {apiKey.lastUsedAt
+                          ? new Date(apiKey.lastUsedAt).toLocaleString("ja-JP")
+                          : "なし"}
+                      </div>
+                      <div>
+                        発行:{" "}
+                        {new Date(apiKey.createdAt).toLocaleString("ja-JP")}
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="mt-3 flex flex-wrap items-end gap-3 text-sm">
+                    {limit ? (
+                      <>
+                        <label className="flex flex-col gap-1">
+                          <span className="text-xs text-gray-500">回/分</span>
+                          <input
+                            type="number"
+                            min={1}
+                            value={limit.rateLimitPerMinute}
+                            onChange={(e) =>
+                              setLimits({
+                                ...limits,
+                                [apiKey.id]: {
+                                  ...limit,
+                                  rateLimitPerMinute: e.target.value,
+                                },
+                              })
+                            }
+                            className="w-24 px-2 py-1 border border-gray-300 rounded"
+                          />
+                        </label>
+                        <label className="flex flex-col gap-1">
+                          <span className="text-xs text-gray-500">回/日</span>
+                          <input
+                            type="number"
+                            min={1}
+                            value={limit.dailyQuota}
+                            onChange={(e) =>
+                              setLimits({
+                                ...limits,
+                                [apiKey.id]: {
+                                  ...limit,
+                                  dailyQuota: e.target.value,
+                                },
+                              })
+                            }
+                            className="w-28 px-2 py-1 border border-gray-300 rounded"
+                          />
+                        </label>
+                        <button
+                          disabled={processingId === apiKey.id}
+                          onClick={() => handleSaveLimits(apiKey)}
+                          className="flex items-center px-3 py-1.5 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+                        >
+                          <Icon name="check" size={14} className="mr-1" />
+                          保存
+                        </button>
+                      </>
+                    ) : (
+                      <>
+                        <span className="text-gray-700">
+                          {apiKey.rateLimitPerMinute.toLocaleString()} 回/分・
+                          {apiKey.dailyQuota.toLocaleString()} 回/日
+                        </span>
+                        <button
+                          onClick={() =>
+                            setLimits({
+                              ...limits,
+                              [apiKey.id]: {
+                                rateLimitPerMinute: String(
+                                  apiKey.rateLimitPerMinute,
+                                ),
+                                dailyQuota: String(apiKey.dailyQuota),
+                              },
+                            })
+                          }
+                          className="flex items-center px-3 py-1.5 border border-gray-300 rounded hover:bg-gray-100"
+                        >
+                          <Icon name="edit" size={14} className="mr-1" />
+                          上限を変更
+                        </button>
+                      </>
+                    )}
+                    <button
+                      disabled={processingId === apiKey.id}
+                      onClick={() =>
+                        handleUpdate(apiKey, { enabled: !apiKey.enabled })
+                      }
+                      className="flex items-center px-3 py-1.5 border border-gray-300 rounded hover:bg-gray-100 disabled:opacity-50"
+                    >
+                      <Icon
+                        name={apiKey.enabled ? "lock" : "unlock"}
+                        size={14}
+                        className="mr-1"
+                      />
+                      {apiKey.enabled ? "停止" : "再開"}
+                    </button>
+                    <button
+                      disabled={processingId === apiKey.id}
+                      onClick={() => handleDelete(apiKey)}
+                      className="flex items-center px-3 py-1.5 bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+                    >
+                      <Icon name="trash" size={14} className="mr-1" />
+                      削除
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ApiKeyManager;
@@ -0,0 +1,283 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Icon } from "@fuji-calendar/ui";
+import { LocationRequest, LocationRequestStatus } from "@fuji-calendar/types";
+import { getComponentLogger } from "@fuji-calendar/utils";
+import { authService } from "../../services/authService";
+
+const logger = getComponentLogger("LocationRequestManager");
+
+// API レスポンスでは日時は文字列
+type LocationRequestItem = Omit<
+  LocationRequest,
+  "createdAt" | "processedAt"
+> & {
+  createdAt: string;
+  processedAt?: string;
+};
+
+interface LocationRequestManagerProps {
+  onApproved: () => void;
+}
+
+const STATUS_TABS: { value: LocationRequestStatus; label: string }[] = [
+  { value: "pending", label: "審査待ち" },
+  { value: "approved", label: "承認済み" },
+  { value: "rejected", label: "却下" },
+];
+
+/**
+ * 撮影地点候補の審査キュー
+ * 訪問者から投稿された候補を承認（標高を入力して地点を作成）または理由を付けて却下する
+ */
+const LocationRequestManager: React.FC<LocationRequestManagerProps> = ({
+  onApproved,
+}) => {
+  const [status, setStatus] = useState<LocationRequestStatus>("pending");
+  const [requests, setRequests] = useState<LocationRequestItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [elevations, setElevations] = useState<Record<number, string>>({});
+  const [reasons, setReasons] = useState<Record<number, string>>({});
+  const [processingId, setProcessingId] = useState<number | null>(null);
+
+  const loadRequests = useCallback(async () => {
+    try {
+      setError(null);
+      const response = await authService.authenticatedFetch(
+        `/api/admin/location-requests?status=${status}`,
+      );
+
+      if (!response.ok) {
+        throw new Error(`撮影地点候補の取得に失敗しました: ${response.status}`);
+      }
+
+      const data = await response.json();
+      setRequests(data.requests);
+    } catch (err) {
+      logger.error("撮影地点候補読み込みエラー", err);
+      setError(
+        err instanceof Error
+          ? err.message
+          : "撮影地点候補の読み込みに失敗しました",
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadRequests();
+  }, [loadRequests]);
+
+  const processRequest = async (
+    request: LocationRequestItem,
+    action: "approve" | "reject",
+    body: Record<string, unknown>,
+  ) => {
+    setProcessingId(request.id);
+    setError(null);
+    try {
+      const response = await authService.authenticatedFetch(
+        `/api/admin/location-requests/${request.id}/${action}`,
+        {
+          method: "POST",
+          body: JSON.stringify(body),
+        },
+      );
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(
+          data.message || `処理に失敗しました: ${response.status}`,
+        );
+      }
+
+      logger.info("撮影地点候補処理完了", { id: request.id, action });
+      if (action === "approve") {
+        onApproved();
+      }
+      await loadRequests();
+    } catch (err) {
+      logger.error("撮影地点候補処理エラー", err, { id: request.id, action });
+      setError(err instanceof Error ? err.message : "処理に失敗しました");
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleApprove = (request: LocationRequestItem) => {
+    const elevation = parseFloat(elevations[request.id] ?? "");
+    if (isNaN(elevation)) {
+      setError("承認する前に標高（m）を入力してください。");
+      return;
+    }
+    processRequest(request, "approve", { elevation });
+  };
+
+  const handleReject = (request: LocationRequestItem) => {
+    const reason = reasons[request.id]?.trim();
+    if (!reason) {
+      setError("却下する前に理由を入力してください。");
+      return;
+    }
+    processRequest(request, "reject", { reason });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">
+            撮影地点候補の審査
+          </h3>
+          <p className="text-sm text-gray-600 mt-1">
+            訪問者から投稿された撮影地点を確認し、承認すると地点として追加されます
+          </p>
+        </div>
+        <div className="flex rounded border border-gray-300 overflow-hidden text-sm">
+          {STATUS_TABS.map((tab) => (
+            <button
+              key={tab.value}
+              onClick={() => setStatus(tab.value)}
+              className={`px-3 py-1 ${
+                status === tab.value
+                  ? "bg-gray-800 text-white"
+                  : "bg-white text-gray-700 hover:bg-gray-100"
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="p-6">
+        {error && (
+          <div className="mb-4 flex items-center text-sm text-red-600">
+            <Icon name="warning" size={16} className="mr-2" />
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-center text-gray-500">読み込み中...</p>
+        ) : requests.length === 0 ? (
+          <p className="text-center text-gray-500">
+            該当する撮影地点候補はありません。
+          </p>
+        ) : (
+          <ul className="space-y-4">
+            {requests.map((request) => (
+              <li
+                key={request.id}
+                className="p-4 border border-gray-200 rounded-lg"
+              >
+                <div className="flex flex-wrap justify-between gap-2">
+                  <div>
+                    <div className="font-medium text-gray-900">
+                      {request.name}
+                      <span className="ml-2 text-sm text-gray-500">
+                        {request.prefecture}
+                      </span>
+                    </div>
+                    <a
+                      href={`https://maps.gsi.go.jp/#15/${request.suggestedLatitude}/${request.suggestedLongitude}/`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-sm text-blue-600 hover:underline"
+                    >
+                      {request.suggestedLatitude.toFixed(5)},{" "}
+                      {request.suggestedLongitude.toFixed(5)}
+                    </a>
+                  </div>
+                  <div className="text-right text-xs text-gray-500">
+                    <div>
+                      投稿:{" "}
+                      {new Date(request.createdAt).toLocaleString("ja-JP")}
+                    </div>
+                    <div>IP: {request.requesterIp}</div>
+                    {request.processedAt && (
+                      <div>
+                        審査:{" "}
+                        {new Date(request.processedAt).toLocaleString("ja-JP")}
+                      </div>
+                    )}
+                  </div>
+                </div>
+
+                <p className="mt-2 text-sm text-gray-700 whitespace-pre-wrap">
+                  {request.description}
+                </p>
+
+                {request.status === "approved" && request.locationId && (
+                  <p className="mt-2 text-sm text-green-700">
+                    地点 ID {request.locationId} として追加済み
+                  </p>
+                )}
+                {request.status === "rejected" && (
+                  <p className="mt-2 text-sm text-gray-600">
+                    却下理由: {request.rejectionReason}
+                  </p>
+                )}
+
+                {request.status === "pending" && (
+                  <div className="mt-3 flex flex-wrap items-end gap-3 text-sm">
+                    <label className="flex flex-col gap-1">
+                      <span className="text-xs text-gray-500">標高（m）</span>
+                      <input
+                        type="number"
+                        step="any"
+                        value={elevations[request.id] ?? ""}
+                        onChange={(e) =>
+                          setElevations({
+                            ...elevations,
+                            [request.id]: e.target.value,
+                          })
+                        }
+                        className="w-24 px-2 py-1 border border-gray-300 rounded"
+                      />
+                    </label>
+                    <button
+                      disabled={processingId === request.id}
+                      onClick={() => handleApprove(request)}
+                      className="flex items-center px-3 py-1.5 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+                    >
+                      <Icon name="check" size={14} className="mr-1" />
+                      承認
+                    </button>
+                    <label className="flex flex-col gap-1 flex-1 min-w-[12rem]">
+                      <span className="text-xs text-gray-500">却下の理由</span>
+                      <input
+                        type="text"
+                        value={reasons[request.id] ?? ""}
+                        onChange={(e) =>
+                          setReasons({
+                            ...reasons,
+                            [request.id]: e.target.value,
+                          })
+                        }
+                        maxLength={1000}
+                        className="px-2 py-1 border border-gray-300 rounded"
+                      />
+                    </label>
+                    <button
+                      disabled={processingId === request.id}
+                      onClick={() => handleReject(request)}
+                      className="flex items-center px-3 py-1.5 bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+                    >
+                      <Icon name="close" size={14} className="mr-1" />
+                      却下
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LocationRequestManager;
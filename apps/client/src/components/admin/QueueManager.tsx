@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from "react";
+import { QueueJobUpdate } from "@fuji-calendar/types";
 import { getComponentLogger } from "@fuji-calendar/utils";
 import { authService } from "../../services/authService";
+import { subscribeEventStream } from "../../services/realtimeClient";
 
 const logger = getComponentLogger("QueueManager");
 
@@ -39,10 +41,15 @@ interface BackgroundJobsStatus {
   error?: string;
 }
 
+// ジョブの状態が変わってからキュー統計を再取得するまでの時間（連続した通知をまとめる）
+const STATS_REFRESH_DELAY_MS = 1000;
+
 const QueueManager: React.FC = () => {
   const [stats, setStats] = useState<QueueStats | null>(null);
   const [backgroundJobs, setBackgroundJobs] = useState<BackgroundJobsStatus | null>(null);
   const [loading, setLoading] = useState(false);
+  // 実行中のジョブ（ジョブ ID ごとの最新の状態）
+  const [liveJobs, setLiveJobs] = useState<Record<string, QueueJobUpdate>>({});
 
   const fetchStats = async () => {
     try {
@@ -197,15 +204,64 @@ const QueueManager: React.FC = () => {
   };
 
   useEffect(() => {
+    let statsRefreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const scheduleStatsRefresh = () => {
+      if (statsRefreshTimer) {
+        clearTimeout(statsRefreshTimer);
+      }
+      statsRefreshTimer = setTimeout(() => {
+        statsRefreshTimer = null;
+        fetchStats();
+      }, STATS_REFRESH_DELAY_MS);
+    };
+
+    const handleJobUpdate = (update: QueueJobUpdate) => {
+      setLiveJobs((jobs) => {
+        const { [update.jobId]: current, ...rest } = jobs;
+        if (update.status === "completed" || update.status === "failed") {
+          return rest;
+        }
+        return {
+          ...rest,
+          [update.jobId]: {
+            ...update,
+            progress: update.progress ?? current?.progress,
+          },
+        };
+      });
+
+      // 進捗の通知ではキューの件数は変わらない
+      if (update.status !== "progress") {
+        scheduleStatsRefresh();
+      }
+    };
+
     fetchStats();
     fetchBackgroundJobs();
 
-    const interval = setInterval(() => {
-      fetchStats();
-      fetchBackgroundJobs();
-    }, 5000);
+    // ジョブの状態はストリームで受け取るため、キュー統計の定期取得は取りこぼし対策のみ
+    const statsInterval = setInterval(fetchStats, 30000);
+    const backgroundJobsInterval = setInterval(fetchBackgroundJobs, 5000);
 
-    return () => clearInterval(interval);
+    const unsubscribe = subscribeEventStream(
+      "/api/admin/queue/stream",
+      (event, data) => {
+        if (event === "job") {
+          handleJobUpdate(data as QueueJobUpdate);
+        }
+      },
+      { headers: () => authService.getAuthHeaders() },
+    );
+
+    return () => {
+      clearInterval(statsInterval);
+      clearInterval(backgroundJobsInterval);
+      unsubscribe();
+      if (statsRefreshTimer) {
+        clearTimeout(statsRefreshTimer);
+      }
+    };
   }, []);
 
   if (!stats) {
@@ -308,6 +364,55 @@ const QueueManager: React.FC = () => {
         </div>
       </div>
 
+      {/* 実行中のジョブ */}
+      {Object.keys(liveJobs).length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm border">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">
+              実行中のジョブ
+            </h2>
+          </div>
+          <div className="p-6 space-y-4">
+            {Object.values(liveJobs).map((job) => {
+              const progress = job.progress;
+              const percent = progress
+                ? Math.round(
+                    (progress.completedMonths / progress.totalMonths) * 100,
+                  )
+                : 0;
+              return (
+                <div key={job.jobId}>
+                  <div className="flex justify-between text-sm mb-1">
+                    <div className="font-medium text-gray-900">
+                      ジョブ ID: {job.jobId}
+                    </div>
+                    <div className="text-gray-600">
+                      {progress
+                        ? `${progress.completedMonths} / ${progress.totalMonths} か月`
+                        : job.status === "waiting"
+                          ? "待機中"
+                          : "実行中"}
+                    </div>
+                  </div>
+                  {progress && (
+                    <div className="text-sm text-gray-600 mb-1">
+                      地点: {progress.locationId}, 計算済み: {progress.year}年
+                      {progress.month}月
+                    </div>
+                  )}
+                  <div className="w-full bg-gray-200 rounded-full h-2">
+                    <div
+                      className="bg-blue-600 h-2 rounded-full transition-all"
+                      style={{ width: `${percent}%` }}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* 失敗したジョブ */}
       {stats.failed > 0 && (
         <div className="bg-white rounded-lg shadow-sm border">
@@ -6,6 +6,7 @@ import {
   FujiEvent,
 } from "@fuji-calendar/types";
 import { favoritesService } from "../services/favoritesService";
+import { userService } from "../services/userService";
 
 export interface UseFavoritesState {
   favoriteLocations: FavoriteLocation[];
@@ -34,6 +35,7 @@ export interface UseFavoritesActions {
   exportFavorites: () => string;
   importFavorites: (jsonData: string) => boolean;
   refreshFavorites: () => void;
+  mergeLocalFavorites: () => Promise<boolean>;
 }
 
 export function useFavorites(): UseFavoritesState & UseFavoritesActions {
@@ -72,11 +74,23 @@ export function useFavorites(): UseFavoritesState & UseFavoritesActions {
     // Debug: State updated
   }, []);
 
+  // ログイン中はサーバーに保存したお気に入りで置き換え
+  const syncFromServer = useCallback(async () => {
+    const serverFavorites = await userService.fetchFavorites();
+    if (serverFavorites) {
+      favoritesService.replaceFavorites(serverFavorites);
+      refreshFavorites();
+    }
+  }, [refreshFavorites]);
+
   // 初期化
   useEffect(() => {
     // Debug: useEffect triggered
     refreshFavorites();
-  }, [refreshFavorites]);
+    if (userService.isLoggedIn()) {
+      syncFromServer();
+    }
+  }, [refreshFavorites, syncFromServer]);
 
   // stats の変更を監視
   useEffect(() => {
@@ -89,6 +103,9 @@ export function useFavorites(): UseFavoritesState & UseFavoritesActions {
       const success = favoritesService.addLocationToFavorites(location);
       if (success) {
         refreshFavorites();
+        if (userService.isLoggedIn()) {
+          userService.addLocation(location.id);
+        }
       }
       return success;
     },
@@ -100,6 +117,9 @@ export function useFavorites(): UseFavoritesState & UseFavoritesActions {
       const success = favoritesService.removeLocationFromFavorites(locationId);
       if (success) {
         refreshFavorites();
+        if (userService.isLoggedIn()) {
+          userService.removeLocation(locationId);
+        }
       }
       return success;
     },
@@ -128,6 +148,12 @@ export function useFavorites(): UseFavoritesState & UseFavoritesActions {
       const success = favoritesService.addEventToFavorites(event);
       if (success) {
         refreshFavorites();
+        const favoriteEvent = favoritesService
+          .getFavoriteEvents()
+          .find((fav) => fav.id === event.id);
+        if (favoriteEvent && userService.isLoggedIn()) {
+          userService.addEvent(favoriteEvent);
+        }
       }
       return success;
     },
@@ -139,6 +165,9 @@ export function useFavorites(): UseFavoritesState & UseFavoritesActions {
       const success = favoritesService.removeEventFromFavorites(eventId);
       if (success) {
         refreshFavorites();
+        if (userService.isLoggedIn()) {
+          userService.removeEvent(eventId);
+        }
       }
       return success;
     },
@@ -163,9 +192,16 @@ export function useFavorites(): UseFavoritesState & UseFavoritesActions {
 
   // その他の操作
   const clearAllFavorites = useCallback((): boolean => {
+    const { locations, events } = favoritesService.getFavorites();
     const success = favoritesService.clearFavorites();
     if (success) {
       refreshFavorites();
+      if (userService.isLoggedIn()) {
+        locations.forEach((location) =>
+          userService.removeLocation(location.id),
+        );
+        events.forEach((event) => userService.removeEvent(event.id));
+      }
     }
     return success;
   }, [refreshFavorites]);
@@ -174,15 +210,32 @@ export function useFavorites(): UseFavoritesState & UseFavoritesActions {
     return favoritesService.exportFavorites();
   }, []);
 
+  // この端末のお気に入りをサーバーに統合し、統合後のお気に入りで置き換え（ログイン直後など）
+  const mergeLocalFavorites = useCallback(async (): Promise<boolean> => {
+    const merged = await userService.mergeFavorites(
+      favoritesService.getFavorites(),
+    );
+    if (!merged) {
+      return false;
+    }
+
+    favoritesService.replaceFavorites(merged);
+    refreshFavorites();
+    return true;
+  }, [refreshFavorites]);
+
   const importFavorites = useCallback(
     (jsonData: string): boolean => {
       const success = favoritesService.importFavorites(jsonData);
       if (success) {
         refreshFavorites();
+        if (userService.isLoggedIn()) {
+          mergeLocalFavorites();
+        }
       }
       return success;
     },
-    [refreshFavorites],
+    [refreshFavorites, mergeLocalFavorites],
   );
 
   return {
@@ -205,5 +258,6 @@ export function useFavorites(): UseFavoritesState & UseFavoritesActions {
     exportFavorites,
     importFavorites,
     refreshFavorites,
+    mergeLocalFavorites,
   };
 }
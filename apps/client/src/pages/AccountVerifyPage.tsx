@@ -0,0 +1,88 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { useFavorites } from "../hooks/useFavorites";
+import { userService } from "../services/userService";
+
+/**
+ * メールのログインリンクの遷移先
+ * ログイン後、この端末のお気に入りをアカウントに統合する
+ */
+const AccountVerifyPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const { mergeLocalFavorites } = useFavorites();
+  const [status, setStatus] = useState<"verifying" | "success" | "error">(
+    "verifying",
+  );
+  const [message, setMessage] = useState("");
+  // ログインリンクは 1 回のみ有効なため、二重に検証しない
+  const verifiedRef = useRef(false);
+
+  useEffect(() => {
+    if (verifiedRef.current) {
+      return;
+    }
+    verifiedRef.current = true;
+
+    const verify = async () => {
+      const token = searchParams.get("token");
+      if (!token) {
+        setStatus("error");
+        setMessage("ログインリンクが正しくありません。");
+        return;
+      }
+
+      const result = await userService.verifyLoginLink(token);
+      if (!result.success) {
+        setStatus("error");
+        setMessage(result.message);
+        return;
+      }
+
+      const merged = await mergeLocalFavorites();
+      setStatus("success");
+      setMessage(
+        merged
+          ? "ログインしました。この端末のお気に入りをアカウントに統合しました。"
+          : "ログインしました。お気に入りの統合に失敗したため、お気に入りページを開き直してください。",
+      );
+    };
+    verify();
+  }, [searchParams, mergeLocalFavorites]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+        <h2 className="text-xl font-bold text-gray-900">
+          アカウントにログイン
+        </h2>
+
+        {status === "verifying" && (
+          <p className="text-sm text-gray-600">
+            ログインリンクを確認しています...
+          </p>
+        )}
+        {status === "success" && (
+          <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded text-sm">
+            {message}
+          </div>
+        )}
+        {status === "error" && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded text-sm">
+            {message}
+          </div>
+        )}
+
+        {status !== "verifying" && (
+          <Link
+            to="/favorites"
+            className="inline-block text-sm text-blue-600 hover:text-blue-800"
+          >
+            お気に入りを開く
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AccountVerifyPage;
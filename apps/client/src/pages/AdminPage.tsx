@@ -9,6 +9,8 @@ import SystemSettingsManager from "../components/admin/SystemSettingsManager";
 import AdminLayout from "../components/admin/AdminLayout";
 import Dashboard from "../components/admin/Dashboard";
 import LocationManager from "../components/admin/LocationManager";
+import LocationRequestManager from "../components/admin/LocationRequestManager";
+import ApiKeyManager from "../components/admin/ApiKeyManager";
 import LocationFormModal from "../components/admin/LocationFormModal";
 import PasswordChangeModal from "../components/admin/PasswordChangeModal";
 import Placeholder from "../components/admin/Placeholder";
@@ -59,11 +61,13 @@ const AdminPage: React.FC = () => {
   const [activeView, setActiveView] = useState<
     | "dashboard"
     | "locations"
+    | "requests"
     | "events"
     | "queue"
     | "users"
     | "data"
     | "settings"
+    | "apiKeys"
   >("dashboard");
   const [queueStats, setQueueStats] = useState<any>(null);
 
@@ -514,6 +518,14 @@ const AdminPage: React.FC = () => {
             />
           )}
 
+          {/* Location Requests View */}
+          {activeView === "requests" && (
+            <LocationRequestManager onApproved={loadLocations} />
+          )}
+
+          {/* API Keys View */}
+          {activeView === "apiKeys" && <ApiKeyManager />}
+
           {/* Data Management View */}
           {activeView === "data" && (
             <Placeholder 
@@ -581,8 +593,10 @@ const AdminPage: React.FC = () => {
           {/* Other views placeholder */}
           {activeView !== "dashboard" &&
             activeView !== "locations" &&
+            activeView !== "requests" &&
             activeView !== "data" &&
             activeView !== "settings" &&
+            activeView !== "apiKeys" &&
             activeView !== "queue" && (
               <Placeholder title={activeView} />
             )}
@@ -3,6 +3,9 @@ import { useNavigate } from "react-router-dom";
 import { useFavorites } from "../hooks/useFavorites";
 import { timeUtils } from "@fuji-calendar/utils";
 import { Icon } from "@fuji-calendar/ui";
+import { apiClient } from "../services/apiClient";
+import { userService } from "../services/userService";
+import NotificationChannelsPanel from "../components/NotificationChannelsPanel";
 
 const FavoritesPage: React.FC = () => {
   const navigate = useNavigate();
@@ -24,6 +27,17 @@ const FavoritesPage: React.FC = () => {
   const [selectedItems, setSelectedItems] = useState<Set<string>>(new Set());
   const [showImportDialog, setShowImportDialog] = useState(false);
   const [importData, setImportData] = useState("");
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [feedExpiresAt, setFeedExpiresAt] = useState<Date | null>(null);
+  const [feedLoading, setFeedLoading] = useState(false);
+  const [user, setUser] = useState(() =>
+    userService.isLoggedIn() ? userService.getUser() : null,
+  );
+  const [email, setEmail] = useState("");
+  const [loginLinkMessage, setLoginLinkMessage] = useState<string | null>(
+    null,
+  );
+  const [loginLinkLoading, setLoginLinkLoading] = useState(false);
 
   // 過去のイベントを取得
   const pastEvents = favoriteEvents
@@ -98,6 +112,42 @@ const FavoritesPage: React.FC = () => {
     }
   };
 
+  // お気に入り地点のイベントを購読する iCalendar フィードの URL を発行
+  const handleCreateFeed = async () => {
+    setFeedLoading(true);
+    try {
+      const feed = await apiClient.createFavoritesFeed(
+        favoriteLocations.map((location) => location.id),
+      );
+      setFeedUrl(feed.url);
+      setFeedExpiresAt(feed.expiresAt);
+    } catch (error) {
+      alert(apiClient.getErrorMessage(error));
+    } finally {
+      setFeedLoading(false);
+    }
+  };
+
+  // ログインリンクをメールで送信（ログイン後にこの端末のお気に入りをアカウントに統合）
+  const handleRequestLoginLink = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoginLinkLoading(true);
+    try {
+      const result = await userService.requestLoginLink(email);
+      setLoginLinkMessage(
+        result.message ?? "ログインリンクの送信に失敗しました。",
+      );
+    } finally {
+      setLoginLinkLoading(false);
+    }
+  };
+
+  const handleLogout = () => {
+    userService.logout();
+    setUser(null);
+    setLoginLinkMessage(null);
+  };
+
   const handleFileImport = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
@@ -273,6 +323,56 @@ const FavoritesPage: React.FC = () => {
           </div>
         </div>
 
+        {/* アカウントカード */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6">
+          {user ? (
+            <div>
+              <div className="flex justify-between items-center">
+                <div>
+                  <h2 className="text-lg font-semibold text-gray-900">アカウント</h2>
+                  <p className="text-sm text-gray-600 mt-1">
+                    {user.email} でログイン中です。お気に入りはアカウントに保存され、他の端末でも表示されます。
+                  </p>
+                </div>
+                <button
+                  className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-md transition-colors border border-gray-200"
+                  onClick={handleLogout}
+                >
+                  ログアウト
+                </button>
+              </div>
+              <NotificationChannelsPanel />
+            </div>
+          ) : (
+            <form onSubmit={handleRequestLoginLink}>
+              <h2 className="text-lg font-semibold text-gray-900">アカウント</h2>
+              <p className="text-sm text-gray-600 mt-1 mb-3">
+                メールで届くリンクからログインすると、お気に入りをアカウントに保存して他の端末でも使えます。この端末のお気に入りはログイン時にアカウントへ統合されます。
+              </p>
+              <div className="flex gap-2">
+                <input
+                  type="email"
+                  required
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="メールアドレス"
+                  className="flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+                <button
+                  type="submit"
+                  disabled={loginLinkLoading}
+                  className="px-3 py-1.5 text-sm bg-blue-600 text-white hover:bg-blue-700 rounded-md transition-colors disabled:opacity-50"
+                >
+                  ログインリンクを送信
+                </button>
+              </div>
+              {loginLinkMessage && (
+                <p className="text-sm text-gray-600 mt-2">{loginLinkMessage}</p>
+              )}
+            </form>
+          )}
+        </div>
+
         {/* コンテンツカード */}
         <div className="bg-white rounded-lg shadow-sm border border-gray-200">
           {activeTab === "upcoming" && (
@@ -301,7 +401,7 @@ const FavoritesPage: React.FC = () => {
                         
                         <div className="flex-shrink-0">
                           <Icon
-                            name={event.type === "diamond" ? "sun" : "moon"}
+                            name={event.celestialBodyName ? "star" : event.type === "diamond" ? "sun" : "moon"}
                             size={40}
                             className={`${
                               event.type === "diamond" ? "text-orange-500" : "text-blue-500"
@@ -314,7 +414,7 @@ const FavoritesPage: React.FC = () => {
                             <div>
                               <h3 className="text-lg font-medium text-gray-900">
                                 {event.subType === "sunrise" || event.subType === "rising" ? "昇る" : "沈む"}
-                                {event.type === "diamond" ? "ダイヤモンド富士" : "パール富士"}
+                                {event.celestialBodyName ?? (event.type === "diamond" ? "ダイヤモンド富士" : "パール富士")}
                               </h3>
                               <p className="text-sm text-gray-600 mt-1">
                                 {formatEventDate(event.time)} {formatEventTime(event.time)}
@@ -376,7 +476,7 @@ const FavoritesPage: React.FC = () => {
                         
                         <div className="flex-shrink-0">
                           <Icon
-                            name={event.type === "diamond" ? "sun" : "moon"}
+                            name={event.celestialBodyName ? "star" : event.type === "diamond" ? "sun" : "moon"}
                             size={40}
                             className={`${
                               event.type === "diamond" ? "text-orange-500" : "text-blue-500"
@@ -389,7 +489,7 @@ const FavoritesPage: React.FC = () => {
                             <div>
                               <h3 className="text-lg font-medium text-gray-900">
                                 {event.subType === "sunrise" || event.subType === "rising" ? "昇る" : "沈む"}
-                                {event.type === "diamond" ? "ダイヤモンド富士" : "パール富士"}
+                                {event.celestialBodyName ?? (event.type === "diamond" ? "ダイヤモンド富士" : "パール富士")}
                               </h3>
                               <p className="text-sm text-gray-600 mt-1">
                                 {formatEventDate(event.time)} {formatEventTime(event.time)}
@@ -432,6 +532,45 @@ const FavoritesPage: React.FC = () => {
                 <Icon name="mapPin" size={18} className="mr-2 text-green-600" />
                 保存地点
               </h2>
+              {favoriteLocations.length > 0 && (
+                <div className="mb-4 p-4 bg-gray-50 border border-gray-200 rounded-lg">
+                  <div className="flex items-center justify-between gap-4">
+                    <p className="text-sm text-gray-600">
+                      保存地点のイベントをカレンダーアプリで購読できます。再計算で時刻が変わっても予定は自動で更新されます。
+                    </p>
+                    <button
+                      onClick={handleCreateFeed}
+                      disabled={feedLoading}
+                      className="flex-shrink-0 px-3 py-1.5 text-sm rounded bg-white border border-gray-300 text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+                    >
+                      <Icon name="calendar" size={14} className="inline mr-1" />
+                      {feedUrl ? "URL を再発行" : "購読 URL を発行"}
+                    </button>
+                  </div>
+                  {feedUrl && (
+                    <div className="mt-3 flex items-center gap-2">
+                      <input
+                        type="text"
+                        readOnly
+                        value={feedUrl}
+                        onFocus={(e) => e.target.select()}
+                        className="flex-1 px-2 py-1 text-xs font-mono border border-gray-300 rounded bg-white"
+                      />
+                      <a
+                        href={feedUrl.replace(/^https?:/, "webcal:")}
+                        className="px-3 py-1 text-xs rounded bg-gray-100 text-gray-700 hover:bg-gray-200"
+                      >
+                        カレンダーで開く
+                      </a>
+                    </div>
+                  )}
+                  {feedExpiresAt && (
+                    <p className="mt-2 text-xs text-gray-500">
+                      有効期限: {feedExpiresAt.toLocaleDateString("ja-JP")}（期限が切れたら URL を再発行してください）
+                    </p>
+                  )}
+                </div>
+              )}
               {favoriteLocations.length === 0 ? (
                 <div className="text-center py-12 text-gray-500">
                   <Icon name="mapPin" size={48} className="mx-auto mb-4 text-gray-300" />
@@ -1,11 +1,11 @@
-import React, { useState, useEffect, useMemo } from "react";
+import React, { useState, useEffect, useMemo, useRef } from "react";
 import { useLocation, useSearchParams } from "react-router-dom";
 import { Icon } from "@fuji-calendar/ui";
 import {
   Location,
   FujiEvent,
   CalendarResponse,
-
+  Target,
 } from "@fuji-calendar/types";
 import { apiClient } from "../services/apiClient";
 import { timeUtils } from "@fuji-calendar/utils";
@@ -14,6 +14,10 @@ import SimpleMap from "../components/SimpleMap";
 import FilterPanel, { FilterOptions } from "../components/FilterPanel";
 import CameraPanel, { CameraSettings } from "../components/CameraPanel";
 import EventDetail from "../components/EventDetail";
+import { CelestialTrack } from "../components/CelestialPathScrubber";
+
+// イベントの再計算の通知を受けてからカレンダーを再取得するまでの時間
+const CALENDAR_REFRESH_DELAY_MS = 2000;
 
 const HomePage: React.FC = () => {
   const location = useLocation();
@@ -35,17 +39,28 @@ const HomePage: React.FC = () => {
   const [, setLoading] = useState(false);
   const [currentYear, setCurrentYear] = useState(new Date().getFullYear());
   const [currentMonth, setCurrentMonth] = useState(new Date().getMonth() + 1);
+  const [targets, setTargets] = useState<Target[]>([]);
+  const [targetSlug, setTargetSlug] = useState("fuji");
+  // イベントの再計算の通知を受けるたびに増やしてカレンダーを再取得する
+  const [calendarRevision, setCalendarRevision] = useState(0);
+  const visibleMonthRef = useRef({ year: currentYear, month: currentMonth });
+  visibleMonthRef.current = { year: currentYear, month: currentMonth };
+  const [celestialTrack, setCelestialTrack] = useState<CelestialTrack | null>(
+    null,
+  );
   const [filters, setFilters] = useState<FilterOptions>({
     distance: "all",
     diamondSunrise: false,
     diamondSunset: false,
     pearlMoonrise: false,
     pearlMoonset: false,
+    summitPosition: "all",
     specialEvents: {
       solarEclipse: false,
       lunarEclipse: false,
       supermoon: false,
     },
+    sortBy: "time",
   });
   const [cameraSettings, setCameraSettings] = useState<CameraSettings>({
     showAngles: false,
@@ -122,6 +137,7 @@ const HomePage: React.FC = () => {
         const response = await apiClient.getMonthlyCalendar(
           currentYear,
           currentMonth,
+          targetSlug,
         );
         console.log("First event structure:", response.events[0]);
         setCalendarData(response);
@@ -133,7 +149,45 @@ const HomePage: React.FC = () => {
     };
 
     loadCalendar();
-  }, [currentYear, currentMonth]);
+  }, [currentYear, currentMonth, targetSlug, calendarRevision]);
+
+  // イベントの再計算の通知を購読し、表示中の月が対象ならカレンダーを再取得
+  useEffect(() => {
+    let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const unsubscribe = apiClient.subscribeCalendarUpdates((invalidation) => {
+      const { year, month } = visibleMonthRef.current;
+      if (invalidation.year !== year || invalidation.month !== month) {
+        return;
+      }
+
+      // 地点ごとの再計算の通知が続けて届くため、まとめて 1 回だけ再取得する
+      if (refreshTimer) {
+        clearTimeout(refreshTimer);
+      }
+      refreshTimer = setTimeout(() => {
+        refreshTimer = null;
+        setCalendarRevision((revision) => revision + 1);
+      }, CALENDAR_REFRESH_DELAY_MS);
+    });
+
+    return () => {
+      unsubscribe();
+      if (refreshTimer) {
+        clearTimeout(refreshTimer);
+      }
+    };
+  }, []);
+
+  // 整列対象を取得
+  useEffect(() => {
+    const loadTargets = async () => {
+      const response = await apiClient.getTargets();
+      setTargets(response.targets);
+    };
+
+    loadTargets();
+  }, []);
 
   // 撮影地点を取得
   useEffect(() => {
@@ -199,7 +253,7 @@ const HomePage: React.FC = () => {
 
     try {
       const dateString = timeUtils.formatDateString(date);
-      const response = await apiClient.getDayEvents(dateString);
+      const response = await apiClient.getDayEvents(dateString, targetSlug);
       setDayEvents(response.events || []);
 
       // 選択保持が指定されていない場合のみ最初の地点を自動選択
@@ -235,7 +289,7 @@ const HomePage: React.FC = () => {
   const filteredEvents = useMemo(() => {
     if (!dayEvents.length) return [];
 
-    return dayEvents.filter((event) => {
+    const matchedEvents = dayEvents.filter((event) => {
       // 距離フィルター
       if (filters.distance !== "all") {
         const distance = (event.location.fujiDistance || 0) / 1000; // メートルからキロメートルに変換
@@ -285,52 +339,58 @@ const HomePage: React.FC = () => {
         if (!matchesFilter) return false;
       }
 
+      // 山頂の位置フィルター
+      if (
+        filters.summitPosition !== "all" &&
+        event.summitPosition !== filters.summitPosition
+      ) {
+        return false;
+      }
+
       // 特別イベントフィルター
       const hasSpecialEventFilter =
         filters.specialEvents.solarEclipse ||
         filters.specialEvents.lunarEclipse ||
         filters.specialEvents.supermoon;
 
+      // 選択された特別イベント（日食・月食・スーパームーン）と重なるイベントのみ表示
       if (hasSpecialEventFilter) {
-        // 現在は基本的なダイヤモンド富士・パール富士のみなので、
-        // 特別イベントフィルターが有効な場合は結果を制限
-        // 将来的には実際の日食・月食・スーパームーンデータと照合
-
-        // 月相データがある場合の簡易的な判定（スーパームーン近似）
-        if (
-          filters.specialEvents.supermoon &&
-          event.type === "pearl" &&
-          event.moonIllumination !== undefined
-        ) {
-          // 満月に近い場合（照度 90% 以上）をスーパームーン近似として扱う
-          if (event.moonIllumination >= 0.9) {
-            return true;
-          }
-        }
-
-        // 日食・月食は現在データがないため除外
-        if (
-          filters.specialEvents.solarEclipse ||
-          filters.specialEvents.lunarEclipse
-        ) {
-          return false;
-        }
-
-        // スーパームーンのみの場合で条件に合わない場合は除外
-        if (
-          filters.specialEvents.supermoon &&
-          (event.type !== "pearl" ||
-            !event.moonIllumination ||
-            event.moonIllumination < 0.9)
-        ) {
-          return false;
-        }
+        const matchesSpecialEvent =
+          (filters.specialEvents.solarEclipse &&
+            event.specialEvent === "solar_eclipse") ||
+          (filters.specialEvents.lunarEclipse &&
+            event.specialEvent === "lunar_eclipse") ||
+          (filters.specialEvents.supermoon &&
+            event.specialEvent === "supermoon");
+
+        if (!matchesSpecialEvent) return false;
       }
 
       return true;
     });
+
+    // 山頂が見える確率の高い順（確率が無いイベントは最後）
+    if (filters.sortBy === "visibility") {
+      return [...matchedEvents].sort(
+        (a, b) =>
+          (b.visibilityProbability ?? -1) - (a.visibilityProbability ?? -1),
+      );
+    }
+
+    return matchedEvents;
   }, [dayEvents, filters]);
 
+  // 構図のシミュレーションに使うイベント（選択中のイベント、なければ選択地点の最初のイベント）
+  const simulatedEvent = useMemo(() => {
+    const locationEvents = filteredEvents.filter(
+      (event) => event.location.id === selectedLocationId,
+    );
+    return (
+      locationEvents.find((event) => event.id === selectedEventId) ??
+      locationEvents[0]
+    );
+  }, [filteredEvents, selectedLocationId, selectedEventId]);
+
   if (!calendarData) {
     return (
       <div
@@ -384,6 +444,50 @@ const HomePage: React.FC = () => {
           <div
             style={{ display: "flex", flexDirection: "column", gap: "1.5rem" }}
           >
+            {/* 整列対象の選択（富士山以外の山頂・建造物が登録されている場合のみ） */}
+            {targets.length > 1 && (
+              <div
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  gap: "0.75rem",
+                  backgroundColor: "white",
+                  borderRadius: "8px",
+                  padding: "0.75rem 1rem",
+                  boxShadow: "0 1px 3px rgba(0,0,0,0.1)",
+                  border: "1px solid #e5e7eb",
+                }}
+              >
+                <label
+                  htmlFor="target-select"
+                  style={{
+                    fontSize: "0.875rem",
+                    fontWeight: "600",
+                    color: "#374151",
+                  }}
+                >
+                  整列対象
+                </label>
+                <select
+                  id="target-select"
+                  value={targetSlug}
+                  onChange={(e) => setTargetSlug(e.target.value)}
+                  style={{
+                    padding: "0.375rem 0.5rem",
+                    border: "1px solid #d1d5db",
+                    borderRadius: "6px",
+                    fontSize: "0.875rem",
+                  }}
+                >
+                  {targets.map((target) => (
+                    <option key={target.slug} value={target.slug}>
+                      {target.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             <SimpleCalendar
               year={currentYear}
               month={currentMonth}
@@ -402,6 +506,7 @@ const HomePage: React.FC = () => {
                 selectedEventId={selectedEventId}
                 onLocationSelect={handleLocationSelect}
                 cameraSettings={cameraSettings}
+                celestialTrack={celestialTrack}
               />
             )}
 
@@ -425,6 +530,8 @@ const HomePage: React.FC = () => {
                 <CameraPanel
                   cameraSettings={cameraSettings}
                   onCameraSettingsChange={setCameraSettings}
+                  selectedEvent={simulatedEvent}
+                  isFujiTarget={targetSlug === "fuji"}
                 />
               </div>
             )}
@@ -442,6 +549,7 @@ const HomePage: React.FC = () => {
                     setSelectedLocationId(undefined);
                   }
                 }}
+                onCelestialTrackChange={setCelestialTrack}
               />
             )}
           </div>
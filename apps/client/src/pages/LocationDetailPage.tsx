@@ -5,6 +5,7 @@ import { apiClient } from "../services/apiClient";
 import { timeUtils } from "@fuji-calendar/utils";
 import { useFavorites } from "../hooks/useFavorites";
 import SimpleMap from "../components/SimpleMap";
+import LocationHistoryPanel from "../components/LocationHistoryPanel";
 import { Icon } from "@fuji-calendar/ui";
 
 const LocationDetailPage: React.FC = () => {
@@ -19,6 +20,9 @@ const LocationDetailPage: React.FC = () => {
 
   const [location, setLocation] = useState<Location | null>(null);
   const [upcomingEvents, setUpcomingEvents] = useState<FujiEvent[]>([]);
+  const [activeTab, setActiveTab] = useState<"upcoming" | "history">(
+    "upcoming",
+  );
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -30,11 +34,19 @@ const LocationDetailPage: React.FC = () => {
       setError(null);
 
       try {
-        // 地点情報を取得
-        const locationsResponse = await apiClient.getLocations();
-        const foundLocation = locationsResponse.locations.find(
-          (loc) => loc.id === parseInt(locationId),
-        );
+        // 地点情報と今後 3 ヶ月間のこの地点のイベントを 1 回のリクエストで取得
+        const today = new Date();
+        const until = new Date(today);
+        until.setMonth(until.getMonth() + 3);
+
+        const id = parseInt(locationId);
+        const { location: foundLocation, events } = isNaN(id)
+          ? { location: null, events: [] }
+          : await apiClient.getLocationDetail(
+              id,
+              timeUtils.formatDateString(today),
+              timeUtils.formatDateString(until),
+            );
 
         if (!foundLocation) {
           setError("地点が見つかりませんでした");
@@ -43,38 +55,6 @@ const LocationDetailPage: React.FC = () => {
 
         setLocation(foundLocation);
 
-        // 今後 3 ヶ月間のイベントを取得
-        const today = new Date();
-        const events: FujiEvent[] = [];
-
-        for (let i = 0; i < 3; i++) {
-          const targetDate = new Date(
-            today.getFullYear(),
-            today.getMonth() + i,
-            1,
-          );
-          try {
-            const calendarResponse = await apiClient.getMonthlyCalendar(
-              targetDate.getFullYear(),
-              targetDate.getMonth() + 1,
-            );
-
-            // この地点のイベントのみフィルタリング（FujiEvent の型のみ）
-            const locationEvents = calendarResponse.events.filter(
-              (event) =>
-                "location" in event &&
-                (event as any).location.id === foundLocation.id,
-            ) as unknown as FujiEvent[];
-
-            events.push(...locationEvents);
-          } catch (error) {
-            console.warn(
-              `Failed to load events for ${targetDate.getFullYear()}-${targetDate.getMonth() + 1}:`,
-              error,
-            );
-          }
-        }
-
         // 今日以降のイベントのみ、時刻順にソート
         const futureEvents = events
           .filter((event) => new Date(event.time) >= today)
@@ -329,14 +309,28 @@ const LocationDetailPage: React.FC = () => {
               </div>
             )}
 
-            {/* 今後のイベント */}
+            {/* 今後のイベント・過去の記録 */}
             <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-              <h2 className="text-xl font-semibold text-gray-900 mb-4 flex items-center">
-                <Icon name="calendar" size={18} className="inline mr-2" />{" "}
-                今後の撮影チャンス
-              </h2>
+              <div className="flex gap-4 mb-4 border-b border-gray-200">
+                <button
+                  className={`pb-2 -mb-px text-xl font-semibold flex items-center border-b-2 transition-colors ${activeTab === "upcoming" ? "text-gray-900 border-blue-600" : "text-gray-400 border-transparent hover:text-gray-600"}`}
+                  onClick={() => setActiveTab("upcoming")}
+                >
+                  <Icon name="calendar" size={18} className="inline mr-2" />{" "}
+                  今後の撮影チャンス
+                </button>
+                <button
+                  className={`pb-2 -mb-px text-xl font-semibold flex items-center border-b-2 transition-colors ${activeTab === "history" ? "text-gray-900 border-blue-600" : "text-gray-400 border-transparent hover:text-gray-600"}`}
+                  onClick={() => setActiveTab("history")}
+                >
+                  <Icon name="clock" size={18} className="inline mr-2" />{" "}
+                  過去の記録
+                </button>
+              </div>
 
-              {upcomingEvents.length === 0 ? (
+              {activeTab === "history" ? (
+                <LocationHistoryPanel locationId={location.id} />
+              ) : upcomingEvents.length === 0 ? (
                 <div className="text-center py-8 text-gray-500">
                   <p>
                     今後 3
@@ -1,4 +1,65 @@
-import { CalendarResponse, LocationsResponse } from "@fuji-calendar/types";
+import {
+  AlignmentLine,
+  AlignmentLineEventType,
+  CalendarInvalidation,
+  CalendarRangeResponse,
+  CalendarResponse,
+  EventCelestialPath,
+  FujiEvent,
+  HistoricalEvent,
+  HistoricalEventResponse,
+  HistoricalStats,
+  Location,
+  LocationRequestBody,
+  LocationsResponse,
+  MonthlyHistoricalSummary,
+  ObservationReportRequest,
+  Target,
+} from "@fuji-calendar/types";
+import { subscribeEventStream } from "./realtimeClient";
+
+// 撮影地点詳細ページ用のクエリ（地点とイベントを 1 回で取得）
+const LOCATION_DETAIL_QUERY = `
+  query LocationDetail($id: Int!, $from: String!, $to: String!) {
+    location(id: $id) {
+      id
+      name
+      prefecture
+      latitude
+      longitude
+      elevation
+      description
+      accessInfo
+      parkingInfo
+      fujiAzimuth
+      fujiElevation
+      fujiDistance
+      measurementNotes
+      createdAt
+      updatedAt
+      events(from: $from, to: $to) {
+        id
+        type
+        subType
+        time
+        azimuth
+        elevation
+        qualityScore
+        accuracy
+        moonPhase
+        moonIllumination
+        specialEvent
+        targetId
+        celestialBody {
+          id
+          name
+          kind
+          magnitude
+        }
+      }
+    }
+  }
+`;
 
 class ApiClient {
   private baseUrl: string;
@@ -13,9 +74,12 @@ class ApiClient {
   async getMonthlyCalendar(
     year: number,
     month: number,
+    target: string = "fuji",
   ): Promise<CalendarResponse> {
     try {
-      const response = await fetch(`${this.baseUrl}/calendar/${year}/${month}`);
+      const response = await fetch(
+        `${this.baseUrl}/calendar/${year}/${month}?target=${encodeURIComponent(target)}`,
+      );
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
@@ -25,10 +89,7 @@ class ApiClient {
       const events = data.events.map((event: any) => ({
         ...event,
         date: new Date(event.date),
-        events: event.events.map((e: any) => ({
-          ...e,
-          time: new Date(e.time),
-        })),
+        events: event.events.map((e: any) => this.parseEventTimes(e)),
       }));
 
       return {
@@ -47,6 +108,77 @@ class ApiClient {
     }
   }
 
+  // 期間内のイベントを取得（年をまたぐ範囲も 1 回で取得、最大 3 年）
+  async getCalendarRange(
+    from: string,
+    to: string,
+    options: { locationIds?: number[]; target?: string } = {},
+  ): Promise<CalendarRangeResponse> {
+    const query = new URLSearchParams({
+      from,
+      to,
+      target: options.target ?? "fuji",
+    });
+    if (options.locationIds) {
+      query.set("locationIds", options.locationIds.join(","));
+    }
+
+    const response = await fetch(`${this.baseUrl}/calendar/range?${query}`);
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    const data = await response.json();
+
+    return {
+      from: data.from,
+      to: data.to,
+      events: data.events.map((event: any) => ({
+        ...event,
+        date: new Date(event.date),
+        events: event.events.map((e: any) => this.parseEventTimes(e)),
+      })),
+    };
+  }
+
+  // イベントの再計算の通知を購読（Server-Sent Events、購読を解除する関数を返す）
+  subscribeCalendarUpdates(
+    onInvalidated: (invalidation: CalendarInvalidation) => void,
+  ): () => void {
+    return subscribeEventStream(
+      `${this.baseUrl}/calendar/updates`,
+      (event, data) => {
+        if (event === "calendar-invalidated") {
+          onInvalidated(data as CalendarInvalidation);
+        }
+      },
+    );
+  }
+
+  // 撮影地点と期間内のこの地点のイベントを GraphQL で 1 回のリクエストで取得（地点が無い場合は location が null）
+  async getLocationDetail(
+    locationId: number,
+    from: string,
+    to: string,
+  ): Promise<{ location: Location | null; events: FujiEvent[] }> {
+    const data = await this.graphql<{
+      location: (Location & { events: Omit<FujiEvent, "location">[] }) | null;
+    }>(LOCATION_DETAIL_QUERY, { id: locationId, from, to });
+
+    if (!data.location) {
+      return { location: null, events: [] };
+    }
+
+    // GraphQL は値の無いフィールドを null で返すため、REST の応答と同じく省略した形にそろえる
+    const { events, ...fields } = data.location;
+    const location = this.omitNulls(fields);
+    return {
+      location,
+      events: events.map((event) =>
+        this.parseEventTimes({ ...this.omitNulls(event), location }),
+      ),
+    };
+  }
+
   async getLocations(): Promise<LocationsResponse> {
     try {
       const response = await fetch(`${this.baseUrl}/locations`);
@@ -63,19 +195,20 @@ class ApiClient {
     }
   }
 
-  async getDayEvents(date: string) {
+  async getDayEvents(date: string, target: string = "fuji") {
     try {
-      const response = await fetch(`${this.baseUrl}/events/${date}`);
+      const response = await fetch(
+        `${this.baseUrl}/events/${date}?target=${encodeURIComponent(target)}`,
+      );
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
       const data = await response.json();
 
       // 時刻文字列を Date オブジェクトに変換
-      const events = data.events.map((event: any) => ({
-        ...event,
-        time: new Date(event.time),
-      }));
+      const events = data.events.map((event: any) =>
+        this.parseEventTimes(event),
+      );
 
       return {
         ...data,
@@ -88,6 +221,21 @@ class ApiClient {
   }
 
 
+  // 整列対象（富士山・その他の山頂や建造物）一覧
+  async getTargets(): Promise<{ targets: Target[] }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/targets`);
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      const data = await response.json();
+      return { targets: data.targets || [] };
+    } catch (error) {
+      console.error("Failed to fetch targets:", error);
+      return { targets: [] };
+    }
+  }
+
   async getUpcomingEvents(limit: number = 50) {
     try {
       const response = await fetch(
@@ -99,10 +247,9 @@ class ApiClient {
       const data = await response.json();
 
       // 時刻文字列を Date オブジェクトに変換
-      const events = data.events.map((event: any) => ({
-        ...event,
-        time: new Date(event.time),
-      }));
+      const events = data.events.map((event: any) =>
+        this.parseEventTimes(event),
+      );
 
       return { events };
     } catch (error) {
@@ -122,10 +269,9 @@ class ApiClient {
       const data = await response.json();
 
       // 時刻文字列を Date オブジェクトに変換
-      const recommendations = data.recommendations.map((event: any) => ({
-        ...event,
-        time: new Date(event.time),
-      }));
+      const recommendations = data.recommendations.map((event: any) =>
+        this.parseEventTimes(event),
+      );
 
       return { recommendations };
     } catch (error) {
@@ -134,6 +280,195 @@ class ApiClient {
     }
   }
 
+  // 指定日に天体が山頂に重なる地上の線と、その近くの撮影地点（撮影地点の逆算）
+  async getAlignmentLine(params: {
+    date: string;
+    eventType: AlignmentLineEventType;
+    startTime?: string; // HH:mm（日本時間）
+    endTime?: string;
+    radius?: number; // m
+  }): Promise<AlignmentLine> {
+    const query = new URLSearchParams({
+      date: params.date,
+      type: params.eventType,
+    });
+    if (params.startTime && params.endTime) {
+      query.set("startTime", params.startTime);
+      query.set("endTime", params.endTime);
+    }
+    if (params.radius !== undefined) {
+      query.set("radius", String(params.radius));
+    }
+
+    const response = await fetch(`${this.baseUrl}/alignment-line?${query}`);
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const { line } = await response.json();
+    return {
+      ...line,
+      startTime: new Date(line.startTime),
+      endTime: new Date(line.endTime),
+      points: line.points.map((point: any) => ({
+        ...point,
+        time: new Date(point.time),
+      })),
+      candidates: line.candidates.map((candidate: any) => ({
+        ...candidate,
+        estimatedTime: new Date(candidate.estimatedTime),
+        event: candidate.event
+          ? this.parseEventTimes(candidate.event)
+          : undefined,
+      })),
+    };
+  }
+
+  // イベント前後の天体の軌跡（撮影地点から見た方位角・高度）
+  async getEventPath(eventId: string): Promise<EventCelestialPath> {
+    const response = await fetch(
+      `${this.baseUrl}/events/${encodeURIComponent(eventId)}/path`,
+    );
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const { path } = await response.json();
+    return {
+      ...path,
+      eventTime: new Date(path.eventTime),
+      points: path.points.map((point: any) => ({
+        ...point,
+        time: new Date(point.time),
+      })),
+    };
+  }
+
+  // 地点の過去イベント（新しい順）
+  async getLocationHistory(
+    locationId: number,
+    limit: number = 50,
+  ): Promise<{ events: HistoricalEvent[]; total: number }> {
+    const query = new URLSearchParams({
+      locationId: String(locationId),
+      limit: String(limit),
+    });
+    const response = await fetch(`${this.baseUrl}/history?${query}`);
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return {
+      events: data.events.map((event: HistoricalEventResponse) =>
+        this.parseHistoricalEvent(event),
+      ),
+      total: data.total,
+    };
+  }
+
+  // 地点の年・イベント種別ごとの成功率
+  async getLocationHistoryStats(locationId: number): Promise<HistoricalStats[]> {
+    const response = await fetch(
+      `${this.baseUrl}/history/locations/${locationId}/stats`,
+    );
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data.stats;
+  }
+
+  // 地点の年月・イベント種別ごとの成功率（year 省略時は全期間）
+  async getLocationMonthlyHistory(
+    locationId: number,
+    year?: number,
+  ): Promise<MonthlyHistoricalSummary[]> {
+    const query = year !== undefined ? `?year=${year}` : "";
+    const response = await fetch(
+      `${this.baseUrl}/history/locations/${locationId}/monthly${query}`,
+    );
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data.months;
+  }
+
+  // 過去イベントの撮影結果を報告（報告済み・レート制限はサーバーのメッセージで通知）
+  async reportObservation(
+    historicalEventId: number,
+    report: ObservationReportRequest,
+  ): Promise<HistoricalEvent> {
+    const response = await fetch(
+      `${this.baseUrl}/history/${historicalEventId}/report`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(report),
+      },
+    );
+
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(
+        data?.message || `HTTP error! status: ${response.status}`,
+      );
+    }
+
+    return this.parseHistoricalEvent(data.event);
+  }
+
+  // 撮影地点の候補を投稿（レート制限・入力エラーはサーバーのメッセージで通知）
+  async submitLocationRequest(request: LocationRequestBody): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/location-requests`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(request),
+    });
+
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(
+        data?.message || `HTTP error! status: ${response.status}`,
+      );
+    }
+
+    return data.message;
+  }
+
+  // お気に入り地点の iCalendar フィード URL を発行（カレンダーアプリで購読する絶対 URL と有効期限）
+  async createFavoritesFeed(
+    locationIds: number[],
+  ): Promise<{ url: string; expiresAt: Date }> {
+    const response = await fetch(`${this.baseUrl}/ics/favorites`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ locationIds }),
+    });
+
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(
+        data?.message || `HTTP error! status: ${response.status}`,
+      );
+    }
+
+    return {
+      url: new URL(data.path, new URL(this.baseUrl, window.location.origin))
+        .href,
+      expiresAt: new Date(data.expiresAt),
+    };
+  }
+
   async exportLocations(): Promise<Blob> {
     const response = await fetch(`${this.baseUrl}/admin/locations/export`, {
       method: "GET",
@@ -164,6 +499,64 @@ class ApiClient {
     return await response.json();
   }
 
+  // GraphQL クエリを実行（errors がある場合は最初のエラーメッセージで例外）
+  private async graphql<T>(
+    query: string,
+    variables: Record<string, unknown>,
+  ): Promise<T> {
+    const response = await fetch(`${this.baseUrl}/graphql`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ query, variables }),
+    });
+    const result = await response.json().catch(() => ({}));
+    if (result.errors?.length) {
+      throw new Error(result.errors[0].message);
+    }
+    if (!response.ok || !result.data) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    return result.data;
+  }
+
+  private omitNulls<T extends object>(value: T): T {
+    return Object.fromEntries(
+      Object.entries(value).filter(([, fieldValue]) => fieldValue !== null),
+    ) as T;
+  }
+
+  // 過去イベントの日時文字列を Date オブジェクトに変換
+  private parseHistoricalEvent(event: HistoricalEventResponse): HistoricalEvent {
+    return {
+      ...event,
+      eventTime: new Date(event.eventTime),
+      reportedAt: event.reportedAt ? new Date(event.reportedAt) : undefined,
+      archivedAt: new Date(event.archivedAt),
+      createdAt: new Date(event.createdAt),
+    };
+  }
+
+  // イベントの時刻文字列（接触時刻を含む）を Date オブジェクトに変換
+  private parseEventTimes(event: any) {
+    return {
+      ...event,
+      time: new Date(event.time),
+      firstContactTime: event.firstContactTime
+        ? new Date(event.firstContactTime)
+        : undefined,
+      centerTime: event.centerTime ? new Date(event.centerTime) : undefined,
+      lastContactTime: event.lastContactTime
+        ? new Date(event.lastContactTime)
+        : undefined,
+      timeWindowStart: event.timeWindowStart
+        ? new Date(event.timeWindowStart)
+        : undefined,
+      timeWindowEnd: event.timeWindowEnd
+        ? new Date(event.timeWindowEnd)
+        : undefined,
+    };
+  }
+
   getErrorMessage(error: any): string {
     if (error?.response?.data?.message) {
       return error.response.data.message;
@@ -192,7 +192,10 @@ export class FavoritesService {
       id: event.id,
       type: event.type,
       subType: event.subType,
+      celestialBodyName: event.celestialBody?.name,
       time: event.time.toISOString(),
+      timeWindowStart: event.timeWindowStart?.toISOString(),
+      timeWindowEnd: event.timeWindowEnd?.toISOString(),
       locationId: event.location.id,
       locationName: event.location.name,
       azimuth: event.azimuth,
@@ -283,6 +286,13 @@ export class FavoritesService {
     }
   }
 
+  /**
+   * お気に入りデータを置き換え（サーバーに保存したお気に入りとの同期用）
+   */
+  replaceFavorites(favorites: Favorites): boolean {
+    return this.saveFavorites(favorites);
+  }
+
   /**
    * お気に入りデータをエクスポート（JSON形式）
    */
@@ -0,0 +1,119 @@
+// 切断時の再接続までの時間（サーバーの retry で上書き）
+const DEFAULT_RETRY_MS = 5000;
+
+export type EventStreamHandler = (event: string, data: unknown) => void;
+
+export interface EventStreamOptions {
+  // 接続のたびに呼び出す（再接続時に最新のトークンを使う）
+  headers?: () => Record<string, string>;
+}
+
+/**
+ * Server-Sent Events のストリームを購読
+ * EventSource はヘッダーを指定できないため、fetch でストリームを読み取る
+ * 切断時は自動で再接続し、認証エラーの場合は購読を終了する
+ * @returns 購読を解除する関数
+ */
+export const subscribeEventStream = (
+  url: string,
+  onEvent: EventStreamHandler,
+  options: EventStreamOptions = {}
+): (() => void) => {
+  const controller = new AbortController();
+  let retryMs = DEFAULT_RETRY_MS;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const dispatch = (block: string) => {
+    let event = "message";
+    const dataLines: string[] = [];
+
+    for (const line of block.split("\n")) {
+      // コメント行（ハートビート）
+      if (line === "" || line.startsWith(":")) {
+        continue;
+      }
+      const separator = line.indexOf(":");
+      const field = separator === -1 ? line : line.slice(0, separator);
+      const value =
+        separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "");
+
+      if (field === "event") {
+        event = value;
+      } else if (field === "data") {
+        dataLines.push(value);
+      } else if (field === "retry" && /^\d+$/.test(value)) {
+        retryMs = Number(value);
+      }
+    }
+
+    if (dataLines.length === 0) {
+      return;
+    }
+
+    try {
+      onEvent(event, JSON.parse(dataLines.join("\n")));
+    } catch (error) {
+      console.warn("Failed to parse event stream message:", error);
+    }
+  };
+
+  const connect = async () => {
+    try {
+      const response = await fetch(url, {
+        headers: {
+          Accept: "text/event-stream",
+          ...options.headers?.(),
+        },
+        cache: "no-store",
+        signal: controller.signal,
+      });
+
+      if (response.status === 401 || response.status === 403) {
+        console.warn("Event stream unauthorized:", url);
+        return;
+      }
+      if (!response.ok || !response.body) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+        buffer += decoder
+          .decode(value, { stream: true })
+          .replace(/\r\n?/g, "\n");
+
+        let boundary = buffer.indexOf("\n\n");
+        while (boundary !== -1) {
+          dispatch(buffer.slice(0, boundary));
+          buffer = buffer.slice(boundary + 2);
+          boundary = buffer.indexOf("\n\n");
+        }
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        return;
+      }
+      console.warn("Event stream disconnected:", error);
+    }
+
+    if (!controller.signal.aborted) {
+      retryTimer = setTimeout(connect, retryMs);
+    }
+  };
+
+  connect();
+
+  return () => {
+    controller.abort();
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+    }
+  };
+};
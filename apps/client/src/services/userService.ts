@@ -0,0 +1,248 @@
+import {
+  FavoriteEvent,
+  Favorites,
+  LoginLinkVerifyResponse,
+  NotificationChannel,
+  NotificationChannelRequest,
+  User,
+} from "@fuji-calendar/types";
+
+interface UserApiResponse {
+  success: boolean;
+  message?: string;
+}
+
+interface FavoritesResponse extends UserApiResponse {
+  favorites: Favorites;
+}
+
+interface NotificationChannelsResponse extends UserApiResponse {
+  channels: NotificationChannel[];
+}
+
+interface NotificationChannelResponse extends UserApiResponse {
+  channel?: NotificationChannel;
+}
+
+/**
+ * 一般ユーザー（メールのログインリンクでログインするアカウント）のサービス
+ * ログイン中はお気に入りをサーバーにも保存する
+ */
+class UserService {
+  private baseUrl = "/api"; // Vite proxy を使用
+  private tokenKey = "fuji_calendar_user_token";
+  private userKey = "fuji_calendar_user";
+
+  /**
+   * ログインリンクをメールで送信
+   */
+  async requestLoginLink(email: string): Promise<UserApiResponse> {
+    try {
+      const response = await fetch(`${this.baseUrl}/users/login-link`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ email }),
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error("Login link request error:", error);
+      return {
+        success: false,
+        message: "ログインリンクの送信中にエラーが発生しました。",
+      };
+    }
+  }
+
+  /**
+   * ログインリンクのトークンを検証してログイン
+   */
+  async verifyLoginLink(token: string): Promise<LoginLinkVerifyResponse> {
+    try {
+      const response = await fetch(`${this.baseUrl}/users/login-link/verify`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ token }),
+      });
+
+      const data = await response.json();
+
+      if (data.success && data.accessToken) {
+        localStorage.setItem(this.tokenKey, data.accessToken);
+        localStorage.setItem(this.userKey, JSON.stringify(data.user));
+      }
+
+      return data;
+    } catch (error) {
+      console.error("Login link verify error:", error);
+      return {
+        success: false,
+        message: "ログイン処理中にエラーが発生しました。",
+      };
+    }
+  }
+
+  /**
+   * ログアウト（この端末のお気に入りはそのまま残す）
+   */
+  logout(): void {
+    localStorage.removeItem(this.tokenKey);
+    localStorage.removeItem(this.userKey);
+  }
+
+  isLoggedIn(): boolean {
+    return !!localStorage.getItem(this.tokenKey);
+  }
+
+  getUser(): User | null {
+    const user = localStorage.getItem(this.userKey);
+    return user ? JSON.parse(user) : null;
+  }
+
+  /**
+   * サーバーに保存したお気に入りを取得
+   */
+  async fetchFavorites(): Promise<Favorites | null> {
+    const data = await this.request<FavoritesResponse>("/users/me/favorites", {
+      method: "GET",
+    });
+    return data ? data.favorites : null;
+  }
+
+  /**
+   * 端末のお気に入りをサーバーに統合し、統合後のお気に入りを取得
+   */
+  async mergeFavorites(favorites: Favorites): Promise<Favorites | null> {
+    const data = await this.request<FavoritesResponse>(
+      "/users/me/favorites/merge",
+      {
+        method: "POST",
+        body: JSON.stringify(favorites),
+      },
+    );
+    return data ? data.favorites : null;
+  }
+
+  async addLocation(locationId: number): Promise<boolean> {
+    return !!(await this.request(
+      `/users/me/favorites/locations/${locationId}`,
+      { method: "PUT" },
+    ));
+  }
+
+  async removeLocation(locationId: number): Promise<boolean> {
+    return !!(await this.request(
+      `/users/me/favorites/locations/${locationId}`,
+      { method: "DELETE" },
+    ));
+  }
+
+  async addEvent(event: FavoriteEvent): Promise<boolean> {
+    return !!(await this.request(
+      `/users/me/favorites/events/${encodeURIComponent(event.id)}`,
+      { method: "PUT", body: JSON.stringify(event) },
+    ));
+  }
+
+  async removeEvent(eventId: string): Promise<boolean> {
+    return !!(await this.request(
+      `/users/me/favorites/events/${encodeURIComponent(eventId)}`,
+      { method: "DELETE" },
+    ));
+  }
+
+  /**
+   * お気に入りイベントの通知先一覧
+   */
+  async fetchNotificationChannels(): Promise<NotificationChannel[] | null> {
+    const data = await this.request<NotificationChannelsResponse>(
+      "/users/me/notification-channels",
+      { method: "GET" },
+    );
+    return data ? data.channels : null;
+  }
+
+  /**
+   * 通知先を登録（失敗時は message にエラー内容）
+   */
+  async createNotificationChannel(
+    channel: NotificationChannelRequest,
+  ): Promise<NotificationChannelResponse> {
+    return (
+      (await this.send<NotificationChannelResponse>(
+        "/users/me/notification-channels",
+        { method: "POST", body: JSON.stringify(channel) },
+      )) ?? { success: false, message: "通知先の登録に失敗しました。" }
+    );
+  }
+
+  async deleteNotificationChannel(channelId: number): Promise<boolean> {
+    return !!(await this.request(
+      `/users/me/notification-channels/${channelId}`,
+      { method: "DELETE" },
+    ));
+  }
+
+  /**
+   * 通知先にテスト通知を送信
+   */
+  async sendTestNotification(channelId: number): Promise<UserApiResponse> {
+    return (
+      (await this.send(`/users/me/notification-channels/${channelId}/test`, {
+        method: "POST",
+      })) ?? { success: false, message: "テスト通知の送信に失敗しました。" }
+    );
+  }
+
+  /**
+   * ログイン中のユーザーとして API を呼び出す
+   * 失敗時は null（ログインの期限切れの場合はログアウトする）
+   */
+  private async request<T extends UserApiResponse = UserApiResponse>(
+    path: string,
+    init: RequestInit,
+  ): Promise<T | null> {
+    const data = await this.send<T>(path, init);
+    return data && data.success ? data : null;
+  }
+
+  /**
+   * ログイン中のユーザーとして API を呼び出し、エラーの応答もそのまま返す
+   * 通信エラー・未ログインの場合は null（ログインの期限切れの場合はログアウトする）
+   */
+  private async send<T extends UserApiResponse = UserApiResponse>(
+    path: string,
+    init: RequestInit,
+  ): Promise<T | null> {
+    const token = localStorage.getItem(this.tokenKey);
+    if (!token) {
+      return null;
+    }
+
+    try {
+      const response = await fetch(`${this.baseUrl}${path}`, {
+        ...init,
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      if (response.status === 401) {
+        this.logout();
+        return null;
+      }
+
+      return (await response.json()) as T;
+    } catch (error) {
+      console.error("User API error:", error);
+      return null;
+    }
+  }
+}
+
+export const userService = new UserService();
@@ -1 +1 @@
-export type AdminView = 'dashboard' | 'locations' | 'queue' | 'events' | 'data' | 'users' | 'settings';
\ No newline at end of file
+export type AdminView = 'dashboard' | 'locations' | 'requests' | 'queue' | 'events' | 'data' | 'users' | 'settings' | 'apiKeys';
\ No newline at end of file
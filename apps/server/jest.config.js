@@ -0,0 +1,15 @@
+// 天文計算は撮影地点の現地時刻（日本時間）で検索範囲を決めるため、本番と同じタイムゾーンで実行する
+process.env.TZ = "Asia/Tokyo";
+// 計算途中のデバッグログは出力しない
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || "warn";
+
+module.exports = {
+  preset: "ts-jest",
+  testEnvironment: "node",
+  roots: ["<rootDir>/src"],
+  testMatch: ["**/__tests__/**/*.test.ts"],
+  moduleNameMapper: {
+    "^@/(.*)$": "<rootDir>/src/$1",
+  },
+  moduleFileExtensions: ["ts", "js", "json"],
+};
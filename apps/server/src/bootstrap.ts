@@ -3,6 +3,8 @@ import path from "path";
 import { getComponentLogger } from "@fuji-calendar/utils";
 import { DIContainer } from "./di/DIContainer";
 import { QueueService } from "./services/interfaces/QueueService";
+import { RealtimeService } from "./services/RealtimeService";
+import { validateAuthSecrets } from "./config/auth";
 const logger = getComponentLogger("bootstrap");
 
 export interface BootstrapConfig {
@@ -17,6 +19,9 @@ export class Bootstrap {
   static async initialize(container: DIContainer): Promise<void> {
     logger.info("アプリケーション初期化開始");
 
+    // 管理者とは別の秘密鍵が設定されていない場合は起動しない
+    validateAuthSecrets();
+
     // QueueService の Redis 接続テスト
     try {
       const queueService = container.resolve<QueueService>("QueueService");
@@ -30,6 +35,15 @@ export class Bootstrap {
       logger.warn("QueueService 初期化エラー", error);
     }
 
+    // ジョブの進捗・カレンダー更新のリアルタイム配信を開始
+    try {
+      const realtimeService =
+        container.resolve<RealtimeService>("RealtimeService");
+      realtimeService.start();
+    } catch (error) {
+      logger.warn("RealtimeService 初期化エラー", error);
+    }
+
     // BackgroundJobScheduler を初期化（本番環境でのみ開始）
     try {
       const { BackgroundJobScheduler } = await import(
@@ -107,6 +121,17 @@ export class Bootstrap {
       logger.error("QueueService シャットダウンエラー", error);
     }
 
+    // RealtimeService の終了処理（接続中のクライアントを切断）
+    try {
+      if (container) {
+        const realtimeService =
+          container.resolve<RealtimeService>("RealtimeService");
+        await realtimeService.shutdown();
+      }
+    } catch (error) {
+      logger.error("RealtimeService シャットダウンエラー", error);
+    }
+
     // BackgroundJobScheduler の終了処理
     try {
       if (container) {
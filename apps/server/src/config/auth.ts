@@ -8,4 +8,35 @@ export const AUTH_CONFIG = {
   REFRESH_SECRET: process.env.REFRESH_SECRET || "dev-refresh-secret-key",
   REFRESH_EXPIRES_IN: "7d",
   BCRYPT_SALT_ROUNDS: 10,
+  // お気に入り地点の ICS フィードの署名（変更すると発行済みの購読 URL はすべて無効）
+  ICS_FEED_SECRET: process.env.ICS_FEED_SECRET || "dev-ics-feed-secret-key",
+  ICS_FEED_EXPIRES_DAYS: 365,
+  // 一般ユーザー（管理者とは別の秘密鍵・audience で署名する）
+  USER_JWT_SECRET: process.env.USER_JWT_SECRET || "dev-user-jwt-secret-key",
+  USER_JWT_EXPIRES_IN: "30d",
+  USER_JWT_AUDIENCE: "fuji-calendar-user",
+  LOGIN_LINK_EXPIRES_MINUTES: 15,
 } as const;
+
+// 管理者の JWT_SECRET とは別に設定する秘密鍵
+const SEPARATE_SECRET_NAMES = ["ICS_FEED_SECRET", "USER_JWT_SECRET"];
+
+/**
+ * 秘密鍵の検証（サーバーの起動時）
+ * 本番環境で未設定・JWT_SECRET と同じ値の場合は例外（開発環境では開発用の値を使う）
+ */
+export const validateAuthSecrets = (): void => {
+  if (process.env.NODE_ENV !== "production") {
+    return;
+  }
+
+  for (const name of SEPARATE_SECRET_NAMES) {
+    const secret = process.env[name];
+    if (!secret) {
+      throw new Error(`${name} を設定してください`);
+    }
+    if (secret === process.env.JWT_SECRET) {
+      throw new Error(`${name} には JWT_SECRET と異なる値を設定してください`);
+    }
+  }
+};
@@ -0,0 +1,162 @@
+import { Request, Response } from "express";
+import { AlignmentLineEventType } from "@fuji-calendar/types";
+import { getComponentLogger } from "@fuji-calendar/utils";
+import { AlignmentLineService } from "../services/AlignmentLineService";
+import { FUJI_TARGET_SLUG } from "../services/astronomical/AlignmentTarget";
+
+const logger = getComponentLogger("AlignmentLineController");
+
+const ALIGNMENT_LINE_EVENT_TYPES: AlignmentLineEventType[] = [
+  "diamond_sunrise",
+  "diamond_sunset",
+  "pearl_moonrise",
+  "pearl_moonset",
+];
+
+// 整列対象の識別子の形式（英小文字・数字・ハイフン）
+const TARGET_SLUG_PATTERN = /^[a-z0-9-]{1,50}$/;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// 候補地点を探す線からの距離（m）
+const DEFAULT_RADIUS = 1000;
+const MAX_RADIUS = 20000;
+
+/**
+ * 撮影地点の逆算コントローラー
+ * 指定日に天体が山頂に重なる地上の線と、その近くの撮影地点を提供
+ */
+export class AlignmentLineController {
+  constructor(private alignmentLineService: AlignmentLineService) {}
+
+  /**
+   * 線と候補地点を取得
+   * GET /api/alignment-line?date=2026-02-01&type=diamond_sunset&startTime=15:00&endTime=17:30&radius=1000
+   */
+  async getAlignmentLine(req: Request, res: Response): Promise<void> {
+    try {
+      const {
+        date,
+        type,
+        startTime,
+        endTime,
+        radius,
+        observerElevation,
+        target,
+      } = req.query;
+
+      if (typeof date !== "string" || !DATE_PATTERN.test(date)) {
+        this.sendValidationError(
+          res,
+          "日付は YYYY-MM-DD 形式で指定してください。",
+        );
+        return;
+      }
+
+      if (
+        !ALIGNMENT_LINE_EVENT_TYPES.includes(type as AlignmentLineEventType)
+      ) {
+        this.sendValidationError(
+          res,
+          `type には ${ALIGNMENT_LINE_EVENT_TYPES.join(", ")} のいずれかを指定してください。`,
+        );
+        return;
+      }
+
+      // 時刻は日本時間の HH:mm で、開始・終了の両方を指定する
+      if (
+        (startTime !== undefined || endTime !== undefined) &&
+        (typeof startTime !== "string" ||
+          typeof endTime !== "string" ||
+          !TIME_PATTERN.test(startTime) ||
+          !TIME_PATTERN.test(endTime) ||
+          startTime >= endTime)
+      ) {
+        this.sendValidationError(
+          res,
+          "startTime・endTime は HH:mm 形式で、開始が終了より前になるよう両方指定してください。",
+        );
+        return;
+      }
+
+      const radiusValue =
+        radius === undefined ? DEFAULT_RADIUS : Number(radius);
+      if (isNaN(radiusValue) || radiusValue <= 0 || radiusValue > MAX_RADIUS) {
+        this.sendValidationError(
+          res,
+          `radius は 1〜${MAX_RADIUS} m の範囲で指定してください。`,
+        );
+        return;
+      }
+
+      const elevationValue =
+        observerElevation === undefined ? 0 : Number(observerElevation);
+      if (
+        isNaN(elevationValue) ||
+        elevationValue < -100 ||
+        elevationValue > 3776
+      ) {
+        this.sendValidationError(
+          res,
+          "observerElevation は -100〜3776 m の範囲で指定してください。",
+        );
+        return;
+      }
+
+      const targetSlug = target === undefined ? FUJI_TARGET_SLUG : target;
+      if (
+        typeof targetSlug !== "string" ||
+        !TARGET_SLUG_PATTERN.test(targetSlug)
+      ) {
+        this.sendValidationError(res, "整列対象の識別子が正しくありません。");
+        return;
+      }
+
+      const line = await this.alignmentLineService.getAlignmentLine({
+        date,
+        eventType: type as AlignmentLineEventType,
+        startTime:
+          typeof startTime === "string"
+            ? new Date(`${date}T${startTime}:00+09:00`)
+            : undefined,
+        endTime:
+          typeof endTime === "string"
+            ? new Date(`${date}T${endTime}:00+09:00`)
+            : undefined,
+        radius: radiusValue,
+        observerElevation: elevationValue,
+        targetSlug,
+      });
+
+      if (!line) {
+        res.status(404).json({
+          success: false,
+          error: "Target not found",
+          message: "指定された整列対象が見つかりません。",
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        line,
+      });
+    } catch (error) {
+      logger.error("撮影地点の逆算エラー", error, { query: req.query });
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+        message: "撮影地点の逆算中にエラーが発生しました。",
+      });
+    }
+  }
+
+  private sendValidationError(res: Response, message: string): void {
+    res.status(400).json({
+      success: false,
+      error: "Validation error",
+      message,
+    });
+  }
+}
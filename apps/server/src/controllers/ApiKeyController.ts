@@ -0,0 +1,219 @@
+import { Response } from "express";
+import { ApiKeyRequest } from "@fuji-calendar/types";
+import { getComponentLogger } from "@fuji-calendar/utils";
+import { AuthenticatedRequest } from "../middleware/auth";
+import { ApiKeyUpdateData } from "../repositories/interfaces/ApiKeyRepository";
+import {
+  ApiKeyService,
+  DEFAULT_DAILY_QUOTA,
+  DEFAULT_RATE_LIMIT_PER_MINUTE,
+} from "../services/ApiKeyService";
+
+const logger = getComponentLogger("ApiKeyController");
+
+const MAX_NAME_LENGTH = 100;
+const MAX_RATE_LIMIT_PER_MINUTE = 10000;
+const MAX_DAILY_QUOTA = 10000000;
+
+/**
+ * API キー管理コントローラー
+ * 公開 API（/api/v1）の API キーの発行・変更・削除（管理者のみ）
+ */
+export class ApiKeyController {
+  constructor(private apiKeyService: ApiKeyService) {}
+
+  /**
+   * API キー一覧（今日のリクエスト数を含む）
+   * GET /api/admin/api-keys
+   */
+  async getApiKeys(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const apiKeys = await this.apiKeyService.getApiKeys();
+
+      res.json({
+        success: true,
+        apiKeys,
+      });
+    } catch (error) {
+      logger.error("API キー一覧取得エラー", error);
+      this.sendError(res, "API キーの取得中にエラーが発生しました。");
+    }
+  }
+
+  /**
+   * API キーを発行（キーはこの応答でのみ返す）
+   * POST /api/admin/api-keys { name, rateLimitPerMinute?, dailyQuota? }
+   */
+  async createApiKey(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const data = this.parseApiKey(req.body);
+      if (typeof data === "string") {
+        this.sendValidationError(res, data);
+        return;
+      }
+
+      const { apiKey, key } = await this.apiKeyService.createApiKey({
+        name: data.name,
+        rateLimitPerMinute: data.rateLimitPerMinute,
+        dailyQuota: data.dailyQuota,
+      });
+      logger.info("管理者が API キーを発行", {
+        adminId: req.admin?.id,
+        apiKeyId: apiKey.id,
+      });
+
+      res.status(201).json({
+        success: true,
+        apiKey,
+        key,
+        message:
+          "API キーを発行しました。キーは再表示できないため控えてください。",
+      });
+    } catch (error) {
+      logger.error("API キー発行エラー", error);
+      this.sendError(res, "API キーの発行中にエラーが発生しました。");
+    }
+  }
+
+  /**
+   * API キーの名前・制限・有効状態を更新
+   * PUT /api/admin/api-keys/:id { name, rateLimitPerMinute?, dailyQuota?, enabled? }
+   */
+  async updateApiKey(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        this.sendValidationError(
+          res,
+          "有効な API キー ID を指定してください。",
+        );
+        return;
+      }
+
+      const data = this.parseApiKey(req.body);
+      if (typeof data === "string") {
+        this.sendValidationError(res, data);
+        return;
+      }
+
+      const apiKey = await this.apiKeyService.updateApiKey(id, data);
+      if (!apiKey) {
+        this.sendNotFound(res);
+        return;
+      }
+
+      res.json({
+        success: true,
+        apiKey,
+        message: "API キーを更新しました。",
+      });
+    } catch (error) {
+      logger.error("API キー更新エラー", error, { id: req.params.id });
+      this.sendError(res, "API キーの更新中にエラーが発生しました。");
+    }
+  }
+
+  /**
+   * API キーを削除（削除したキーでのリクエストは 401 になる）
+   * DELETE /api/admin/api-keys/:id
+   */
+  async deleteApiKey(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        this.sendValidationError(
+          res,
+          "有効な API キー ID を指定してください。",
+        );
+        return;
+      }
+
+      const deleted = await this.apiKeyService.deleteApiKey(id);
+      if (!deleted) {
+        this.sendNotFound(res);
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: "API キーを削除しました。",
+      });
+    } catch (error) {
+      logger.error("API キー削除エラー", error, { id: req.params.id });
+      this.sendError(res, "API キーの削除中にエラーが発生しました。");
+    }
+  }
+
+  /**
+   * API キーの入力を解析（不正な場合はエラーメッセージ）
+   * 制限を省略した場合は既定値にする
+   */
+  private parseApiKey(body: ApiKeyRequest): ApiKeyUpdateData | string {
+    const { name, rateLimitPerMinute, dailyQuota, enabled } = body ?? {};
+
+    if (
+      typeof name !== "string" ||
+      name.trim().length === 0 ||
+      name.trim().length > MAX_NAME_LENGTH
+    ) {
+      return `名前は 1〜${MAX_NAME_LENGTH} 文字で指定してください。`;
+    }
+
+    if (
+      rateLimitPerMinute !== undefined &&
+      !this.isLimit(rateLimitPerMinute, MAX_RATE_LIMIT_PER_MINUTE)
+    ) {
+      return `1 分間のリクエスト数の上限は 1〜${MAX_RATE_LIMIT_PER_MINUTE} の整数で指定してください。`;
+    }
+
+    if (
+      dailyQuota !== undefined &&
+      !this.isLimit(dailyQuota, MAX_DAILY_QUOTA)
+    ) {
+      return `1 日のリクエスト数の上限は 1〜${MAX_DAILY_QUOTA} の整数で指定してください。`;
+    }
+
+    if (enabled !== undefined && typeof enabled !== "boolean") {
+      return "有効・無効は true または false で指定してください。";
+    }
+
+    return {
+      name: name.trim(),
+      rateLimitPerMinute: rateLimitPerMinute ?? DEFAULT_RATE_LIMIT_PER_MINUTE,
+      dailyQuota: dailyQuota ?? DEFAULT_DAILY_QUOTA,
+      enabled: enabled ?? true,
+    };
+  }
+
+  private isLimit(value: unknown, max: number): boolean {
+    return (
+      Number.isInteger(value) &&
+      (value as number) >= 1 &&
+      (value as number) <= max
+    );
+  }
+
+  private sendNotFound(res: Response): void {
+    res.status(404).json({
+      success: false,
+      error: "API key not found",
+      message: "指定された API キーが見つかりません。",
+    });
+  }
+
+  private sendValidationError(res: Response, message: string): void {
+    res.status(400).json({
+      success: false,
+      error: "Validation error",
+      message,
+    });
+  }
+
+  private sendError(res: Response, message: string): void {
+    res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message,
+    });
+  }
+}
@@ -0,0 +1,260 @@
+import { Request, Response } from "express";
+import {
+  ApiV1CalendarDay,
+  ApiV1CalendarResponse,
+  ApiV1ErrorResponse,
+  EventsResponse,
+  LocationsResponse,
+  TargetsResponse,
+  UpcomingEventsResponse,
+} from "@fuji-calendar/types";
+import { getComponentLogger } from "@fuji-calendar/utils";
+import { CalendarService } from "../services/interfaces/CalendarService";
+import { LocationService } from "../services/LocationService";
+import { TargetService } from "../services/TargetService";
+import { FUJI_TARGET_SLUG } from "../services/astronomical/AlignmentTarget";
+import { buildV1OpenApiDocument } from "../openapi/v1Document";
+
+const logger = getComponentLogger("ApiV1Controller");
+
+// 整列対象の識別子の形式（英小文字・数字・ハイフン）
+const TARGET_SLUG_PATTERN = /^[a-z0-9-]{1,50}$/;
+
+const DEFAULT_UPCOMING_LIMIT = 50;
+const MAX_UPCOMING_LIMIT = 200;
+
+// 応答の型は OpenAPI ドキュメントのスキーマと同じ @fuji-calendar/types の型
+type V1Response<T> = Response<T | ApiV1ErrorResponse>;
+
+/**
+ * 公開 API v1 コントローラー
+ * 応答の形式は OpenAPI ドキュメント（GET /api/v1/openapi.json）で公開しているため、互換性を保つこと
+ */
+export class ApiV1Controller {
+  // ドキュメントは起動中に変わらないため 1 回だけ組み立てる
+  private openApiDocument = buildV1OpenApiDocument();
+
+  constructor(
+    private calendarService: CalendarService,
+    private locationService: LocationService,
+    private targetService: TargetService,
+  ) {}
+
+  /**
+   * OpenAPI 3 ドキュメント
+   * GET /api/v1/openapi.json
+   */
+  async getOpenApiDocument(req: Request, res: Response): Promise<void> {
+    res.json(this.openApiDocument);
+  }
+
+  /**
+   * 月間カレンダー
+   * GET /api/v1/calendar/:year/:month?target=fuji
+   */
+  async getMonthlyCalendar(
+    req: Request,
+    res: V1Response<ApiV1CalendarResponse>,
+  ): Promise<void> {
+    try {
+      const year = Number(req.params.year);
+      const month = Number(req.params.month);
+
+      if (!Number.isInteger(year) || year < 2020 || year > 2030) {
+        this.sendValidationError(
+          res,
+          "年は 2020 年から 2030 年の範囲で指定してください。",
+        );
+        return;
+      }
+
+      if (!Number.isInteger(month) || month < 1 || month > 12) {
+        this.sendValidationError(
+          res,
+          "月は 1 から 12 の範囲で指定してください。",
+        );
+        return;
+      }
+
+      const targetSlug = this.parseTargetSlug(req);
+      if (!targetSlug) {
+        this.sendValidationError(res, "整列対象の識別子が正しくありません。");
+        return;
+      }
+
+      const result = await this.calendarService.getMonthlyCalendar(
+        year,
+        month,
+        targetSlug,
+      );
+
+      res.json({
+        year: result.year,
+        month: result.month,
+        events: result.events.map((day) => ({
+          date: day.date,
+          type: day.type as ApiV1CalendarDay["type"],
+          events: day.events,
+        })),
+      });
+    } catch (error) {
+      logger.error("v1 月間カレンダー取得エラー", error, {
+        year: req.params.year,
+        month: req.params.month,
+      });
+      this.sendError(res, "カレンダーデータの取得に失敗しました。");
+    }
+  }
+
+  /**
+   * 日別イベント
+   * GET /api/v1/events/:date?target=fuji
+   */
+  async getDayEvents(
+    req: Request,
+    res: V1Response<EventsResponse>,
+  ): Promise<void> {
+    try {
+      const { date } = req.params;
+      if (!this.isValidDate(date)) {
+        this.sendValidationError(
+          res,
+          "日付は YYYY-MM-DD 形式で指定してください。",
+        );
+        return;
+      }
+
+      const targetSlug = this.parseTargetSlug(req);
+      if (!targetSlug) {
+        this.sendValidationError(res, "整列対象の識別子が正しくありません。");
+        return;
+      }
+
+      const result = await this.calendarService.getDayEvents(date, targetSlug);
+
+      res.json({ date, events: result.events });
+    } catch (error) {
+      logger.error("v1 日別イベント取得エラー", error, {
+        date: req.params.date,
+      });
+      this.sendError(res, "イベントデータの取得に失敗しました。");
+    }
+  }
+
+  /**
+   * 今後のイベント
+   * GET /api/v1/events/upcoming?limit=50&target=fuji
+   */
+  async getUpcomingEvents(
+    req: Request,
+    res: V1Response<UpcomingEventsResponse>,
+  ): Promise<void> {
+    try {
+      const { limit } = req.query;
+      const limitValue =
+        limit === undefined ? DEFAULT_UPCOMING_LIMIT : Number(limit);
+      if (
+        !Number.isInteger(limitValue) ||
+        limitValue < 1 ||
+        limitValue > MAX_UPCOMING_LIMIT
+      ) {
+        this.sendValidationError(
+          res,
+          `limit は 1〜${MAX_UPCOMING_LIMIT} の整数で指定してください。`,
+        );
+        return;
+      }
+
+      const targetSlug = this.parseTargetSlug(req);
+      if (!targetSlug) {
+        this.sendValidationError(res, "整列対象の識別子が正しくありません。");
+        return;
+      }
+
+      const events = await this.calendarService.getUpcomingEvents(
+        limitValue,
+        targetSlug,
+      );
+
+      res.json({ events });
+    } catch (error) {
+      logger.error("v1 今後のイベント取得エラー", error);
+      this.sendError(res, "今後のイベントデータの取得に失敗しました。");
+    }
+  }
+
+  /**
+   * 撮影地点一覧
+   * GET /api/v1/locations
+   */
+  async getLocations(
+    req: Request,
+    res: V1Response<LocationsResponse>,
+  ): Promise<void> {
+    try {
+      const locations = await this.locationService.getAllLocations();
+
+      res.json({ locations });
+    } catch (error) {
+      logger.error("v1 撮影地点一覧取得エラー", error);
+      this.sendError(res, "撮影地点の取得に失敗しました。");
+    }
+  }
+
+  /**
+   * 整列対象一覧
+   * GET /api/v1/targets
+   */
+  async getTargets(
+    req: Request,
+    res: V1Response<TargetsResponse>,
+  ): Promise<void> {
+    try {
+      const targets = await this.targetService.getAllTargets();
+
+      res.json({ targets });
+    } catch (error) {
+      logger.error("v1 整列対象一覧取得エラー", error);
+      this.sendError(res, "整列対象の取得に失敗しました。");
+    }
+  }
+
+  // YYYY-MM-DD 形式かつ実在する日付か
+  private isValidDate(date: string): boolean {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return false;
+    }
+    const parsed = new Date(`${date}T00:00:00Z`);
+    return !isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date);
+  }
+
+  // target クエリパラメータから整列対象の識別子を取得（省略時は富士山、不正な形式は null）
+  private parseTargetSlug(req: Request): string | null {
+    const target = req.query.target;
+    if (target === undefined || target === "") {
+      return FUJI_TARGET_SLUG;
+    }
+    return typeof target === "string" && TARGET_SLUG_PATTERN.test(target)
+      ? target
+      : null;
+  }
+
+  private sendValidationError(
+    res: Response<ApiV1ErrorResponse>,
+    message: string,
+  ): void {
+    res.status(400).json({
+      success: false,
+      error: "Validation error",
+      message,
+    });
+  }
+
+  private sendError(res: Response<ApiV1ErrorResponse>, message: string): void {
+    res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message,
+    });
+  }
+}
@@ -2,6 +2,8 @@ import { Request, Response } from "express";
 import { getComponentLogger } from "@fuji-calendar/utils";
 import type { DIContainer } from "../di/DIContainer";
 import type { PrismaClient } from "@prisma/client";
+import type { EventCacheService } from "../services/EventCacheService";
+import type { HistoricalEventService } from "../services/HistoricalEventService";
 // 型のみのインポート - 実際の使用は動的解決
 // import type { QueueService } from '../services/interfaces/QueueService';
 // import type { BackgroundJobScheduler } from '../services/BackgroundJobScheduler';
@@ -208,6 +210,65 @@ export class BackgroundJobController {
     }
   }
 
+  /**
+   * 年ごとのイベント生成状況を取得
+   * GET /api/admin/event-generations?years=2026,2027,2028
+   * years を省略した場合は今年から event_horizon_years 年先まで
+   */
+  async getEventGenerations(req: Request, res: Response): Promise<void> {
+    try {
+      const { years } = req.query;
+
+      let targetYears: number[];
+      if (years !== undefined) {
+        targetYears =
+          typeof years === "string" ? years.split(",").map(Number) : [];
+        if (
+          targetYears.length === 0 ||
+          targetYears.length > 20 ||
+          !targetYears.every(
+            (year) => Number.isInteger(year) && year >= 2000 && year <= 2100,
+          )
+        ) {
+          res.status(400).json({
+            success: false,
+            error: "Invalid years",
+            message: "years には 2000〜2100 の年をカンマ区切りで指定してください。",
+          });
+          return;
+        }
+      } else {
+        const systemSettingsService = this.container.resolve(
+          "SystemSettingsService",
+        ) as any;
+        const { eventHorizonYears } =
+          await systemSettingsService.getPerformanceSettings();
+        const currentYear = new Date().getFullYear();
+        targetYears = Array.from(
+          { length: Math.max(0, Math.floor(eventHorizonYears)) + 1 },
+          (_, i) => currentYear + i,
+        );
+      }
+
+      const eventCacheService =
+        this.container.resolve<EventCacheService>("EventCacheService");
+      const progress =
+        await eventCacheService.getGenerationProgress(targetYears);
+
+      res.json({
+        success: true,
+        years: progress,
+      });
+    } catch (error) {
+      logger.error("イベント生成状況取得エラー", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+        message: "イベント生成状況の取得に失敗しました。",
+      });
+    }
+  }
+
   /**
    * ジョブの状態を判定
    */
@@ -234,7 +295,15 @@ export class BackgroundJobController {
     logger.info("手動日次メンテナンス - キュー統計", queueStats);
 
     const cleanedJobs = await queueService.cleanFailedJobs(7);
-    logger.info("手動日次メンテナンス完了", { cleanedFailedJobs: cleanedJobs });
+
+    const historicalEventService =
+      this.container.resolve<HistoricalEventService>("HistoricalEventService");
+    const archivedEvents = await historicalEventService.archivePastEvents();
+
+    logger.info("手動日次メンテナンス完了", {
+      cleanedFailedJobs: cleanedJobs,
+      archivedEvents,
+    });
   }
 
   /**
@@ -1,6 +1,13 @@
 import { Request, Response } from "express";
 import { CalendarService } from "../services/interfaces/CalendarService";
 import { getComponentLogger } from "@fuji-calendar/utils";
+import { FUJI_TARGET_SLUG } from "../services/astronomical/AlignmentTarget";
+
+// 整列対象の識別子の形式（英小文字・数字・ハイフン）
+const TARGET_SLUG_PATTERN = /^[a-z0-9-]{1,50}$/;
+
+// 期間指定で取得できる最大日数（3 年分）
+const MAX_RANGE_DAYS = 3 * 366;
 
 export class CalendarController {
   private logger = getComponentLogger("calendar-controller");
@@ -8,7 +15,7 @@ export class CalendarController {
   constructor(private calendarService: CalendarService) {}
 
   // 月間カレンダーデータを取得（キャッシュ対応）
-  // GET /api/calendar/:year/:month
+  // GET /api/calendar/:year/:month?target=fuji
   async getMonthlyCalendar(req: Request, res: Response) {
     const startTime = Date.now();
 
@@ -38,9 +45,25 @@ export class CalendarController {
         });
       }
 
-      this.logger.info("月間カレンダー取得リクエスト", { year, month });
+      const targetSlug = this.parseTargetSlug(req);
+      if (!targetSlug) {
+        return res.status(400).json({
+          error: "Invalid target",
+          message: "整列対象の識別子が正しくありません。",
+        });
+      }
+
+      this.logger.info("月間カレンダー取得リクエスト", {
+        year,
+        month,
+        targetSlug,
+      });
 
-      const result = await this.calendarService.getMonthlyCalendar(year, month);
+      const result = await this.calendarService.getMonthlyCalendar(
+        year,
+        month,
+        targetSlug,
+      );
 
       const processingTime = Date.now() - startTime;
       this.logger.info("月間カレンダー取得完了", {
@@ -67,8 +90,90 @@ export class CalendarController {
     }
   }
 
+  // 期間イベント取得（年をまたぐ長期の計画用）
+  // GET /api/calendar/range?from=2026-11-01&to=2029-02-28&target=fuji&locationIds=1,2
+  async getRangeEvents(req: Request, res: Response) {
+    try {
+      const { from, to, locationIds } = req.query;
+
+      if (
+        typeof from !== "string" ||
+        typeof to !== "string" ||
+        !this.isValidDate(from) ||
+        !this.isValidDate(to)
+      ) {
+        return res.status(400).json({
+          error: "Invalid date format",
+          message: "from・to は YYYY-MM-DD 形式で指定してください。",
+        });
+      }
+
+      const rangeDays =
+        (new Date(to).getTime() - new Date(from).getTime()) /
+        (24 * 60 * 60 * 1000);
+      if (rangeDays < 0 || rangeDays >= MAX_RANGE_DAYS) {
+        return res.status(400).json({
+          error: "Invalid date range",
+          message: `from は to 以前の日付とし、期間は ${MAX_RANGE_DAYS} 日以内で指定してください。`,
+        });
+      }
+
+      let locationIdList: number[] | undefined;
+      if (locationIds !== undefined) {
+        locationIdList =
+          typeof locationIds === "string"
+            ? locationIds.split(",").map(Number)
+            : [];
+        if (
+          locationIdList.length === 0 ||
+          !locationIdList.every((id) => Number.isInteger(id) && id > 0)
+        ) {
+          return res.status(400).json({
+            error: "Invalid locationIds",
+            message: "locationIds には地点 ID をカンマ区切りで指定してください。",
+          });
+        }
+      }
+
+      const targetSlug = this.parseTargetSlug(req);
+      if (!targetSlug) {
+        return res.status(400).json({
+          error: "Invalid target",
+          message: "整列対象の識別子が正しくありません。",
+        });
+      }
+
+      this.logger.info("期間イベント取得リクエスト", {
+        from,
+        to,
+        targetSlug,
+        locationIds: locationIdList,
+      });
+
+      const result = await this.calendarService.getRangeEvents(
+        from,
+        to,
+        targetSlug,
+        locationIdList,
+      );
+
+      res.json(result);
+    } catch (error) {
+      this.logger.error("期間イベント取得エラー", {
+        from: req.query.from,
+        to: req.query.to,
+        error,
+      });
+
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "イベントデータの取得に失敗しました。",
+      });
+    }
+  }
+
   // 日別イベント取得
-  // GET /api/events/:date
+  // GET /api/events/:date?target=fuji
   async getDayEvents(req: Request, res: Response) {
     try {
       const { date } = req.params;
@@ -81,9 +186,17 @@ export class CalendarController {
         });
       }
 
-      this.logger.info("日別イベント取得リクエスト", { date });
+      const targetSlug = this.parseTargetSlug(req);
+      if (!targetSlug) {
+        return res.status(400).json({
+          error: "Invalid target",
+          message: "整列対象の識別子が正しくありません。",
+        });
+      }
+
+      this.logger.info("日別イベント取得リクエスト", { date, targetSlug });
 
-      const result = await this.calendarService.getDayEvents(date);
+      const result = await this.calendarService.getDayEvents(date, targetSlug);
 
       this.logger.info("日別イベント取得完了", {
         date,
@@ -105,7 +218,7 @@ export class CalendarController {
   }
 
   // 今後のイベント取得
-  // GET /api/events/upcoming
+  // GET /api/events/upcoming?target=fuji
   async getUpcomingEvents(req: Request, res: Response) {
     try {
       const limit = parseInt(req.query.limit as string) || 50;
@@ -117,9 +230,20 @@ export class CalendarController {
         });
       }
 
-      this.logger.info("今後のイベント取得リクエスト", { limit });
+      const targetSlug = this.parseTargetSlug(req);
+      if (!targetSlug) {
+        return res.status(400).json({
+          error: "Invalid target",
+          message: "整列対象の識別子が正しくありません。",
+        });
+      }
+
+      this.logger.info("今後のイベント取得リクエスト", { limit, targetSlug });
 
-      const events = await this.calendarService.getUpcomingEvents(limit);
+      const events = await this.calendarService.getUpcomingEvents(
+        limit,
+        targetSlug,
+      );
 
       this.logger.info("今後のイベント取得完了", {
         limit,
@@ -138,7 +262,7 @@ export class CalendarController {
   }
 
   // 地点別年間イベント取得
-  // GET /api/calendar/location/:locationId/:year
+  // GET /api/calendar/location/:locationId/:year?target=fuji
   async getLocationYearlyEvents(req: Request, res: Response) {
     try {
       const locationId = parseInt(req.params.locationId);
@@ -158,14 +282,24 @@ export class CalendarController {
         });
       }
 
+      const targetSlug = this.parseTargetSlug(req);
+      if (!targetSlug) {
+        return res.status(400).json({
+          error: "Invalid target",
+          message: "整列対象の識別子が正しくありません。",
+        });
+      }
+
       this.logger.info("地点別年間イベント取得リクエスト", {
         locationId,
         year,
+        targetSlug,
       });
 
       const events = await this.calendarService.getLocationYearlyEvents(
         locationId,
         year,
+        targetSlug,
       );
 
       this.logger.info("地点別年間イベント取得完了", {
@@ -228,4 +362,24 @@ export class CalendarController {
       });
     }
   }
+
+  // YYYY-MM-DD 形式かつ実在する日付か
+  private isValidDate(date: string): boolean {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return false;
+    }
+    const parsed = new Date(`${date}T00:00:00Z`);
+    return !isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date);
+  }
+
+  // target クエリパラメータから整列対象の識別子を取得（省略時は富士山、不正な形式は null）
+  private parseTargetSlug(req: Request): string | null {
+    const target = req.query.target;
+    if (target === undefined || target === "") {
+      return FUJI_TARGET_SLUG;
+    }
+    return typeof target === "string" && TARGET_SLUG_PATTERN.test(target)
+      ? target
+      : null;
+  }
 }
@@ -0,0 +1,85 @@
+import { Request, Response } from "express";
+import { getComponentLogger } from "@fuji-calendar/utils";
+import {
+  EventPathService,
+  PATH_RANGE_MINUTES,
+} from "../services/EventPathService";
+
+const logger = getComponentLogger("EventPathController");
+
+// イベント ID の形式（DB の連番）
+const EVENT_ID_PATTERN = /^\d{1,19}$/;
+
+// イベント時刻の前後に軌跡を求める範囲の上限（分）
+const MAX_RANGE_MINUTES = 120;
+
+/**
+ * イベント前後の天体の軌跡コントローラー
+ */
+export class EventPathController {
+  constructor(private eventPathService: EventPathService) {}
+
+  /**
+   * イベントの天体の軌跡を取得
+   * GET /api/events/:eventId/path?range=30
+   */
+  async getEventPath(req: Request, res: Response): Promise<void> {
+    try {
+      const { eventId } = req.params;
+      if (!EVENT_ID_PATTERN.test(eventId)) {
+        this.sendValidationError(res, "有効なイベント ID を指定してください。");
+        return;
+      }
+
+      const { range } = req.query;
+      const rangeValue =
+        range === undefined ? PATH_RANGE_MINUTES : Number(range);
+      if (
+        !Number.isInteger(rangeValue) ||
+        rangeValue < 1 ||
+        rangeValue > MAX_RANGE_MINUTES
+      ) {
+        this.sendValidationError(
+          res,
+          `range は 1〜${MAX_RANGE_MINUTES} 分の整数で指定してください。`,
+        );
+        return;
+      }
+
+      const path = await this.eventPathService.getEventPath(
+        eventId,
+        rangeValue,
+      );
+      if (!path) {
+        res.status(404).json({
+          success: false,
+          error: "Event not found",
+          message: "指定されたイベントが見つかりません。",
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        path,
+      });
+    } catch (error) {
+      logger.error("天体の軌跡取得エラー", error, {
+        eventId: req.params.eventId,
+      });
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+        message: "天体の軌跡の計算中にエラーが発生しました。",
+      });
+    }
+  }
+
+  private sendValidationError(res: Response, message: string): void {
+    res.status(400).json({
+      success: false,
+      error: "Validation error",
+      message,
+    });
+  }
+}
@@ -0,0 +1,139 @@
+import { Request, Response } from "express";
+import {
+  DocumentNode,
+  GraphQLError,
+  execute,
+  parse,
+  specifiedRules,
+  validate,
+} from "graphql";
+import { getComponentLogger } from "@fuji-calendar/utils";
+import { LocationRepository } from "../repositories/interfaces/LocationRepository";
+import { CalendarRepository } from "../repositories/interfaces/CalendarRepository";
+import { graphqlSchema } from "../graphql/schema";
+import { createGraphQLContext } from "../graphql/loaders";
+import { createDepthLimitRule } from "../graphql/depthLimit";
+import { createCostLimitRule } from "../graphql/costLimit";
+
+const logger = getComponentLogger("GraphQLController");
+
+const MAX_QUERY_LENGTH = 10000;
+const MAX_QUERY_DEPTH = 6;
+const MAX_QUERY_COST = 1000;
+
+const validationRules = [
+  ...specifiedRules,
+  createDepthLimitRule(MAX_QUERY_DEPTH),
+  createCostLimitRule(MAX_QUERY_COST),
+];
+
+/**
+ * GraphQL コントローラー
+ * 撮影地点・イベント・統計を 1 回のリクエストで取得する
+ * 構文・検証エラーは 400、実行時のエラーは 200 の errors で返す（GraphQL の応答形式）
+ */
+export class GraphQLController {
+  constructor(
+    private locationRepository: LocationRepository,
+    private calendarRepository: CalendarRepository,
+  ) {}
+
+  /**
+   * クエリを実行
+   * POST /api/graphql { query, variables?, operationName? }
+   */
+  async execute(req: Request, res: Response): Promise<void> {
+    const { query, variables, operationName } = req.body ?? {};
+
+    if (typeof query !== "string" || query.trim().length === 0) {
+      this.sendRequestError(res, "query を指定してください。");
+      return;
+    }
+
+    if (query.length > MAX_QUERY_LENGTH) {
+      this.sendRequestError(
+        res,
+        `query は ${MAX_QUERY_LENGTH} 文字以内で指定してください。`,
+      );
+      return;
+    }
+
+    if (
+      variables != null &&
+      (typeof variables !== "object" || Array.isArray(variables))
+    ) {
+      this.sendRequestError(
+        res,
+        "variables はオブジェクトで指定してください。",
+      );
+      return;
+    }
+
+    if (operationName != null && typeof operationName !== "string") {
+      this.sendRequestError(res, "operationName は文字列で指定してください。");
+      return;
+    }
+
+    let document: DocumentNode;
+    try {
+      document = parse(query);
+    } catch (error) {
+      res.status(400).json({ errors: [(error as GraphQLError).toJSON()] });
+      return;
+    }
+
+    const validationErrors = validate(graphqlSchema, document, validationRules);
+    if (validationErrors.length > 0) {
+      res.status(400).json({
+        errors: validationErrors.map((error) => error.toJSON()),
+      });
+      return;
+    }
+
+    try {
+      const result = await execute({
+        schema: graphqlSchema,
+        document,
+        variableValues: variables,
+        operationName,
+        contextValue: createGraphQLContext(
+          this.locationRepository,
+          this.calendarRepository,
+        ),
+      });
+
+      // 入力エラー以外（データベースのエラーなど）は内容を隠してログに残す
+      const errors = result.errors?.map((error) => {
+        if (
+          error.extensions?.code === "BAD_USER_INPUT" ||
+          !error.originalError
+        ) {
+          return error.toJSON();
+        }
+        logger.error("GraphQL 実行エラー", error.originalError, {
+          path: error.path,
+          operationName,
+        });
+        return {
+          message: "データの取得中にエラーが発生しました。",
+          locations: error.locations,
+          path: error.path,
+          extensions: { code: "INTERNAL_SERVER_ERROR" },
+        };
+      });
+
+      res.json(errors ? { ...result, errors } : result);
+    } catch (error) {
+      logger.error("GraphQL リクエストエラー", error, { operationName });
+      res.status(500).json({
+        errors: [{ message: "データの取得中にエラーが発生しました。" }],
+      });
+    }
+  }
+
+  private sendRequestError(res: Response, message: string): void {
+    res.status(400).json({
+      errors: [{ message, extensions: { code: "BAD_REQUEST" } }],
+    });
+  }
+}
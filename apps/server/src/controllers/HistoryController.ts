@@ -0,0 +1,382 @@
+import { Request, Response } from "express";
+import {
+  FujiEvent,
+  HistoricalSearchOptions,
+  ObservationOutcome,
+} from "@fuji-calendar/types";
+import { getComponentLogger } from "@fuji-calendar/utils";
+import { HistoricalEventService } from "../services/HistoricalEventService";
+
+const logger = getComponentLogger("HistoryController");
+
+const EVENT_TYPES: FujiEvent["type"][] = ["diamond", "pearl", "planet", "star"];
+const SUB_TYPES: FujiEvent["subType"][] = [
+  "sunrise",
+  "sunset",
+  "rising",
+  "setting",
+];
+const OBSERVATION_OUTCOMES: ObservationOutcome[] = [
+  "success",
+  "clouded_out",
+  "missed",
+];
+
+// 一覧の既定件数と上限
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+// 報告メモの最大文字数
+const MAX_NOTES_LENGTH = 1000;
+
+/**
+ * 過去イベントコントローラー
+ * 過去のイベントの検索、撮影結果の報告、地点ごとの成功率を提供
+ */
+export class HistoryController {
+  constructor(private historicalEventService: HistoricalEventService) {}
+
+  /**
+   * 過去イベントの検索
+   * GET /api/history?locationId=1&yearStart=2024&yearEnd=2025&type=diamond&subType=sunset&photoSuccessOnly=true&minVisibility=3&dataSource=reported&limit=50&offset=0
+   */
+  async getHistoricalEvents(req: Request, res: Response): Promise<void> {
+    try {
+      const options = this.parseSearchOptions(req, res);
+      if (!options) {
+        return;
+      }
+
+      const { events, total } =
+        await this.historicalEventService.searchEvents(options);
+
+      res.json({
+        success: true,
+        events,
+        total,
+        limit: options.limit,
+        offset: options.offset,
+      });
+    } catch (error) {
+      logger.error("過去イベント検索エラー", error, { query: req.query });
+      this.sendError(res, "過去イベントの取得中にエラーが発生しました。");
+    }
+  }
+
+  /**
+   * 地点の年・イベント種別ごとの成功率
+   * GET /api/history/locations/:locationId/stats?yearStart=2024&yearEnd=2025
+   */
+  async getLocationStats(req: Request, res: Response): Promise<void> {
+    try {
+      const locationId = parseInt(req.params.locationId);
+      if (isNaN(locationId)) {
+        this.sendValidationError(res, "有効な地点 ID を指定してください。");
+        return;
+      }
+
+      const yearStart = this.parseYear(req.query.yearStart);
+      const yearEnd = this.parseYear(req.query.yearEnd);
+      if (yearStart === null || yearEnd === null) {
+        this.sendValidationError(
+          res,
+          "yearStart・yearEnd は 2000〜2100 の年を指定してください。",
+        );
+        return;
+      }
+
+      const stats = await this.historicalEventService.getLocationStats(
+        locationId,
+        yearStart,
+        yearEnd,
+      );
+
+      res.json({
+        success: true,
+        stats,
+      });
+    } catch (error) {
+      logger.error("過去イベント統計取得エラー", error, {
+        locationId: req.params.locationId,
+      });
+      this.sendError(res, "過去イベントの統計の取得中にエラーが発生しました。");
+    }
+  }
+
+  /**
+   * 地点の年月・イベント種別ごとの成功率
+   * GET /api/history/locations/:locationId/monthly?year=2025
+   */
+  async getMonthlySummaries(req: Request, res: Response): Promise<void> {
+    try {
+      const locationId = parseInt(req.params.locationId);
+      if (isNaN(locationId)) {
+        this.sendValidationError(res, "有効な地点 ID を指定してください。");
+        return;
+      }
+
+      const year = this.parseYear(req.query.year);
+      if (year === null) {
+        this.sendValidationError(
+          res,
+          "year は 2000〜2100 の年を指定してください。",
+        );
+        return;
+      }
+
+      const months = await this.historicalEventService.getMonthlySummaries(
+        locationId,
+        year,
+      );
+
+      res.json({
+        success: true,
+        months,
+      });
+    } catch (error) {
+      logger.error("月別過去イベント集計エラー", error, {
+        locationId: req.params.locationId,
+      });
+      this.sendError(res, "月別の集計中にエラーが発生しました。");
+    }
+  }
+
+  /**
+   * 撮影結果の報告
+   * POST /api/history/:id/report { outcome, visibilityRating?, notes? }
+   */
+  async reportOutcome(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        this.sendValidationError(res, "有効な ID を指定してください。");
+        return;
+      }
+
+      const { outcome, visibilityRating, notes } = req.body;
+
+      if (!OBSERVATION_OUTCOMES.includes(outcome)) {
+        this.sendValidationError(
+          res,
+          `outcome には ${OBSERVATION_OUTCOMES.join(", ")} のいずれかを指定してください。`,
+        );
+        return;
+      }
+
+      if (
+        visibilityRating !== undefined &&
+        (!Number.isInteger(visibilityRating) ||
+          visibilityRating < 1 ||
+          visibilityRating > 5)
+      ) {
+        this.sendValidationError(
+          res,
+          "visibilityRating は 1〜5 の整数で指定してください。",
+        );
+        return;
+      }
+
+      if (
+        notes !== undefined &&
+        (typeof notes !== "string" || notes.length > MAX_NOTES_LENGTH)
+      ) {
+        this.sendValidationError(
+          res,
+          `notes は ${MAX_NOTES_LENGTH} 文字以内の文字列で指定してください。`,
+        );
+        return;
+      }
+
+      const reporterIp = req.ip || req.socket.remoteAddress || "unknown";
+      const result = await this.historicalEventService.reportOutcome(
+        id,
+        reporterIp,
+        {
+          outcome,
+          visibilityRating,
+          notes: notes?.trim() || undefined,
+        },
+      );
+
+      if (result.status === "not_found") {
+        res.status(404).json({
+          success: false,
+          error: "Historical event not found",
+          message: "指定された過去イベントが見つかりません。",
+        });
+        return;
+      }
+
+      if (result.status === "duplicate") {
+        res.status(409).json({
+          success: false,
+          error: "Observation already reported",
+          message: "このイベントの撮影結果は既に報告済みです。",
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        event: result.event,
+        message: "撮影結果を記録しました。",
+      });
+    } catch (error) {
+      logger.error("撮影結果記録エラー", error, { id: req.params.id });
+      this.sendError(res, "撮影結果の記録中にエラーが発生しました。");
+    }
+  }
+
+  /**
+   * 検索条件の解析
+   * 不正な値の場合は 400 を返して null
+   */
+  private parseSearchOptions(
+    req: Request,
+    res: Response,
+  ): HistoricalSearchOptions | null {
+    const {
+      locationId,
+      yearStart,
+      yearEnd,
+      type,
+      subType,
+      photoSuccessOnly,
+      minVisibility,
+      dataSource,
+      limit,
+      offset,
+    } = req.query;
+
+    const locationIdValue =
+      locationId === undefined ? undefined : Number(locationId);
+    if (
+      locationIdValue !== undefined &&
+      !(Number.isInteger(locationIdValue) && locationIdValue > 0)
+    ) {
+      this.sendValidationError(res, "有効な地点 ID を指定してください。");
+      return null;
+    }
+
+    const yearStartValue = this.parseYear(yearStart);
+    const yearEndValue = this.parseYear(yearEnd);
+    if (yearStartValue === null || yearEndValue === null) {
+      this.sendValidationError(
+        res,
+        "yearStart・yearEnd は 2000〜2100 の年を指定してください。",
+      );
+      return null;
+    }
+
+    if (
+      type !== undefined &&
+      !EVENT_TYPES.includes(type as FujiEvent["type"])
+    ) {
+      this.sendValidationError(
+        res,
+        `type には ${EVENT_TYPES.join(", ")} のいずれかを指定してください。`,
+      );
+      return null;
+    }
+
+    if (
+      subType !== undefined &&
+      !SUB_TYPES.includes(subType as FujiEvent["subType"])
+    ) {
+      this.sendValidationError(
+        res,
+        `subType には ${SUB_TYPES.join(", ")} のいずれかを指定してください。`,
+      );
+      return null;
+    }
+
+    const minVisibilityValue =
+      minVisibility === undefined ? undefined : Number(minVisibility);
+    if (
+      minVisibilityValue !== undefined &&
+      !(
+        Number.isInteger(minVisibilityValue) &&
+        minVisibilityValue >= 1 &&
+        minVisibilityValue <= 5
+      )
+    ) {
+      this.sendValidationError(
+        res,
+        "minVisibility は 1〜5 の整数で指定してください。",
+      );
+      return null;
+    }
+
+    if (
+      dataSource !== undefined &&
+      dataSource !== "calculated" &&
+      dataSource !== "reported"
+    ) {
+      this.sendValidationError(
+        res,
+        "dataSource には calculated, reported のいずれかを指定してください。",
+      );
+      return null;
+    }
+
+    const limitValue = limit === undefined ? DEFAULT_LIMIT : Number(limit);
+    const offsetValue = offset === undefined ? 0 : Number(offset);
+    if (
+      !Number.isInteger(limitValue) ||
+      limitValue < 1 ||
+      limitValue > MAX_LIMIT ||
+      !Number.isInteger(offsetValue) ||
+      offsetValue < 0
+    ) {
+      this.sendValidationError(
+        res,
+        `limit は 1〜${MAX_LIMIT}、offset は 0 以上の整数で指定してください。`,
+      );
+      return null;
+    }
+
+    return {
+      locationId: locationIdValue,
+      yearStart: yearStartValue,
+      yearEnd: yearEndValue,
+      eventType: type as FujiEvent["type"] | undefined,
+      subType: subType as FujiEvent["subType"] | undefined,
+      photoSuccessOnly: photoSuccessOnly === "true",
+      minVisibility: minVisibilityValue,
+      dataSource: dataSource as "calculated" | "reported" | undefined,
+      limit: limitValue,
+      offset: offsetValue,
+    };
+  }
+
+  /**
+   * 年クエリの解析
+   * 省略時は undefined、不正な値の場合は null
+   */
+  private parseYear(value: unknown): number | undefined | null {
+    if (value === undefined) {
+      return undefined;
+    }
+
+    const year = typeof value === "string" ? Number(value) : NaN;
+    return Number.isInteger(year) && year >= 2000 && year <= 2100
+      ? year
+      : null;
+  }
+
+  private sendValidationError(res: Response, message: string): void {
+    res.status(400).json({
+      success: false,
+      error: "Validation error",
+      message,
+    });
+  }
+
+  private sendError(res: Response, message: string): void {
+    res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message,
+    });
+  }
+}
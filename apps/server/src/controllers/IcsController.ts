@@ -0,0 +1,260 @@
+import { Request, Response } from "express";
+import { getComponentLogger } from "@fuji-calendar/utils";
+import {
+  ICS_EVENT_TYPES,
+  IcsFeedOptions,
+  IcsService,
+} from "../services/IcsService";
+import { FUJI_TARGET_SLUG } from "../services/astronomical/AlignmentTarget";
+
+const logger = getComponentLogger("IcsController");
+
+// 整列対象の識別子の形式（英小文字・数字・ハイフン）
+const TARGET_SLUG_PATTERN = /^[a-z0-9-]{1,50}$/;
+
+// 通知の既定値と上限（分）
+const DEFAULT_ALARM_MINUTES = 60;
+const MAX_ALARM_MINUTES = 24 * 60;
+
+// お気に入りフィードに指定できる地点数の上限
+const MAX_FAVORITE_LOCATIONS = 100;
+
+/**
+ * iCalendar フィードコントローラー
+ * 地点別・全地点・お気に入り地点の購読用 ICS を提供
+ */
+export class IcsController {
+  constructor(private icsService: IcsService) {}
+
+  /**
+   * 地点別フィード
+   * GET /api/ics/location/:id.ics?types=diamond_sunset&target=fuji&alarm=60
+   */
+  async getLocationFeed(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid ID",
+          message: "有効な ID を指定してください。",
+        });
+        return;
+      }
+
+      const options = this.parseFeedOptions(req, res);
+      if (!options) {
+        return;
+      }
+
+      const calendar = await this.icsService.getLocationFeed(id, options);
+      this.sendCalendar(res, calendar, `location-${id}.ics`);
+    } catch (error) {
+      logger.error("地点別 ICS フィード生成エラー", error, {
+        locationId: req.params.id,
+      });
+      this.sendError(res);
+    }
+  }
+
+  /**
+   * 全地点フィード
+   * GET /api/ics/all.ics?types=diamond_sunset,pearl_moonrise&target=fuji&alarm=60
+   */
+  async getAllFeed(req: Request, res: Response): Promise<void> {
+    try {
+      const options = this.parseFeedOptions(req, res);
+      if (!options) {
+        return;
+      }
+
+      const calendar = await this.icsService.getAllFeed(options);
+      this.sendCalendar(res, calendar, "all.ics");
+    } catch (error) {
+      logger.error("全地点 ICS フィード生成エラー", error);
+      this.sendError(res);
+    }
+  }
+
+  /**
+   * お気に入り地点フィード
+   * GET /api/ics/favorites/:token.ics?alarm=60
+   */
+  async getFavoritesFeed(req: Request, res: Response): Promise<void> {
+    try {
+      const alarmMinutes = this.parseAlarmMinutes(req);
+      if (alarmMinutes === null) {
+        this.sendInvalidAlarm(res);
+        return;
+      }
+
+      const calendar = await this.icsService.getFavoritesFeed(
+        req.params.token,
+        alarmMinutes,
+      );
+      if (!calendar) {
+        res.status(404).json({
+          success: false,
+          error: "Feed not found",
+          message:
+            "フィードの URL が正しくないか、有効期限が切れています。URL を再発行してください。",
+        });
+        return;
+      }
+
+      this.sendCalendar(res, calendar, "favorites.ics");
+    } catch (error) {
+      logger.error("お気に入り ICS フィード生成エラー", error);
+      this.sendError(res);
+    }
+  }
+
+  /**
+   * お気に入り地点フィードの URL を発行
+   * POST /api/ics/favorites { locationIds: number[], types?: string[] }
+   */
+  async createFavoritesFeed(req: Request, res: Response): Promise<void> {
+    try {
+      const { locationIds, types } = req.body;
+
+      if (
+        !Array.isArray(locationIds) ||
+        locationIds.length === 0 ||
+        locationIds.length > MAX_FAVORITE_LOCATIONS ||
+        !locationIds.every((id) => Number.isInteger(id) && id > 0)
+      ) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid data format",
+          message: `locationIds には 1〜${MAX_FAVORITE_LOCATIONS} 件の地点 ID の配列を指定してください。`,
+        });
+        return;
+      }
+
+      if (
+        types !== undefined &&
+        (!Array.isArray(types) ||
+          !types.every((type) => ICS_EVENT_TYPES.includes(type)))
+      ) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid event type",
+          message: "イベント種別の指定が正しくありません。",
+        });
+        return;
+      }
+
+      const { token, expiresAt } = this.icsService.createFavoritesToken(
+        [...new Set<number>(locationIds)],
+        types,
+      );
+
+      res.status(201).json({
+        success: true,
+        path: `/api/ics/favorites/${token}.ics`,
+        expiresAt: expiresAt.toISOString(),
+      });
+    } catch (error) {
+      logger.error("お気に入り ICS フィード URL 発行エラー", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+        message: "フィード URL の発行中にエラーが発生しました。",
+      });
+    }
+  }
+
+  /**
+   * types・target・alarm クエリの解析
+   * 不正な値の場合は 400 を返して null
+   */
+  private parseFeedOptions(req: Request, res: Response): IcsFeedOptions | null {
+    const { types, target } = req.query;
+
+    let eventTypes: string[] | undefined;
+    if (types !== undefined) {
+      eventTypes = typeof types === "string" ? types.split(",") : [];
+      if (
+        eventTypes.length === 0 ||
+        !eventTypes.every((type) => ICS_EVENT_TYPES.includes(type))
+      ) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid event type",
+          message: `types には ${ICS_EVENT_TYPES.join(", ")} をカンマ区切りで指定してください。`,
+        });
+        return null;
+      }
+    }
+
+    const targetSlug = target === undefined ? FUJI_TARGET_SLUG : target;
+    if (
+      typeof targetSlug !== "string" ||
+      !TARGET_SLUG_PATTERN.test(targetSlug)
+    ) {
+      res.status(400).json({
+        success: false,
+        error: "Invalid target",
+        message: "整列対象の識別子が正しくありません。",
+      });
+      return null;
+    }
+
+    const alarmMinutes = this.parseAlarmMinutes(req);
+    if (alarmMinutes === null) {
+      this.sendInvalidAlarm(res);
+      return null;
+    }
+
+    return { eventTypes, targetSlug, alarmMinutes };
+  }
+
+  private parseAlarmMinutes(req: Request): number | null {
+    const { alarm } = req.query;
+    if (alarm === undefined) {
+      return DEFAULT_ALARM_MINUTES;
+    }
+
+    const minutes = typeof alarm === "string" ? Number(alarm) : NaN;
+    return Number.isInteger(minutes) &&
+      minutes >= 0 &&
+      minutes <= MAX_ALARM_MINUTES
+      ? minutes
+      : null;
+  }
+
+  private sendInvalidAlarm(res: Response): void {
+    res.status(400).json({
+      success: false,
+      error: "Invalid alarm",
+      message: `alarm には 0〜${MAX_ALARM_MINUTES} 分を指定してください。`,
+    });
+  }
+
+  private sendCalendar(
+    res: Response,
+    calendar: string | null,
+    filename: string,
+  ): void {
+    if (!calendar) {
+      res.status(404).json({
+        success: false,
+        error: "Target not found",
+        message: "指定された整列対象が見つかりません。",
+      });
+      return;
+    }
+
+    res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+    res.setHeader("Content-Disposition", `inline; filename="${filename}"`);
+    res.send(calendar);
+  }
+
+  private sendError(res: Response): void {
+    res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "フィードの生成中にエラーが発生しました。",
+    });
+  }
+}
@@ -0,0 +1,141 @@
+import { Request, Response } from "express";
+import { Location, LineOfSightReport } from "@fuji-calendar/types";
+import { LocationService } from "../services/LocationService";
+import { LineOfSightAnalyzer } from "../services/terrain/LineOfSightAnalyzer";
+import { getComponentLogger } from "@fuji-calendar/utils";
+
+const logger = getComponentLogger("LineOfSightController");
+
+/**
+ * 見通しレポートコントローラー
+ * 撮影地点から富士山頂までの地形による遮蔽状況を管理者向けに提供
+ */
+export class LineOfSightController {
+  constructor(
+    private locationService: LocationService,
+    private lineOfSightAnalyzer: LineOfSightAnalyzer,
+  ) {}
+
+  /**
+   * 全撮影地点の見通しレポートを取得
+   */
+  async getLineOfSightReports(req: Request, res: Response): Promise<void> {
+    try {
+      if (!this.ensureEnabled(res)) {
+        return;
+      }
+
+      const locations = await this.locationService.getAllLocations();
+      const reports: LineOfSightReport[] = [];
+      for (const location of locations) {
+        reports.push(await this.buildReport(location));
+      }
+
+      const summary = {
+        clear: reports.filter((report) => report.status === "clear").length,
+        partial: reports.filter((report) => report.status === "partial").length,
+        occluded: reports.filter((report) => report.status === "occluded")
+          .length,
+        unknown: reports.filter((report) => report.status === "unknown").length,
+      };
+
+      logger.info("見通しレポート一覧取得成功", {
+        locationCount: reports.length,
+        summary,
+      });
+
+      res.json({
+        success: true,
+        reports,
+        summary,
+        count: reports.length,
+      });
+    } catch (error) {
+      logger.error("見通しレポート一覧取得エラー", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+        message: "見通しレポートの作成中にエラーが発生しました。",
+      });
+    }
+  }
+
+  /**
+   * 特定の撮影地点の見通しレポートを取得
+   */
+  async getLocationLineOfSight(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid ID",
+          message: "有効な ID を指定してください。",
+        });
+        return;
+      }
+
+      if (!this.ensureEnabled(res)) {
+        return;
+      }
+
+      const location = await this.locationService.getLocationById(id);
+      if (!location) {
+        res.status(404).json({
+          success: false,
+          error: "Location not found",
+          message: "指定された撮影地点が見つかりません。",
+        });
+        return;
+      }
+
+      const report = await this.buildReport(location);
+
+      logger.info("見通しレポート取得成功", {
+        locationId: id,
+        status: report.status,
+      });
+
+      res.json({
+        success: true,
+        report,
+      });
+    } catch (error) {
+      logger.error("見通しレポート取得エラー", error, {
+        locationId: req.params.id,
+      });
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+        message: "見通しレポートの作成中にエラーが発生しました。",
+      });
+    }
+  }
+
+  /**
+   * 標高タイルが未設定の場合は 503 を返す
+   */
+  private ensureEnabled(res: Response): boolean {
+    if (this.lineOfSightAnalyzer.isEnabled()) {
+      return true;
+    }
+
+    res.status(503).json({
+      success: false,
+      error: "Terrain data unavailable",
+      message:
+        "標高タイルが設定されていません。DEM_TILE_DIR を設定してください。",
+    });
+    return false;
+  }
+
+  private async buildReport(location: Location): Promise<LineOfSightReport> {
+    const result = await this.lineOfSightAnalyzer.analyze(location);
+    return {
+      locationId: location.id,
+      locationName: location.name,
+      ...result,
+      analyzedAt: new Date(),
+    };
+  }
+}
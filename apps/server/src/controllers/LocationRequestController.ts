@@ -0,0 +1,327 @@
+import { Request, Response } from "express";
+import {
+  LocationRequest,
+  LocationRequestApproval,
+  LocationRequestStatus,
+} from "@fuji-calendar/types";
+import { getComponentLogger } from "@fuji-calendar/utils";
+import { AuthenticatedRequest } from "../middleware/auth";
+import { LocationRequestService } from "../services/LocationRequestService";
+
+const logger = getComponentLogger("LocationRequestController");
+
+const REQUEST_STATUSES: LocationRequestStatus[] = [
+  "pending",
+  "approved",
+  "rejected",
+];
+
+// 投稿内容の最大文字数
+const MAX_NAME_LENGTH = 255;
+const MAX_PREFECTURE_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 2000;
+const MAX_REASON_LENGTH = 1000;
+
+/**
+ * 撮影地点候補コントローラー
+ * 訪問者からの撮影地点の投稿と、管理者の審査キュー（承認・却下）を提供
+ */
+export class LocationRequestController {
+  constructor(private locationRequestService: LocationRequestService) {}
+
+  /**
+   * 撮影地点の候補を投稿
+   * POST /api/location-requests { name, prefecture, description, suggestedCoordinates: { latitude, longitude } }
+   */
+  async submitRequest(req: Request, res: Response): Promise<void> {
+    try {
+      const { name, prefecture, description, suggestedCoordinates } = req.body;
+
+      if (
+        !this.isText(name, MAX_NAME_LENGTH) ||
+        !this.isText(prefecture, MAX_PREFECTURE_LENGTH) ||
+        !this.isText(description, MAX_DESCRIPTION_LENGTH)
+      ) {
+        this.sendValidationError(
+          res,
+          `地点名（${MAX_NAME_LENGTH} 文字以内）・都道府県（${MAX_PREFECTURE_LENGTH} 文字以内）・説明（${MAX_DESCRIPTION_LENGTH} 文字以内）を入力してください。`,
+        );
+        return;
+      }
+
+      const latitude = suggestedCoordinates?.latitude;
+      const longitude = suggestedCoordinates?.longitude;
+      if (
+        !this.isCoordinate(latitude, 90) ||
+        !this.isCoordinate(longitude, 180)
+      ) {
+        this.sendValidationError(
+          res,
+          "地図上で撮影地点の位置を指定してください。",
+        );
+        return;
+      }
+
+      const request = await this.locationRequestService.submitRequest({
+        name: name.trim(),
+        prefecture: prefecture.trim(),
+        description: description.trim(),
+        suggestedCoordinates: { latitude, longitude },
+        requesterIp: req.ip || req.socket.remoteAddress || "unknown",
+      });
+
+      res.status(201).json({
+        success: true,
+        id: request.id,
+        message:
+          "撮影地点の候補を受け付けました。管理者の確認後に掲載されます。",
+      });
+    } catch (error) {
+      logger.error("撮影地点候補投稿エラー", error);
+      this.sendError(res, "撮影地点の候補の投稿中にエラーが発生しました。");
+    }
+  }
+
+  /**
+   * 撮影地点候補の一覧（管理者用）
+   * GET /api/admin/location-requests?status=pending
+   */
+  async getRequests(req: Request, res: Response): Promise<void> {
+    try {
+      const { status } = req.query;
+      if (
+        status !== undefined &&
+        !REQUEST_STATUSES.includes(status as LocationRequestStatus)
+      ) {
+        this.sendValidationError(
+          res,
+          `status には ${REQUEST_STATUSES.join(", ")} のいずれかを指定してください。`,
+        );
+        return;
+      }
+
+      const requests = await this.locationRequestService.getRequests(
+        status as LocationRequestStatus | undefined,
+      );
+
+      res.json({
+        success: true,
+        requests,
+        count: requests.length,
+      });
+    } catch (error) {
+      logger.error("撮影地点候補一覧取得エラー", error);
+      this.sendError(res, "撮影地点の候補の取得中にエラーが発生しました。");
+    }
+  }
+
+  /**
+   * 撮影地点候補を承認して地点を作成（管理者用）
+   * POST /api/admin/location-requests/:id/approve { elevation, name?, prefecture?, latitude?, longitude?, description?, accessInfo? }
+   */
+  async approveRequest(
+    req: AuthenticatedRequest,
+    res: Response,
+  ): Promise<void> {
+    try {
+      const request = await this.findPendingRequest(req, res);
+      if (!request) {
+        return;
+      }
+
+      const approval = this.parseApproval(req.body, res);
+      if (!approval) {
+        return;
+      }
+
+      const { request: approvedRequest, location } =
+        await this.locationRequestService.approveRequest(
+          request,
+          req.admin!.id,
+          approval,
+        );
+
+      res.json({
+        success: true,
+        request: approvedRequest,
+        location,
+        message: "撮影地点の候補を承認しました。天体計算を開始します。",
+      });
+    } catch (error) {
+      logger.error("撮影地点候補承認エラー", error, { id: req.params.id });
+      this.sendError(res, "撮影地点の候補の承認中にエラーが発生しました。");
+    }
+  }
+
+  /**
+   * 撮影地点候補を却下（管理者用）
+   * POST /api/admin/location-requests/:id/reject { reason }
+   */
+  async rejectRequest(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const request = await this.findPendingRequest(req, res);
+      if (!request) {
+        return;
+      }
+
+      const { reason } = req.body;
+      if (!this.isText(reason, MAX_REASON_LENGTH)) {
+        this.sendValidationError(
+          res,
+          `却下の理由を ${MAX_REASON_LENGTH} 文字以内で入力してください。`,
+        );
+        return;
+      }
+
+      const rejectedRequest = await this.locationRequestService.rejectRequest(
+        request,
+        req.admin!.id,
+        reason.trim(),
+      );
+
+      res.json({
+        success: true,
+        request: rejectedRequest,
+        message: "撮影地点の候補を却下しました。",
+      });
+    } catch (error) {
+      logger.error("撮影地点候補却下エラー", error, { id: req.params.id });
+      this.sendError(res, "撮影地点の候補の却下中にエラーが発生しました。");
+    }
+  }
+
+  /**
+   * 審査待ちの候補を取得
+   * 存在しない場合は 404、審査済みの場合は 409 を返して null
+   */
+  private async findPendingRequest(
+    req: Request,
+    res: Response,
+  ): Promise<LocationRequest | null> {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: "Invalid ID",
+        message: "有効な ID を指定してください。",
+      });
+      return null;
+    }
+
+    const request = await this.locationRequestService.getRequestById(id);
+    if (!request) {
+      res.status(404).json({
+        success: false,
+        error: "Location request not found",
+        message: "指定された撮影地点の候補が見つかりません。",
+      });
+      return null;
+    }
+
+    if (request.status !== "pending") {
+      res.status(409).json({
+        success: false,
+        error: "Location request already processed",
+        message: "この撮影地点の候補は既に審査済みです。",
+      });
+      return null;
+    }
+
+    return request;
+  }
+
+  /**
+   * 承認内容の解析
+   * 不正な値の場合は 400 を返して null
+   */
+  private parseApproval(
+    body: Record<string, unknown>,
+    res: Response,
+  ): LocationRequestApproval | null {
+    const {
+      elevation,
+      name,
+      prefecture,
+      latitude,
+      longitude,
+      description,
+      accessInfo,
+    } = body;
+
+    if (typeof elevation !== "number" || !Number.isFinite(elevation)) {
+      this.sendValidationError(res, "標高（m）を数値で指定してください。");
+      return null;
+    }
+
+    if (
+      (name !== undefined && !this.isText(name, MAX_NAME_LENGTH)) ||
+      (prefecture !== undefined &&
+        !this.isText(prefecture, MAX_PREFECTURE_LENGTH)) ||
+      (description !== undefined && typeof description !== "string") ||
+      (accessInfo !== undefined && typeof accessInfo !== "string")
+    ) {
+      this.sendValidationError(
+        res,
+        "地点名・都道府県・説明・アクセス情報は文字列で指定してください。",
+      );
+      return null;
+    }
+
+    if (
+      (latitude !== undefined && !this.isCoordinate(latitude, 90)) ||
+      (longitude !== undefined && !this.isCoordinate(longitude, 180))
+    ) {
+      this.sendValidationError(
+        res,
+        "緯度は -90〜90、経度は -180〜180 の数値で指定してください。",
+      );
+      return null;
+    }
+
+    return {
+      elevation,
+      name: this.optionalText(name),
+      prefecture: this.optionalText(prefecture),
+      latitude: latitude as number | undefined,
+      longitude: longitude as number | undefined,
+      description: this.optionalText(description),
+      accessInfo: this.optionalText(accessInfo),
+    };
+  }
+
+  private isText(value: unknown, maxLength: number): value is string {
+    return (
+      typeof value === "string" &&
+      value.trim().length > 0 &&
+      value.trim().length <= maxLength
+    );
+  }
+
+  private optionalText(value: unknown): string | undefined {
+    return typeof value === "string" ? value.trim() || undefined : undefined;
+  }
+
+  private isCoordinate(value: unknown, limit: number): value is number {
+    return (
+      typeof value === "number" &&
+      Number.isFinite(value) &&
+      Math.abs(value) <= limit
+    );
+  }
+
+  private sendValidationError(res: Response, message: string): void {
+    res.status(400).json({
+      success: false,
+      error: "Validation error",
+      message,
+    });
+  }
+
+  private sendError(res: Response, message: string): void {
+    res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message,
+    });
+  }
+}
@@ -0,0 +1,299 @@
+import { Response } from "express";
+import { NotificationChannelType } from "@fuji-calendar/types";
+import { getComponentLogger } from "@fuji-calendar/utils";
+import { UserAuthenticatedRequest } from "../middleware/auth";
+import { NotificationChannelData } from "../repositories/interfaces/NotificationRepository";
+import {
+  MAX_CHANNELS_PER_USER,
+  NotificationService,
+} from "../services/NotificationService";
+import { validateWebhookUrl } from "../services/notification/webhookUrl";
+
+const logger = getComponentLogger("NotificationController");
+
+const CHANNEL_TYPES: NotificationChannelType[] = [
+  "email",
+  "webhook",
+  "slack",
+  "line",
+];
+
+const MAX_TARGET_LENGTH = 500;
+const MAX_SECRET_LENGTH = 255;
+
+// 通知タイミング（イベントの何分前か）: 10 分前〜30 日前
+const MIN_LEAD_TIME_MINUTES = 10;
+const MAX_LEAD_TIME_MINUTES = 30 * 24 * 60;
+
+/**
+ * 通知先コントローラー
+ * ログイン中のユーザーの、お気に入りイベントの通知先を操作する
+ */
+export class NotificationController {
+  constructor(private notificationService: NotificationService) {}
+
+  /**
+   * 通知先一覧
+   * GET /api/users/me/notification-channels
+   */
+  async getChannels(
+    req: UserAuthenticatedRequest,
+    res: Response,
+  ): Promise<void> {
+    try {
+      const channels = await this.notificationService.getChannels(req.user!.id);
+
+      res.json({
+        success: true,
+        channels,
+      });
+    } catch (error) {
+      logger.error("通知先取得エラー", error, { userId: req.user?.id });
+      this.sendError(res, "通知先の取得中にエラーが発生しました。");
+    }
+  }
+
+  /**
+   * 通知先を作成
+   * POST /api/users/me/notification-channels { type, target?, secret?, leadTimeMinutes, enabled? }
+   */
+  async createChannel(
+    req: UserAuthenticatedRequest,
+    res: Response,
+  ): Promise<void> {
+    try {
+      const data = await this.parseChannel(req.body, req.user!.email);
+      if (typeof data === "string") {
+        this.sendValidationError(res, data);
+        return;
+      }
+
+      const channel = await this.notificationService.createChannel(
+        req.user!.id,
+        { ...data, secret: data.secret ?? null },
+      );
+      if (!channel) {
+        this.sendValidationError(
+          res,
+          `通知先は ${MAX_CHANNELS_PER_USER} 件まで登録できます。`,
+        );
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        channel,
+        message: "通知先を登録しました。",
+      });
+    } catch (error) {
+      logger.error("通知先作成エラー", error, { userId: req.user?.id });
+      this.sendError(res, "通知先の登録中にエラーが発生しました。");
+    }
+  }
+
+  /**
+   * 通知先を更新（secret を省略した場合は登録済みの値を残す）
+   * PUT /api/users/me/notification-channels/:id { type, target?, secret?, leadTimeMinutes, enabled? }
+   */
+  async updateChannel(
+    req: UserAuthenticatedRequest,
+    res: Response,
+  ): Promise<void> {
+    try {
+      const channelId = parseInt(req.params.id);
+      if (isNaN(channelId)) {
+        this.sendValidationError(res, "有効な通知先 ID を指定してください。");
+        return;
+      }
+
+      const data = await this.parseChannel(req.body, req.user!.email);
+      if (typeof data === "string") {
+        this.sendValidationError(res, data);
+        return;
+      }
+
+      const channel = await this.notificationService.updateChannel(
+        req.user!.id,
+        channelId,
+        data,
+      );
+      if (!channel) {
+        this.sendChannelNotFound(res);
+        return;
+      }
+
+      res.json({
+        success: true,
+        channel,
+        message: "通知先を更新しました。",
+      });
+    } catch (error) {
+      logger.error("通知先更新エラー", error, {
+        userId: req.user?.id,
+        channelId: req.params.id,
+      });
+      this.sendError(res, "通知先の更新中にエラーが発生しました。");
+    }
+  }
+
+  /**
+   * 通知先を削除
+   * DELETE /api/users/me/notification-channels/:id
+   */
+  async deleteChannel(
+    req: UserAuthenticatedRequest,
+    res: Response,
+  ): Promise<void> {
+    try {
+      const channelId = parseInt(req.params.id);
+      if (isNaN(channelId)) {
+        this.sendValidationError(res, "有効な通知先 ID を指定してください。");
+        return;
+      }
+
+      const deleted = await this.notificationService.deleteChannel(
+        req.user!.id,
+        channelId,
+      );
+      if (!deleted) {
+        this.sendChannelNotFound(res);
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: "通知先を削除しました。",
+      });
+    } catch (error) {
+      logger.error("通知先削除エラー", error, {
+        userId: req.user?.id,
+        channelId: req.params.id,
+      });
+      this.sendError(res, "通知先の削除中にエラーが発生しました。");
+    }
+  }
+
+  /**
+   * 通知先にテスト通知を送信
+   * POST /api/users/me/notification-channels/:id/test
+   */
+  async sendTest(req: UserAuthenticatedRequest, res: Response): Promise<void> {
+    const channelId = parseInt(req.params.id);
+    if (isNaN(channelId)) {
+      this.sendValidationError(res, "有効な通知先 ID を指定してください。");
+      return;
+    }
+
+    try {
+      const sent = await this.notificationService.sendTest(
+        req.user!.id,
+        channelId,
+      );
+      if (!sent) {
+        this.sendChannelNotFound(res);
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: "テスト通知を送信しました。",
+      });
+    } catch (error) {
+      // 送信先の応答エラーは利用者が設定を見直せるように 502 で返す
+      logger.warn("テスト通知送信エラー", {
+        userId: req.user?.id,
+        channelId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      res.status(502).json({
+        success: false,
+        error: "Notification delivery failed",
+        message:
+          "テスト通知を送信できませんでした。通知先の URL やトークンを確認してください。",
+      });
+    }
+  }
+
+  /**
+   * 通知先の入力を解析（不正な場合はエラーメッセージ）
+   * メールの通知先はログイン中のユーザーのメールアドレスに固定する
+   * それ以外の通知先は https の公開アドレスのみ（内部ネットワークへの送信を防ぐ）
+   */
+  private async parseChannel(
+    body: Record<string, unknown>,
+    email: string,
+  ): Promise<
+    | (Omit<NotificationChannelData, "secret"> & { secret?: string | null })
+    | string
+  > {
+    const { type, target, secret, leadTimeMinutes, enabled } = body;
+
+    if (!CHANNEL_TYPES.includes(type as NotificationChannelType)) {
+      return `通知の種類は ${CHANNEL_TYPES.join(", ")} のいずれかを指定してください。`;
+    }
+
+    if (type !== "email") {
+      if (typeof target !== "string" || target.length > MAX_TARGET_LENGTH) {
+        return `通知先の URL は ${MAX_TARGET_LENGTH} 文字以内の https URL を指定してください。`;
+      }
+
+      const urlError = await validateWebhookUrl(target);
+      if (urlError) {
+        return urlError;
+      }
+    }
+
+    if (
+      secret !== undefined &&
+      secret !== null &&
+      (typeof secret !== "string" || secret.length > MAX_SECRET_LENGTH)
+    ) {
+      return `署名鍵・トークンは ${MAX_SECRET_LENGTH} 文字以内で指定してください。`;
+    }
+
+    if (
+      !Number.isInteger(leadTimeMinutes) ||
+      (leadTimeMinutes as number) < MIN_LEAD_TIME_MINUTES ||
+      (leadTimeMinutes as number) > MAX_LEAD_TIME_MINUTES
+    ) {
+      return `通知タイミングは ${MIN_LEAD_TIME_MINUTES} 分前から 30 日前までの分数で指定してください。`;
+    }
+
+    if (enabled !== undefined && typeof enabled !== "boolean") {
+      return "enabled は true または false で指定してください。";
+    }
+
+    return {
+      type: type as NotificationChannelType,
+      target: type === "email" ? email : (target as string),
+      // 空文字は署名鍵・トークンの削除として扱う
+      secret: secret === undefined ? undefined : (secret as string) || null,
+      leadTimeMinutes: leadTimeMinutes as number,
+      enabled: enabled === undefined ? true : (enabled as boolean),
+    };
+  }
+
+  private sendChannelNotFound(res: Response): void {
+    res.status(404).json({
+      success: false,
+      error: "Notification channel not found",
+      message: "指定された通知先が見つかりません。",
+    });
+  }
+
+  private sendValidationError(res: Response, message: string): void {
+    res.status(400).json({
+      success: false,
+      error: "Validation error",
+      message,
+    });
+  }
+
+  private sendError(res: Response, message: string): void {
+    res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message,
+    });
+  }
+}
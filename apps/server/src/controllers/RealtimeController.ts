@@ -0,0 +1,44 @@
+import { Request, Response } from "express";
+import { RealtimeChannel, RealtimeService } from "../services/RealtimeService";
+
+/**
+ * リアルタイム更新コントローラー（Server-Sent Events）
+ */
+export class RealtimeController {
+  constructor(private realtimeService: RealtimeService) {}
+
+  /**
+   * カレンダーの更新通知を購読（公開）
+   * GET /api/calendar/updates
+   */
+  streamPublicUpdates(req: Request, res: Response): void {
+    this.stream("public", req, res);
+  }
+
+  /**
+   * ジョブの進捗とカレンダーの更新通知を購読（管理者）
+   * GET /api/admin/queue/stream
+   */
+  streamAdminUpdates(req: Request, res: Response): void {
+    this.stream("admin", req, res);
+  }
+
+  private stream(channel: RealtimeChannel, req: Request, res: Response): void {
+    const result = this.realtimeService.addClient(channel, req, res);
+    if (result === "channel_full") {
+      res.status(503).json({
+        success: false,
+        error: "Service unavailable",
+        message:
+          "接続数が上限に達しています。しばらくしてから再度お試しください。",
+      });
+    } else if (result === "ip_limit") {
+      res.status(429).json({
+        success: false,
+        error: "Too many connections",
+        message:
+          "同時接続数が上限に達しています。他のタブやウィンドウを閉じてから再度お試しください。",
+      });
+    }
+  }
+}
@@ -0,0 +1,226 @@
+import { Request, Response } from "express";
+import { Target } from "@fuji-calendar/types";
+import { TargetService } from "../services/TargetService";
+import { LocationService } from "../services/LocationService";
+import { getComponentLogger } from "@fuji-calendar/utils";
+
+const logger = getComponentLogger("TargetController");
+
+// 整列対象の識別子の形式（英小文字・数字・ハイフン）
+const TARGET_SLUG_PATTERN = /^[a-z0-9-]{1,50}$/;
+
+/**
+ * 整列対象コントローラー
+ * 富士山以外の山頂・建造物を含む整列対象と、撮影地点との関連付けを提供
+ */
+export class TargetController {
+  constructor(
+    private targetService: TargetService,
+    private locationService: LocationService,
+  ) {}
+
+  /**
+   * 全整列対象を取得
+   */
+  async getTargets(req: Request, res: Response): Promise<void> {
+    try {
+      const targets = await this.targetService.getAllTargets();
+
+      res.json({
+        success: true,
+        targets,
+        count: targets.length,
+      });
+    } catch (error) {
+      logger.error("整列対象一覧取得エラー", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+        message: "整列対象の取得中にエラーが発生しました。",
+      });
+    }
+  }
+
+  /**
+   * 撮影地点に関連付けられた整列対象を取得
+   */
+  async getLocationTargets(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid ID",
+          message: "有効な ID を指定してください。",
+        });
+        return;
+      }
+
+      const locationTargets = await this.targetService.getLocationTargets(id);
+
+      res.json({
+        success: true,
+        targets: locationTargets,
+        count: locationTargets.length,
+      });
+    } catch (error) {
+      logger.error("撮影地点の整列対象取得エラー", error, {
+        locationId: req.params.id,
+      });
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+        message: "整列対象の取得中にエラーが発生しました。",
+      });
+    }
+  }
+
+  /**
+   * 整列対象を作成（管理者用）
+   */
+  async createTarget(req: Request, res: Response): Promise<void> {
+    try {
+      const { slug, name, latitude, longitude, elevation, description } =
+        req.body;
+
+      // バリデーション
+      if (
+        !slug ||
+        !name ||
+        latitude === undefined ||
+        longitude === undefined ||
+        elevation === undefined
+      ) {
+        res.status(400).json({
+          success: false,
+          error: "Validation error",
+          message: "必須フィールドが不足しています。",
+        });
+        return;
+      }
+
+      if (!TARGET_SLUG_PATTERN.test(slug)) {
+        res.status(400).json({
+          success: false,
+          error: "Validation error",
+          message: "識別子は英小文字・数字・ハイフンで指定してください。",
+        });
+        return;
+      }
+
+      if (await this.targetService.getTargetBySlug(slug)) {
+        res.status(409).json({
+          success: false,
+          error: "Target already exists",
+          message: "同じ識別子の整列対象が既に存在します。",
+        });
+        return;
+      }
+
+      const target = await this.targetService.createTarget({
+        slug,
+        name,
+        latitude: parseFloat(latitude),
+        longitude: parseFloat(longitude),
+        elevation: parseFloat(elevation),
+        description,
+      });
+
+      logger.info("整列対象作成成功", { targetId: target.id, slug });
+
+      res.status(201).json({
+        success: true,
+        target,
+      });
+    } catch (error) {
+      logger.error("整列対象作成エラー", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+        message: "整列対象の作成中にエラーが発生しました。",
+      });
+    }
+  }
+
+  /**
+   * 撮影地点の整列対象を設定（管理者用）
+   * 富士山は常に含まれ、指定した対象のイベントを再計算する
+   */
+  async updateLocationTargets(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid ID",
+          message: "有効な ID を指定してください。",
+        });
+        return;
+      }
+
+      const { targets: slugs } = req.body;
+      if (
+        !Array.isArray(slugs) ||
+        !slugs.every((slug) => typeof slug === "string")
+      ) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid data format",
+          message: "targets には整列対象の識別子の配列を指定してください。",
+        });
+        return;
+      }
+
+      const location = await this.locationService.getLocationById(id);
+      if (!location) {
+        res.status(404).json({
+          success: false,
+          error: "Location not found",
+          message: "指定された撮影地点が見つかりません。",
+        });
+        return;
+      }
+
+      const targets: Target[] = [];
+      for (const slug of slugs) {
+        const target = await this.targetService.getTargetBySlug(slug);
+        if (!target) {
+          res.status(400).json({
+            success: false,
+            error: "Unknown target",
+            message: `整列対象「${slug}」が見つかりません。`,
+          });
+          return;
+        }
+        targets.push(target);
+      }
+
+      const locationTargets = await this.targetService.setLocationTargets(
+        location,
+        targets,
+      );
+
+      logger.info("撮影地点の整列対象更新成功", {
+        locationId: id,
+        targets: locationTargets.map(
+          (locationTarget) => locationTarget.target?.slug,
+        ),
+      });
+
+      res.json({
+        success: true,
+        targets: locationTargets,
+        message: "整列対象を更新しました。天体計算を開始します。",
+      });
+    } catch (error) {
+      logger.error("撮影地点の整列対象更新エラー", error, {
+        locationId: req.params.id,
+      });
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+        message: "整列対象の更新中にエラーが発生しました。",
+      });
+    }
+  }
+}
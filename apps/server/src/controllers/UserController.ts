@@ -0,0 +1,450 @@
+import { Request, Response } from "express";
+import {
+  FavoriteEvent,
+  FavoriteLocation,
+  Favorites,
+} from "@fuji-calendar/types";
+import { getComponentLogger } from "@fuji-calendar/utils";
+import { UserAuthenticatedRequest } from "../middleware/auth";
+import { UserAuthService } from "../services/UserAuthService";
+import { UserFavoriteService } from "../services/UserFavoriteService";
+
+const logger = getComponentLogger("UserController");
+
+const EVENT_TYPES: FavoriteEvent["type"][] = [
+  "diamond",
+  "pearl",
+  "planet",
+  "star",
+];
+
+const MAX_EMAIL_LENGTH = 255;
+const MAX_EVENT_ID_LENGTH = 100;
+const MAX_LOCATION_NAME_LENGTH = 255;
+
+// 1 回の統合で受け付けるお気に入りの件数
+const MAX_MERGE_ITEMS = 1000;
+
+/**
+ * 一般ユーザーコントローラー
+ * ログインリンクによるログインと、サーバーに保存するお気に入りの操作を提供
+ */
+export class UserController {
+  constructor(
+    private userAuthService: UserAuthService,
+    private userFavoriteService: UserFavoriteService,
+  ) {}
+
+  /**
+   * ログインリンクをメールで送信
+   * POST /api/users/login-link { email }
+   */
+  async requestLoginLink(req: Request, res: Response): Promise<void> {
+    try {
+      const { email } = req.body;
+      if (
+        typeof email !== "string" ||
+        email.trim().length > MAX_EMAIL_LENGTH ||
+        !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())
+      ) {
+        this.sendValidationError(
+          res,
+          "有効なメールアドレスを入力してください。",
+        );
+        return;
+      }
+
+      await this.userAuthService.requestLoginLink(email.trim().toLowerCase());
+
+      // 登録の有無は応答から分からないようにする
+      res.json({
+        success: true,
+        message:
+          "ログインリンクをメールで送信しました。メールのリンクを開いてログインしてください。",
+      });
+    } catch (error) {
+      logger.error("ログインリンク送信エラー", error);
+      this.sendError(res, "ログインリンクの送信中にエラーが発生しました。");
+    }
+  }
+
+  /**
+   * ログインリンクのトークンを検証してアクセストークンを発行
+   * POST /api/users/login-link/verify { token }
+   */
+  async verifyLoginLink(req: Request, res: Response): Promise<void> {
+    try {
+      const { token } = req.body;
+      if (typeof token !== "string" || token.length === 0) {
+        this.sendValidationError(res, "ログインリンクのトークンがありません。");
+        return;
+      }
+
+      const result = await this.userAuthService.verifyLoginLink(token);
+      if (!result) {
+        res.status(401).json({
+          success: false,
+          error: "Invalid login link",
+          message:
+            "ログインリンクが無効か、有効期限が切れています。もう一度ログインリンクを送信してください。",
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        accessToken: result.accessToken,
+        user: result.user,
+        message: "ログインしました。",
+      });
+    } catch (error) {
+      logger.error("ログインリンク検証エラー", error);
+      this.sendError(res, "ログイン処理中にエラーが発生しました。");
+    }
+  }
+
+  /**
+   * ログイン中のユーザー
+   * GET /api/users/me
+   */
+  async getMe(req: UserAuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const user = await this.userAuthService.getUser(req.user!.id);
+
+      res.json({
+        success: true,
+        user,
+      });
+    } catch (error) {
+      logger.error("ユーザー取得エラー", error, { userId: req.user?.id });
+      this.sendError(res, "ユーザー情報の取得中にエラーが発生しました。");
+    }
+  }
+
+  /**
+   * お気に入り一覧
+   * GET /api/users/me/favorites
+   */
+  async getFavorites(
+    req: UserAuthenticatedRequest,
+    res: Response,
+  ): Promise<void> {
+    try {
+      const favorites = await this.userFavoriteService.getFavorites(
+        req.user!.id,
+      );
+
+      res.json({
+        success: true,
+        favorites,
+      });
+    } catch (error) {
+      logger.error("お気に入り取得エラー", error, { userId: req.user?.id });
+      this.sendError(res, "お気に入りの取得中にエラーが発生しました。");
+    }
+  }
+
+  /**
+   * 端末（localStorage）のお気に入りを統合
+   * POST /api/users/me/favorites/merge { locations: FavoriteLocation[], events: FavoriteEvent[] }
+   */
+  async mergeFavorites(
+    req: UserAuthenticatedRequest,
+    res: Response,
+  ): Promise<void> {
+    try {
+      const favorites = this.parseFavorites(req.body);
+      if (!favorites) {
+        this.sendValidationError(
+          res,
+          `お気に入りの形式が正しくありません（撮影地点・イベントはそれぞれ ${MAX_MERGE_ITEMS} 件まで）。`,
+        );
+        return;
+      }
+
+      const merged = await this.userFavoriteService.mergeFavorites(
+        req.user!.id,
+        favorites,
+      );
+
+      res.json({
+        success: true,
+        favorites: merged,
+        message: "この端末のお気に入りをアカウントに統合しました。",
+      });
+    } catch (error) {
+      logger.error("お気に入り統合エラー", error, { userId: req.user?.id });
+      this.sendError(res, "お気に入りの統合中にエラーが発生しました。");
+    }
+  }
+
+  /**
+   * 撮影地点をお気に入りに追加
+   * PUT /api/users/me/favorites/locations/:locationId
+   */
+  async addLocation(
+    req: UserAuthenticatedRequest,
+    res: Response,
+  ): Promise<void> {
+    try {
+      const locationId = parseInt(req.params.locationId);
+      if (isNaN(locationId)) {
+        this.sendValidationError(res, "有効な地点 ID を指定してください。");
+        return;
+      }
+
+      const added = await this.userFavoriteService.addLocation(
+        req.user!.id,
+        locationId,
+      );
+      if (!added) {
+        this.sendLocationNotFound(res);
+        return;
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      logger.error("お気に入り地点追加エラー", error, {
+        userId: req.user?.id,
+        locationId: req.params.locationId,
+      });
+      this.sendError(res, "お気に入りの追加中にエラーが発生しました。");
+    }
+  }
+
+  /**
+   * 撮影地点をお気に入りから削除
+   * DELETE /api/users/me/favorites/locations/:locationId
+   */
+  async removeLocation(
+    req: UserAuthenticatedRequest,
+    res: Response,
+  ): Promise<void> {
+    try {
+      const locationId = parseInt(req.params.locationId);
+      if (isNaN(locationId)) {
+        this.sendValidationError(res, "有効な地点 ID を指定してください。");
+        return;
+      }
+
+      const removed = await this.userFavoriteService.removeLocation(
+        req.user!.id,
+        locationId,
+      );
+
+      res.json({ success: true, removed });
+    } catch (error) {
+      logger.error("お気に入り地点削除エラー", error, {
+        userId: req.user?.id,
+        locationId: req.params.locationId,
+      });
+      this.sendError(res, "お気に入りの削除中にエラーが発生しました。");
+    }
+  }
+
+  /**
+   * イベントをお気に入りに追加
+   * PUT /api/users/me/favorites/events/:eventId { type, subType, time, locationId, locationName, azimuth, elevation, ... }
+   */
+  async addEvent(req: UserAuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const event = this.parseFavoriteEvent({
+        ...req.body,
+        id: req.params.eventId,
+      });
+      if (!event) {
+        this.sendValidationError(res, "イベントの形式が正しくありません。");
+        return;
+      }
+
+      const added = await this.userFavoriteService.addEvent(
+        req.user!.id,
+        event,
+      );
+      if (!added) {
+        this.sendLocationNotFound(res);
+        return;
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      logger.error("お気に入りイベント追加エラー", error, {
+        userId: req.user?.id,
+        eventId: req.params.eventId,
+      });
+      this.sendError(res, "お気に入りの追加中にエラーが発生しました。");
+    }
+  }
+
+  /**
+   * イベントをお気に入りから削除
+   * DELETE /api/users/me/favorites/events/:eventId
+   */
+  async removeEvent(
+    req: UserAuthenticatedRequest,
+    res: Response,
+  ): Promise<void> {
+    try {
+      const removed = await this.userFavoriteService.removeEvent(
+        req.user!.id,
+        req.params.eventId,
+      );
+
+      res.json({ success: true, removed });
+    } catch (error) {
+      logger.error("お気に入りイベント削除エラー", error, {
+        userId: req.user?.id,
+        eventId: req.params.eventId,
+      });
+      this.sendError(res, "お気に入りの削除中にエラーが発生しました。");
+    }
+  }
+
+  /**
+   * 統合するお気に入りの解析
+   * 不正な項目が 1 件でもあれば null
+   */
+  private parseFavorites(body: Record<string, unknown>): Favorites | null {
+    const { locations, events } = body;
+    if (
+      !Array.isArray(locations) ||
+      !Array.isArray(events) ||
+      locations.length > MAX_MERGE_ITEMS ||
+      events.length > MAX_MERGE_ITEMS
+    ) {
+      return null;
+    }
+
+    const parsedLocations = locations.map((location) =>
+      this.parseFavoriteLocation(location),
+    );
+    const parsedEvents = events.map((event) => this.parseFavoriteEvent(event));
+    if (parsedLocations.includes(null) || parsedEvents.includes(null)) {
+      return null;
+    }
+
+    return {
+      locations: parsedLocations as FavoriteLocation[],
+      events: parsedEvents as FavoriteEvent[],
+    };
+  }
+
+  /**
+   * お気に入り地点の解析（地点 ID と追加日時のみ使用し、地点情報はサーバーの値を返す）
+   */
+  private parseFavoriteLocation(value: unknown): FavoriteLocation | null {
+    if (typeof value !== "object" || value === null) {
+      return null;
+    }
+
+    const { id, name, prefecture, latitude, longitude, addedAt } =
+      value as Record<string, unknown>;
+    if (!Number.isInteger(id)) {
+      return null;
+    }
+
+    return {
+      id: id as number,
+      name: typeof name === "string" ? name : "",
+      prefecture: typeof prefecture === "string" ? prefecture : "",
+      latitude: typeof latitude === "number" ? latitude : 0,
+      longitude: typeof longitude === "number" ? longitude : 0,
+      addedAt: this.parseTime(addedAt) ?? new Date().toISOString(),
+    };
+  }
+
+  private parseFavoriteEvent(value: unknown): FavoriteEvent | null {
+    if (typeof value !== "object" || value === null) {
+      return null;
+    }
+
+    const {
+      id,
+      type,
+      subType,
+      celestialBodyName,
+      time,
+      timeWindowStart,
+      timeWindowEnd,
+      locationId,
+      locationName,
+      azimuth,
+      elevation,
+      addedAt,
+    } = value as Record<string, unknown>;
+
+    const eventTime = this.parseTime(time);
+    if (
+      typeof id !== "string" ||
+      id.length === 0 ||
+      id.length > MAX_EVENT_ID_LENGTH ||
+      !EVENT_TYPES.includes(type as FavoriteEvent["type"]) ||
+      typeof subType !== "string" ||
+      subType.length > 20 ||
+      !eventTime ||
+      !Number.isInteger(locationId) ||
+      typeof locationName !== "string" ||
+      locationName.length > MAX_LOCATION_NAME_LENGTH ||
+      typeof azimuth !== "number" ||
+      !Number.isFinite(azimuth) ||
+      typeof elevation !== "number" ||
+      !Number.isFinite(elevation)
+    ) {
+      return null;
+    }
+
+    return {
+      id,
+      type: type as FavoriteEvent["type"],
+      subType,
+      celestialBodyName:
+        typeof celestialBodyName === "string"
+          ? celestialBodyName.slice(0, 50)
+          : undefined,
+      time: eventTime,
+      timeWindowStart: this.parseTime(timeWindowStart),
+      timeWindowEnd: this.parseTime(timeWindowEnd),
+      locationId: locationId as number,
+      locationName,
+      azimuth,
+      elevation,
+      addedAt: this.parseTime(addedAt) ?? new Date().toISOString(),
+    };
+  }
+
+  /**
+   * ISO 8601 文字列の日時を検証して正規化
+   */
+  private parseTime(value: unknown): string | undefined {
+    if (typeof value !== "string") {
+      return undefined;
+    }
+
+    const time = new Date(value);
+    return isNaN(time.getTime()) ? undefined : time.toISOString();
+  }
+
+  private sendLocationNotFound(res: Response): void {
+    res.status(404).json({
+      success: false,
+      error: "Location not found",
+      message: "指定された撮影地点が見つかりません。",
+    });
+  }
+
+  private sendValidationError(res: Response, message: string): void {
+    res.status(400).json({
+      success: false,
+      error: "Validation error",
+      message,
+    });
+  }
+
+  private sendError(res: Response, message: string): void {
+    res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message,
+    });
+  }
+}
@@ -162,6 +162,28 @@ export class DIContainer {
         }
       }
 
+      // QueueServiceにNotificationServiceを注入（通知ジョブの実行用）
+      if (this.has("QueueService") && this.has("NotificationService")) {
+        const queueService = this.resolve("QueueService") as any;
+        const notificationService = this.resolve("NotificationService") as any;
+
+        if (queueService && typeof queueService.setNotificationService === 'function') {
+          queueService.setNotificationService(notificationService);
+          logger.info("QueueServiceにNotificationServiceを注入完了");
+        }
+      }
+
+      // EventCacheServiceにUserFavoriteServiceを注入（再計算後のお気に入り更新用）
+      if (this.has("EventCacheService") && this.has("UserFavoriteService")) {
+        const eventCacheService = this.resolve("EventCacheService") as any;
+        const userFavoriteService = this.resolve("UserFavoriteService") as any;
+
+        if (eventCacheService && typeof eventCacheService.setUserFavoriteService === 'function') {
+          eventCacheService.setUserFavoriteService(userFavoriteService);
+          logger.info("EventCacheServiceにUserFavoriteServiceを注入完了");
+        }
+      }
+
       // パフォーマンス設定の初期化
       if (this.has("SystemSettingsService")) {
         const systemSettingsService = this.resolve("SystemSettingsService") as any;
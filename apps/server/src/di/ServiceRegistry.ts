@@ -8,6 +8,20 @@ import { CalendarRepository } from "../repositories/interfaces/CalendarRepositor
 import { PrismaCalendarRepository } from "../repositories/PrismaCalendarRepository";
 import { AuthRepository } from "../repositories/interfaces/AuthRepository";
 import { PrismaAuthRepository } from "../repositories/PrismaAuthRepository";
+import { TargetRepository } from "../repositories/interfaces/TargetRepository";
+import { PrismaTargetRepository } from "../repositories/PrismaTargetRepository";
+import { HistoricalEventRepository } from "../repositories/interfaces/HistoricalEventRepository";
+import { PrismaHistoricalEventRepository } from "../repositories/PrismaHistoricalEventRepository";
+import { LocationRequestRepository } from "../repositories/interfaces/LocationRequestRepository";
+import { PrismaLocationRequestRepository } from "../repositories/PrismaLocationRequestRepository";
+import { UserRepository } from "../repositories/interfaces/UserRepository";
+import { PrismaUserRepository } from "../repositories/PrismaUserRepository";
+import { UserFavoriteRepository } from "../repositories/interfaces/UserFavoriteRepository";
+import { PrismaUserFavoriteRepository } from "../repositories/PrismaUserFavoriteRepository";
+import { NotificationRepository } from "../repositories/interfaces/NotificationRepository";
+import { PrismaNotificationRepository } from "../repositories/PrismaNotificationRepository";
+import { ApiKeyRepository } from "../repositories/interfaces/ApiKeyRepository";
+import { PrismaApiKeyRepository } from "../repositories/PrismaApiKeyRepository";
 
 // Service インターフェースと実装
 import { AstronomicalCalculator } from "../services/interfaces/AstronomicalCalculator";
@@ -24,11 +38,46 @@ import { AuthService } from "../services/interfaces/AuthService";
 import { AuthServiceImpl } from "../services/AuthService";
 import { SystemSettingsService } from "../services/SystemSettingsService";
 import { BatchCalculationService } from "../services/BatchCalculationService";
+import { DemTileStore } from "../services/terrain/DemTileStore";
+import { LineOfSightAnalyzer } from "../services/terrain/LineOfSightAnalyzer";
+import { TargetService } from "../services/TargetService";
+import { IcsService } from "../services/IcsService";
+import { AlignmentLineService } from "../services/AlignmentLineService";
+import { EventPathService } from "../services/EventPathService";
+import { HistoricalEventService } from "../services/HistoricalEventService";
+import { LocationRequestService } from "../services/LocationRequestService";
+import { WeatherService } from "../services/WeatherService";
+import { WeatherProvider } from "../services/weather/WeatherProvider";
+import { FixtureWeatherProvider } from "../services/weather/FixtureWeatherProvider";
+import { UserAuthService } from "../services/UserAuthService";
+import { UserFavoriteService } from "../services/UserFavoriteService";
+import { Mailer } from "../services/mail/Mailer";
+import { OutboxMailer } from "../services/mail/OutboxMailer";
+import { SmtpMailer } from "../services/mail/SmtpMailer";
+import { NotificationService } from "../services/NotificationService";
+import { EmailNotificationSender } from "../services/notification/EmailNotificationSender";
+import { WebhookNotificationSender } from "../services/notification/WebhookNotificationSender";
+import { ApiKeyService } from "../services/ApiKeyService";
+import { redisService } from "../services/RedisService";
 
 // Controller
 import { LocationController } from "../controllers/LocationController";
 import { CalendarController } from "../controllers/CalendarController";
 import { AuthController } from "../controllers/AuthController";
+import { LineOfSightController } from "../controllers/LineOfSightController";
+import { TargetController } from "../controllers/TargetController";
+import { IcsController } from "../controllers/IcsController";
+import { AlignmentLineController } from "../controllers/AlignmentLineController";
+import { EventPathController } from "../controllers/EventPathController";
+import { HistoryController } from "../controllers/HistoryController";
+import { LocationRequestController } from "../controllers/LocationRequestController";
+import { UserController } from "../controllers/UserController";
+import { NotificationController } from "../controllers/NotificationController";
+import { ApiKeyController } from "../controllers/ApiKeyController";
+import { ApiV1Controller } from "../controllers/ApiV1Controller";
+import { GraphQLController } from "../controllers/GraphQLController";
+import { RealtimeService } from "../services/RealtimeService";
+import { RealtimeController } from "../controllers/RealtimeController";
 
 import { getComponentLogger } from "@fuji-calendar/utils";
 
@@ -74,13 +123,69 @@ export class ServiceRegistry {
       return new PrismaAuthRepository();
     });
 
+    container.registerSingleton("TargetRepository", () => {
+      logger.debug("PrismaTargetRepository インスタンス作成");
+      return new PrismaTargetRepository();
+    });
+
+    container.registerSingleton("HistoricalEventRepository", () => {
+      logger.debug("PrismaHistoricalEventRepository インスタンス作成");
+      return new PrismaHistoricalEventRepository();
+    });
+
+    container.registerSingleton("LocationRequestRepository", () => {
+      logger.debug("PrismaLocationRequestRepository インスタンス作成");
+      return new PrismaLocationRequestRepository();
+    });
+
+    container.registerSingleton("UserRepository", () => {
+      logger.debug("PrismaUserRepository インスタンス作成");
+      return new PrismaUserRepository();
+    });
+
+    container.registerSingleton("UserFavoriteRepository", () => {
+      logger.debug("PrismaUserFavoriteRepository インスタンス作成");
+      return new PrismaUserFavoriteRepository();
+    });
+
+    container.registerSingleton("NotificationRepository", () => {
+      logger.debug("PrismaNotificationRepository インスタンス作成");
+      return new PrismaNotificationRepository();
+    });
+
+    container.registerSingleton("ApiKeyRepository", () => {
+      logger.debug("PrismaApiKeyRepository インスタンス作成");
+      return new PrismaApiKeyRepository();
+    });
+
+    // 地形データ（標高タイル）の登録
+    container.registerSingleton("DemTileStore", () => {
+      logger.debug("DemTileStore インスタンス作成");
+      return new DemTileStore(
+        process.env.DEM_TILE_DIR,
+        parseInt(process.env.DEM_TILE_ZOOM || "14"),
+      );
+    });
+
+    container.registerSingleton("LineOfSightAnalyzer", (container) => {
+      logger.debug("LineOfSightAnalyzer インスタンス作成");
+      const tileStore = container.resolve<DemTileStore>("DemTileStore");
+      return new LineOfSightAnalyzer(tileStore);
+    });
+
     // AstronomicalCalculator の登録
     container.registerSingleton("AstronomicalCalculator", (container) => {
       logger.debug("AstronomicalCalculatorImpl インスタンス作成");
       const settingsService = container.resolve<SystemSettingsService>(
         "SystemSettingsService",
       );
-      return new AstronomicalCalculatorImpl(settingsService);
+      const lineOfSightAnalyzer = container.resolve<LineOfSightAnalyzer>(
+        "LineOfSightAnalyzer",
+      );
+      return new AstronomicalCalculatorImpl(
+        settingsService,
+        lineOfSightAnalyzer,
+      );
     });
 
     // EventCacheService の登録
@@ -89,7 +194,10 @@ export class ServiceRegistry {
       const astronomicalCalculator = container.resolve<AstronomicalCalculator>(
         "AstronomicalCalculator",
       );
-      return new EventCacheService(astronomicalCalculator);
+      return new EventCacheService(
+        astronomicalCalculator,
+        process.env.DISABLE_REDIS === "true" ? null : redisService,
+      );
     });
 
     // QueueService の登録（ワーカー有効/無効対応）
@@ -146,6 +254,17 @@ export class ServiceRegistry {
       return eventService;
     });
 
+    // TargetService の登録
+    container.registerSingleton("TargetService", (container) => {
+      logger.debug("TargetService インスタンス作成");
+      const targetRepository =
+        container.resolve<TargetRepository>("TargetRepository");
+      // EventService を先に解決して、QueueService に注入されることを保証
+      container.resolve<EventService>("EventService");
+      const queueService = container.resolve<QueueService>("QueueService");
+      return new TargetService(targetRepository, queueService);
+    });
+
     // LocationService の登録（EventService の後に移動）
     container.registerSingleton("LocationService", (container) => {
       logger.debug("LocationService インスタンス作成");
@@ -157,10 +276,12 @@ export class ServiceRegistry {
       // EventService を先に解決して、QueueService に注入されることを保証
       container.resolve<EventService>("EventService");
       const queueService = container.resolve<QueueService>("QueueService");
+      const targetService = container.resolve<TargetService>("TargetService");
       return new LocationService(
         locationRepository,
         astronomicalCalculator,
         queueService,
+        targetService,
       );
     });
 
@@ -169,7 +290,192 @@ export class ServiceRegistry {
       logger.debug("CalendarService インスタンス作成");
       const calendarRepository =
         container.resolve<CalendarRepository>("CalendarRepository");
-      return new CalendarServiceImpl(calendarRepository);
+      const weatherService =
+        container.resolve<WeatherService>("WeatherService");
+      return new CalendarServiceImpl(calendarRepository, weatherService);
+    });
+
+    // 雲量予報の提供元（WEATHER_PROVIDER で切り替え、未設定なら天気を付けない）
+    container.registerSingleton("WeatherProvider", () => {
+      const provider = process.env.WEATHER_PROVIDER || "fixture";
+      if (provider === "fixture" && process.env.WEATHER_FIXTURE_PATH) {
+        logger.debug("FixtureWeatherProvider インスタンス作成");
+        return new FixtureWeatherProvider(process.env.WEATHER_FIXTURE_PATH);
+      }
+      if (provider !== "fixture") {
+        logger.warn("未対応の雲量予報の提供元", { provider });
+      }
+      return null;
+    });
+
+    // WeatherService の登録
+    container.registerSingleton("WeatherService", (container) => {
+      logger.debug("WeatherService インスタンス作成");
+      const weatherProvider =
+        container.resolve<WeatherProvider | null>("WeatherProvider");
+      const targetRepository =
+        container.resolve<TargetRepository>("TargetRepository");
+      return new WeatherService(
+        weatherProvider,
+        targetRepository,
+        process.env.DISABLE_REDIS === "true" ? null : redisService,
+      );
+    });
+
+    // IcsService の登録
+    container.registerSingleton("IcsService", (container) => {
+      logger.debug("IcsService インスタンス作成");
+      const calendarRepository =
+        container.resolve<CalendarRepository>("CalendarRepository");
+      const targetRepository =
+        container.resolve<TargetRepository>("TargetRepository");
+      return new IcsService(calendarRepository, targetRepository);
+    });
+
+    // AlignmentLineService の登録
+    container.registerSingleton("AlignmentLineService", (container) => {
+      logger.debug("AlignmentLineService インスタンス作成");
+      const locationRepository =
+        container.resolve<LocationRepository>("LocationRepository");
+      const calendarRepository =
+        container.resolve<CalendarRepository>("CalendarRepository");
+      const targetRepository =
+        container.resolve<TargetRepository>("TargetRepository");
+      return new AlignmentLineService(
+        locationRepository,
+        calendarRepository,
+        targetRepository,
+      );
+    });
+
+    // EventPathService の登録
+    container.registerSingleton("EventPathService", (container) => {
+      logger.debug("EventPathService インスタンス作成");
+      const calendarRepository =
+        container.resolve<CalendarRepository>("CalendarRepository");
+      const targetRepository =
+        container.resolve<TargetRepository>("TargetRepository");
+      const astronomicalCalculator = container.resolve<AstronomicalCalculator>(
+        "AstronomicalCalculator",
+      );
+      return new EventPathService(
+        calendarRepository,
+        targetRepository,
+        astronomicalCalculator,
+      );
+    });
+
+    // HistoricalEventService の登録
+    container.registerSingleton("HistoricalEventService", (container) => {
+      logger.debug("HistoricalEventService インスタンス作成");
+      const historicalEventRepository =
+        container.resolve<HistoricalEventRepository>(
+          "HistoricalEventRepository",
+        );
+      return new HistoricalEventService(historicalEventRepository);
+    });
+
+    // LocationRequestService の登録
+    container.registerSingleton("LocationRequestService", (container) => {
+      logger.debug("LocationRequestService インスタンス作成");
+      const locationRequestRepository =
+        container.resolve<LocationRequestRepository>(
+          "LocationRequestRepository",
+        );
+      const locationService =
+        container.resolve<LocationService>("LocationService");
+      return new LocationRequestService(
+        locationRequestRepository,
+        locationService,
+      );
+    });
+
+    // メール送信（SMTP_HOST 設定時は SMTP、未設定時は MAIL_OUTBOX_DIR への .eml 保存、本番環境では保存しない）
+    container.registerSingleton("Mailer", () => {
+      if (process.env.SMTP_HOST) {
+        logger.debug("SmtpMailer インスタンス作成");
+        return new SmtpMailer({
+          host: process.env.SMTP_HOST,
+          port: parseInt(process.env.SMTP_PORT || "587"),
+          user: process.env.SMTP_USER,
+          pass: process.env.SMTP_PASS,
+          from: process.env.MAIL_FROM || process.env.SMTP_USER,
+        });
+      }
+
+      if (process.env.NODE_ENV === "production") {
+        logger.warn("SMTP_HOST が未設定のため、メールは送信されません");
+      }
+      logger.debug("OutboxMailer インスタンス作成");
+      return new OutboxMailer(
+        process.env.NODE_ENV === "production"
+          ? undefined
+          : process.env.MAIL_OUTBOX_DIR,
+      );
+    });
+
+    // UserAuthService の登録
+    container.registerSingleton("UserAuthService", (container) => {
+      logger.debug("UserAuthService インスタンス作成");
+      const userRepository =
+        container.resolve<UserRepository>("UserRepository");
+      const mailer = container.resolve<Mailer>("Mailer");
+      return new UserAuthService(
+        userRepository,
+        mailer,
+        process.env.FRONTEND_URL || "http://localhost:3000",
+      );
+    });
+
+    // NotificationService の登録（通知ジョブは QueueService の遅延ジョブとして実行）
+    container.registerSingleton("NotificationService", (container) => {
+      logger.debug("NotificationService インスタンス作成");
+      const notificationRepository =
+        container.resolve<NotificationRepository>("NotificationRepository");
+      const userFavoriteRepository = container.resolve<UserFavoriteRepository>(
+        "UserFavoriteRepository",
+      );
+      const queueService = container.resolve<QueueService>("QueueService");
+      const mailer = container.resolve<Mailer>("Mailer");
+      return new NotificationService(
+        notificationRepository,
+        userFavoriteRepository,
+        queueService,
+        {
+          email: new EmailNotificationSender(mailer),
+          webhook: new WebhookNotificationSender("json"),
+          slack: new WebhookNotificationSender("slack"),
+          line: new WebhookNotificationSender("line"),
+        },
+        process.env.FRONTEND_URL || "http://localhost:3000",
+      );
+    });
+
+    // UserFavoriteService の登録
+    container.registerSingleton("UserFavoriteService", (container) => {
+      logger.debug("UserFavoriteService インスタンス作成");
+      const userFavoriteRepository = container.resolve<UserFavoriteRepository>(
+        "UserFavoriteRepository",
+      );
+      const notificationService = container.resolve<NotificationService>(
+        "NotificationService",
+      );
+      return new UserFavoriteService(
+        userFavoriteRepository,
+        process.env.DISABLE_REDIS === "true" ? null : redisService,
+        notificationService,
+      );
+    });
+
+    // ApiKeyService の登録（公開 API の API キーとリクエスト数の管理）
+    container.registerSingleton("ApiKeyService", (container) => {
+      logger.debug("ApiKeyService インスタンス作成");
+      const apiKeyRepository =
+        container.resolve<ApiKeyRepository>("ApiKeyRepository");
+      return new ApiKeyService(
+        apiKeyRepository,
+        process.env.DISABLE_REDIS === "true" ? null : redisService,
+      );
     });
 
     // AuthService の登録
@@ -215,6 +521,128 @@ export class ServiceRegistry {
       return new AuthController(authService);
     });
 
+    container.register("TargetController", (container?: DIContainer) => {
+      logger.debug("TargetController インスタンス作成");
+      const targetService = container!.resolve<TargetService>("TargetService");
+      const locationService =
+        container!.resolve<LocationService>("LocationService");
+      return new TargetController(targetService, locationService);
+    });
+
+    container.register("IcsController", (container?: DIContainer) => {
+      logger.debug("IcsController インスタンス作成");
+      const icsService = container!.resolve<IcsService>("IcsService");
+      return new IcsController(icsService);
+    });
+
+    container.register(
+      "AlignmentLineController",
+      (container?: DIContainer) => {
+        logger.debug("AlignmentLineController インスタンス作成");
+        const alignmentLineService = container!.resolve<AlignmentLineService>(
+          "AlignmentLineService",
+        );
+        return new AlignmentLineController(alignmentLineService);
+      },
+    );
+
+    container.register("EventPathController", (container?: DIContainer) => {
+      logger.debug("EventPathController インスタンス作成");
+      const eventPathService =
+        container!.resolve<EventPathService>("EventPathService");
+      return new EventPathController(eventPathService);
+    });
+
+    container.register("HistoryController", (container?: DIContainer) => {
+      logger.debug("HistoryController インスタンス作成");
+      const historicalEventService = container!.resolve<HistoricalEventService>(
+        "HistoricalEventService",
+      );
+      return new HistoryController(historicalEventService);
+    });
+
+    container.register(
+      "LocationRequestController",
+      (container?: DIContainer) => {
+        logger.debug("LocationRequestController インスタンス作成");
+        const locationRequestService =
+          container!.resolve<LocationRequestService>("LocationRequestService");
+        return new LocationRequestController(locationRequestService);
+      },
+    );
+
+    container.register("LineOfSightController", (container?: DIContainer) => {
+      logger.debug("LineOfSightController インスタンス作成");
+      const locationService =
+        container!.resolve<LocationService>("LocationService");
+      const lineOfSightAnalyzer = container!.resolve<LineOfSightAnalyzer>(
+        "LineOfSightAnalyzer",
+      );
+      return new LineOfSightController(locationService, lineOfSightAnalyzer);
+    });
+
+    container.register("UserController", (container?: DIContainer) => {
+      logger.debug("UserController インスタンス作成");
+      const userAuthService =
+        container!.resolve<UserAuthService>("UserAuthService");
+      const userFavoriteService = container!.resolve<UserFavoriteService>(
+        "UserFavoriteService",
+      );
+      return new UserController(userAuthService, userFavoriteService);
+    });
+
+    container.register("NotificationController", (container?: DIContainer) => {
+      logger.debug("NotificationController インスタンス作成");
+      const notificationService = container!.resolve<NotificationService>(
+        "NotificationService",
+      );
+      return new NotificationController(notificationService);
+    });
+
+    container.register("ApiKeyController", (container?: DIContainer) => {
+      logger.debug("ApiKeyController インスタンス作成");
+      const apiKeyService = container!.resolve<ApiKeyService>("ApiKeyService");
+      return new ApiKeyController(apiKeyService);
+    });
+
+    container.register("ApiV1Controller", (container?: DIContainer) => {
+      logger.debug("ApiV1Controller インスタンス作成");
+      const calendarService =
+        container!.resolve<CalendarService>("CalendarService");
+      const locationService =
+        container!.resolve<LocationService>("LocationService");
+      const targetService = container!.resolve<TargetService>("TargetService");
+      return new ApiV1Controller(
+        calendarService,
+        locationService,
+        targetService,
+      );
+    });
+
+    container.register("GraphQLController", (container?: DIContainer) => {
+      logger.debug("GraphQLController インスタンス作成");
+      const locationRepository =
+        container!.resolve<LocationRepository>("LocationRepository");
+      const calendarRepository =
+        container!.resolve<CalendarRepository>("CalendarRepository");
+      return new GraphQLController(locationRepository, calendarRepository);
+    });
+
+    // RealtimeService の登録（ジョブの進捗・カレンダー更新の配信）
+    container.registerSingleton("RealtimeService", () => {
+      logger.debug("RealtimeService インスタンス作成");
+      return new RealtimeService(
+        process.env.DISABLE_REDIS === "true" ? null : redisService,
+      );
+    });
+
+    container.register("RealtimeController", (container?: DIContainer) => {
+      logger.debug("RealtimeController インスタンス作成");
+      const realtimeService =
+        container!.resolve<RealtimeService>("RealtimeService");
+      return new RealtimeController(realtimeService);
+    });
+
     logger.info("サービス登録完了", {
       registeredServices: container.getRegisteredServices(),
     });
@@ -264,6 +692,84 @@ export class ServiceRegistry {
         container.resolve<CalendarController>("CalendarController");
       const authController =
         container.resolve<AuthController>("AuthController");
+      const lineOfSightAnalyzer = container.resolve<LineOfSightAnalyzer>(
+        "LineOfSightAnalyzer",
+      );
+      const lineOfSightController = container.resolve<LineOfSightController>(
+        "LineOfSightController",
+      );
+      const targetRepository =
+        container.resolve<TargetRepository>("TargetRepository");
+      const targetService = container.resolve<TargetService>("TargetService");
+      const targetController =
+        container.resolve<TargetController>("TargetController");
+      const icsService = container.resolve<IcsService>("IcsService");
+      const icsController = container.resolve<IcsController>("IcsController");
+      const alignmentLineService = container.resolve<AlignmentLineService>(
+        "AlignmentLineService",
+      );
+      const alignmentLineController =
+        container.resolve<AlignmentLineController>("AlignmentLineController");
+      const eventPathService =
+        container.resolve<EventPathService>("EventPathService");
+      const eventPathController = container.resolve<EventPathController>(
+        "EventPathController",
+      );
+      const historicalEventRepository =
+        container.resolve<HistoricalEventRepository>(
+          "HistoricalEventRepository",
+        );
+      const historicalEventService = container.resolve<HistoricalEventService>(
+        "HistoricalEventService",
+      );
+      const historyController =
+        container.resolve<HistoryController>("HistoryController");
+      const weatherService =
+        container.resolve<WeatherService>("WeatherService");
+      const locationRequestRepository =
+        container.resolve<LocationRequestRepository>(
+          "LocationRequestRepository",
+        );
+      const locationRequestService = container.resolve<LocationRequestService>(
+        "LocationRequestService",
+      );
+      const locationRequestController =
+        container.resolve<LocationRequestController>(
+          "LocationRequestController",
+        );
+      const userRepository =
+        container.resolve<UserRepository>("UserRepository");
+      const userFavoriteRepository = container.resolve<UserFavoriteRepository>(
+        "UserFavoriteRepository",
+      );
+      const mailer = container.resolve<Mailer>("Mailer");
+      const userAuthService =
+        container.resolve<UserAuthService>("UserAuthService");
+      const userFavoriteService = container.resolve<UserFavoriteService>(
+        "UserFavoriteService",
+      );
+      const userController =
+        container.resolve<UserController>("UserController");
+      const notificationRepository =
+        container.resolve<NotificationRepository>("NotificationRepository");
+      const notificationService = container.resolve<NotificationService>(
+        "NotificationService",
+      );
+      const notificationController =
+        container.resolve<NotificationController>("NotificationController");
+      const apiKeyRepository =
+        container.resolve<ApiKeyRepository>("ApiKeyRepository");
+      const apiKeyService = container.resolve<ApiKeyService>("ApiKeyService");
+      const apiKeyController =
+        container.resolve<ApiKeyController>("ApiKeyController");
+      const apiV1Controller =
+        container.resolve<ApiV1Controller>("ApiV1Controller");
+      const graphQLController =
+        container.resolve<GraphQLController>("GraphQLController");
+      const realtimeService =
+        container.resolve<RealtimeService>("RealtimeService");
+      const realtimeController =
+        container.resolve<RealtimeController>("RealtimeController");
 
       // インスタンスが正常に作成されたかチェック
       const validations = [
@@ -282,6 +788,52 @@ export class ServiceRegistry {
         { name: "LocationController", instance: locationController },
         { name: "CalendarController", instance: calendarController },
         { name: "AuthController", instance: authController },
+        { name: "LineOfSightAnalyzer", instance: lineOfSightAnalyzer },
+        { name: "LineOfSightController", instance: lineOfSightController },
+        { name: "TargetRepository", instance: targetRepository },
+        { name: "TargetService", instance: targetService },
+        { name: "TargetController", instance: targetController },
+        { name: "IcsService", instance: icsService },
+        { name: "IcsController", instance: icsController },
+        { name: "AlignmentLineService", instance: alignmentLineService },
+        { name: "AlignmentLineController", instance: alignmentLineController },
+        { name: "EventPathService", instance: eventPathService },
+        { name: "EventPathController", instance: eventPathController },
+        {
+          name: "HistoricalEventRepository",
+          instance: historicalEventRepository,
+        },
+        { name: "HistoricalEventService", instance: historicalEventService },
+        { name: "HistoryController", instance: historyController },
+        { name: "WeatherService", instance: weatherService },
+        {
+          name: "LocationRequestRepository",
+          instance: locationRequestRepository,
+        },
+        { name: "LocationRequestService", instance: locationRequestService },
+        {
+          name: "LocationRequestController",
+          instance: locationRequestController,
+        },
+        { name: "UserRepository", instance: userRepository },
+        { name: "UserFavoriteRepository", instance: userFavoriteRepository },
+        { name: "Mailer", instance: mailer },
+        { name: "UserAuthService", instance: userAuthService },
+        { name: "UserFavoriteService", instance: userFavoriteService },
+        { name: "UserController", instance: userController },
+        { name: "NotificationRepository", instance: notificationRepository },
+        { name: "NotificationService", instance: notificationService },
+        {
+          name: "NotificationController",
+          instance: notificationController,
+        },
+        { name: "ApiKeyRepository", instance: apiKeyRepository },
+        { name: "ApiKeyService", instance: apiKeyService },
+        { name: "ApiKeyController", instance: apiKeyController },
+        { name: "ApiV1Controller", instance: apiV1Controller },
+        { name: "GraphQLController", instance: graphQLController },
+        { name: "RealtimeService", instance: realtimeService },
+        { name: "RealtimeController", instance: realtimeController },
       ];
 
       for (const validation of validations) {
@@ -0,0 +1,134 @@
+import {
+  ASTVisitor,
+  FragmentDefinitionNode,
+  GraphQLCompositeType,
+  GraphQLError,
+  Kind,
+  SelectionSetNode,
+  ValidationContext,
+  ValidationRule,
+  getNamedType,
+  getNullableType,
+  isCompositeType,
+  isInterfaceType,
+  isListType,
+  isObjectType,
+} from "graphql";
+
+// 引数のあるフィールド（データベースからイベント・地点を取得する）のコスト
+// 入れ子の取得は DataLoader で 1 回にまとめるため、親のリストの件数は掛けない
+const FETCH_FIELD_COST = 200;
+
+// リストの要素数の見積もり（リストの中のオブジェクトのフィールドのコストに掛ける）
+// スカラーのフィールドは数えない
+const LIST_SIZE_ESTIMATE = 10;
+
+/**
+ * クエリのコストを制限する検証ルール
+ * 別名で同じフィールドを並べると期間・件数の上限を 1 回のリクエストで何倍にも取得できるため、
+ * フィールドごとのコストを合計して上限を超えるクエリを実行前に拒否する
+ * イントロスペクション（__ で始まるフィールド）は数えない
+ */
+export const createCostLimitRule =
+  (maxCost: number): ValidationRule =>
+  (context: ValidationContext): ASTVisitor => {
+    const schema = context.getSchema();
+    const fragments = new Map<string, FragmentDefinitionNode>();
+    for (const definition of context.getDocument().definitions) {
+      if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+        fragments.set(definition.name.value, definition);
+      }
+    }
+
+    const costOf = (
+      selectionSet: SelectionSetNode,
+      parentType: GraphQLCompositeType,
+      listSize: number,
+      visited: Set<string>,
+    ): number =>
+      selectionSet.selections.reduce((total, selection) => {
+        switch (selection.kind) {
+          case Kind.FIELD: {
+            if (selection.name.value.startsWith("__")) {
+              return total;
+            }
+            // 存在しないフィールドは標準の検証ルールでエラーになる
+            const field =
+              isObjectType(parentType) || isInterfaceType(parentType)
+                ? parentType.getFields()[selection.name.value]
+                : undefined;
+            if (!field) {
+              return total;
+            }
+
+            const fieldType = getNamedType(field.type);
+            if (field.args.length === 0 && !isCompositeType(fieldType)) {
+              return total;
+            }
+            const childCost =
+              selection.selectionSet && isCompositeType(fieldType)
+                ? costOf(
+                    selection.selectionSet,
+                    fieldType,
+                    isListType(getNullableType(field.type))
+                      ? listSize * LIST_SIZE_ESTIMATE
+                      : listSize,
+                    visited,
+                  )
+                : 0;
+            return (
+              total +
+              (field.args.length > 0 ? FETCH_FIELD_COST : listSize) +
+              childCost
+            );
+          }
+          case Kind.INLINE_FRAGMENT: {
+            const type = selection.typeCondition
+              ? schema.getType(selection.typeCondition.name.value)
+              : parentType;
+            return type && isCompositeType(type)
+              ? total + costOf(selection.selectionSet, type, listSize, visited)
+              : total;
+          }
+          case Kind.FRAGMENT_SPREAD: {
+            const name = selection.name.value;
+            const fragment = fragments.get(name);
+            // 循環するフラグメントは標準の検証ルールでエラーになる
+            if (!fragment || visited.has(name)) {
+              return total;
+            }
+            const type = schema.getType(fragment.typeCondition.name.value);
+            return type && isCompositeType(type)
+              ? total +
+                  costOf(
+                    fragment.selectionSet,
+                    type,
+                    listSize,
+                    new Set([...visited, name]),
+                  )
+              : total;
+          }
+          default:
+            return total;
+        }
+      }, 0);
+
+    return {
+      OperationDefinition(node) {
+        const rootType = schema.getRootType(node.operation);
+        if (!rootType) {
+          return;
+        }
+
+        const cost = costOf(node.selectionSet, rootType, 1, new Set());
+        if (cost > maxCost) {
+          context.reportError(
+            new GraphQLError(
+              `クエリのコスト（${cost}）は ${maxCost} 以下にしてください。取得するフィールドや別名の数を減らしてください。`,
+              { nodes: [node] },
+            ),
+          );
+        }
+      },
+    };
+  };
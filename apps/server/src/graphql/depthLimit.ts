@@ -0,0 +1,76 @@
+import {
+  ASTVisitor,
+  FragmentDefinitionNode,
+  GraphQLError,
+  Kind,
+  SelectionSetNode,
+  ValidationContext,
+  ValidationRule,
+} from "graphql";
+
+/**
+ * クエリの深さを制限する検証ルール
+ * Location.events → FujiEvent.location → Location.events … と入れ子にできるため、深いクエリを実行前に拒否する
+ * イントロスペクション（__ で始まるフィールド）は数えない
+ */
+export const createDepthLimitRule =
+  (maxDepth: number): ValidationRule =>
+  (context: ValidationContext): ASTVisitor => {
+    const fragments = new Map<string, FragmentDefinitionNode>();
+    for (const definition of context.getDocument().definitions) {
+      if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+        fragments.set(definition.name.value, definition);
+      }
+    }
+
+    const depthOf = (
+      selectionSet: SelectionSetNode,
+      visited: Set<string>,
+    ): number =>
+      Math.max(
+        0,
+        ...selectionSet.selections.map((selection) => {
+          switch (selection.kind) {
+            case Kind.FIELD:
+              if (selection.name.value.startsWith("__")) {
+                return 0;
+              }
+              return (
+                1 +
+                (selection.selectionSet
+                  ? depthOf(selection.selectionSet, visited)
+                  : 0)
+              );
+            case Kind.INLINE_FRAGMENT:
+              return depthOf(selection.selectionSet, visited);
+            case Kind.FRAGMENT_SPREAD: {
+              const name = selection.name.value;
+              const fragment = fragments.get(name);
+              // 循環するフラグメントは標準の検証ルールでエラーになる
+              if (!fragment || visited.has(name)) {
+                return 0;
+              }
+              return depthOf(
+                fragment.selectionSet,
+                new Set([...visited, name]),
+              );
+            }
+            default:
+              return 0;
+          }
+        }),
+      );
+
+    return {
+      OperationDefinition(node) {
+        if (depthOf(node.selectionSet, new Set()) > maxDepth) {
+          context.reportError(
+            new GraphQLError(
+              `クエリの深さは ${maxDepth} 以下にしてください。`,
+              { nodes: [node] },
+            ),
+          );
+        }
+      },
+    };
+  };
@@ -0,0 +1,117 @@
+import DataLoader from "dataloader";
+import { CalendarStats, FujiEvent, Location } from "@fuji-calendar/types";
+import { getComponentLogger } from "@fuji-calendar/utils";
+import { LocationRepository } from "../repositories/interfaces/LocationRepository";
+import { CalendarRepository } from "../repositories/interfaces/CalendarRepository";
+
+const logger = getComponentLogger("GraphQLLoaders");
+
+/**
+ * 地点別イベントの取得条件
+ * 期間・イベント種別・整列対象が同じキーは 1 回のクエリにまとめる
+ */
+export interface LocationEventsKey {
+  locationId: number;
+  from: string;
+  to: string;
+  eventTypes?: string[];
+  targetSlug: string;
+}
+
+/**
+ * リクエストごとの DataLoader
+ * 同じリクエスト内の重複した取得をまとめ、地点ごとの N+1 クエリを防ぐ
+ */
+export interface GraphQLLoaders {
+  locationById: DataLoader<number, Location | null>;
+  eventsByLocation: DataLoader<LocationEventsKey, FujiEvent[], string>;
+  statsByYear: DataLoader<number, CalendarStats>;
+}
+
+export interface GraphQLContext {
+  loaders: GraphQLLoaders;
+  locationRepository: LocationRepository;
+  calendarRepository: CalendarRepository;
+}
+
+// 地点 ID 以外の取得条件（同じ条件のキーを 1 回のクエリにまとめる）
+const eventsFilterKey = (key: LocationEventsKey): string =>
+  JSON.stringify([
+    key.from,
+    key.to,
+    key.eventTypes ? [...key.eventTypes].sort() : null,
+    key.targetSlug,
+  ]);
+
+const eventsCacheKey = (key: LocationEventsKey): string =>
+  `${key.locationId}:${eventsFilterKey(key)}`;
+
+/**
+ * リクエストごとに DataLoader を作成（キャッシュはリクエスト内のみ）
+ */
+export const createGraphQLLoaders = (
+  locationRepository: LocationRepository,
+  calendarRepository: CalendarRepository,
+): GraphQLLoaders => ({
+  locationById: new DataLoader<number, Location | null>(async (ids) => {
+    const locations = await locationRepository.findByIds([...ids]);
+    const byId = new Map(locations.map((location) => [location.id, location]));
+    return ids.map((id) => byId.get(id) ?? null);
+  }),
+
+  eventsByLocation: new DataLoader<LocationEventsKey, FujiEvent[], string>(
+    async (keys) => {
+      // 条件ごとに地点 ID をまとめて、条件 1 つにつき 1 回だけ取得する
+      const groups = new Map<string, LocationEventsKey[]>();
+      for (const key of keys) {
+        const filterKey = eventsFilterKey(key);
+        groups.set(filterKey, [...(groups.get(filterKey) ?? []), key]);
+      }
+
+      const eventsByKey = new Map<string, FujiEvent[]>();
+      await Promise.all(
+        [...groups.values()].map(async (group) => {
+          const { from, to, eventTypes, targetSlug } = group[0];
+          const locationIds = [...new Set(group.map((key) => key.locationId))];
+          const events = await calendarRepository.getEventsInRange(from, to, {
+            locationIds,
+            eventTypes,
+            targetSlug,
+          });
+
+          for (const key of group) {
+            eventsByKey.set(
+              eventsCacheKey(key),
+              events.filter((event) => event.location.id === key.locationId),
+            );
+          }
+        }),
+      );
+
+      logger.debug("地点別イベント一括取得", {
+        keyCount: keys.length,
+        queryCount: groups.size,
+      });
+
+      return keys.map((key) => eventsByKey.get(eventsCacheKey(key)) ?? []);
+    },
+    { cacheKeyFn: eventsCacheKey },
+  ),
+
+  // 統計は年ごとの集計クエリのため、同じ年の重複だけをまとめる
+  statsByYear: new DataLoader<number, CalendarStats>((years) =>
+    Promise.all(years.map((year) => calendarRepository.getCalendarStats(year))),
+  ),
+});
+
+/**
+ * GraphQL の実行コンテキストを作成
+ */
+export const createGraphQLContext = (
+  locationRepository: LocationRepository,
+  calendarRepository: CalendarRepository,
+): GraphQLContext => ({
+  loaders: createGraphQLLoaders(locationRepository, calendarRepository),
+  locationRepository,
+  calendarRepository,
+});
@@ -0,0 +1,625 @@
+import {
+  GraphQLEnumType,
+  GraphQLError,
+  GraphQLFieldConfigArgumentMap,
+  GraphQLFloat,
+  GraphQLInt,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLObjectType,
+  GraphQLScalarType,
+  GraphQLSchema,
+  GraphQLString,
+} from "graphql";
+import {
+  CalendarStats,
+  CelestialBody,
+  FujiEvent,
+  Location,
+} from "@fuji-calendar/types";
+import { timeUtils } from "@fuji-calendar/utils";
+import { FUJI_TARGET_SLUG } from "../services/astronomical/AlignmentTarget";
+import { GraphQLContext } from "./loaders";
+
+// 期間指定の上限（REST の /api/calendar/range と同じ）
+const MAX_RANGE_DAYS = 3 * 366;
+const MAX_EVENTS_LIMIT = 1000;
+
+// 同じ種類のイベントの間隔がこの日数以内なら同じシーズンとみなす
+const SEASON_GAP_DAYS = 3;
+
+// 整列対象の識別子の形式（英小文字・数字・ハイフン）
+const TARGET_SLUG_PATTERN = /^[a-z0-9-]{1,50}$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 撮影シーズン（同じ種類のイベントが続く期間）
+ */
+interface EventSeason {
+  type: FujiEvent["type"];
+  subType: FujiEvent["subType"];
+  startDate: string;
+  endDate: string;
+  eventCount: number;
+  bestEvent: FujiEvent;
+}
+
+interface EventFilterArgs {
+  from: string;
+  to: string;
+  types?: string[];
+  minQualityScore?: number;
+  target?: string;
+  limit?: number;
+}
+
+const badUserInput = (message: string): GraphQLError =>
+  new GraphQLError(message, { extensions: { code: "BAD_USER_INPUT" } });
+
+// YYYY-MM-DD 形式かつ実在する日付か
+const isValidDate = (date: string): boolean => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return false;
+  }
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date);
+};
+
+// 期間・整列対象・件数の引数を検証（不正な場合は BAD_USER_INPUT エラー）
+const validateEventFilter = (args: EventFilterArgs): string => {
+  if (!isValidDate(args.from) || !isValidDate(args.to)) {
+    throw badUserInput("from と to は YYYY-MM-DD 形式で指定してください。");
+  }
+
+  const rangeDays =
+    (new Date(`${args.to}T00:00:00Z`).getTime() -
+      new Date(`${args.from}T00:00:00Z`).getTime()) /
+    DAY_MS;
+  if (rangeDays < 0 || rangeDays >= MAX_RANGE_DAYS) {
+    throw badUserInput(
+      `from は to 以前の日付とし、期間は ${MAX_RANGE_DAYS} 日以内で指定してください。`,
+    );
+  }
+
+  if (
+    args.minQualityScore != null &&
+    (args.minQualityScore < 0 || args.minQualityScore > 100)
+  ) {
+    throw badUserInput("minQualityScore は 0〜100 で指定してください。");
+  }
+
+  if (args.limit != null && (args.limit < 1 || args.limit > MAX_EVENTS_LIMIT)) {
+    throw badUserInput(`limit は 1〜${MAX_EVENTS_LIMIT} で指定してください。`);
+  }
+
+  const targetSlug = args.target ?? FUJI_TARGET_SLUG;
+  if (!TARGET_SLUG_PATTERN.test(targetSlug)) {
+    throw badUserInput("整列対象の識別子が正しくありません。");
+  }
+  return targetSlug;
+};
+
+// 品質スコアの下限と件数で絞り込む（下限指定時はスコアのないイベントを除く）
+const applyEventFilter = (
+  events: FujiEvent[],
+  args: EventFilterArgs,
+): FujiEvent[] => {
+  const filtered =
+    args.minQualityScore == null
+      ? events
+      : events.filter(
+          (event) =>
+            event.qualityScore != null &&
+            event.qualityScore >= args.minQualityScore,
+        );
+  return args.limit == null ? filtered : filtered.slice(0, args.limit);
+};
+
+// 撮影地点の富士山までの距離（m）が km 指定の範囲内か
+const isWithinDistance = (
+  location: Location,
+  minDistanceKm?: number,
+  maxDistanceKm?: number,
+): boolean => {
+  if (minDistanceKm == null && maxDistanceKm == null) {
+    return true;
+  }
+  if (location.fujiDistance == null) {
+    return false;
+  }
+  const distanceKm = location.fujiDistance / 1000;
+  return (
+    (minDistanceKm == null || distanceKm >= minDistanceKm) &&
+    (maxDistanceKm == null || distanceKm <= maxDistanceKm)
+  );
+};
+
+/**
+ * イベントを種類ごとに日付の連続した期間（シーズン）にまとめる
+ * 間隔が SEASON_GAP_DAYS 日以内のイベントは同じシーズンとする
+ */
+const groupIntoSeasons = (events: FujiEvent[]): EventSeason[] => {
+  const byKind = new Map<string, FujiEvent[]>();
+  for (const event of events) {
+    const kind = `${event.type}:${event.subType}`;
+    byKind.set(kind, [...(byKind.get(kind) ?? []), event]);
+  }
+
+  const seasons: EventSeason[] = [];
+  for (const kindEvents of byKind.values()) {
+    const sorted = [...kindEvents].sort(
+      (a, b) => new Date(a.time).getTime() - new Date(b.time).getTime(),
+    );
+
+    let current: { events: FujiEvent[]; lastTime: number } | null = null;
+    const flush = () => {
+      if (!current) return;
+      const first = current.events[0];
+      const last = current.events[current.events.length - 1];
+      seasons.push({
+        type: first.type,
+        subType: first.subType,
+        startDate: timeUtils.formatDateString(new Date(first.time)),
+        endDate: timeUtils.formatDateString(new Date(last.time)),
+        eventCount: current.events.length,
+        bestEvent: current.events.reduce((best, event) =>
+          (event.qualityScore ?? 0) > (best.qualityScore ?? 0) ? event : best,
+        ),
+      });
+    };
+
+    for (const event of sorted) {
+      const time = new Date(event.time).getTime();
+      if (current && time - current.lastTime <= SEASON_GAP_DAYS * DAY_MS) {
+        current.events.push(event);
+      } else {
+        flush();
+        current = { events: [event], lastTime: time };
+      }
+      current.lastTime = time;
+    }
+    flush();
+  }
+
+  return seasons.sort((a, b) => a.startDate.localeCompare(b.startDate));
+};
+
+// TypeScript の文字列リテラル型と過不足なく対応する列挙型（値の追加漏れはコンパイルエラー）
+const enumType = <T extends string>(
+  name: string,
+  description: string,
+  values: Record<T, string>,
+): GraphQLEnumType =>
+  new GraphQLEnumType({
+    name,
+    description,
+    values: Object.fromEntries(
+      Object.entries<string>(values).map(([value, valueDescription]) => [
+        value,
+        { value, description: valueDescription },
+      ]),
+    ),
+  });
+
+const DateTimeType = new GraphQLScalarType({
+  name: "DateTime",
+  description: "ISO 8601 形式の日時（UTC）",
+  serialize: (value) => {
+    const date = value instanceof Date ? value : new Date(value as string);
+    if (isNaN(date.getTime())) {
+      throw new GraphQLError("日時の形式が正しくありません。");
+    }
+    return date.toISOString();
+  },
+});
+
+// 絞り込み用のイベント種別（データベースのイベント種別と同じ値）
+const EventTypeFilterEnum = enumType(
+  "EventType",
+  "絞り込みに使うイベント種別",
+  {
+    diamond_sunrise: "日の出のダイヤモンド富士",
+    diamond_sunset: "日の入りのダイヤモンド富士",
+    pearl_moonrise: "月の出のパール富士",
+    pearl_moonset: "月の入りのパール富士",
+    planet_rising: "惑星の出",
+    planet_setting: "惑星の入り",
+    star_rising: "恒星の出",
+    star_setting: "恒星の入り",
+    solar_eclipse: "日食と重なるダイヤモンド富士",
+    lunar_eclipse: "月食と重なるパール富士",
+    supermoon: "スーパームーンのパール富士",
+  },
+);
+
+const EventKindEnum = enumType<FujiEvent["type"]>(
+  "EventKind",
+  "整列する天体の種類",
+  {
+    diamond: "太陽（ダイヤモンド富士）",
+    pearl: "月（パール富士）",
+    planet: "惑星",
+    star: "恒星",
+  },
+);
+
+const EventSubTypeEnum = enumType<FujiEvent["subType"]>(
+  "EventSubType",
+  "出・入りの区別",
+  {
+    sunrise: "日の出",
+    sunset: "日の入り",
+    rising: "月・天体の出",
+    setting: "月・天体の入り",
+  },
+);
+
+const AccuracyEnum = enumType<NonNullable<FujiEvent["accuracy"]>>(
+  "EventAccuracy",
+  "整列の精度",
+  {
+    perfect: "完全",
+    excellent: "非常に良い",
+    good: "良い",
+    fair: "普通",
+  },
+);
+
+const SummitPositionEnum = enumType<NonNullable<FujiEvent["summitPosition"]>>(
+  "SummitPosition",
+  "天体中心が重なる山頂稜線上の位置",
+  {
+    left_shoulder: "左肩",
+    center: "中央",
+    right_shoulder: "右肩",
+  },
+);
+
+const SpecialEventEnum = enumType<NonNullable<FujiEvent["specialEvent"]>>(
+  "SpecialEvent",
+  "整列と同時に起きる天文現象",
+  {
+    solar_eclipse: "日食",
+    lunar_eclipse: "月食",
+    supermoon: "スーパームーン",
+  },
+);
+
+const CelestialBodyType = new GraphQLObjectType<CelestialBody, GraphQLContext>({
+  name: "CelestialBody",
+  description: "惑星・恒星との整列で山頂に重なる天体",
+  fields: {
+    id: { type: new GraphQLNonNull(GraphQLString) },
+    name: { type: new GraphQLNonNull(GraphQLString) },
+    kind: { type: new GraphQLNonNull(EventKindEnum) },
+    magnitude: { type: GraphQLFloat, description: "整列時の等級（惑星のみ）" },
+  },
+});
+
+// イベントの絞り込み引数（地点・全体の両方で使用）
+const eventFilterArgs: GraphQLFieldConfigArgumentMap = {
+  from: {
+    type: new GraphQLNonNull(GraphQLString),
+    description: "開始日（YYYY-MM-DD）",
+  },
+  to: {
+    type: new GraphQLNonNull(GraphQLString),
+    description: `終了日（YYYY-MM-DD、期間は ${MAX_RANGE_DAYS} 日以内）`,
+  },
+  types: {
+    type: new GraphQLList(new GraphQLNonNull(EventTypeFilterEnum)),
+    description: "イベント種別（省略時はすべて）",
+  },
+  minQualityScore: {
+    type: GraphQLInt,
+    description: "品質スコアの下限（0-100）",
+  },
+  target: {
+    type: GraphQLString,
+    description: "整列対象の識別子（省略時は富士山）",
+  },
+  limit: {
+    type: GraphQLInt,
+    description: `最大件数（1-${MAX_EVENTS_LIMIT}）`,
+  },
+};
+
+const FujiEventType: GraphQLObjectType<FujiEvent, GraphQLContext> =
+  new GraphQLObjectType<FujiEvent, GraphQLContext>({
+    name: "FujiEvent",
+    description: "整列イベント",
+    fields: () => ({
+      id: { type: new GraphQLNonNull(GraphQLString) },
+      type: { type: new GraphQLNonNull(EventKindEnum) },
+      subType: { type: new GraphQLNonNull(EventSubTypeEnum) },
+      time: { type: new GraphQLNonNull(DateTimeType), description: "整列時刻" },
+      location: { type: new GraphQLNonNull(LocationType) },
+      azimuth: {
+        type: new GraphQLNonNull(GraphQLFloat),
+        description: "天体の方位角（度）",
+      },
+      elevation: { type: GraphQLFloat, description: "天体の高度（度）" },
+      qualityScore: { type: GraphQLFloat, description: "品質スコア（0-100）" },
+      visibilityProbability: {
+        type: GraphQLFloat,
+        description: "山頂が見える確率（%）",
+      },
+      accuracy: { type: AccuracyEnum },
+      moonPhase: { type: GraphQLFloat },
+      moonIllumination: { type: GraphQLFloat },
+      moonTilt: {
+        type: GraphQLFloat,
+        description: "観測者から見た月の輝面の向き（度、天頂から反時計回り）",
+      },
+      residualError: {
+        type: GraphQLFloat,
+        description: "天体中心と山頂の角距離（度）",
+      },
+      summitPosition: { type: SummitPositionEnum },
+      firstContactTime: {
+        type: DateTimeType,
+        description: "縁が山頂に接する時刻",
+      },
+      centerTime: { type: DateTimeType, description: "中心が山頂に重なる時刻" },
+      lastContactTime: {
+        type: DateTimeType,
+        description: "縁が山頂から離れる時刻",
+      },
+      specialEvent: { type: SpecialEventEnum },
+      targetId: {
+        type: GraphQLInt,
+        description: "整列の対象（未設定は富士山）",
+      },
+      celestialBody: { type: CelestialBodyType },
+    }),
+  });
+
+const SeasonType = new GraphQLObjectType<EventSeason, GraphQLContext>({
+  name: "Season",
+  description: "撮影シーズン（同じ種類のイベントが続く期間）",
+  fields: () => ({
+    type: { type: new GraphQLNonNull(EventKindEnum) },
+    subType: { type: new GraphQLNonNull(EventSubTypeEnum) },
+    startDate: {
+      type: new GraphQLNonNull(GraphQLString),
+      description: "最初のイベントの日付（YYYY-MM-DD）",
+    },
+    endDate: {
+      type: new GraphQLNonNull(GraphQLString),
+      description: "最後のイベントの日付（YYYY-MM-DD）",
+    },
+    eventCount: { type: new GraphQLNonNull(GraphQLInt) },
+    bestEvent: {
+      type: new GraphQLNonNull(FujiEventType),
+      description: "シーズン中で品質スコアが最も高いイベント",
+    },
+  }),
+});
+
+const LocationType: GraphQLObjectType<Location, GraphQLContext> =
+  new GraphQLObjectType<Location, GraphQLContext>({
+    name: "Location",
+    description: "撮影地点",
+    fields: () => ({
+      id: { type: new GraphQLNonNull(GraphQLInt) },
+      name: { type: new GraphQLNonNull(GraphQLString) },
+      prefecture: { type: new GraphQLNonNull(GraphQLString) },
+      latitude: { type: new GraphQLNonNull(GraphQLFloat) },
+      longitude: { type: new GraphQLNonNull(GraphQLFloat) },
+      elevation: {
+        type: new GraphQLNonNull(GraphQLFloat),
+        description: "標高（m）",
+      },
+      description: { type: GraphQLString },
+      accessInfo: { type: GraphQLString },
+      parkingInfo: { type: GraphQLString },
+      fujiAzimuth: {
+        type: GraphQLFloat,
+        description: "富士山への方位角（度）",
+      },
+      fujiElevation: {
+        type: GraphQLFloat,
+        description: "富士山頂への仰角（度）",
+      },
+      fujiDistance: {
+        type: GraphQLFloat,
+        description: "富士山までの距離（m）",
+      },
+      measurementNotes: { type: GraphQLString },
+      createdAt: { type: new GraphQLNonNull(DateTimeType) },
+      updatedAt: { type: new GraphQLNonNull(DateTimeType) },
+      events: {
+        type: new GraphQLNonNull(
+          new GraphQLList(new GraphQLNonNull(FujiEventType)),
+        ),
+        description: "この地点の期間内のイベント（時刻順）",
+        args: eventFilterArgs,
+        resolve: async (location, args: EventFilterArgs, context) => {
+          const targetSlug = validateEventFilter(args);
+          const events = await context.loaders.eventsByLocation.load({
+            locationId: location.id,
+            from: args.from,
+            to: args.to,
+            eventTypes: args.types,
+            targetSlug,
+          });
+          return applyEventFilter(events, args);
+        },
+      },
+      seasons: {
+        type: new GraphQLNonNull(
+          new GraphQLList(new GraphQLNonNull(SeasonType)),
+        ),
+        description: "この地点の年間の撮影シーズン（開始日順）",
+        args: {
+          year: { type: new GraphQLNonNull(GraphQLInt) },
+          types: {
+            type: new GraphQLList(new GraphQLNonNull(EventTypeFilterEnum)),
+          },
+          target: { type: GraphQLString },
+        },
+        resolve: async (
+          location,
+          args: { year: number; types?: string[]; target?: string },
+          context,
+        ) => {
+          if (args.year < 2020 || args.year > 2030) {
+            throw badUserInput(
+              "年は 2020 年から 2030 年の範囲で指定してください。",
+            );
+          }
+          const from = `${args.year}-01-01`;
+          const to = `${args.year}-12-31`;
+          const targetSlug = validateEventFilter({
+            from,
+            to,
+            target: args.target,
+          });
+          const events = await context.loaders.eventsByLocation.load({
+            locationId: location.id,
+            from,
+            to,
+            eventTypes: args.types,
+            targetSlug,
+          });
+          return groupIntoSeasons(events);
+        },
+      },
+    }),
+  });
+
+const CalendarStatsType = new GraphQLObjectType<CalendarStats, GraphQLContext>({
+  name: "CalendarStats",
+  description: "年間のイベント統計",
+  fields: {
+    year: { type: new GraphQLNonNull(GraphQLInt) },
+    totalEvents: { type: new GraphQLNonNull(GraphQLInt) },
+    diamondEvents: { type: new GraphQLNonNull(GraphQLInt) },
+    pearlEvents: { type: new GraphQLNonNull(GraphQLInt) },
+    activeLocations: {
+      type: new GraphQLNonNull(GraphQLInt),
+      description: "イベントのある撮影地点の数",
+    },
+  },
+});
+
+const QueryType = new GraphQLObjectType<unknown, GraphQLContext>({
+  name: "Query",
+  fields: {
+    location: {
+      type: LocationType,
+      args: { id: { type: new GraphQLNonNull(GraphQLInt) } },
+      resolve: (_source, args: { id: number }, context) =>
+        context.loaders.locationById.load(args.id),
+    },
+    locations: {
+      type: new GraphQLNonNull(
+        new GraphQLList(new GraphQLNonNull(LocationType)),
+      ),
+      description: "撮影地点一覧（都道府県・富士山までの距離で絞り込み）",
+      args: {
+        prefecture: { type: GraphQLString },
+        minDistanceKm: { type: GraphQLFloat },
+        maxDistanceKm: { type: GraphQLFloat },
+      },
+      resolve: async (
+        _source,
+        args: {
+          prefecture?: string;
+          minDistanceKm?: number;
+          maxDistanceKm?: number;
+        },
+        context,
+      ) => {
+        const locations = await context.locationRepository.findByCondition({
+          prefecture: args.prefecture ?? undefined,
+        });
+        const filtered = locations.filter((location) =>
+          isWithinDistance(location, args.minDistanceKm, args.maxDistanceKm),
+        );
+        // 子フィールドで同じ地点を参照する場合に再取得しない
+        for (const location of filtered) {
+          context.loaders.locationById.prime(location.id, location);
+        }
+        return filtered;
+      },
+    },
+    events: {
+      type: new GraphQLNonNull(
+        new GraphQLList(new GraphQLNonNull(FujiEventType)),
+      ),
+      description:
+        "期間内のイベント（種別・品質・都道府県・富士山までの距離で絞り込み、時刻順）",
+      args: {
+        ...eventFilterArgs,
+        locationIds: { type: new GraphQLList(new GraphQLNonNull(GraphQLInt)) },
+        prefecture: { type: GraphQLString },
+        minDistanceKm: { type: GraphQLFloat },
+        maxDistanceKm: { type: GraphQLFloat },
+      },
+      resolve: async (
+        _source,
+        args: EventFilterArgs & {
+          locationIds?: number[];
+          prefecture?: string;
+          minDistanceKm?: number;
+          maxDistanceKm?: number;
+        },
+        context,
+      ) => {
+        const targetSlug = validateEventFilter(args);
+
+        // 地点の条件がある場合は先に地点を絞り込み、その地点のイベントだけを取得する
+        let locationIds = args.locationIds ?? undefined;
+        if (
+          args.prefecture != null ||
+          args.minDistanceKm != null ||
+          args.maxDistanceKm != null
+        ) {
+          const locations = await context.locationRepository.findByCondition({
+            prefecture: args.prefecture ?? undefined,
+          });
+          const matchedIds = locations
+            .filter((location) =>
+              isWithinDistance(
+                location,
+                args.minDistanceKm,
+                args.maxDistanceKm,
+              ),
+            )
+            .map((location) => location.id)
+            .filter((id) => !locationIds || locationIds.includes(id));
+          if (matchedIds.length === 0) {
+            return [];
+          }
+          locationIds = matchedIds;
+        }
+
+        const events = await context.calendarRepository.getEventsInRange(
+          args.from,
+          args.to,
+          { locationIds, eventTypes: args.types, targetSlug },
+        );
+        return applyEventFilter(events, args);
+      },
+    },
+    stats: {
+      type: new GraphQLNonNull(CalendarStatsType),
+      args: { year: { type: new GraphQLNonNull(GraphQLInt) } },
+      resolve: (_source, args: { year: number }, context) => {
+        if (args.year < 2020 || args.year > 2030) {
+          throw badUserInput(
+            "年は 2020 年から 2030 年の範囲で指定してください。",
+          );
+        }
+        return context.loaders.statsByYear.load(args.year);
+      },
+    },
+  },
+});
+
+/**
+ * 撮影地点・イベント・統計の GraphQL スキーマ
+ */
+export const graphqlSchema = new GraphQLSchema({ query: QueryType });
@@ -4,6 +4,7 @@ import rateLimit from "express-rate-limit";
 import { PrismaClientManager } from "../database/prisma";
 import { getComponentLogger } from "@fuji-calendar/utils";
 import { AUTH_CONFIG } from "../config/auth";
+import { ApiKeyService } from "../services/ApiKeyService";
 
 const logger = getComponentLogger("AuthMiddleware");
 
@@ -15,6 +16,20 @@ export interface AuthenticatedRequest extends Request {
   };
 }
 
+export interface ApiKeyAuthenticatedRequest extends Request {
+  apiKey?: {
+    id: number;
+    name: string;
+  };
+}
+
+export interface UserAuthenticatedRequest extends Request {
+  user?: {
+    id: number;
+    email: string;
+  };
+}
+
 /**
  * JWT 認証ミドルウェア
  */
@@ -131,6 +146,165 @@ export const optionalAuth = async (
   }
 };
 
+/**
+ * 一般ユーザーの JWT 認証ミドルウェア
+ * 管理者のトークンは秘密鍵と audience が異なるため受け付けない
+ */
+export const authenticateUser = async (
+  req: UserAuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const authHeader = req.headers.authorization;
+
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      res.status(401).json({
+        success: false,
+        error: "No token provided",
+        message: "ログインしてください。",
+      });
+      return;
+    }
+
+    const token = authHeader.substring(7);
+
+    try {
+      const decoded = jwt.verify(token, AUTH_CONFIG.USER_JWT_SECRET, {
+        audience: AUTH_CONFIG.USER_JWT_AUDIENCE,
+      }) as any;
+
+      // データベースでユーザーの存在を確認
+      const prisma = PrismaClientManager.getInstance();
+      const user =
+        decoded.type === "user"
+          ? await prisma.user.findUnique({ where: { id: decoded.userId } })
+          : null;
+
+      if (!user) {
+        logger.warn("認証失敗: ユーザーが存在しません", {
+          userId: decoded.userId,
+        });
+        res.status(401).json({
+          success: false,
+          error: "Invalid token",
+          message: "無効なログイン情報です。再ログインしてください。",
+        });
+        return;
+      }
+
+      req.user = {
+        id: user.id,
+        email: user.email,
+      };
+
+      next();
+    } catch (jwtError) {
+      logger.warn("ユーザー JWT 検証エラー", { error: jwtError });
+      res.status(401).json({
+        success: false,
+        error: "Invalid token",
+        message: "ログインの有効期限が切れました。再ログインしてください。",
+      });
+    }
+  } catch (error) {
+    logger.error("ユーザー認証ミドルウェアエラー", error);
+    res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: "認証処理中にエラーが発生しました。",
+    });
+  }
+};
+
+/**
+ * 公開 API（/api/v1）の API キー認証ミドルウェア
+ * X-API-Key ヘッダーのキーを検証し、キーごとの 1 分間の制限と 1 日の上限を適用する
+ */
+export const authenticateApiKey =
+  (apiKeyService: ApiKeyService) =>
+  async (
+    req: ApiKeyAuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const key = req.get("X-API-Key");
+
+      if (!key) {
+        res.status(401).json({
+          success: false,
+          error: "No API key provided",
+          message: "X-API-Key ヘッダーに API キーを指定してください。",
+        });
+        return;
+      }
+
+      const apiKey = await apiKeyService.authenticate(key);
+      if (!apiKey) {
+        logger.warn("API キー認証失敗", {
+          ip: req.ip,
+          userAgent: req.get("User-Agent"),
+        });
+        res.status(401).json({
+          success: false,
+          error: "Invalid API key",
+          message: "無効または停止中の API キーです。",
+        });
+        return;
+      }
+
+      const usage = await apiKeyService.consume(apiKey);
+      const now = Date.now();
+      const secondsUntil = (date: Date) =>
+        Math.max(Math.ceil((date.getTime() - now) / 1000), 0);
+
+      res.setHeader("RateLimit-Limit", usage.rateLimit.limit);
+      res.setHeader("RateLimit-Remaining", usage.rateLimit.remaining);
+      res.setHeader("RateLimit-Reset", secondsUntil(usage.rateLimit.reset));
+      res.setHeader("X-Quota-Limit", usage.quota.limit);
+      res.setHeader("X-Quota-Remaining", usage.quota.remaining);
+      res.setHeader("X-Quota-Reset", usage.quota.reset.toISOString());
+
+      if (!usage.allowed) {
+        const reset =
+          usage.exceeded === "quota" ? usage.quota.reset : usage.rateLimit.reset;
+        logger.warn("API キーの制限に達しました", {
+          apiKeyId: apiKey.id,
+          exceeded: usage.exceeded,
+          url: req.url,
+        });
+        res.setHeader("Retry-After", secondsUntil(reset));
+        res.status(429).json(
+          usage.exceeded === "quota"
+            ? {
+                success: false,
+                error: "API quota exceeded",
+                message:
+                  "本日のリクエスト数が上限に達しました。日本時間の 0 時以降に再試行してください。",
+              }
+            : {
+                success: false,
+                error: "Too many API requests",
+                message:
+                  "API 使用回数が上限に達しました。1 分後に再試行してください。",
+              },
+        );
+        return;
+      }
+
+      req.apiKey = { id: apiKey.id, name: apiKey.name };
+      next();
+    } catch (error) {
+      logger.error("API キー認証ミドルウェアエラー", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+        message: "認証処理中にエラーが発生しました。",
+      });
+    }
+  };
+
 /**
  * レート制限ミドルウェア（認証 API 用）
  * ログイン試行の制限: 15 分間で 5 回まで
@@ -195,3 +369,227 @@ export const adminApiRateLimit = rateLimit({
            (req.ip === "127.0.0.1" || req.ip === "::1");
   },
 });
+
+/**
+ * 撮影地点候補の投稿用レート制限
+ * 投稿: 1 時間で 5 件まで（スパム投稿を防ぐ）
+ */
+export const locationRequestRateLimit = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 時間
+  max: 5, // 最大 5 件の投稿
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: {
+    success: false,
+    error: "Too many location requests",
+    message: "投稿回数が上限に達しました。1 時間後に再試行してください。",
+  },
+  handler: (req, res) => {
+    logger.warn("撮影地点候補の投稿レート制限に達しました", {
+      ip: req.ip,
+      userAgent: req.get("User-Agent"),
+    });
+    res.status(429).json({
+      success: false,
+      error: "Too many location requests",
+      message: "投稿回数が上限に達しました。1 時間後に再試行してください。",
+    });
+  },
+  skip: (req) => {
+    // 開発環境では localhost からの制限をスキップ
+    return process.env.NODE_ENV === "development" && 
+           (req.ip === "127.0.0.1" || req.ip === "::1");
+  },
+});
+
+/**
+ * ログインリンクの送信用レート制限
+ * 送信: 15 分間で 5 回まで（メールの大量送信を防ぐ）
+ */
+export const loginLinkRateLimit = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 分
+  max: 5, // 最大 5 回の送信
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: {
+    success: false,
+    error: "Too many login link requests",
+    message: "ログインリンクの送信回数が上限に達しました。15 分後に再試行してください。",
+  },
+  handler: (req, res) => {
+    logger.warn("ログインリンク送信レート制限に達しました", {
+      ip: req.ip,
+      userAgent: req.get("User-Agent"),
+    });
+    res.status(429).json({
+      success: false,
+      error: "Too many login link requests",
+      message: "ログインリンクの送信回数が上限に達しました。15 分後に再試行してください。",
+    });
+  },
+  skip: (req) => {
+    // 開発環境では localhost からの制限をスキップ
+    return process.env.NODE_ENV === "development" && 
+           (req.ip === "127.0.0.1" || req.ip === "::1");
+  },
+});
+
+/**
+ * 通知先のテスト送信用レート制限
+ * 送信: 15 分間で 5 回まで（メール・Webhook の大量送信を防ぐ）
+ */
+export const notificationTestRateLimit = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 分
+  max: 5, // 最大 5 回の送信
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: {
+    success: false,
+    error: "Too many notification tests",
+    message: "テスト通知の送信回数が上限に達しました。15 分後に再試行してください。",
+  },
+  handler: (req, res) => {
+    logger.warn("テスト通知送信レート制限に達しました", {
+      ip: req.ip,
+      userAgent: req.get("User-Agent"),
+    });
+    res.status(429).json({
+      success: false,
+      error: "Too many notification tests",
+      message: "テスト通知の送信回数が上限に達しました。15 分後に再試行してください。",
+    });
+  },
+  skip: (req) => {
+    // 開発環境では localhost からの制限をスキップ
+    return process.env.NODE_ENV === "development" && 
+           (req.ip === "127.0.0.1" || req.ip === "::1");
+  },
+});
+
+/**
+ * 撮影結果の報告用レート制限
+ * 報告: 1 時間で 20 回まで（同じイベントへの報告は報告者ごとに 1 件）
+ */
+export const observationReportRateLimit = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 時間
+  max: 20, // 最大 20 回の報告
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: {
+    success: false,
+    error: "Too many observation reports",
+    message: "撮影結果の報告回数が上限に達しました。1 時間後に再試行してください。",
+  },
+  handler: (req, res) => {
+    logger.warn("撮影結果報告レート制限に達しました", {
+      ip: req.ip,
+      userAgent: req.get("User-Agent"),
+    });
+    res.status(429).json({
+      success: false,
+      error: "Too many observation reports",
+      message: "撮影結果の報告回数が上限に達しました。1 時間後に再試行してください。",
+    });
+  },
+  skip: (req) => {
+    // 開発環境では localhost からの制限をスキップ
+    return process.env.NODE_ENV === "development" && 
+           (req.ip === "127.0.0.1" || req.ip === "::1");
+  },
+});
+
+/**
+ * お気に入りフィード URL の発行用レート制限
+ * 発行: 1 時間で 10 回まで（署名付きトークンの大量発行を防ぐ）
+ */
+export const icsFeedRateLimit = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 時間
+  max: 10, // 最大 10 回の発行
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: {
+    success: false,
+    error: "Too many feed requests",
+    message: "フィード URL の発行回数が上限に達しました。1 時間後に再試行してください。",
+  },
+  handler: (req, res) => {
+    logger.warn("お気に入りフィード URL 発行レート制限に達しました", {
+      ip: req.ip,
+      userAgent: req.get("User-Agent"),
+    });
+    res.status(429).json({
+      success: false,
+      error: "Too many feed requests",
+      message: "フィード URL の発行回数が上限に達しました。1 時間後に再試行してください。",
+    });
+  },
+  skip: (req) => {
+    // 開発環境では localhost からの制限をスキップ
+    return process.env.NODE_ENV === "development" && 
+           (req.ip === "127.0.0.1" || req.ip === "::1");
+  },
+});
+
+/**
+ * 撮影地点の逆算用レート制限
+ * 計算: 1 分間で 20 回まで（太陽・月の位置の計算が重いため）
+ */
+export const alignmentLineRateLimit = rateLimit({
+  windowMs: 60 * 1000, // 1 分
+  max: 20, // 最大 20 回の計算
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: {
+    success: false,
+    error: "Too many alignment line requests",
+    message: "撮影地点の逆算の回数が上限に達しました。1 分後に再試行してください。",
+  },
+  handler: (req, res) => {
+    logger.warn("撮影地点の逆算レート制限に達しました", {
+      ip: req.ip,
+      userAgent: req.get("User-Agent"),
+    });
+    res.status(429).json({
+      success: false,
+      error: "Too many alignment line requests",
+      message: "撮影地点の逆算の回数が上限に達しました。1 分後に再試行してください。",
+    });
+  },
+  skip: (req) => {
+    // 開発環境では localhost からの制限をスキップ
+    return process.env.NODE_ENV === "development" && 
+           (req.ip === "127.0.0.1" || req.ip === "::1");
+  },
+});
+
+/**
+ * GraphQL API 用レート制限
+ * クエリ: 1 分間で 30 回まで（1 回のクエリで多くのイベントを取得できるため）
+ */
+export const graphqlRateLimit = rateLimit({
+  windowMs: 60 * 1000, // 1 分
+  max: 30, // 最大 30 回のクエリ
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: {
+    success: false,
+    error: "Too many GraphQL requests",
+    message: "GraphQL API のリクエスト数が上限に達しました。1 分後に再試行してください。",
+  },
+  handler: (req, res) => {
+    logger.warn("GraphQL API レート制限に達しました", {
+      ip: req.ip,
+      userAgent: req.get("User-Agent"),
+    });
+    res.status(429).json({
+      success: false,
+      error: "Too many GraphQL requests",
+      message: "GraphQL API のリクエスト数が上限に達しました。1 分後に再試行してください。",
+    });
+  },
+  skip: (req) => {
+    // 開発環境では localhost からの制限をスキップ
+    return process.env.NODE_ENV === "development" && 
+           (req.ip === "127.0.0.1" || req.ip === "::1");
+  },
+});
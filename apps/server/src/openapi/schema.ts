@@ -0,0 +1,127 @@
+/**
+ * OpenAPI 3 のスキーマを TypeScript の型から組み立てるための型付きヘルパー
+ * スキーマのプロパティ・必須項目・列挙値が型と一致しない場合はコンパイルエラーになる
+ */
+
+const OPTIONAL = Symbol("optional");
+
+// サーバーは strictNullChecks が無効で null を型から判別できないため、nullable は任意で指定する
+interface SchemaBase {
+  description?: string;
+  nullable?: true;
+}
+
+type StringSchemaFor<T extends string> = string extends T
+  ? SchemaBase & { type: "string"; format?: string; pattern?: string }
+  : SchemaBase & { type: "string"; enum: readonly T[] };
+
+export interface NumberSchema extends SchemaBase {
+  type: "number" | "integer";
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface BooleanSchema extends SchemaBase {
+  type: "boolean";
+}
+
+export interface DateTimeSchema extends SchemaBase {
+  type: "string";
+  format: "date-time";
+}
+
+export interface ArraySchema<T> extends SchemaBase {
+  type: "array";
+  items: SchemaFor<T>;
+}
+
+/**
+ * components/schemas への参照
+ * __type は参照先の型の照合にのみ使う（実際の値には含まれない）
+ */
+export interface RefSchema<T> {
+  $ref: string;
+  readonly __type?: T;
+}
+
+export type OptionalProperty<S> = S & { readonly [OPTIONAL]: true };
+
+type RequiredProperty<S> = S & { readonly [OPTIONAL]?: never };
+
+// 省略可能なプロパティ（? 付き）は optional() で包むことを必須にする
+export type PropertiesOf<T> = {
+  [K in keyof T]-?: Record<string, never> extends Pick<T, K>
+    ? OptionalProperty<SchemaFor<T[K]>>
+    : RequiredProperty<SchemaFor<T[K]>>;
+};
+
+export interface ObjectSchema<T> extends SchemaBase {
+  type: "object";
+  properties: PropertiesOf<T>;
+  required?: string[];
+}
+
+type NonNullSchemaFor<T> = [T] extends [Date]
+  ? DateTimeSchema
+  : [T] extends [string]
+    ? StringSchemaFor<T>
+    : [T] extends [number]
+      ? NumberSchema
+      : [T] extends [boolean]
+        ? BooleanSchema
+        : [T] extends [readonly (infer U)[]]
+          ? ArraySchema<U>
+          : RefSchema<T> | ObjectSchema<T>;
+
+/**
+ * 型 T の値を表すスキーマ（JSON では Date は ISO 8601 の文字列になる）
+ */
+export type SchemaFor<T> = NonNullSchemaFor<NonNullable<T>>;
+
+/**
+ * 省略可能なプロパティのスキーマ
+ */
+export const optional = <S>(schema: S): OptionalProperty<S> =>
+  ({ ...schema, [OPTIONAL]: true }) as OptionalProperty<S>;
+
+/**
+ * 列挙値の全ての値（過不足があるとコンパイルエラーになる）
+ */
+export const enumValues = <T extends string>(
+  values: Record<T, true>,
+): readonly T[] => Object.keys(values) as T[];
+
+/**
+ * オブジェクトのスキーマ（required は optional() で包んでいないプロパティから求める）
+ */
+export const objectSchema = <T>(
+  properties: PropertiesOf<T>,
+  description?: string,
+): ObjectSchema<T> => {
+  const required = Object.entries(properties)
+    .filter(([, schema]) => !(schema as Record<symbol, unknown>)[OPTIONAL])
+    .map(([key]) => key);
+
+  return {
+    type: "object",
+    ...(description ? { description } : {}),
+    properties,
+    ...(required.length > 0 ? { required } : {}),
+  };
+};
+
+/**
+ * components/schemas への参照を作る関数
+ * 名前と型の対応表 S に含まれる名前のみ参照でき、参照先の型が一致しない場合はコンパイルエラーになる
+ */
+export const refFactory =
+  <S>() =>
+  <K extends keyof S & string>(name: K): RefSchema<S[K]> => ({
+    $ref: `#/components/schemas/${name}`,
+  });
+
+export const dateTime = (description?: string): DateTimeSchema => ({
+  type: "string",
+  format: "date-time",
+  ...(description ? { description } : {}),
+});
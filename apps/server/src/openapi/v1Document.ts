@@ -0,0 +1,407 @@
+import {
+  ApiV1CalendarDay,
+  ApiV1CalendarResponse,
+  ApiV1ErrorResponse,
+  CelestialBody,
+  EventWeather,
+  EventsResponse,
+  FujiEvent,
+  Location,
+  LocationsResponse,
+  Target,
+  TargetsResponse,
+  UpcomingEventsResponse,
+} from "@fuji-calendar/types";
+import {
+  ObjectSchema,
+  dateTime,
+  enumValues,
+  objectSchema,
+  optional,
+  refFactory,
+} from "./schema";
+
+/**
+ * 公開 API v1 のスキーマ名と型の対応
+ */
+interface V1Schemas {
+  Location: Location;
+  Target: Target;
+  CelestialBody: CelestialBody;
+  EventWeather: EventWeather;
+  FujiEvent: FujiEvent;
+  CalendarDay: ApiV1CalendarDay;
+  CalendarResponse: ApiV1CalendarResponse;
+  EventsResponse: EventsResponse;
+  UpcomingEventsResponse: UpcomingEventsResponse;
+  LocationsResponse: LocationsResponse;
+  TargetsResponse: TargetsResponse;
+  Error: ApiV1ErrorResponse;
+}
+
+const ref = refFactory<V1Schemas>();
+
+const schemas: { [K in keyof V1Schemas]: ObjectSchema<V1Schemas[K]> } = {
+  Location: objectSchema<Location>(
+    {
+      id: { type: "integer" },
+      name: { type: "string" },
+      prefecture: { type: "string" },
+      latitude: { type: "number" },
+      longitude: { type: "number" },
+      elevation: { type: "number", description: "標高（m）" },
+      description: optional({ type: "string", nullable: true }),
+      accessInfo: optional({ type: "string", nullable: true }),
+      parkingInfo: optional({ type: "string", nullable: true }),
+      fujiAzimuth: optional({
+        type: "number",
+        nullable: true,
+        description: "富士山への方位角（度）",
+      }),
+      fujiElevation: optional({
+        type: "number",
+        nullable: true,
+        description: "富士山頂への仰角（度）",
+      }),
+      fujiDistance: optional({
+        type: "number",
+        nullable: true,
+        description: "富士山までの距離（km）",
+      }),
+      measurementNotes: optional({ type: "string", nullable: true }),
+      createdAt: dateTime(),
+      updatedAt: dateTime(),
+    },
+    "撮影地点",
+  ),
+  Target: objectSchema<Target>(
+    {
+      id: { type: "integer" },
+      slug: {
+        type: "string",
+        pattern: "^[a-z0-9-]{1,50}$",
+        description: "target パラメータで指定する識別子",
+      },
+      name: { type: "string" },
+      latitude: { type: "number" },
+      longitude: { type: "number" },
+      elevation: { type: "number", description: "山頂・頂部の標高（m）" },
+      description: optional({ type: "string", nullable: true }),
+      createdAt: dateTime(),
+      updatedAt: dateTime(),
+    },
+    "整列対象（富士山以外の山頂・建造物）",
+  ),
+  CelestialBody: objectSchema<CelestialBody>(
+    {
+      id: { type: "string", description: "天体の識別子（例: venus）" },
+      name: { type: "string" },
+      kind: {
+        type: "string",
+        enum: enumValues<CelestialBody["kind"]>({ planet: true, star: true }),
+      },
+      magnitude: optional({
+        type: "number",
+        description: "整列時の等級（惑星のみ）",
+      }),
+    },
+    "惑星・恒星との整列で山頂に重なる天体",
+  ),
+  EventWeather: objectSchema<EventWeather>(
+    {
+      observerCloudCover: {
+        type: "number",
+        description: "撮影地点の雲量（%）",
+      },
+      summitCloudCover: { type: "number", description: "山頂の雲量（%）" },
+      provider: { type: "string", description: "予報の提供元" },
+    },
+    "イベント時刻の雲量予報",
+  ),
+  FujiEvent: objectSchema<FujiEvent>(
+    {
+      id: { type: "string" },
+      type: {
+        type: "string",
+        enum: enumValues<FujiEvent["type"]>({
+          diamond: true,
+          pearl: true,
+          planet: true,
+          star: true,
+        }),
+      },
+      subType: {
+        type: "string",
+        enum: enumValues<FujiEvent["subType"]>({
+          sunrise: true,
+          sunset: true,
+          rising: true,
+          setting: true,
+        }),
+      },
+      time: dateTime("整列時刻"),
+      location: ref("Location"),
+      azimuth: { type: "number", description: "天体の方位角（度）" },
+      elevation: optional({ type: "number", description: "天体の高度（度）" }),
+      qualityScore: optional({ type: "number" }),
+      visibilityProbability: optional({
+        type: "number",
+        minimum: 0,
+        maximum: 100,
+        description: "山頂が見える確率（%）",
+      }),
+      accuracy: optional({
+        type: "string",
+        enum: enumValues<NonNullable<FujiEvent["accuracy"]>>({
+          perfect: true,
+          excellent: true,
+          good: true,
+          fair: true,
+        }),
+      }),
+      moonPhase: optional({ type: "number" }),
+      moonIllumination: optional({ type: "number" }),
+      moonBrightLimbAngle: optional({
+        type: "number",
+        description: "月の輝面の位置角（度、天の北極から東回り）",
+      }),
+      moonTilt: optional({
+        type: "number",
+        description: "観測者から見た月の輝面の向き（度、天頂から反時計回り）",
+      }),
+      residualError: optional({
+        type: "number",
+        description: "天体中心と山頂の角距離（度）",
+      }),
+      summitPosition: optional({
+        type: "string",
+        enum: enumValues<NonNullable<FujiEvent["summitPosition"]>>({
+          left_shoulder: true,
+          center: true,
+          right_shoulder: true,
+        }),
+      }),
+      observerOffsetDistance: optional({
+        type: "number",
+        description: "天体中心が山頂中央に重なる位置までの移動距離（m）",
+      }),
+      observerOffsetBearing: optional({
+        type: "number",
+        description: "移動する方位（度、北から時計回り）",
+      }),
+      firstContactTime: optional(dateTime("縁が山頂に接する時刻")),
+      centerTime: optional(dateTime("中心が山頂に重なる時刻")),
+      lastContactTime: optional(dateTime("縁が山頂から離れる時刻")),
+      timeWindowStart: optional(dateTime("最も早く整列し得る時刻")),
+      timeWindowEnd: optional(dateTime("最も遅く整列し得る時刻")),
+      refractionModel: optional({
+        type: "string",
+        enum: enumValues<NonNullable<FujiEvent["refractionModel"]>>({
+          standard: true,
+          bennett: true,
+          saemundsson: true,
+          custom: true,
+        }),
+      }),
+      specialEvent: optional({
+        type: "string",
+        enum: enumValues<NonNullable<FujiEvent["specialEvent"]>>({
+          solar_eclipse: true,
+          lunar_eclipse: true,
+          supermoon: true,
+        }),
+      }),
+      targetId: optional({
+        type: "integer",
+        description: "整列の対象（未設定は富士山）",
+      }),
+      celestialBody: optional(ref("CelestialBody")),
+      weather: optional(ref("EventWeather")),
+      shootabilityScore: optional({
+        type: "number",
+        minimum: 0,
+        maximum: 100,
+        description: "撮影できる見込み（0-100）",
+      }),
+    },
+    "整列イベント",
+  ),
+  CalendarDay: objectSchema<ApiV1CalendarDay>(
+    {
+      date: { type: "string", format: "date" },
+      type: {
+        type: "string",
+        enum: enumValues<ApiV1CalendarDay["type"]>({
+          diamond: true,
+          pearl: true,
+          both: true,
+        }),
+      },
+      events: { type: "array", items: ref("FujiEvent") },
+    },
+    "イベントのある日",
+  ),
+  CalendarResponse: objectSchema<ApiV1CalendarResponse>({
+    year: { type: "integer" },
+    month: { type: "integer", minimum: 1, maximum: 12 },
+    events: { type: "array", items: ref("CalendarDay") },
+  }),
+  EventsResponse: objectSchema<EventsResponse>({
+    date: { type: "string", format: "date" },
+    events: { type: "array", items: ref("FujiEvent") },
+  }),
+  UpcomingEventsResponse: objectSchema<UpcomingEventsResponse>({
+    events: { type: "array", items: ref("FujiEvent") },
+  }),
+  LocationsResponse: objectSchema<LocationsResponse>({
+    locations: { type: "array", items: ref("Location") },
+  }),
+  TargetsResponse: objectSchema<TargetsResponse>({
+    targets: { type: "array", items: ref("Target") },
+  }),
+  Error: objectSchema<ApiV1ErrorResponse>({
+    success: { type: "boolean" },
+    error: { type: "string" },
+    message: { type: "string" },
+  }),
+};
+
+const jsonResponse = (description: string, name: keyof V1Schemas & string) => ({
+  description,
+  content: { "application/json": { schema: ref(name) } },
+});
+
+// 認証・制限・サーバーエラーの共通応答
+const commonResponses = {
+  "401": jsonResponse("API キーが指定されていない・無効", "Error"),
+  "429": jsonResponse(
+    "1 分間のリクエスト数または 1 日のリクエスト数の上限に達した",
+    "Error",
+  ),
+  "500": jsonResponse("サーバーエラー", "Error"),
+};
+
+const targetParameter = {
+  name: "target",
+  in: "query",
+  required: false,
+  description: "整列対象の識別子（省略時は富士山）",
+  schema: { type: "string", pattern: "^[a-z0-9-]{1,50}$", default: "fuji" },
+};
+
+/**
+ * 公開 API v1 の OpenAPI 3 ドキュメント
+ * スキーマは @fuji-calendar/types の型から組み立てるため、型が変わるとコンパイルエラーになる
+ */
+export const buildV1OpenApiDocument = () => ({
+  openapi: "3.0.3",
+  info: {
+    title: "Fuji Calendar API",
+    version: "1.0.0",
+    description:
+      "ダイヤモンド富士・パール富士のイベントを取得する公開 API。X-API-Key ヘッダーに管理画面で発行した API キーを指定する。応答の RateLimit-* ヘッダーに 1 分間の制限、X-Quota-* ヘッダーに 1 日（日本時間）の上限と残り回数を返す。",
+  },
+  servers: [{ url: "/api/v1" }],
+  security: [{ ApiKeyAuth: [] }],
+  paths: {
+    "/calendar/{year}/{month}": {
+      get: {
+        summary: "月間カレンダー",
+        parameters: [
+          {
+            name: "year",
+            in: "path",
+            required: true,
+            schema: { type: "integer", minimum: 2020, maximum: 2030 },
+          },
+          {
+            name: "month",
+            in: "path",
+            required: true,
+            schema: { type: "integer", minimum: 1, maximum: 12 },
+          },
+          targetParameter,
+        ],
+        responses: {
+          "200": jsonResponse("イベントのある日の一覧", "CalendarResponse"),
+          "400": jsonResponse("パラメータが不正", "Error"),
+          ...commonResponses,
+        },
+      },
+    },
+    "/events/upcoming": {
+      get: {
+        summary: "今後のイベント",
+        parameters: [
+          {
+            name: "limit",
+            in: "query",
+            required: false,
+            schema: { type: "integer", minimum: 1, maximum: 200, default: 50 },
+          },
+          targetParameter,
+        ],
+        responses: {
+          "200": jsonResponse("今後のイベント", "UpcomingEventsResponse"),
+          "400": jsonResponse("パラメータが不正", "Error"),
+          ...commonResponses,
+        },
+      },
+    },
+    "/events/{date}": {
+      get: {
+        summary: "日別イベント",
+        parameters: [
+          {
+            name: "date",
+            in: "path",
+            required: true,
+            schema: { type: "string", format: "date" },
+          },
+          targetParameter,
+        ],
+        responses: {
+          "200": jsonResponse("指定日のイベント", "EventsResponse"),
+          "400": jsonResponse("パラメータが不正", "Error"),
+          ...commonResponses,
+        },
+      },
+    },
+    "/locations": {
+      get: {
+        summary: "撮影地点一覧",
+        responses: {
+          "200": jsonResponse("撮影地点一覧", "LocationsResponse"),
+          ...commonResponses,
+        },
+      },
+    },
+    "/targets": {
+      get: {
+        summary: "整列対象一覧",
+        responses: {
+          "200": jsonResponse("整列対象一覧", "TargetsResponse"),
+          ...commonResponses,
+        },
+      },
+    },
+    "/openapi.json": {
+      get: {
+        summary: "この OpenAPI ドキュメント（API キー不要）",
+        security: [],
+        responses: {
+          "200": {
+            description: "OpenAPI 3 ドキュメント",
+            content: { "application/json": { schema: { type: "object" } } },
+          },
+        },
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      ApiKeyAuth: { type: "apiKey", in: "header", name: "X-API-Key" },
+    },
+    schemas,
+  },
+});
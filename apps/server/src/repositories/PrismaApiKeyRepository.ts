@@ -0,0 +1,82 @@
+import { PrismaClientManager } from "../database/prisma";
+import {
+  ApiKeyCreateData,
+  ApiKeyRecord,
+  ApiKeyRepository,
+  ApiKeyUpdateData,
+} from "./interfaces/ApiKeyRepository";
+
+type ApiKeyPrismaRecord = any;
+
+/**
+ * Prisma を使用した ApiKeyRepository の実装
+ */
+export class PrismaApiKeyRepository implements ApiKeyRepository {
+  private prisma = PrismaClientManager.getInstance();
+
+  async findAll(): Promise<ApiKeyRecord[]> {
+    const apiKeys = await this.prisma.apiKey.findMany({
+      orderBy: { createdAt: "asc" },
+    });
+
+    return apiKeys.map((apiKey: ApiKeyPrismaRecord) =>
+      this.formatApiKey(apiKey),
+    );
+  }
+
+  async findById(id: number): Promise<ApiKeyRecord | null> {
+    const apiKey = await this.prisma.apiKey.findUnique({ where: { id } });
+
+    return apiKey ? this.formatApiKey(apiKey) : null;
+  }
+
+  async findByHash(keyHash: string): Promise<ApiKeyRecord | null> {
+    const apiKey = await this.prisma.apiKey.findUnique({
+      where: { keyHash },
+    });
+
+    return apiKey ? this.formatApiKey(apiKey) : null;
+  }
+
+  async create(data: ApiKeyCreateData): Promise<ApiKeyRecord> {
+    const apiKey = await this.prisma.apiKey.create({ data });
+
+    return this.formatApiKey(apiKey);
+  }
+
+  async update(id: number, data: ApiKeyUpdateData): Promise<ApiKeyRecord> {
+    const apiKey = await this.prisma.apiKey.update({
+      where: { id },
+      data,
+    });
+
+    return this.formatApiKey(apiKey);
+  }
+
+  async delete(id: number): Promise<void> {
+    await this.prisma.apiKey.delete({ where: { id } });
+  }
+
+  async updateLastUsedAt(id: number, lastUsedAt: Date): Promise<void> {
+    await this.prisma.apiKey.update({
+      where: { id },
+      data: { lastUsedAt },
+    });
+  }
+
+  /**
+   * Prisma の ApiKey オブジェクトを ApiKeyRecord に変換（ハッシュは返さない）
+   */
+  private formatApiKey(prismaApiKey: ApiKeyPrismaRecord): ApiKeyRecord {
+    return {
+      id: prismaApiKey.id,
+      name: prismaApiKey.name,
+      keyPrefix: prismaApiKey.keyPrefix,
+      rateLimitPerMinute: prismaApiKey.rateLimitPerMinute,
+      dailyQuota: prismaApiKey.dailyQuota,
+      enabled: prismaApiKey.enabled,
+      lastUsedAt: prismaApiKey.lastUsedAt ?? undefined,
+      createdAt: prismaApiKey.createdAt,
+    };
+  }
+}
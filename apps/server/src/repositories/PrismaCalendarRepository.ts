@@ -1,17 +1,76 @@
 // import { LocationEvent, Location as PrismaLocation } from '@prisma/client';
-import { Location, FujiEvent, CalendarStats } from "@fuji-calendar/types";
+import {
+  Location,
+  FujiEvent,
+  CalendarStats,
+  CelestialObjectKind,
+  SpecialEventType,
+} from "@fuji-calendar/types";
 import { getComponentLogger } from "@fuji-calendar/utils";
 import { CalendarRepository } from "./interfaces/CalendarRepository";
 import { PrismaClientManager } from "../database/prisma";
+import { FUJI_TARGET_SLUG } from "../services/astronomical/AlignmentTarget";
+import { findCelestialObject } from "../services/astronomical/CelestialObjects";
 
 const logger = getComponentLogger("prisma-calendar-repository");
 
 type LocationEventWithLocation = any;
 
+const SPECIAL_EVENT_TYPES: string[] = [
+  "solar_eclipse",
+  "lunar_eclipse",
+  "supermoon",
+];
+
+/**
+ * 保存されている EventType を API の type・subType に変換
+ * 過去イベント（historical_events）も同じ EventType を保存しているため共通で使用する
+ */
+export function resolveEventKind(
+  storedType: string,
+  azimuth: number,
+): {
+  type: FujiEvent["type"];
+  subType: FujiEvent["subType"];
+  specialEvent?: SpecialEventType;
+  celestialKind?: CelestialObjectKind;
+} {
+  const specialEvent = SPECIAL_EVENT_TYPES.includes(storedType)
+    ? (storedType as SpecialEventType)
+    : undefined;
+  // 惑星・恒星の整列は planet_rising / star_setting のように種類を前置する
+  const celestialKind = ["planet", "star"].find((kind) =>
+    storedType.startsWith(`${kind}_`),
+  ) as CelestialObjectKind | undefined;
+  const type =
+    celestialKind ??
+    (storedType.startsWith("diamond") || specialEvent === "solar_eclipse"
+      ? "diamond"
+      : "pearl");
+  // 特別イベントは昇る・沈むを保存していないため、計算時と同じく整列方向で判定
+  const subType = specialEvent
+    ? azimuth < 180
+      ? "sunrise"
+      : "sunset"
+    : celestialKind
+      ? storedType.endsWith("rising")
+        ? "rising"
+        : "setting"
+      : storedType.includes("sunrise") || storedType.includes("moonrise")
+        ? "sunrise"
+        : "sunset";
+
+  return { type, subType, specialEvent, celestialKind };
+}
+
 export class PrismaCalendarRepository implements CalendarRepository {
   private prisma = PrismaClientManager.getInstance();
 
-  async getMonthlyEvents(year: number, month: number): Promise<FujiEvent[]> {
+  async getMonthlyEvents(
+    year: number,
+    month: number,
+    targetSlug: string = FUJI_TARGET_SLUG,
+  ): Promise<FujiEvent[]> {
     // 月の範囲を計算
     const monthStartDate = new Date(year, month - 1, 1);
     const monthEndDate = new Date(year, month, 0);
@@ -33,6 +92,7 @@ export class PrismaCalendarRepository implements CalendarRepository {
     logger.debug("getMonthlyEvents: 日付範囲設定", {
       year,
       month,
+      targetSlug,
       monthStart: monthStartDate.toISOString(),
       monthEnd: monthEndDate.toISOString(),
       calendarStart: calendarStartDate.toISOString(),
@@ -50,6 +110,7 @@ export class PrismaCalendarRepository implements CalendarRepository {
           gte: calendarStartDate,
           lte: calendarEndDate,
         },
+        target: { slug: targetSlug },
       },
       include: {
         location: true,
@@ -62,12 +123,16 @@ export class PrismaCalendarRepository implements CalendarRepository {
     );
   }
 
-  async getDayEvents(date: string): Promise<FujiEvent[]> {
+  async getDayEvents(
+    date: string,
+    targetSlug: string = FUJI_TARGET_SLUG,
+  ): Promise<FujiEvent[]> {
     const targetDate = new Date(date + "T00:00:00.000Z");
 
     const events = await this.prisma.locationEvent.findMany({
       where: {
         eventDate: targetDate,
+        target: { slug: targetSlug },
       },
       include: {
         location: true,
@@ -80,7 +145,26 @@ export class PrismaCalendarRepository implements CalendarRepository {
     );
   }
 
-  async getUpcomingEvents(limit: number = 50): Promise<FujiEvent[]> {
+  async getEventById(eventId: string): Promise<FujiEvent | null> {
+    // イベント ID は BigInt の連番
+    if (!/^\d{1,19}$/.test(eventId)) {
+      return null;
+    }
+
+    const event = await this.prisma.locationEvent.findUnique({
+      where: { id: BigInt(eventId) },
+      include: {
+        location: true,
+      },
+    });
+
+    return event ? this.mapToFujiEvent(event) : null;
+  }
+
+  async getUpcomingEvents(
+    limit: number = 50,
+    targetSlug: string = FUJI_TARGET_SLUG,
+  ): Promise<FujiEvent[]> {
     const now = new Date();
 
     const events = await this.prisma.locationEvent.findMany({
@@ -88,6 +172,7 @@ export class PrismaCalendarRepository implements CalendarRepository {
         eventDate: {
           gte: now,
         },
+        target: { slug: targetSlug },
       },
       include: {
         location: true,
@@ -104,6 +189,7 @@ export class PrismaCalendarRepository implements CalendarRepository {
   async getLocationYearlyEvents(
     locationId: number,
     year: number,
+    targetSlug: string = FUJI_TARGET_SLUG,
   ): Promise<FujiEvent[]> {
     const startDate = new Date(year, 0, 1);
     const endDate = new Date(year + 1, 0, 0);
@@ -117,6 +203,40 @@ export class PrismaCalendarRepository implements CalendarRepository {
           gte: startDate,
           lte: endDate,
         },
+        target: { slug: targetSlug },
+      },
+      include: {
+        location: true,
+      },
+      orderBy: [{ eventDate: "asc" }, { eventTime: "asc" }],
+    });
+
+    return events.map((event: LocationEventWithLocation) =>
+      this.mapToFujiEvent(event),
+    );
+  }
+
+  async getEventsInRange(
+    startDate: string,
+    endDate: string,
+    filter: {
+      locationIds?: number[];
+      eventTypes?: string[];
+      targetSlug?: string;
+    } = {},
+  ): Promise<FujiEvent[]> {
+    const start = new Date(startDate + "T00:00:00.000Z");
+    const end = new Date(endDate + "T23:59:59.999Z");
+
+    const events = await this.prisma.locationEvent.findMany({
+      where: {
+        eventDate: {
+          gte: start,
+          lte: end,
+        },
+        target: { slug: filter.targetSlug ?? FUJI_TARGET_SLUG },
+        ...(filter.locationIds && { locationId: { in: filter.locationIds } }),
+        ...(filter.eventTypes && { eventType: { in: filter.eventTypes } }),
       },
       include: {
         location: true,
@@ -145,13 +265,22 @@ export class PrismaCalendarRepository implements CalendarRepository {
         this.prisma.locationEvent.count({
           where: {
             eventDate: { gte: startDate, lte: endDate },
-            eventType: { in: ["diamond_sunrise", "diamond_sunset"] },
+            eventType: {
+              in: ["diamond_sunrise", "diamond_sunset", "solar_eclipse"],
+            },
           },
         }),
         this.prisma.locationEvent.count({
           where: {
             eventDate: { gte: startDate, lte: endDate },
-            eventType: { in: ["pearl_moonrise", "pearl_moonset"] },
+            eventType: {
+              in: [
+                "pearl_moonrise",
+                "pearl_moonset",
+                "lunar_eclipse",
+                "supermoon",
+              ],
+            },
           },
         }),
         this.prisma.location.count({
@@ -230,15 +359,8 @@ export class PrismaCalendarRepository implements CalendarRepository {
   }
 
   private mapToFujiEvent(event: LocationEventWithLocation): FujiEvent {
-    // EventType から適切な型に変換
-    const eventType = event.eventType.startsWith("diamond")
-      ? "diamond"
-      : "pearl";
-    const subType =
-      event.eventType.includes("sunrise") ||
-      event.eventType.includes("moonrise")
-        ? "sunrise"
-        : "sunset";
+    const { type: eventType, subType, specialEvent, celestialKind } =
+      resolveEventKind(event.eventType, event.azimuth);
 
     return {
       id: event.id.toString(),
@@ -261,7 +383,35 @@ export class PrismaCalendarRepository implements CalendarRepository {
       },
       azimuth: event.azimuth,
       elevation: event.altitude,
+      qualityScore: Math.round(event.qualityScore * 100),
+      visibilityProbability: event.visibilityProbability ?? undefined,
       moonPhase: event.moonPhase || 0,
+      moonIllumination: event.moonIllumination ?? undefined,
+      moonBrightLimbAngle: event.moonBrightLimbAngle ?? undefined,
+      moonTilt: event.moonTilt ?? undefined,
+      residualError: event.residualError ?? undefined,
+      summitPosition: event.summitPosition ?? undefined,
+      observerOffsetDistance: event.observerOffsetDistance ?? undefined,
+      observerOffsetBearing: event.observerOffsetBearing ?? undefined,
+      firstContactTime: event.firstContactTime ?? undefined,
+      centerTime: event.centerTime ?? undefined,
+      lastContactTime: event.lastContactTime ?? undefined,
+      timeWindowStart: event.timeWindowStart ?? undefined,
+      timeWindowEnd: event.timeWindowEnd ?? undefined,
+      refractionModel: event.refractionModel ?? undefined,
+      specialEvent,
+      targetId: event.targetId,
+      celestialBody:
+        celestialKind && event.celestialBody
+          ? {
+              id: event.celestialBody,
+              name:
+                findCelestialObject(event.celestialBody)?.name ??
+                event.celestialBody,
+              kind: celestialKind,
+              magnitude: event.magnitude ?? undefined,
+            }
+          : undefined,
       accuracy:
         (event.accuracy as "perfect" | "excellent" | "good" | "fair") || "fair",
     };
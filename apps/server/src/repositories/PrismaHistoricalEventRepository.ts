@@ -0,0 +1,357 @@
+import {
+  FujiEvent,
+  HistoricalEvent,
+  HistoricalSearchOptions,
+  ObservationOutcome,
+  ObservationReportRequest,
+} from "@fuji-calendar/types";
+import { getComponentLogger } from "@fuji-calendar/utils";
+import { PrismaClientManager } from "../database/prisma";
+import { HistoricalEventRepository } from "./interfaces/HistoricalEventRepository";
+import { resolveEventKind } from "./PrismaCalendarRepository";
+
+const logger = getComponentLogger("PrismaHistoricalEventRepository");
+
+type EventRecord = any;
+
+// 集計に使う報告の列
+interface ReportRecord {
+  outcome: ObservationOutcome;
+  visibilityRating: number | null;
+  notes: string | null;
+  createdAt: Date;
+}
+
+// 1 回のトランザクションで移動するイベント数
+const ARCHIVE_BATCH_SIZE = 500;
+
+// API の type ごとの保存されている EventType
+const STORED_TYPES_BY_KIND: Record<FujiEvent["type"], string[]> = {
+  diamond: ["diamond_sunrise", "diamond_sunset", "solar_eclipse"],
+  pearl: ["pearl_moonrise", "pearl_moonset", "lunar_eclipse", "supermoon"],
+  planet: ["planet_rising", "planet_setting"],
+  star: ["star_rising", "star_setting"],
+};
+
+// API の subType ごとの保存されている EventType（特別イベントは方位角で判定）
+const STORED_TYPES_BY_SUB_TYPE: Record<FujiEvent["subType"], string[]> = {
+  sunrise: ["diamond_sunrise", "pearl_moonrise"],
+  sunset: ["diamond_sunset", "pearl_moonset"],
+  rising: ["planet_rising", "star_rising"],
+  setting: ["planet_setting", "star_setting"],
+};
+
+const SPECIAL_EVENT_TYPES = ["solar_eclipse", "lunar_eclipse", "supermoon"];
+
+/**
+ * Prisma を使用した HistoricalEventRepository の実装
+ */
+export class PrismaHistoricalEventRepository
+  implements HistoricalEventRepository
+{
+  private prisma = PrismaClientManager.getInstance();
+
+  async archiveEventsBefore(date: string): Promise<number> {
+    const cutoff = new Date(date + "T00:00:00.000Z");
+    let archivedCount = 0;
+
+    for (;;) {
+      const events = await this.prisma.locationEvent.findMany({
+        where: { eventDate: { lt: cutoff } },
+        orderBy: { id: "asc" },
+        take: ARCHIVE_BATCH_SIZE,
+      });
+      if (events.length === 0) {
+        break;
+      }
+
+      // 再計算で同じイベントが再び作成された場合は、報告を残したまま計算結果のみ更新する
+      const archived = await this.prisma.historicalEvent.findMany({
+        where: {
+          OR: events.map((event: EventRecord) => ({
+            locationId: event.locationId,
+            targetId: event.targetId,
+            eventDate: event.eventDate,
+            eventType: event.eventType,
+            celestialBody: event.celestialBody,
+          })),
+        },
+        select: {
+          id: true,
+          locationId: true,
+          targetId: true,
+          eventDate: true,
+          eventType: true,
+          celestialBody: true,
+        },
+      });
+      const archivedIds = new Map<string, bigint>(
+        archived.map((event: EventRecord) => [
+          this.archiveKey(event),
+          event.id,
+        ]),
+      );
+
+      const calculated = (event: EventRecord) => ({
+        eventTime: event.eventTime,
+        azimuth: event.azimuth,
+        altitude: event.altitude,
+        accuracy: event.accuracy,
+        qualityScore: event.qualityScore,
+        moonPhase: event.moonPhase,
+      });
+      const newEvents = events.filter(
+        (event: EventRecord) => !archivedIds.has(this.archiveKey(event)),
+      );
+      const rearchivedEvents = events.filter((event: EventRecord) =>
+        archivedIds.has(this.archiveKey(event)),
+      );
+
+      await this.prisma.$transaction([
+        this.prisma.historicalEvent.createMany({
+          data: newEvents.map((event: EventRecord) => ({
+            locationId: event.locationId,
+            targetId: event.targetId,
+            eventType: event.eventType,
+            eventDate: event.eventDate,
+            celestialBody: event.celestialBody,
+            ...calculated(event),
+            createdAt: event.createdAt,
+          })),
+          // 同じ日に同じ天体が 2 回出入りする場合は最初のイベントを残す
+          skipDuplicates: true,
+        }),
+        ...rearchivedEvents.map((event: EventRecord) =>
+          this.prisma.historicalEvent.update({
+            where: { id: archivedIds.get(this.archiveKey(event)) },
+            data: { ...calculated(event), archivedAt: new Date() },
+          }),
+        ),
+        this.prisma.locationEvent.deleteMany({
+          where: { id: { in: events.map((event: EventRecord) => event.id) } },
+        }),
+      ]);
+
+      archivedCount += events.length;
+    }
+
+    logger.info("過去イベント移動完了", { before: date, archivedCount });
+
+    return archivedCount;
+  }
+
+  /**
+   * 過去イベントを同じイベントとみなすキー（地点・対象・日付・種別・天体）
+   * 再計算で整列時刻がずれても同じ行を更新するため時刻は含めない
+   */
+  private archiveKey(event: EventRecord): string {
+    return [
+      event.locationId,
+      event.targetId,
+      event.eventDate.toISOString().slice(0, 10),
+      event.eventType,
+      event.celestialBody ?? "",
+    ].join(":");
+  }
+
+  async search(
+    options: HistoricalSearchOptions,
+  ): Promise<{ events: HistoricalEvent[]; total: number }> {
+    const where = this.buildWhere(options);
+
+    const [events, total] = await Promise.all([
+      this.prisma.historicalEvent.findMany({
+        where,
+        orderBy: [{ eventDate: "desc" }, { eventTime: "desc" }],
+        ...(options.limit !== undefined && { take: options.limit }),
+        ...(options.offset !== undefined && { skip: options.offset }),
+      }),
+      this.prisma.historicalEvent.count({ where }),
+    ]);
+
+    return {
+      events: events.map((event: EventRecord) =>
+        this.formatHistoricalEvent(event),
+      ),
+      total,
+    };
+  }
+
+  async findById(id: number): Promise<HistoricalEvent | null> {
+    const event = await this.prisma.historicalEvent.findUnique({
+      where: { id: BigInt(id) },
+    });
+
+    return event ? this.formatHistoricalEvent(event) : null;
+  }
+
+  async reportOutcome(
+    id: number,
+    reporterIp: string,
+    report: ObservationReportRequest,
+  ): Promise<HistoricalEvent | null> {
+    try {
+      await this.prisma.observationReport.create({
+        data: {
+          historicalEventId: BigInt(id),
+          reporterIp,
+          outcome: report.outcome,
+          visibilityRating: report.visibilityRating ?? null,
+          notes: report.notes ?? null,
+        },
+      });
+    } catch (error) {
+      // 同じ報告者の報告は一意制約で 1 件に限る
+      if ((error as { code?: string }).code === "P2002") {
+        return null;
+      }
+      throw error;
+    }
+
+    const reports = await this.prisma.observationReport.findMany({
+      where: { historicalEventId: BigInt(id) },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    });
+    const event = await this.prisma.historicalEvent.update({
+      where: { id: BigInt(id) },
+      data: this.summarizeReports(reports),
+    });
+
+    logger.info("撮影結果記録成功", {
+      historicalEventId: id,
+      outcome: report.outcome,
+      reportCount: reports.length,
+    });
+
+    return this.formatHistoricalEvent(event);
+  }
+
+  /**
+   * 報告（新しい順）から過去イベントに保存する集計を作成
+   * 撮影結果は最も多いもの（同数の場合は新しい報告）、見え具合は平均、メモは最新の報告のもの
+   */
+  private summarizeReports(reports: ReportRecord[]): {
+    outcome: ObservationOutcome | null;
+    visibilityRating: number | null;
+    notes: string | null;
+    reportedAt: Date | null;
+    reportCount: number;
+  } {
+    const counts = new Map<ObservationOutcome, number>();
+    for (const report of reports) {
+      counts.set(report.outcome, (counts.get(report.outcome) ?? 0) + 1);
+    }
+    const maxCount = Math.max(0, ...counts.values());
+
+    const ratings = reports
+      .map((report) => report.visibilityRating)
+      .filter((rating): rating is number => rating !== null);
+
+    return {
+      outcome:
+        reports.find((report) => counts.get(report.outcome) === maxCount)
+          ?.outcome ?? null,
+      visibilityRating:
+        ratings.length > 0
+          ? Math.round(
+              ratings.reduce((sum, rating) => sum + rating, 0) /
+                ratings.length,
+            )
+          : null,
+      notes: reports.find((report) => report.notes)?.notes ?? null,
+      reportedAt: reports[0]?.createdAt ?? null,
+      reportCount: reports.length,
+    };
+  }
+
+  private buildWhere(options: HistoricalSearchOptions): { AND: object[] } {
+    const conditions: object[] = [];
+
+    if (options.locationId !== undefined) {
+      conditions.push({ locationId: options.locationId });
+    }
+    if (options.yearStart !== undefined) {
+      conditions.push({
+        eventDate: { gte: new Date(Date.UTC(options.yearStart, 0, 1)) },
+      });
+    }
+    if (options.yearEnd !== undefined) {
+      conditions.push({
+        eventDate: { lt: new Date(Date.UTC(options.yearEnd + 1, 0, 1)) },
+      });
+    }
+    if (options.eventType) {
+      conditions.push({
+        eventType: { in: STORED_TYPES_BY_KIND[options.eventType] },
+      });
+    }
+    if (options.subType) {
+      const byAzimuth =
+        options.subType === "sunrise"
+          ? { lt: 180 }
+          : options.subType === "sunset"
+            ? { gte: 180 }
+            : null;
+      conditions.push({
+        OR: [
+          { eventType: { in: STORED_TYPES_BY_SUB_TYPE[options.subType] } },
+          ...(byAzimuth
+            ? [{ eventType: { in: SPECIAL_EVENT_TYPES }, azimuth: byAzimuth }]
+            : []),
+        ],
+      });
+    }
+    if (options.photoSuccessOnly) {
+      conditions.push({ outcome: "success" });
+    }
+    if (options.minVisibility !== undefined) {
+      conditions.push({ visibilityRating: { gte: options.minVisibility } });
+    }
+    if (options.dataSource) {
+      conditions.push({
+        outcome: options.dataSource === "reported" ? { not: null } : null,
+      });
+    }
+
+    return { AND: conditions };
+  }
+
+  /**
+   * Prisma の HistoricalEvent オブジェクトを型安全な HistoricalEvent オブジェクトに変換
+   */
+  private formatHistoricalEvent(prismaEvent: EventRecord): HistoricalEvent {
+    const { type, subType } = resolveEventKind(
+      prismaEvent.eventType,
+      prismaEvent.azimuth,
+    );
+    // event_date は日付のみ（UTC 00:00）で保存されている
+    const eventDate: Date = prismaEvent.eventDate;
+
+    return {
+      id: Number(prismaEvent.id),
+      locationId: prismaEvent.locationId,
+      targetId: prismaEvent.targetId,
+      year: eventDate.getUTCFullYear(),
+      month: eventDate.getUTCMonth() + 1,
+      day: eventDate.getUTCDate(),
+      eventType: type,
+      subType,
+      eventTime: prismaEvent.eventTime,
+      azimuth: prismaEvent.azimuth,
+      elevation: prismaEvent.altitude,
+      qualityScore: Math.round(prismaEvent.qualityScore * 100),
+      accuracy: prismaEvent.accuracy ?? undefined,
+      moonPhase: prismaEvent.moonPhase ?? undefined,
+      celestialBodyId: prismaEvent.celestialBody ?? undefined,
+      outcome: prismaEvent.outcome ?? undefined,
+      visibilityRating: prismaEvent.visibilityRating ?? undefined,
+      reportCount: prismaEvent.reportCount ?? 0,
+      photoSuccessReported: prismaEvent.outcome === "success",
+      dataSource: prismaEvent.outcome ? "reported" : "calculated",
+      notes: prismaEvent.notes ?? undefined,
+      reportedAt: prismaEvent.reportedAt ?? undefined,
+      archivedAt: prismaEvent.archivedAt,
+      createdAt: prismaEvent.createdAt,
+    };
+  }
+}
@@ -62,6 +62,28 @@ export class PrismaLocationRepository implements LocationRepository {
     return this.formatLocation(location);
   }
 
+  async findByIds(ids: number[]): Promise<Location[]> {
+    logger.debug("撮影地点一括取得開始", { locationCount: ids.length });
+
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const locations = await this.prisma.location.findMany({
+      where: { id: { in: ids } },
+      orderBy: {
+        id: "asc",
+      },
+    });
+
+    logger.debug("撮影地点一括取得成功", {
+      requested: ids.length,
+      found: locations.length,
+    });
+
+    return locations.map(this.formatLocation);
+  }
+
   async create(
     data: CreateLocationRequest & {
       fujiAzimuth?: number;
@@ -0,0 +1,127 @@
+import {
+  LocationRequest,
+  LocationRequestBody,
+  LocationRequestStatus,
+} from "@fuji-calendar/types";
+import { getComponentLogger } from "@fuji-calendar/utils";
+import { PrismaClientManager } from "../database/prisma";
+import { LocationRequestRepository } from "./interfaces/LocationRequestRepository";
+
+const logger = getComponentLogger("PrismaLocationRequestRepository");
+
+type LocationRequestRecord = any;
+
+/**
+ * Prisma を使用した LocationRequestRepository の実装
+ */
+export class PrismaLocationRequestRepository implements LocationRequestRepository {
+  private prisma = PrismaClientManager.getInstance();
+
+  async create(
+    data: LocationRequestBody & { requesterIp: string },
+  ): Promise<LocationRequest> {
+    const request = await this.prisma.locationRequest.create({
+      data: {
+        name: data.name,
+        prefecture: data.prefecture,
+        description: data.description,
+        suggestedLatitude: data.suggestedCoordinates.latitude,
+        suggestedLongitude: data.suggestedCoordinates.longitude,
+        requesterIp: data.requesterIp,
+      },
+    });
+
+    logger.info("撮影地点候補作成成功", {
+      locationRequestId: request.id,
+      name: request.name,
+    });
+
+    return this.formatLocationRequest(request);
+  }
+
+  async findById(id: number): Promise<LocationRequest | null> {
+    const request = await this.prisma.locationRequest.findUnique({
+      where: { id },
+    });
+
+    return request ? this.formatLocationRequest(request) : null;
+  }
+
+  async findAll(status?: LocationRequestStatus): Promise<LocationRequest[]> {
+    const requests = await this.prisma.locationRequest.findMany({
+      where: status ? { status } : {},
+      orderBy: { createdAt: "asc" },
+    });
+
+    return requests.map((request: LocationRequestRecord) =>
+      this.formatLocationRequest(request),
+    );
+  }
+
+  async markApproved(
+    id: number,
+    adminId: number,
+    locationId: number,
+  ): Promise<LocationRequest> {
+    const request = await this.prisma.locationRequest.update({
+      where: { id },
+      data: {
+        status: "approved",
+        locationId,
+        processedBy: adminId,
+        processedAt: new Date(),
+      },
+    });
+
+    logger.info("撮影地点候補承認", {
+      locationRequestId: id,
+      locationId,
+      adminId,
+    });
+
+    return this.formatLocationRequest(request);
+  }
+
+  async markRejected(
+    id: number,
+    adminId: number,
+    reason: string,
+  ): Promise<LocationRequest> {
+    const request = await this.prisma.locationRequest.update({
+      where: { id },
+      data: {
+        status: "rejected",
+        rejectionReason: reason,
+        processedBy: adminId,
+        processedAt: new Date(),
+      },
+    });
+
+    logger.info("撮影地点候補却下", { locationRequestId: id, adminId });
+
+    return this.formatLocationRequest(request);
+  }
+
+  /**
+   * Prisma の LocationRequest オブジェクトを型安全な LocationRequest オブジェクトに変換
+   */
+  private formatLocationRequest(
+    prismaRequest: LocationRequestRecord,
+  ): LocationRequest {
+    return {
+      id: prismaRequest.id,
+      name: prismaRequest.name,
+      prefecture: prismaRequest.prefecture,
+      description: prismaRequest.description,
+      suggestedLatitude: prismaRequest.suggestedLatitude,
+      suggestedLongitude: prismaRequest.suggestedLongitude,
+      requesterIp: prismaRequest.requesterIp,
+      status: prismaRequest.status,
+      rejectionReason: prismaRequest.rejectionReason ?? undefined,
+      locationId: prismaRequest.locationId ?? undefined,
+      createdAt: prismaRequest.createdAt,
+      processedAt: prismaRequest.processedAt ?? undefined,
+      processedBy: prismaRequest.processedBy ?? undefined,
+    };
+  }
+}
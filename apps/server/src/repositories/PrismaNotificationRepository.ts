@@ -0,0 +1,82 @@
+import { PrismaClientManager } from "../database/prisma";
+import {
+  NotificationChannelData,
+  NotificationChannelRecord,
+  NotificationRepository,
+} from "./interfaces/NotificationRepository";
+
+type NotificationChannelPrismaRecord = any;
+
+/**
+ * Prisma を使用した NotificationRepository の実装
+ */
+export class PrismaNotificationRepository implements NotificationRepository {
+  private prisma = PrismaClientManager.getInstance();
+
+  async findChannelsByUserId(
+    userId: number,
+  ): Promise<NotificationChannelRecord[]> {
+    const channels = await this.prisma.notificationChannel.findMany({
+      where: { userId },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return channels.map((channel: NotificationChannelPrismaRecord) =>
+      this.formatChannel(channel),
+    );
+  }
+
+  async findChannelById(id: number): Promise<NotificationChannelRecord | null> {
+    const channel = await this.prisma.notificationChannel.findUnique({
+      where: { id },
+    });
+
+    return channel ? this.formatChannel(channel) : null;
+  }
+
+  async createChannel(
+    userId: number,
+    data: NotificationChannelData,
+  ): Promise<NotificationChannelRecord> {
+    const channel = await this.prisma.notificationChannel.create({
+      data: { userId, ...data },
+    });
+
+    return this.formatChannel(channel);
+  }
+
+  async updateChannel(
+    id: number,
+    data: NotificationChannelData,
+  ): Promise<NotificationChannelRecord> {
+    const channel = await this.prisma.notificationChannel.update({
+      where: { id },
+      data,
+    });
+
+    return this.formatChannel(channel);
+  }
+
+  async deleteChannel(id: number): Promise<void> {
+    await this.prisma.notificationChannel.delete({ where: { id } });
+  }
+
+  /**
+   * Prisma の NotificationChannel オブジェクトを NotificationChannelRecord に変換
+   */
+  private formatChannel(
+    prismaChannel: NotificationChannelPrismaRecord,
+  ): NotificationChannelRecord {
+    return {
+      id: prismaChannel.id,
+      userId: prismaChannel.userId,
+      type: prismaChannel.type,
+      target: prismaChannel.target,
+      secret: prismaChannel.secret,
+      hasSecret: !!prismaChannel.secret,
+      leadTimeMinutes: prismaChannel.leadTimeMinutes,
+      enabled: prismaChannel.enabled,
+      createdAt: prismaChannel.createdAt,
+    };
+  }
+}
@@ -0,0 +1,150 @@
+import {
+  CreateTargetRequest,
+  LocationTarget,
+  Target,
+} from "@fuji-calendar/types";
+import { getComponentLogger } from "@fuji-calendar/utils";
+import { PrismaClientManager } from "../database/prisma";
+import { TargetRepository } from "./interfaces/TargetRepository";
+
+const logger = getComponentLogger("PrismaTargetRepository");
+
+/**
+ * Prisma を使用した TargetRepository の実装
+ */
+export class PrismaTargetRepository implements TargetRepository {
+  private prisma = PrismaClientManager.getInstance();
+
+  async findAll(): Promise<Target[]> {
+    const targets = await this.prisma.target.findMany({
+      orderBy: {
+        id: "asc",
+      },
+    });
+
+    logger.debug("全整列対象取得成功", { targetCount: targets.length });
+
+    return targets.map(this.formatTarget);
+  }
+
+  async findBySlug(slug: string): Promise<Target | null> {
+    const target = await this.prisma.target.findUnique({
+      where: { slug },
+    });
+
+    return target ? this.formatTarget(target) : null;
+  }
+
+  async findById(id: number): Promise<Target | null> {
+    const target = await this.prisma.target.findUnique({
+      where: { id },
+    });
+
+    return target ? this.formatTarget(target) : null;
+  }
+
+  async create(data: CreateTargetRequest): Promise<Target> {
+    const target = await this.prisma.target.create({
+      data: {
+        slug: data.slug,
+        name: data.name,
+        latitude: data.latitude,
+        longitude: data.longitude,
+        elevation: data.elevation,
+        description: data.description,
+      },
+    });
+
+    logger.info("整列対象作成成功", {
+      targetId: target.id,
+      slug: target.slug,
+    });
+
+    return this.formatTarget(target);
+  }
+
+  async findLocationTargets(locationId: number): Promise<LocationTarget[]> {
+    const locationTargets = await this.prisma.locationTarget.findMany({
+      where: { locationId },
+      include: { target: true },
+      orderBy: { targetId: "asc" },
+    });
+
+    return locationTargets.map((locationTarget: any) =>
+      this.formatLocationTarget(locationTarget),
+    );
+  }
+
+  async upsertLocationTarget(
+    locationId: number,
+    targetId: number,
+    geometry: { azimuth: number; elevation: number; distance: number },
+  ): Promise<LocationTarget> {
+    const locationTarget = await this.prisma.locationTarget.upsert({
+      where: {
+        locationId_targetId: { locationId, targetId },
+      },
+      create: {
+        locationId,
+        targetId,
+        ...geometry,
+      },
+      update: {
+        ...geometry,
+        updatedAt: new Date(),
+      },
+      include: { target: true },
+    });
+
+    return this.formatLocationTarget(locationTarget);
+  }
+
+  async deleteLocationTargetsExcept(
+    locationId: number,
+    targetIds: number[],
+  ): Promise<void> {
+    const deleted = await this.prisma.locationTarget.deleteMany({
+      where: {
+        locationId,
+        targetId: { notIn: targetIds },
+      },
+    });
+
+    if (deleted.count > 0) {
+      logger.info("整列対象の関連を削除", {
+        locationId,
+        deletedCount: deleted.count,
+      });
+    }
+  }
+
+  /**
+   * Prisma の Target オブジェクトを型安全な Target オブジェクトに変換
+   */
+  private formatTarget(prismaTarget: any): Target {
+    return {
+      id: prismaTarget.id,
+      slug: prismaTarget.slug,
+      name: prismaTarget.name,
+      latitude: prismaTarget.latitude,
+      longitude: prismaTarget.longitude,
+      elevation: prismaTarget.elevation,
+      description: prismaTarget.description,
+      createdAt: prismaTarget.createdAt,
+      updatedAt: prismaTarget.updatedAt,
+    };
+  }
+
+  private formatLocationTarget(prismaLocationTarget: any): LocationTarget {
+    return {
+      locationId: prismaLocationTarget.locationId,
+      targetId: prismaLocationTarget.targetId,
+      azimuth: prismaLocationTarget.azimuth,
+      elevation: prismaLocationTarget.elevation,
+      distance: prismaLocationTarget.distance,
+      target: prismaLocationTarget.target
+        ? this.formatTarget(prismaLocationTarget.target)
+        : undefined,
+    };
+  }
+}
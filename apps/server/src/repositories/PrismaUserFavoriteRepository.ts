@@ -0,0 +1,365 @@
+import { FavoriteEvent, Favorites } from "@fuji-calendar/types";
+import { getComponentLogger } from "@fuji-calendar/utils";
+import { PrismaClientManager } from "../database/prisma";
+import { findCelestialObject } from "../services/astronomical/CelestialObjects";
+import {
+  StoredFavoriteEvent,
+  UserFavoriteRepository,
+} from "./interfaces/UserFavoriteRepository";
+import { resolveEventKind } from "./PrismaCalendarRepository";
+
+const logger = getComponentLogger("PrismaUserFavoriteRepository");
+
+type FavoriteLocationRecord = any;
+type FavoriteEventRecord = any;
+type LocationEventRecord = any;
+
+// 再計算前後で同じイベントとみなす時刻の差
+const REMATCH_TOLERANCE_MS = 12 * 60 * 60 * 1000;
+
+/**
+ * Prisma を使用した UserFavoriteRepository の実装
+ */
+export class PrismaUserFavoriteRepository implements UserFavoriteRepository {
+  private prisma = PrismaClientManager.getInstance();
+
+  async findByUserId(userId: number): Promise<Favorites> {
+    const [locations, events] = await Promise.all([
+      this.prisma.userFavoriteLocation.findMany({
+        where: { userId },
+        include: { location: true },
+        orderBy: { addedAt: "desc" },
+      }),
+      this.prisma.userFavoriteEvent.findMany({
+        where: { userId },
+        orderBy: { eventTime: "asc" },
+      }),
+    ]);
+
+    return {
+      locations: locations.map((favorite: FavoriteLocationRecord) => ({
+        id: favorite.location.id,
+        name: favorite.location.name,
+        prefecture: favorite.location.prefecture,
+        latitude: favorite.location.latitude,
+        longitude: favorite.location.longitude,
+        addedAt: favorite.addedAt.toISOString(),
+      })),
+      events: events.map((favorite: FavoriteEventRecord) =>
+        this.formatFavoriteEvent(favorite),
+      ),
+    };
+  }
+
+  async findUpcomingEvents(
+    userId: number,
+    from: Date,
+  ): Promise<StoredFavoriteEvent[]> {
+    const events = await this.prisma.userFavoriteEvent.findMany({
+      where: { userId, eventTime: { gt: from } },
+      orderBy: { eventTime: "asc" },
+    });
+
+    return events.map((favorite: FavoriteEventRecord) =>
+      this.formatStoredFavoriteEvent(favorite),
+    );
+  }
+
+  async findEventByFavoriteId(
+    favoriteId: number,
+  ): Promise<StoredFavoriteEvent | null> {
+    const favorite = await this.prisma.userFavoriteEvent.findUnique({
+      where: { id: favoriteId },
+    });
+
+    return favorite ? this.formatStoredFavoriteEvent(favorite) : null;
+  }
+
+  async addLocation(userId: number, locationId: number): Promise<boolean> {
+    if (!(await this.locationExists(locationId))) {
+      return false;
+    }
+
+    await this.prisma.userFavoriteLocation.upsert({
+      where: { userId_locationId: { userId, locationId } },
+      create: { userId, locationId },
+      update: {},
+    });
+
+    return true;
+  }
+
+  async removeLocation(userId: number, locationId: number): Promise<boolean> {
+    const { count } = await this.prisma.userFavoriteLocation.deleteMany({
+      where: { userId, locationId },
+    });
+
+    return count > 0;
+  }
+
+  async addEvent(userId: number, event: FavoriteEvent): Promise<boolean> {
+    if (!(await this.locationExists(event.locationId))) {
+      return false;
+    }
+
+    await this.prisma.userFavoriteEvent.upsert({
+      where: { userId_eventId: { userId, eventId: event.id } },
+      create: this.buildFavoriteEventData(userId, event),
+      update: {},
+    });
+
+    return true;
+  }
+
+  async removeEvent(userId: number, eventId: string): Promise<boolean> {
+    const { count } = await this.prisma.userFavoriteEvent.deleteMany({
+      where: { userId, eventId },
+    });
+
+    return count > 0;
+  }
+
+  async merge(
+    userId: number,
+    favorites: Favorites,
+  ): Promise<{ locations: number; events: number }> {
+    // 削除された撮影地点のお気に入りは引き継がない
+    const existingLocations = await this.prisma.location.findMany({
+      where: {
+        id: {
+          in: [
+            ...favorites.locations.map((location) => location.id),
+            ...favorites.events.map((event) => event.locationId),
+          ],
+        },
+      },
+      select: { id: true },
+    });
+    const existingIds = new Set(
+      existingLocations.map((location: { id: number }) => location.id),
+    );
+
+    const [locationResult, eventResult] = await this.prisma.$transaction([
+      this.prisma.userFavoriteLocation.createMany({
+        data: favorites.locations
+          .filter((location) => existingIds.has(location.id))
+          .map((location) => ({
+            userId,
+            locationId: location.id,
+            addedAt: new Date(location.addedAt),
+          })),
+        skipDuplicates: true,
+      }),
+      this.prisma.userFavoriteEvent.createMany({
+        data: favorites.events
+          .filter((event) => existingIds.has(event.locationId))
+          .map((event) => this.buildFavoriteEventData(userId, event)),
+        skipDuplicates: true,
+      }),
+    ]);
+
+    logger.info("お気に入り統合完了", {
+      userId,
+      addedLocations: locationResult.count,
+      addedEvents: eventResult.count,
+    });
+
+    return { locations: locationResult.count, events: eventResult.count };
+  }
+
+  async rematchEvents(
+    locationId: number | null,
+    startTime: Date,
+    endTime: Date,
+  ): Promise<number[]> {
+    const favorites: FavoriteEventRecord[] =
+      await this.prisma.userFavoriteEvent.findMany({
+        where: {
+          ...(locationId !== null && { locationId }),
+          eventTime: { gte: startTime, lte: endTime },
+        },
+        orderBy: { eventTime: "asc" },
+      });
+    if (favorites.length === 0) {
+      return [];
+    }
+
+    const events: LocationEventRecord[] =
+      await this.prisma.locationEvent.findMany({
+        where: {
+          locationId: {
+            in: [...new Set(favorites.map((favorite) => favorite.locationId))],
+          },
+          eventTime: {
+            gte: new Date(startTime.getTime() - REMATCH_TOLERANCE_MS),
+            lte: new Date(endTime.getTime() + REMATCH_TOLERANCE_MS),
+          },
+        },
+        select: {
+          id: true,
+          locationId: true,
+          eventType: true,
+          eventTime: true,
+          azimuth: true,
+          altitude: true,
+          celestialBody: true,
+          timeWindowStart: true,
+          timeWindowEnd: true,
+        },
+      });
+
+    // 同じユーザーの複数のお気に入りを同じイベントに照合しない
+    const claimedEventIds = new Set(
+      favorites.map((favorite) => `${favorite.userId}:${favorite.eventId}`),
+    );
+    const updatedUserIds = new Set<number>();
+
+    for (const favorite of favorites) {
+      const matched = this.findMatchingEvent(favorite, events);
+      if (!matched) {
+        logger.warn("再計算後のイベントに照合できないお気に入り", {
+          favoriteId: favorite.id,
+          eventId: favorite.eventId,
+          locationId: favorite.locationId,
+        });
+        continue;
+      }
+
+      const eventId = matched.id.toString();
+      const unchanged =
+        eventId === favorite.eventId &&
+        matched.eventTime.getTime() === favorite.eventTime.getTime();
+      if (unchanged || claimedEventIds.has(`${favorite.userId}:${eventId}`)) {
+        continue;
+      }
+
+      await this.prisma.userFavoriteEvent.update({
+        where: { id: favorite.id },
+        data: {
+          eventId,
+          eventTime: matched.eventTime,
+          timeWindowStart: matched.timeWindowStart,
+          timeWindowEnd: matched.timeWindowEnd,
+          azimuth: matched.azimuth,
+          elevation: matched.altitude,
+        },
+      });
+      claimedEventIds.add(`${favorite.userId}:${eventId}`);
+      updatedUserIds.add(favorite.userId);
+    }
+
+    logger.info("お気に入りイベント照合完了", {
+      locationId,
+      favorites: favorites.length,
+      updatedUsers: updatedUserIds.size,
+    });
+
+    return [...updatedUserIds];
+  }
+
+  /**
+   * 同じ地点・種類・天体で、時刻が最も近い再計算後のイベント
+   */
+  private findMatchingEvent(
+    favorite: FavoriteEventRecord,
+    events: LocationEventRecord[],
+  ): LocationEventRecord | null {
+    let best: LocationEventRecord | null = null;
+    let bestDiff = REMATCH_TOLERANCE_MS;
+
+    for (const event of events) {
+      if (event.locationId !== favorite.locationId) {
+        continue;
+      }
+
+      const { type, subType } = resolveEventKind(
+        event.eventType,
+        event.azimuth,
+      );
+      const celestialBodyName = event.celestialBody
+        ? (findCelestialObject(event.celestialBody)?.name ??
+          event.celestialBody)
+        : null;
+      if (
+        type !== favorite.eventType ||
+        subType !== favorite.subType ||
+        (["planet", "star"].includes(type) &&
+          celestialBodyName !== favorite.celestialBodyName)
+      ) {
+        continue;
+      }
+
+      const diff = Math.abs(
+        event.eventTime.getTime() - favorite.eventTime.getTime(),
+      );
+      if (diff <= bestDiff) {
+        best = event;
+        bestDiff = diff;
+      }
+    }
+
+    return best;
+  }
+
+  private async locationExists(locationId: number): Promise<boolean> {
+    const location = await this.prisma.location.findUnique({
+      where: { id: locationId },
+      select: { id: true },
+    });
+
+    return !!location;
+  }
+
+  /**
+   * FavoriteEvent から UserFavoriteEvent の保存データを作成
+   */
+  private buildFavoriteEventData(userId: number, event: FavoriteEvent) {
+    return {
+      userId,
+      eventId: event.id,
+      eventType: event.type,
+      subType: event.subType,
+      celestialBodyName: event.celestialBodyName ?? null,
+      eventTime: new Date(event.time),
+      timeWindowStart: event.timeWindowStart
+        ? new Date(event.timeWindowStart)
+        : null,
+      timeWindowEnd: event.timeWindowEnd ? new Date(event.timeWindowEnd) : null,
+      locationId: event.locationId,
+      locationName: event.locationName,
+      azimuth: event.azimuth,
+      elevation: event.elevation,
+      addedAt: new Date(event.addedAt),
+    };
+  }
+
+  private formatStoredFavoriteEvent(
+    prismaEvent: FavoriteEventRecord,
+  ): StoredFavoriteEvent {
+    return {
+      favoriteId: prismaEvent.id,
+      userId: prismaEvent.userId,
+      event: this.formatFavoriteEvent(prismaEvent),
+    };
+  }
+
+  /**
+   * Prisma の UserFavoriteEvent オブジェクトを FavoriteEvent オブジェクトに変換
+   */
+  private formatFavoriteEvent(prismaEvent: FavoriteEventRecord): FavoriteEvent {
+    return {
+      id: prismaEvent.eventId,
+      type: prismaEvent.eventType,
+      subType: prismaEvent.subType,
+      celestialBodyName: prismaEvent.celestialBodyName ?? undefined,
+      time: prismaEvent.eventTime.toISOString(),
+      timeWindowStart: prismaEvent.timeWindowStart?.toISOString(),
+      timeWindowEnd: prismaEvent.timeWindowEnd?.toISOString(),
+      locationId: prismaEvent.locationId,
+      locationName: prismaEvent.locationName,
+      azimuth: prismaEvent.azimuth,
+      elevation: prismaEvent.elevation,
+      addedAt: prismaEvent.addedAt.toISOString(),
+    };
+  }
+}
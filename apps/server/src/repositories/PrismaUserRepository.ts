@@ -0,0 +1,74 @@
+import { User } from "@fuji-calendar/types";
+import { getComponentLogger } from "@fuji-calendar/utils";
+import { PrismaClientManager } from "../database/prisma";
+import { UserRepository } from "./interfaces/UserRepository";
+
+const logger = getComponentLogger("PrismaUserRepository");
+
+type UserRecord = any;
+
+/**
+ * Prisma を使用した UserRepository の実装
+ */
+export class PrismaUserRepository implements UserRepository {
+  private prisma = PrismaClientManager.getInstance();
+
+  async findById(id: number): Promise<User | null> {
+    const user = await this.prisma.user.findUnique({ where: { id } });
+
+    return user ? this.formatUser(user) : null;
+  }
+
+  async upsertForLogin(email: string): Promise<User> {
+    const now = new Date();
+    const user = await this.prisma.user.upsert({
+      where: { email },
+      create: { email, lastLoginAt: now },
+      update: { lastLoginAt: now },
+    });
+
+    logger.info("ユーザーログイン記録", { userId: user.id });
+
+    return this.formatUser(user);
+  }
+
+  async createLoginToken(
+    email: string,
+    tokenHash: string,
+    expiresAt: Date,
+  ): Promise<void> {
+    await this.prisma.userLoginToken.create({
+      data: { email, tokenHash, expiresAt },
+    });
+  }
+
+  async consumeLoginToken(tokenHash: string): Promise<string | null> {
+    const now = new Date();
+    // 同じトークンで同時にログインされても 1 回だけ成功させる
+    const { count } = await this.prisma.userLoginToken.updateMany({
+      where: { tokenHash, usedAt: null, expiresAt: { gt: now } },
+      data: { usedAt: now },
+    });
+    if (count === 0) {
+      return null;
+    }
+
+    const token = await this.prisma.userLoginToken.findUnique({
+      where: { tokenHash },
+    });
+
+    return token?.email ?? null;
+  }
+
+  /**
+   * Prisma の User オブジェクトを型安全な User オブジェクトに変換
+   */
+  private formatUser(prismaUser: UserRecord): User {
+    return {
+      id: prismaUser.id,
+      email: prismaUser.email,
+      createdAt: prismaUser.createdAt,
+      lastLoginAt: prismaUser.lastLoginAt ?? undefined,
+    };
+  }
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it, jest } from "@jest/globals";
+import { ObservationOutcome } from "@fuji-calendar/types";
+import { PrismaHistoricalEventRepository } from "../PrismaHistoricalEventRepository";
+
+// 集計はデータベースに接続しないため、Prisma Client は生成しない
+jest.mock("../../database/prisma", () => ({
+  PrismaClientManager: { getInstance: () => ({}) },
+}));
+
+const report = (
+  outcome: ObservationOutcome,
+  createdAt: string,
+  visibilityRating: number | null = null,
+  notes: string | null = null,
+) => ({ outcome, visibilityRating, notes, createdAt: new Date(createdAt) });
+
+describe("PrismaHistoricalEventRepository", () => {
+  const repository = new PrismaHistoricalEventRepository();
+
+  describe("summarizeReports", () => {
+    it("最も多い撮影結果・見え具合の平均・最新のメモを集計する", () => {
+      // 報告は新しい順
+      const summary = repository["summarizeReports"]([
+        report("clouded_out", "2025-08-17T09:00:00Z"),
+        report("success", "2025-08-17T08:00:00Z", 4, "山頂に雲なし"),
+        report("success", "2025-08-17T07:00:00Z", 5, "最初の報告"),
+      ]);
+
+      expect(summary).toEqual({
+        outcome: "success",
+        visibilityRating: 5,
+        notes: "山頂に雲なし",
+        reportedAt: new Date("2025-08-17T09:00:00Z"),
+        reportCount: 3,
+      });
+    });
+
+    it("撮影結果が同数の場合は新しい報告を採用する", () => {
+      const summary = repository["summarizeReports"]([
+        report("missed", "2025-08-17T09:00:00Z", 1),
+        report("success", "2025-08-17T08:00:00Z", 2),
+      ]);
+
+      expect(summary.outcome).toBe("missed");
+      expect(summary.visibilityRating).toBe(2);
+      expect(summary.notes).toBeNull();
+    });
+
+    it("報告がない場合は空の集計を返す", () => {
+      expect(repository["summarizeReports"]([])).toEqual({
+        outcome: null,
+        visibilityRating: null,
+        notes: null,
+        reportedAt: null,
+        reportCount: 0,
+      });
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { ApiKey } from "@fuji-calendar/types";
+
+/**
+ * 保存されている API キー（今日のリクエスト数は Redis から別に取得する）
+ */
+export type ApiKeyRecord = Omit<ApiKey, "usageToday">;
+
+/**
+ * API キーの作成内容（キー自体は保存せず、ハッシュと先頭部分のみ保存する）
+ */
+export interface ApiKeyCreateData {
+  name: string;
+  keyPrefix: string;
+  keyHash: string;
+  rateLimitPerMinute: number;
+  dailyQuota: number;
+}
+
+/**
+ * API キーの更新内容
+ */
+export interface ApiKeyUpdateData {
+  name: string;
+  rateLimitPerMinute: number;
+  dailyQuota: number;
+  enabled: boolean;
+}
+
+/**
+ * API キーリポジトリインターフェース
+ * 公開 API の API キーへのアクセスを抽象化
+ */
+export interface ApiKeyRepository {
+  /**
+   * 全ての API キーを作成順に取得
+   */
+  findAll(): Promise<ApiKeyRecord[]>;
+
+  findById(id: number): Promise<ApiKeyRecord | null>;
+
+  /**
+   * キーのハッシュで API キーを取得
+   */
+  findByHash(keyHash: string): Promise<ApiKeyRecord | null>;
+
+  create(data: ApiKeyCreateData): Promise<ApiKeyRecord>;
+
+  update(id: number, data: ApiKeyUpdateData): Promise<ApiKeyRecord>;
+
+  delete(id: number): Promise<void>;
+
+  /**
+   * 最終使用日時を記録
+   */
+  updateLastUsedAt(id: number, lastUsedAt: Date): Promise<void>;
+}
@@ -1,19 +1,38 @@
 import { Location, FujiEvent, CalendarStats } from "@fuji-calendar/types";
 
 export interface CalendarRepository {
-  // 月間イベント取得
-  getMonthlyEvents(year: number, month: number): Promise<FujiEvent[]>;
+  // 月間イベント取得（targetSlug 省略時は富士山）
+  getMonthlyEvents(
+    year: number,
+    month: number,
+    targetSlug?: string,
+  ): Promise<FujiEvent[]>;
 
   // 日別イベント取得
-  getDayEvents(date: string): Promise<FujiEvent[]>;
+  getDayEvents(date: string, targetSlug?: string): Promise<FujiEvent[]>;
+
+  // ID でイベント取得（存在しない場合は null）
+  getEventById(eventId: string): Promise<FujiEvent | null>;
 
   // 今後のイベント取得
-  getUpcomingEvents(limit?: number): Promise<FujiEvent[]>;
+  getUpcomingEvents(limit?: number, targetSlug?: string): Promise<FujiEvent[]>;
 
   // 地点別年間イベント取得
   getLocationYearlyEvents(
     locationId: number,
     year: number,
+    targetSlug?: string,
+  ): Promise<FujiEvent[]>;
+
+  // 期間内のイベント取得（地点・イベント種別で絞り込み）
+  getEventsInRange(
+    startDate: string,
+    endDate: string,
+    filter?: {
+      locationIds?: number[];
+      eventTypes?: string[];
+      targetSlug?: string;
+    },
   ): Promise<FujiEvent[]>;
 
   // カレンダー統計情報取得
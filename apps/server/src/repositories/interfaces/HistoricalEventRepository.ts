@@ -0,0 +1,39 @@
+import {
+  HistoricalEvent,
+  HistoricalSearchOptions,
+  ObservationReportRequest,
+} from "@fuji-calendar/types";
+
+/**
+ * 過去イベントリポジトリインターフェース
+ * location_events から移動した過去のイベントと、撮影結果の報告へのアクセスを抽象化
+ */
+export interface HistoricalEventRepository {
+  /**
+   * 指定日（YYYY-MM-DD）より前のイベントを location_events から移動
+   * 移動済みのイベントは重複させない。移動した件数を返す
+   */
+  archiveEventsBefore(date: string): Promise<number>;
+
+  /**
+   * 条件に合う過去イベントを日時の新しい順に取得
+   */
+  search(
+    options: HistoricalSearchOptions,
+  ): Promise<{ events: HistoricalEvent[]; total: number }>;
+
+  /**
+   * ID で過去イベントを取得
+   */
+  findById(id: number): Promise<HistoricalEvent | null>;
+
+  /**
+   * 撮影結果の報告を追加し、過去イベントの報告の集計を更新
+   * 同じ報告者（IP アドレス）が報告済みの場合は既存の報告を上書きせず null
+   */
+  reportOutcome(
+    id: number,
+    reporterIp: string,
+    report: ObservationReportRequest,
+  ): Promise<HistoricalEvent | null>;
+}
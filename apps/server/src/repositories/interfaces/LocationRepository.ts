@@ -15,6 +15,11 @@ export interface LocationRepository {
    */
   findById(id: number): Promise<Location | null>;
 
+  /**
+   * 複数の ID で撮影地点をまとめて取得（存在しない ID は結果に含まれない）
+   */
+  findByIds(ids: number[]): Promise<Location[]>;
+
   /**
    * 新しい撮影地点を作成
    */
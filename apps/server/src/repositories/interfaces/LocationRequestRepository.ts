@@ -0,0 +1,46 @@
+import {
+  LocationRequest,
+  LocationRequestBody,
+  LocationRequestStatus,
+} from "@fuji-calendar/types";
+
+/**
+ * 撮影地点候補リポジトリインターフェース
+ * 訪問者から投稿された撮影地点の候補と、その審査結果へのアクセスを抽象化
+ */
+export interface LocationRequestRepository {
+  /**
+   * 撮影地点の候補を審査待ちとして作成
+   */
+  create(
+    data: LocationRequestBody & { requesterIp: string },
+  ): Promise<LocationRequest>;
+
+  /**
+   * ID で撮影地点の候補を取得
+   */
+  findById(id: number): Promise<LocationRequest | null>;
+
+  /**
+   * 撮影地点の候補を投稿の古い順に取得（status 省略時は全件）
+   */
+  findAll(status?: LocationRequestStatus): Promise<LocationRequest[]>;
+
+  /**
+   * 承認として記録
+   */
+  markApproved(
+    id: number,
+    adminId: number,
+    locationId: number,
+  ): Promise<LocationRequest>;
+
+  /**
+   * 却下として記録
+   */
+  markRejected(
+    id: number,
+    adminId: number,
+    reason: string,
+  ): Promise<LocationRequest>;
+}
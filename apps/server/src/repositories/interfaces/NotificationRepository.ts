@@ -0,0 +1,51 @@
+import {
+  NotificationChannel,
+  NotificationChannelType,
+} from "@fuji-calendar/types";
+
+/**
+ * 保存されている通知先（API では返さない署名鍵・ユーザー ID を含む）
+ */
+export interface NotificationChannelRecord extends NotificationChannel {
+  userId: number;
+  secret: string | null;
+}
+
+/**
+ * 通知先の作成・更新内容
+ */
+export interface NotificationChannelData {
+  type: NotificationChannelType;
+  target: string;
+  secret: string | null;
+  leadTimeMinutes: number;
+  enabled: boolean;
+}
+
+/**
+ * 通知先リポジトリインターフェース
+ * ユーザーごとの通知先（通知方法と何分前に通知するか）へのアクセスを抽象化
+ */
+export interface NotificationRepository {
+  /**
+   * ユーザーの通知先を作成順に取得
+   */
+  findChannelsByUserId(userId: number): Promise<NotificationChannelRecord[]>;
+
+  /**
+   * ID で通知先を取得
+   */
+  findChannelById(id: number): Promise<NotificationChannelRecord | null>;
+
+  createChannel(
+    userId: number,
+    data: NotificationChannelData,
+  ): Promise<NotificationChannelRecord>;
+
+  updateChannel(
+    id: number,
+    data: NotificationChannelData,
+  ): Promise<NotificationChannelRecord>;
+
+  deleteChannel(id: number): Promise<void>;
+}
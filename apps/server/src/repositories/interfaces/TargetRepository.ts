@@ -0,0 +1,53 @@
+import {
+  CreateTargetRequest,
+  LocationTarget,
+  Target,
+} from "@fuji-calendar/types";
+
+/**
+ * 整列対象リポジトリインターフェース
+ * 整列対象と撮影地点との関連（事前計算値）へのアクセスを抽象化
+ */
+export interface TargetRepository {
+  /**
+   * 全ての整列対象を取得
+   */
+  findAll(): Promise<Target[]>;
+
+  /**
+   * 識別子で整列対象を取得
+   */
+  findBySlug(slug: string): Promise<Target | null>;
+
+  /**
+   * ID で整列対象を取得
+   */
+  findById(id: number): Promise<Target | null>;
+
+  /**
+   * 新しい整列対象を作成
+   */
+  create(data: CreateTargetRequest): Promise<Target>;
+
+  /**
+   * 撮影地点に関連付けられた整列対象を取得
+   */
+  findLocationTargets(locationId: number): Promise<LocationTarget[]>;
+
+  /**
+   * 撮影地点と整列対象の関連を作成・更新
+   */
+  upsertLocationTarget(
+    locationId: number,
+    targetId: number,
+    geometry: { azimuth: number; elevation: number; distance: number },
+  ): Promise<LocationTarget>;
+
+  /**
+   * 指定以外の整列対象との関連を削除
+   */
+  deleteLocationTargetsExcept(
+    locationId: number,
+    targetIds: number[],
+  ): Promise<void>;
+}
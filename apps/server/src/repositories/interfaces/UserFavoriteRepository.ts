@@ -0,0 +1,72 @@
+import { FavoriteEvent, Favorites } from "@fuji-calendar/types";
+
+/**
+ * 通知の予定に使うお気に入りイベント（保存行の ID とユーザー ID を含む）
+ */
+export interface StoredFavoriteEvent {
+  favoriteId: number;
+  userId: number;
+  event: FavoriteEvent;
+}
+
+/**
+ * ユーザーのお気に入りリポジトリインターフェース
+ * サーバーに保存したお気に入りの撮影地点・イベントへのアクセスを抽象化
+ */
+export interface UserFavoriteRepository {
+  /**
+   * ユーザーのお気に入りをすべて取得
+   */
+  findByUserId(userId: number): Promise<Favorites>;
+
+  /**
+   * ユーザーの指定日時より後のお気に入りイベントを取得（イベント時刻順）
+   */
+  findUpcomingEvents(userId: number, from: Date): Promise<StoredFavoriteEvent[]>;
+
+  /**
+   * 保存行の ID でお気に入りイベントを取得
+   */
+  findEventByFavoriteId(favoriteId: number): Promise<StoredFavoriteEvent | null>;
+
+  /**
+   * 撮影地点をお気に入りに追加（登録済みなら何もしない）
+   * 撮影地点が存在しない場合は false
+   */
+  addLocation(userId: number, locationId: number): Promise<boolean>;
+
+  /**
+   * 撮影地点をお気に入りから削除（削除した場合は true）
+   */
+  removeLocation(userId: number, locationId: number): Promise<boolean>;
+
+  /**
+   * イベントをお気に入りに追加（登録済みなら何もしない）
+   * イベントの撮影地点が存在しない場合は false
+   */
+  addEvent(userId: number, event: FavoriteEvent): Promise<boolean>;
+
+  /**
+   * イベントをお気に入りから削除（削除した場合は true）
+   */
+  removeEvent(userId: number, eventId: string): Promise<boolean>;
+
+  /**
+   * 未登録のお気に入りをまとめて追加（存在しない撮影地点のものは除く）
+   * 追加した件数を返す
+   */
+  merge(
+    userId: number,
+    favorites: Favorites,
+  ): Promise<{ locations: number; events: number }>;
+
+  /**
+   * イベントの再計算後、期間内のお気に入りイベントを再計算後のイベントに照合し、ID・時刻を更新
+   * locationId が null の場合は全地点が対象。更新したお気に入りのユーザー ID を返す
+   */
+  rematchEvents(
+    locationId: number | null,
+    startTime: Date,
+    endTime: Date,
+  ): Promise<number[]>;
+}
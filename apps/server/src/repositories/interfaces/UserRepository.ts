@@ -0,0 +1,33 @@
+import { User } from "@fuji-calendar/types";
+
+/**
+ * 一般ユーザーリポジトリインターフェース
+ * ユーザーアカウントと、ログインリンクのトークンへのアクセスを抽象化
+ */
+export interface UserRepository {
+  /**
+   * ID でユーザーを取得
+   */
+  findById(id: number): Promise<User | null>;
+
+  /**
+   * ログインしたユーザーを取得（未登録のメールアドレスはユーザーを作成）
+   * 最終ログイン日時を更新する
+   */
+  upsertForLogin(email: string): Promise<User>;
+
+  /**
+   * ログインリンクのトークン（ハッシュ）を保存
+   */
+  createLoginToken(
+    email: string,
+    tokenHash: string,
+    expiresAt: Date,
+  ): Promise<void>;
+
+  /**
+   * 有効なトークンを使用済みにしてメールアドレスを返す
+   * 存在しない・期限切れ・使用済みの場合は null
+   */
+  consumeLoginToken(tokenHash: string): Promise<string | null>;
+}
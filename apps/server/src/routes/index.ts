@@ -5,13 +5,34 @@ import LocationController from "../controllers/LocationController";
 import { CalendarController } from "../controllers/CalendarController";
 import { AuthController } from "../controllers/AuthController";
 import { BackgroundJobController } from "../controllers/BackgroundJobController";
+import { LineOfSightController } from "../controllers/LineOfSightController";
+import { TargetController } from "../controllers/TargetController";
+import { IcsController } from "../controllers/IcsController";
+import { AlignmentLineController } from "../controllers/AlignmentLineController";
+import { EventPathController } from "../controllers/EventPathController";
+import { HistoryController } from "../controllers/HistoryController";
+import { LocationRequestController } from "../controllers/LocationRequestController";
+import { UserController } from "../controllers/UserController";
+import { NotificationController } from "../controllers/NotificationController";
+import { ApiKeyController } from "../controllers/ApiKeyController";
+import { GraphQLController } from "../controllers/GraphQLController";
+import { RealtimeController } from "../controllers/RealtimeController";
 import {
   authenticateAdmin,
+  authenticateUser,
   authRateLimit,
   adminApiRateLimit,
+  locationRequestRateLimit,
+  loginLinkRateLimit,
+  notificationTestRateLimit,
+  observationReportRateLimit,
+  icsFeedRateLimit,
+  alignmentLineRateLimit,
+  graphqlRateLimit,
 } from "../middleware/auth";
 import { DIContainer } from "../di/DIContainer";
 import { createSystemSettingsRouter } from "./systemSettings";
+import { createV1Router } from "./v1";
 
 const serverLogger = getComponentLogger("server");
 
@@ -26,6 +47,38 @@ export function setupRoutes(app: Express, container: DIContainer): void {
   const authController = container.resolve(
     "AuthController",
   ) as AuthController;
+  const lineOfSightController = container.resolve(
+    "LineOfSightController",
+  ) as LineOfSightController;
+  const targetController = container.resolve(
+    "TargetController",
+  ) as TargetController;
+  const icsController = container.resolve("IcsController") as IcsController;
+  const alignmentLineController = container.resolve(
+    "AlignmentLineController",
+  ) as AlignmentLineController;
+  const eventPathController = container.resolve(
+    "EventPathController",
+  ) as EventPathController;
+  const historyController = container.resolve(
+    "HistoryController",
+  ) as HistoryController;
+  const locationRequestController = container.resolve(
+    "LocationRequestController",
+  ) as LocationRequestController;
+  const apiKeyController = container.resolve(
+    "ApiKeyController",
+  ) as ApiKeyController;
+  const graphQLController = container.resolve(
+    "GraphQLController",
+  ) as GraphQLController;
+  const realtimeController = container.resolve(
+    "RealtimeController",
+  ) as RealtimeController;
+  const userController = container.resolve("UserController") as UserController;
+  const notificationController = container.resolve(
+    "NotificationController",
+  ) as NotificationController;
   const backgroundJobController = new BackgroundJobController(container);
 
   // ヘルスチェック
@@ -65,6 +118,14 @@ export function setupRoutes(app: Express, container: DIContainer): void {
     },
   );
 
+  // ジョブの進捗のリアルタイム配信（Server-Sent Events）
+  app.get(
+    "/api/admin/queue/stream",
+    adminApiRateLimit,
+    authenticateAdmin,
+    realtimeController.streamAdminUpdates.bind(realtimeController),
+  );
+
   // 同時実行数の取得
   app.get(
     "/api/admin/queue/concurrency",
@@ -162,6 +223,11 @@ export function setupRoutes(app: Express, container: DIContainer): void {
     adminApiRateLimit,
     backgroundJobController.triggerBackgroundJob.bind(backgroundJobController),
   );
+  app.get(
+    "/api/admin/event-generations",
+    authenticateAdmin,
+    backgroundJobController.getEventGenerations.bind(backgroundJobController),
+  );
 
   // 失敗したジョブをクリア
   app.post(
@@ -261,7 +327,23 @@ export function setupRoutes(app: Express, container: DIContainer): void {
     locationController.deleteLocation.bind(locationController),
   );
 
-  // イベント API
+  // 整列対象 API
+  app.get("/api/targets", targetController.getTargets.bind(targetController));
+  app.get(
+    "/api/locations/:id/targets",
+    targetController.getLocationTargets.bind(targetController),
+  );
+
+  // イベント API（?target= で整列対象を指定、省略時は富士山）
+  app.get(
+    "/api/calendar/range",
+    calendarController.getRangeEvents.bind(calendarController),
+  );
+  // カレンダー更新通知（Server-Sent Events、イベント再計算時に対象の年月を送る）
+  app.get(
+    "/api/calendar/updates",
+    realtimeController.streamPublicUpdates.bind(realtimeController),
+  );
   app.get(
     "/api/calendar/:year/:month",
     calendarController.getMonthlyCalendar.bind(calendarController),
@@ -274,6 +356,10 @@ export function setupRoutes(app: Express, container: DIContainer): void {
     "/api/events/upcoming",
     calendarController.getUpcomingEvents.bind(calendarController),
   );
+  app.get(
+    "/api/events/:eventId/path",
+    eventPathController.getEventPath.bind(eventPathController),
+  );
   app.get(
     "/api/calendar/location/:locationId/:year",
     calendarController.getLocationYearlyEvents.bind(calendarController),
@@ -283,6 +369,65 @@ export function setupRoutes(app: Express, container: DIContainer): void {
     calendarController.getCalendarStats.bind(calendarController),
   );
 
+  // 公開 API v1（API キー認証、OpenAPI ドキュメントは /api/v1/openapi.json）
+  app.use("/api/v1", createV1Router(container));
+
+  // GraphQL API（撮影地点・イベント・統計を 1 回のリクエストで取得）
+  app.post(
+    "/api/graphql",
+    graphqlRateLimit,
+    graphQLController.execute.bind(graphQLController),
+  );
+
+  // 撮影地点の逆算 API（指定日に天体が山頂に重なる地上の線と近くの撮影地点）
+  app.get(
+    "/api/alignment-line",
+    alignmentLineRateLimit,
+    alignmentLineController.getAlignmentLine.bind(alignmentLineController),
+  );
+
+  // 過去イベント API（撮影結果の報告と地点ごとの成功率）
+  app.get(
+    "/api/history",
+    historyController.getHistoricalEvents.bind(historyController),
+  );
+  app.get(
+    "/api/history/locations/:locationId/stats",
+    historyController.getLocationStats.bind(historyController),
+  );
+  app.get(
+    "/api/history/locations/:locationId/monthly",
+    historyController.getMonthlySummaries.bind(historyController),
+  );
+  app.post(
+    "/api/history/:id/report",
+    observationReportRateLimit,
+    historyController.reportOutcome.bind(historyController),
+  );
+
+  // 撮影地点候補の投稿 API（管理者の承認後に地点として追加）
+  app.post(
+    "/api/location-requests",
+    locationRequestRateLimit,
+    locationRequestController.submitRequest.bind(locationRequestController),
+  );
+
+  // iCalendar フィード API（?types= でイベント種別、?alarm= で通知の分数を指定）
+  app.get("/api/ics/all.ics", icsController.getAllFeed.bind(icsController));
+  app.get(
+    "/api/ics/location/:id.ics",
+    icsController.getLocationFeed.bind(icsController),
+  );
+  app.post(
+    "/api/ics/favorites",
+    icsFeedRateLimit,
+    icsController.createFavoritesFeed.bind(icsController),
+  );
+  app.get(
+    "/api/ics/favorites/:token.ics",
+    icsController.getFavoritesFeed.bind(icsController),
+  );
+
   // 認証 API
   app.post(
     "/api/auth/login",
@@ -311,6 +456,81 @@ export function setupRoutes(app: Express, container: DIContainer): void {
     authController.changePassword.bind(authController),
   );
 
+  // 一般ユーザー API（メールのログインリンクでログインし、お気に入りをサーバーに保存）
+  app.post(
+    "/api/users/login-link",
+    loginLinkRateLimit,
+    userController.requestLoginLink.bind(userController),
+  );
+  app.post(
+    "/api/users/login-link/verify",
+    authRateLimit,
+    userController.verifyLoginLink.bind(userController),
+  );
+  app.get(
+    "/api/users/me",
+    authenticateUser,
+    userController.getMe.bind(userController),
+  );
+  app.get(
+    "/api/users/me/favorites",
+    authenticateUser,
+    userController.getFavorites.bind(userController),
+  );
+  app.post(
+    "/api/users/me/favorites/merge",
+    authenticateUser,
+    userController.mergeFavorites.bind(userController),
+  );
+  app.put(
+    "/api/users/me/favorites/locations/:locationId",
+    authenticateUser,
+    userController.addLocation.bind(userController),
+  );
+  app.delete(
+    "/api/users/me/favorites/locations/:locationId",
+    authenticateUser,
+    userController.removeLocation.bind(userController),
+  );
+  app.put(
+    "/api/users/me/favorites/events/:eventId",
+    authenticateUser,
+    userController.addEvent.bind(userController),
+  );
+  app.delete(
+    "/api/users/me/favorites/events/:eventId",
+    authenticateUser,
+    userController.removeEvent.bind(userController),
+  );
+
+  // お気に入りイベントの通知先（メール・Webhook・Slack・LINE）
+  app.get(
+    "/api/users/me/notification-channels",
+    authenticateUser,
+    notificationController.getChannels.bind(notificationController),
+  );
+  app.post(
+    "/api/users/me/notification-channels",
+    authenticateUser,
+    notificationController.createChannel.bind(notificationController),
+  );
+  app.put(
+    "/api/users/me/notification-channels/:id",
+    authenticateUser,
+    notificationController.updateChannel.bind(notificationController),
+  );
+  app.delete(
+    "/api/users/me/notification-channels/:id",
+    authenticateUser,
+    notificationController.deleteChannel.bind(notificationController),
+  );
+  app.post(
+    "/api/users/me/notification-channels/:id/test",
+    notificationTestRateLimit,
+    authenticateUser,
+    notificationController.sendTest.bind(notificationController),
+  );
+
   // 管理者向け一括再計算（キューベース処理）
   app.post(
     "/api/admin/regenerate-all",
@@ -417,6 +637,76 @@ export function setupRoutes(app: Express, container: DIContainer): void {
     authenticateAdmin,
     locationController.importLocations.bind(locationController),
   );
+  // 地形による見通しレポート
+  app.get(
+    "/api/admin/locations/line-of-sight",
+    adminApiRateLimit,
+    authenticateAdmin,
+    lineOfSightController.getLineOfSightReports.bind(lineOfSightController),
+  );
+  app.get(
+    "/api/admin/locations/:id/line-of-sight",
+    adminApiRateLimit,
+    authenticateAdmin,
+    lineOfSightController.getLocationLineOfSight.bind(lineOfSightController),
+  );
+  // 整列対象の管理
+  app.post(
+    "/api/admin/targets",
+    adminApiRateLimit,
+    authenticateAdmin,
+    targetController.createTarget.bind(targetController),
+  );
+  app.put(
+    "/api/admin/locations/:id/targets",
+    adminApiRateLimit,
+    authenticateAdmin,
+    targetController.updateLocationTargets.bind(targetController),
+  );
+  // 撮影地点候補の審査
+  app.get(
+    "/api/admin/location-requests",
+    adminApiRateLimit,
+    authenticateAdmin,
+    locationRequestController.getRequests.bind(locationRequestController),
+  );
+  app.post(
+    "/api/admin/location-requests/:id/approve",
+    adminApiRateLimit,
+    authenticateAdmin,
+    locationRequestController.approveRequest.bind(locationRequestController),
+  );
+  app.post(
+    "/api/admin/location-requests/:id/reject",
+    adminApiRateLimit,
+    authenticateAdmin,
+    locationRequestController.rejectRequest.bind(locationRequestController),
+  );
+  // 公開 API の API キー管理
+  app.get(
+    "/api/admin/api-keys",
+    adminApiRateLimit,
+    authenticateAdmin,
+    apiKeyController.getApiKeys.bind(apiKeyController),
+  );
+  app.post(
+    "/api/admin/api-keys",
+    adminApiRateLimit,
+    authenticateAdmin,
+    apiKeyController.createApiKey.bind(apiKeyController),
+  );
+  app.put(
+    "/api/admin/api-keys/:id",
+    adminApiRateLimit,
+    authenticateAdmin,
+    apiKeyController.updateApiKey.bind(apiKeyController),
+  );
+  app.delete(
+    "/api/admin/api-keys/:id",
+    adminApiRateLimit,
+    authenticateAdmin,
+    apiKeyController.deleteApiKey.bind(apiKeyController),
+  );
 
   // システム設定管理 API
   app.use(
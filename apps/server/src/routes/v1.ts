@@ -0,0 +1,50 @@
+import { Router } from "express";
+import { DIContainer } from "../di/DIContainer";
+import { ApiV1Controller } from "../controllers/ApiV1Controller";
+import { ApiKeyService } from "../services/ApiKeyService";
+import { authenticateApiKey } from "../middleware/auth";
+
+/**
+ * 公開 API v1 ルートファクトリ
+ * OpenAPI ドキュメント以外は X-API-Key ヘッダーの API キーが必要
+ */
+export const createV1Router = (container: DIContainer): Router => {
+  const router = Router();
+  const controller = container.resolve<ApiV1Controller>("ApiV1Controller");
+  const apiKeyService = container.resolve<ApiKeyService>("ApiKeyService");
+
+  // GET /api/v1/openapi.json - OpenAPI 3 ドキュメント（API キー不要）
+  router.get("/openapi.json", controller.getOpenApiDocument.bind(controller));
+
+  // API キー認証とキーごとのリクエスト数の制限を以降の全ルートに適用
+  router.use(authenticateApiKey(apiKeyService));
+
+  // GET /api/v1/calendar/:year/:month - 月間カレンダー
+  router.get(
+    "/calendar/:year/:month",
+    controller.getMonthlyCalendar.bind(controller),
+  );
+
+  // GET /api/v1/events/upcoming - 今後のイベント（:date より先に登録）
+  router.get("/events/upcoming", controller.getUpcomingEvents.bind(controller));
+
+  // GET /api/v1/events/:date - 日別イベント
+  router.get("/events/:date", controller.getDayEvents.bind(controller));
+
+  // GET /api/v1/locations - 撮影地点一覧
+  router.get("/locations", controller.getLocations.bind(controller));
+
+  // GET /api/v1/targets - 整列対象一覧
+  router.get("/targets", controller.getTargets.bind(controller));
+
+  // 未定義のパスは v1 のエラー形式で返す
+  router.use((req, res) => {
+    res.status(404).json({
+      success: false,
+      error: "Not Found",
+      message: "指定された API が見つかりません。",
+    });
+  });
+
+  return router;
+};
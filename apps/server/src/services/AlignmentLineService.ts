@@ -0,0 +1,260 @@
+import {
+  AlignmentLine,
+  AlignmentLineCandidate,
+  AlignmentLineEventType,
+  AlignmentLinePoint,
+  Location,
+} from "@fuji-calendar/types";
+import { getComponentLogger } from "@fuji-calendar/utils";
+import { LocationRepository } from "../repositories/interfaces/LocationRepository";
+import { CalendarRepository } from "../repositories/interfaces/CalendarRepository";
+import { TargetRepository } from "../repositories/interfaces/TargetRepository";
+import { AlignmentLineCalculator } from "./astronomical/AlignmentLineCalculator";
+import {
+  AlignmentTarget,
+  FUJI_ALIGNMENT_TARGET,
+  FUJI_TARGET_SLUG,
+  toAlignmentTarget,
+} from "./astronomical/AlignmentTarget";
+
+const logger = getComponentLogger("AlignmentLineService");
+
+// 地球の半径（m）
+const EARTH_RADIUS = 6371000;
+
+// 線上の点の時間間隔（分）
+const LINE_INTERVAL_MINUTES = 1;
+
+// 計算済みの線を保持する件数（超えた場合は古いものから破棄）
+const MAX_LINE_CACHE_ENTRIES = 500;
+
+/**
+ * 撮影地点の逆算の条件
+ */
+export interface AlignmentLineQuery {
+  date: string; // YYYY-MM-DD
+  eventType: AlignmentLineEventType;
+  startTime?: Date;
+  endTime?: Date;
+  radius: number; // 候補とする線からの距離（m）
+  observerElevation: number; // 線の計算に仮定する観測者の標高（m）
+  targetSlug: string;
+}
+
+/**
+ * 計算済みの線（時間範囲と線上の点）
+ */
+interface CalculatedLine {
+  startTime: Date;
+  endTime: Date;
+  points: AlignmentLinePoint[];
+}
+
+/**
+ * 撮影地点の逆算サービス
+ * 指定日に天体が山頂に重なる地上の線を求め、線の近くにある登録済みの撮影地点を順位付けする
+ */
+export class AlignmentLineService {
+  private lineCalc = new AlignmentLineCalculator();
+  private lineCache = new Map<string, CalculatedLine>();
+
+  constructor(
+    private locationRepository: LocationRepository,
+    private calendarRepository: CalendarRepository,
+    private targetRepository: TargetRepository,
+  ) {}
+
+  /**
+   * 線と候補地点を取得
+   * 整列対象が存在しない場合は null
+   */
+  async getAlignmentLine(
+    query: AlignmentLineQuery,
+  ): Promise<AlignmentLine | null> {
+    const targetRecord = await this.targetRepository.findBySlug(
+      query.targetSlug,
+    );
+    if (!targetRecord && query.targetSlug !== FUJI_TARGET_SLUG) {
+      return null;
+    }
+    const target = targetRecord
+      ? toAlignmentTarget(targetRecord)
+      : FUJI_ALIGNMENT_TARGET;
+
+    const { startTime, endTime, points } = this.getLine(query, target);
+
+    const candidates =
+      points.length >= 2 ? await this.findCandidates(points, query) : [];
+
+    logger.info("撮影地点の逆算完了", {
+      date: query.date,
+      eventType: query.eventType,
+      targetSlug: query.targetSlug,
+      points: points.length,
+      candidates: candidates.length,
+    });
+
+    return {
+      date: query.date,
+      eventType: query.eventType,
+      targetSlug: query.targetSlug,
+      observerElevation: query.observerElevation,
+      startTime,
+      endTime,
+      points,
+      candidates,
+    };
+  }
+
+  /**
+   * 線を計算（日付・天体・時間範囲・標高・整列対象ごとに結果を保持する）
+   * 線の計算は太陽・月の位置を 1 分ごとに求めるため重い
+   */
+  private getLine(
+    query: AlignmentLineQuery,
+    target: AlignmentTarget,
+  ): CalculatedLine {
+    const cacheKey = [
+      query.date,
+      query.eventType,
+      query.startTime?.getTime() ?? "",
+      query.endTime?.getTime() ?? "",
+      query.observerElevation,
+      JSON.stringify(target),
+    ].join(":");
+    const cached = this.lineCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    // 時間範囲の省略時は山頂での出入り時刻を基準にする
+    const defaultRange =
+      query.startTime && query.endTime
+        ? null
+        : this.lineCalc.getDefaultTimeRange(
+            query.eventType,
+            new Date(`${query.date}T12:00:00+09:00`),
+            target,
+          );
+    const startTime =
+      query.startTime ??
+      defaultRange?.startTime ??
+      new Date(`${query.date}T00:00:00+09:00`);
+    const endTime =
+      query.endTime ??
+      defaultRange?.endTime ??
+      new Date(`${query.date}T23:59:59+09:00`);
+
+    const line = {
+      startTime,
+      endTime,
+      points: this.lineCalc.calculateLine(
+        query.eventType,
+        startTime,
+        endTime,
+        LINE_INTERVAL_MINUTES,
+        query.observerElevation,
+        target,
+      ),
+    };
+
+    if (this.lineCache.size >= MAX_LINE_CACHE_ENTRIES) {
+      const oldestKey = this.lineCache.keys().next().value;
+      if (oldestKey !== undefined) {
+        this.lineCache.delete(oldestKey);
+      }
+    }
+    this.lineCache.set(cacheKey, line);
+    return line;
+  }
+
+  /**
+   * 線から radius 以内の撮影地点を、線までの近さと品質スコアで順位付け
+   * 品質スコアは同日・同種別の計算済みイベントから取得する
+   */
+  private async findCandidates(
+    points: AlignmentLinePoint[],
+    query: AlignmentLineQuery,
+  ): Promise<AlignmentLineCandidate[]> {
+    const locations = await this.locationRepository.findAll();
+    const nearby = locations
+      .map((location) => ({
+        location,
+        ...this.findNearestOnLine(location, points),
+      }))
+      .filter((candidate) => candidate.distance <= query.radius);
+
+    if (nearby.length === 0) {
+      return [];
+    }
+
+    const events = await this.calendarRepository.getEventsInRange(
+      query.date,
+      query.date,
+      {
+        locationIds: nearby.map((candidate) => candidate.location.id),
+        eventTypes: [query.eventType],
+        targetSlug: query.targetSlug,
+      },
+    );
+
+    return nearby
+      .map((candidate) => {
+        const event = events.find(
+          (event) => event.location.id === candidate.location.id,
+        );
+        const proximity = 1 - candidate.distance / query.radius;
+        const quality = (event?.qualityScore ?? 0) / 100;
+        return {
+          ...candidate,
+          event,
+          rankScore: Math.round(((proximity + quality) / 2) * 1000) / 1000,
+        };
+      })
+      .sort((a, b) => b.rankScore - a.rankScore || a.distance - b.distance);
+  }
+
+  /**
+   * 線上の最寄り点までの距離（m）と、その点の時刻（前後の点から補間）
+   * 線は短い区間なので、地点を中心とした平面に投影して計算する
+   */
+  private findNearestOnLine(
+    location: Location,
+    points: AlignmentLinePoint[],
+  ): { distance: number; estimatedTime: Date } {
+    const toRadians = Math.PI / 180;
+    const project = (point: { latitude: number; longitude: number }) => ({
+      x:
+        (point.longitude - location.longitude) *
+        toRadians *
+        EARTH_RADIUS *
+        Math.cos(location.latitude * toRadians),
+      y: (point.latitude - location.latitude) * toRadians * EARTH_RADIUS,
+    });
+
+    let nearest = { distance: Infinity, estimatedTime: points[0].time };
+    for (let i = 0; i < points.length - 1; i++) {
+      const a = project(points[i]);
+      const b = project(points[i + 1]);
+      const dx = b.x - a.x;
+      const dy = b.y - a.y;
+      const lengthSquared = dx * dx + dy * dy;
+      const t =
+        lengthSquared > 0
+          ? Math.min(1, Math.max(0, -(a.x * dx + a.y * dy) / lengthSquared))
+          : 0;
+      const distance = Math.hypot(a.x + t * dx, a.y + t * dy);
+
+      if (distance < nearest.distance) {
+        const startTime = points[i].time.getTime();
+        const endTime = points[i + 1].time.getTime();
+        nearest = {
+          distance,
+          estimatedTime: new Date(startTime + t * (endTime - startTime)),
+        };
+      }
+    }
+
+    return nearest;
+  }
+}
@@ -0,0 +1,220 @@
+import crypto from "crypto";
+import { ApiKey } from "@fuji-calendar/types";
+import { getComponentLogger } from "@fuji-calendar/utils";
+import {
+  ApiKeyRecord,
+  ApiKeyRepository,
+  ApiKeyUpdateData,
+} from "../repositories/interfaces/ApiKeyRepository";
+import { RedisService } from "./RedisService";
+
+const logger = getComponentLogger("ApiKeyService");
+
+// 発行するキーの接頭辞（キーの種類を見分けやすくする）
+const API_KEY_PREFIX = "fjc_";
+
+// 管理画面で識別に使うキーの先頭部分の長さ（接頭辞を含む）
+const KEY_PREFIX_LENGTH = 12;
+
+// 最終使用日時を記録する間隔（リクエストごとの DB 更新を避ける）
+const LAST_USED_UPDATE_INTERVAL_MS = 5 * 60 * 1000;
+
+// 日本時間の日付の境界
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+export const DEFAULT_RATE_LIMIT_PER_MINUTE = 60;
+export const DEFAULT_DAILY_QUOTA = 10000;
+
+/**
+ * リクエストの使用量の判定結果
+ * reset は制限がリセットされる日時（RateLimit-Reset ヘッダーの秒数の計算に使用）
+ */
+export interface ApiKeyUsageResult {
+  allowed: boolean;
+  exceeded?: "rate_limit" | "quota";
+  rateLimit: { limit: number; remaining: number; reset: Date };
+  quota: { limit: number; remaining: number; reset: Date };
+}
+
+/**
+ * 公開 API の API キーサービス
+ * キーは発行時に 1 回だけ返し、SHA-256 ハッシュのみ保存する
+ * キーごとの 1 分間のリクエスト数と 1 日（日本時間）のリクエスト数を Redis で数える
+ */
+export class ApiKeyService {
+  constructor(
+    private apiKeyRepository: ApiKeyRepository,
+    private redisService: RedisService | null,
+  ) {}
+
+  /**
+   * 全ての API キーと今日のリクエスト数
+   */
+  async getApiKeys(): Promise<ApiKey[]> {
+    const apiKeys = await this.apiKeyRepository.findAll();
+    const usage = await this.redisService?.getApiKeyDailyUsage(
+      apiKeys.map((apiKey) => apiKey.id),
+      this.getJstDay(new Date()),
+    );
+
+    return apiKeys.map((apiKey) => ({
+      ...apiKey,
+      usageToday: usage?.get(apiKey.id),
+    }));
+  }
+
+  /**
+   * API キーを発行
+   * 返したキーは再表示できないため、呼び出し側で利用者に一度だけ表示する
+   */
+  async createApiKey(
+    data: Omit<ApiKeyUpdateData, "enabled">,
+  ): Promise<{ apiKey: ApiKey; key: string }> {
+    const key = `${API_KEY_PREFIX}${crypto.randomBytes(24).toString("base64url")}`;
+    const apiKey = await this.apiKeyRepository.create({
+      ...data,
+      keyPrefix: key.slice(0, KEY_PREFIX_LENGTH),
+      keyHash: this.hashKey(key),
+    });
+
+    logger.info("API キー発行", {
+      apiKeyId: apiKey.id,
+      name: apiKey.name,
+      rateLimitPerMinute: apiKey.rateLimitPerMinute,
+      dailyQuota: apiKey.dailyQuota,
+    });
+
+    return { apiKey, key };
+  }
+
+  /**
+   * API キーの名前・制限・有効状態を更新（存在しない場合は null）
+   */
+  async updateApiKey(
+    id: number,
+    data: ApiKeyUpdateData,
+  ): Promise<ApiKey | null> {
+    const existing = await this.apiKeyRepository.findById(id);
+    if (!existing) {
+      return null;
+    }
+
+    const apiKey = await this.apiKeyRepository.update(id, data);
+    logger.info("API キー更新", { apiKeyId: id, ...data });
+
+    return apiKey;
+  }
+
+  /**
+   * API キーを削除（存在しない場合は false）
+   */
+  async deleteApiKey(id: number): Promise<boolean> {
+    const existing = await this.apiKeyRepository.findById(id);
+    if (!existing) {
+      return false;
+    }
+
+    await this.apiKeyRepository.delete(id);
+    logger.info("API キー削除", { apiKeyId: id, name: existing.name });
+
+    return true;
+  }
+
+  /**
+   * キーを検証して有効な API キーを返す（無効・停止中の場合は null）
+   */
+  async authenticate(key: string): Promise<ApiKeyRecord | null> {
+    if (!key.startsWith(API_KEY_PREFIX)) {
+      return null;
+    }
+
+    const apiKey = await this.apiKeyRepository.findByHash(this.hashKey(key));
+    if (!apiKey || !apiKey.enabled) {
+      return null;
+    }
+
+    if (
+      !apiKey.lastUsedAt ||
+      Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL_MS
+    ) {
+      this.apiKeyRepository
+        .updateLastUsedAt(apiKey.id, new Date())
+        .catch((error) => {
+          logger.warn("API キー最終使用日時の記録に失敗", {
+            apiKeyId: apiKey.id,
+            error,
+          });
+        });
+    }
+
+    return apiKey;
+  }
+
+  /**
+   * リクエストを 1 件数えて、1 分間の制限と 1 日の上限を判定
+   * Redis が無効または接続できない場合は制限せずに通す
+   */
+  async consume(apiKey: ApiKeyRecord): Promise<ApiKeyUsageResult> {
+    const now = new Date();
+    const minuteWindow = Math.floor(now.getTime() / 60000);
+    const rateLimitReset = new Date((minuteWindow + 1) * 60000);
+    const quotaReset = this.getNextJstMidnight(now);
+
+    const usage = await this.redisService?.incrementApiKeyUsage(
+      apiKey.id,
+      minuteWindow,
+      this.getJstDay(now),
+    );
+    if (!usage) {
+      logger.warn("API キーの使用量を数えられないため制限せずに通します", {
+        apiKeyId: apiKey.id,
+      });
+    }
+
+    const minuteCount = usage?.minute ?? 0;
+    const dayCount = usage?.day ?? 0;
+    const exceeded =
+      dayCount > apiKey.dailyQuota
+        ? "quota"
+        : minuteCount > apiKey.rateLimitPerMinute
+          ? "rate_limit"
+          : undefined;
+
+    return {
+      allowed: !exceeded,
+      exceeded,
+      rateLimit: {
+        limit: apiKey.rateLimitPerMinute,
+        remaining: Math.max(apiKey.rateLimitPerMinute - minuteCount, 0),
+        reset: rateLimitReset,
+      },
+      quota: {
+        limit: apiKey.dailyQuota,
+        remaining: Math.max(apiKey.dailyQuota - dayCount, 0),
+        reset: quotaReset,
+      },
+    };
+  }
+
+  private hashKey(key: string): string {
+    return crypto.createHash("sha256").update(key).digest("hex");
+  }
+
+  /**
+   * 日本時間の日付（YYYY-MM-DD）
+   */
+  private getJstDay(date: Date): string {
+    return new Date(date.getTime() + JST_OFFSET_MS).toISOString().slice(0, 10);
+  }
+
+  /**
+   * 次の日本時間 0 時
+   */
+  private getNextJstMidnight(date: Date): Date {
+    const jst = new Date(date.getTime() + JST_OFFSET_MS);
+    return new Date(
+      Date.UTC(jst.getUTCFullYear(), jst.getUTCMonth(), jst.getUTCDate() + 1) -
+        JST_OFFSET_MS,
+    );
+  }
+}
@@ -3,26 +3,51 @@ import {
   FujiEvent,
   SunPosition,
   MoonPosition,
+  EventCelestialPath,
 } from "@fuji-calendar/types";
 import { getComponentLogger, timeUtils } from "@fuji-calendar/utils";
 import { CoordinateCalculator } from "./astronomical/CoordinateCalculator";
 import { CelestialPositionCalculator } from "./astronomical/CelestialPositionCalculator";
-import { FujiAlignmentCalculator } from "./astronomical/FujiAlignmentCalculator";
+import {
+  AlignmentBody,
+  FujiAlignmentCalculator,
+} from "./astronomical/FujiAlignmentCalculator";
 import { SeasonCalculator } from "./astronomical/SeasonCalculator";
+import { SpecialEventCalculator } from "./astronomical/SpecialEventCalculator";
 import { SystemSettingsService } from "./SystemSettingsService";
+import { LineOfSightAnalyzer } from "./terrain/LineOfSightAnalyzer";
+import {
+  AlignmentTarget,
+  FUJI_ALIGNMENT_TARGET,
+} from "./astronomical/AlignmentTarget";
 
 // 既存のインターフェースをインポート
 export interface AstronomicalCalculator {
-  calculateDiamondFuji(date: Date, locations: Location[]): Promise<FujiEvent[]>;
-  calculatePearlFuji(date: Date, locations: Location[]): Promise<FujiEvent[]>;
+  calculateDiamondFuji(
+    date: Date,
+    locations: Location[],
+    target?: AlignmentTarget,
+  ): Promise<FujiEvent[]>;
+  calculatePearlFuji(
+    date: Date,
+    locations: Location[],
+    target?: AlignmentTarget,
+  ): Promise<FujiEvent[]>;
+  calculateCelestialAlignments(
+    date: Date,
+    locations: Location[],
+    target?: AlignmentTarget,
+  ): Promise<FujiEvent[]>;
   calculateMonthlyEvents(
     year: number,
     month: number,
     locations: Location[],
+    target?: AlignmentTarget,
   ): Promise<FujiEvent[]>;
   calculateLocationYearlyEvents(
     location: Location,
     year: number,
+    target?: AlignmentTarget,
   ): Promise<FujiEvent[]>;
   getSunPosition(
     date: Date,
@@ -44,6 +69,14 @@ export interface AstronomicalCalculator {
   getSunMaxElevation(date: Date, location: Location): number;
   getDiamondFujiSeasonMessage(date: Date, location: Location): string | null;
   isVisibleMoonPhase(date: Date): boolean;
+  calculateBodyPath(
+    body: AlignmentBody,
+    location: Location,
+    startTime: Date,
+    endTime: Date,
+    intervalSeconds: number,
+    target?: AlignmentTarget,
+  ): Promise<Omit<EventCelestialPath, "eventId" | "eventTime" | "bodyName">>;
 }
 
 /**
@@ -63,16 +96,25 @@ export class AstronomicalCalculatorImpl implements AstronomicalCalculator {
   private celestialCalc = new CelestialPositionCalculator();
   private alignmentCalc: FujiAlignmentCalculator;
   private seasonCalc = new SeasonCalculator();
-
-  constructor(settingsService: SystemSettingsService) {
-    this.alignmentCalc = new FujiAlignmentCalculator(settingsService);
+  private specialEventCalc = new SpecialEventCalculator();
+
+  constructor(
+    settingsService: SystemSettingsService,
+    lineOfSightAnalyzer?: LineOfSightAnalyzer,
+  ) {
+    this.alignmentCalc = new FujiAlignmentCalculator(
+      settingsService,
+      lineOfSightAnalyzer,
+    );
     this.logger.info("AstronomicalCalculator 初期化完了", {
       components: [
         "CoordinateCalculator",
         "CelestialPositionCalculator",
         "FujiAlignmentCalculator",
         "SeasonCalculator",
+        "SpecialEventCalculator",
       ],
+      terrainOcclusion: lineOfSightAnalyzer?.isEnabled() ?? false,
     });
   }
 
@@ -82,6 +124,7 @@ export class AstronomicalCalculatorImpl implements AstronomicalCalculator {
   async calculateDiamondFuji(
     date: Date,
     locations: Location[],
+    target: AlignmentTarget = FUJI_ALIGNMENT_TARGET,
   ): Promise<FujiEvent[]> {
     const startTime = Date.now();
     const allEvents: FujiEvent[] = [];
@@ -93,8 +136,10 @@ export class AstronomicalCalculatorImpl implements AstronomicalCalculator {
           const events = await this.alignmentCalc.findDiamondFuji(
             date,
             location,
+            target,
           );
-          return events;
+          // 日食と重なる整列に印を付ける
+          return this.specialEventCalc.annotateSpecialEvents(events);
         } catch (error) {
           this.logger.error("ダイヤモンド富士計算エラー（個別地点）", error, {
             date: timeUtils.formatDateString(date),
@@ -131,6 +176,7 @@ export class AstronomicalCalculatorImpl implements AstronomicalCalculator {
   async calculatePearlFuji(
     date: Date,
     locations: Location[],
+    target: AlignmentTarget = FUJI_ALIGNMENT_TARGET,
   ): Promise<FujiEvent[]> {
     const startTime = Date.now();
     const allEvents: FujiEvent[] = [];
@@ -139,8 +185,13 @@ export class AstronomicalCalculatorImpl implements AstronomicalCalculator {
       // 複数の地点に対して並列処理
       const eventPromises = locations.map(async (location) => {
         try {
-          const events = await this.alignmentCalc.findPearlFuji(date, location);
-          return events;
+          const events = await this.alignmentCalc.findPearlFuji(
+            date,
+            location,
+            target,
+          );
+          // 月食・スーパームーンと重なる整列に印を付ける
+          return this.specialEventCalc.annotateSpecialEvents(events);
         } catch (error) {
           this.logger.error("パール富士計算エラー（個別地点）", error, {
             date: timeUtils.formatDateString(date),
@@ -171,6 +222,35 @@ export class AstronomicalCalculatorImpl implements AstronomicalCalculator {
     }
   }
 
+  /**
+   * 惑星・恒星と山頂の整列を計算
+   */
+  async calculateCelestialAlignments(
+    date: Date,
+    locations: Location[],
+    target: AlignmentTarget = FUJI_ALIGNMENT_TARGET,
+  ): Promise<FujiEvent[]> {
+    const allEvents: FujiEvent[] = [];
+
+    for (const location of locations) {
+      try {
+        const events = await this.alignmentCalc.findCelestialObjectAlignments(
+          date,
+          location,
+          target,
+        );
+        allEvents.push(...events);
+      } catch (error) {
+        this.logger.error("惑星・恒星整列計算エラー（個別地点）", error, {
+          date: timeUtils.formatDateString(date),
+          locationId: location.id,
+        });
+      }
+    }
+
+    return allEvents;
+  }
+
   /**
    * 月間イベントを計算
    */
@@ -178,6 +258,7 @@ export class AstronomicalCalculatorImpl implements AstronomicalCalculator {
     year: number,
     month: number,
     locations: Location[],
+    target: AlignmentTarget = FUJI_ALIGNMENT_TARGET,
   ): Promise<FujiEvent[]> {
     const allEvents: FujiEvent[] = [];
     const daysInMonth = new Date(year, month, 0).getDate();
@@ -187,18 +268,21 @@ export class AstronomicalCalculatorImpl implements AstronomicalCalculator {
       for (let day = 1; day <= daysInMonth; day++) {
         const date = new Date(year, month - 1, day);
 
-        const [diamondEvents, pearlEvents] = await Promise.all([
-          this.calculateDiamondFuji(date, [location]),
-          this.calculatePearlFuji(date, [location]),
-        ]);
+        const [diamondEvents, pearlEvents, celestialEvents] =
+          await Promise.all([
+            this.calculateDiamondFuji(date, [location], target),
+            this.calculatePearlFuji(date, [location], target),
+            this.calculateCelestialAlignments(date, [location], target),
+          ]);
 
-        allEvents.push(...diamondEvents, ...pearlEvents);
+        allEvents.push(...diamondEvents, ...pearlEvents, ...celestialEvents);
       }
     }
 
     this.logger.info("月間イベント計算完了（複数地点）", {
       year,
       month,
+      target: target.slug,
       locationCount: locations.length,
       totalEvents: allEvents.length,
     });
@@ -339,12 +423,34 @@ export class AstronomicalCalculatorImpl implements AstronomicalCalculator {
     return this.celestialCalc.isVisibleMoonPhase(moonPosition.illumination);
   }
 
+  /**
+   * 撮影地点から見た天体の軌跡を計算
+   */
+  async calculateBodyPath(
+    body: AlignmentBody,
+    location: Location,
+    startTime: Date,
+    endTime: Date,
+    intervalSeconds: number,
+    target: AlignmentTarget = FUJI_ALIGNMENT_TARGET,
+  ): Promise<Omit<EventCelestialPath, "eventId" | "eventTime" | "bodyName">> {
+    return this.alignmentCalc.calculateBodyPath(
+      body,
+      location,
+      startTime,
+      endTime,
+      intervalSeconds,
+      target,
+    );
+  }
+
   /**
    * 地点の年間イベントを計算（非推奨 - calculateMonthlyEvents の使用を推奨）
    */
   async calculateLocationYearlyEvents(
     location: Location,
     year: number,
+    target: AlignmentTarget = FUJI_ALIGNMENT_TARGET,
   ): Promise<FujiEvent[]> {
     this.logger.warn(
       "calculateLocationYearlyEvents は非推奨です。calculateMonthlyEvents の使用を推奨します。",
@@ -357,9 +463,12 @@ export class AstronomicalCalculatorImpl implements AstronomicalCalculator {
     const allEvents: FujiEvent[] = [];
 
     for (let month = 1; month <= 12; month++) {
-      const monthlyEvents = await this.calculateMonthlyEvents(year, month, [
-        location,
-      ]);
+      const monthlyEvents = await this.calculateMonthlyEvents(
+        year,
+        month,
+        [location],
+        target,
+      );
       allEvents.push(...monthlyEvents);
     }
 
@@ -1,10 +1,15 @@
 import * as cron from "node-cron";
 import { getComponentLogger } from "@fuji-calendar/utils";
 import type { DIContainer } from "../di/DIContainer";
+import type { EventCacheService } from "./EventCacheService";
+import type { HistoricalEventService } from "./HistoricalEventService";
+
+// 生成しておく年数（今年以降）の上限
+const MAX_EVENT_HORIZON_YEARS = 5;
 
 /**
  * バックグラウンドジョブスケジューラー
- * 年次データ更新などの定期実行を管理
+ * 年次データ更新（数年先までのローリング生成）などの定期実行を管理
  */
 export class BackgroundJobScheduler {
   private logger = getComponentLogger("BackgroundJobScheduler");
@@ -30,11 +35,11 @@ export class BackgroundJobScheduler {
 
   /**
    * 年次データ生成ジョブをスケジュール
-   * 毎年 12 月 1 日 AM 2:00 に翌年のデータを生成
+   * 毎月 1 日 AM 2:00 に、今年から設定年数先までの未生成の年のデータを生成
    */
   private scheduleYearlyDataGeneration(): void {
     const yearlyJob = cron.schedule(
-      "0 2 1 12 *", // 毎年 12 月 1 日 AM 2:00
+      "0 2 1 * *", // 毎月 1 日 AM 2:00
       async () => {
         await this.executeYearlyDataGeneration();
       },
@@ -47,49 +52,64 @@ export class BackgroundJobScheduler {
     this.scheduledJobs.push(yearlyJob);
 
     this.logger.info("年次データ生成ジョブをスケジュール", {
-      schedule: "毎年 12 月 1 日 AM 2:00 JST",
+      schedule: "毎月 1 日 AM 2:00 JST",
       timezone: "Asia/Tokyo",
     });
   }
 
   /**
    * 年次データ生成を実行
+   * 今年から event_horizon_years 年先までのうち、生成が完了していない地点・年をジョブに登録する
    */
   private async executeYearlyDataGeneration(): Promise<void> {
     try {
-      const nextYear = new Date().getFullYear() + 1;
+      const systemSettingsService = this.container.resolve(
+        "SystemSettingsService",
+      ) as any;
+      const { eventHorizonYears } =
+        await systemSettingsService.getPerformanceSettings();
+      const horizonYears = Math.min(
+        MAX_EVENT_HORIZON_YEARS,
+        Math.max(0, Math.floor(eventHorizonYears)),
+      );
+
+      const currentYear = new Date().getFullYear();
+      const targetYears = Array.from(
+        { length: horizonYears + 1 },
+        (_, i) => currentYear + i,
+      );
 
-      this.logger.info("年次データ生成開始", { targetYear: nextYear });
+      this.logger.info("年次データ生成開始", { targetYears });
 
       const queueService = this.container.resolve("QueueService") as any;
-      const locationRepository = this.container.resolve(
-        "LocationRepository",
-      ) as any;
+      const eventCacheService =
+        this.container.resolve<EventCacheService>("EventCacheService");
 
-      // 全地点を取得
-      const locations = await locationRepository.findAll();
+      // 生成が完了していない地点・年を取得
+      const pendingGenerations =
+        await eventCacheService.getPendingGenerations(targetYears);
 
       let totalJobsScheduled = 0;
-      const jobIds = [];
-
-      // 各地点に翌年のデータ生成ジョブを登録
-      for (const location of locations) {
-        const jobId = await queueService.scheduleLocationCalculation(
-          location.id,
-          nextYear,
-          nextYear,
-          "low", // 年次更新は低優先度
-        );
 
-        if (jobId) {
-          jobIds.push(jobId);
-          totalJobsScheduled++;
+      // 地点・年ごとにデータ生成ジョブを登録
+      for (const { locationId, years } of pendingGenerations) {
+        for (const year of years) {
+          const jobId = await queueService.scheduleLocationCalculation(
+            locationId,
+            year,
+            year,
+            "low", // 年次更新は低優先度
+          );
+
+          if (jobId) {
+            totalJobsScheduled++;
+          }
         }
       }
 
       this.logger.info("年次データ生成ジョブ登録完了", {
-        targetYear: nextYear,
-        totalLocations: locations.length,
+        targetYears,
+        pendingLocations: pendingGenerations.length,
         totalJobsScheduled,
         estimatedProcessingTime: `約${Math.ceil(totalJobsScheduled / 5)}分`,
       });
@@ -102,7 +122,7 @@ export class BackgroundJobScheduler {
    * メンテナンスタスクをスケジュール
    */
   private scheduleMaintenanceTasks(): void {
-    // 毎日 AM 3:00 - データベースクリーンアップ
+    // 毎日 AM 3:00 - データベースクリーンアップ・過去イベントの移動
     const dailyMaintenanceJob = cron.schedule(
       "0 3 * * *", // 毎日 AM 3:00
       async () => {
@@ -146,7 +166,7 @@ export class BackgroundJobScheduler {
     );
 
     this.logger.info("メンテナンスタスクをスケジュール", {
-      daily: "毎日 AM 3:00 JST - データベースクリーンアップ",
+      daily: "毎日 AM 3:00 JST - データベースクリーンアップ・過去イベントの移動",
       weekly: "毎週日曜日 AM 4:00 JST - 統計情報更新",
       monthly: "毎月 1 日 AM 5:00 JST - 古いデータクリーンアップ",
     });
@@ -168,8 +188,16 @@ export class BackgroundJobScheduler {
       // 失敗したジョブのクリーンアップ（7 日以上前）
       const cleanedJobs = await queueService.cleanFailedJobs(7);
 
+      // 前日までのイベントを履歴へ移動（撮影結果の報告を受け付ける）
+      const historicalEventService =
+        this.container.resolve<HistoricalEventService>(
+          "HistoricalEventService",
+        );
+      const archivedEvents = await historicalEventService.archivePastEvents();
+
       this.logger.info("日次メンテナンス完了", {
         cleanedFailedJobs: cleanedJobs,
+        archivedEvents,
       });
     } catch (error) {
       this.logger.error("日次メンテナンスエラー", error);
@@ -2,15 +2,21 @@ import { FujiEvent, CalendarStats } from "@fuji-calendar/types";
 import { getComponentLogger, timeUtils } from "@fuji-calendar/utils";
 import { CalendarService } from "./interfaces/CalendarService";
 import { CalendarRepository } from "../repositories/interfaces/CalendarRepository";
+import { FUJI_TARGET_SLUG } from "./astronomical/AlignmentTarget";
+import { WeatherService } from "./WeatherService";
 
 const logger = getComponentLogger("calendar-service");
 
 export class CalendarServiceImpl implements CalendarService {
-  constructor(private calendarRepository: CalendarRepository) {}
+  constructor(
+    private calendarRepository: CalendarRepository,
+    private weatherService: WeatherService,
+  ) {}
 
   async getMonthlyCalendar(
     year: number,
     month: number,
+    targetSlug: string = FUJI_TARGET_SLUG,
   ): Promise<{
     year: number;
     month: number;
@@ -23,11 +29,10 @@ export class CalendarServiceImpl implements CalendarService {
     const startTime = Date.now();
 
     try {
-      logger.info("月間カレンダーデータ取得開始", { year, month });
+      logger.info("月間カレンダーデータ取得開始", { year, month, targetSlug });
 
-      const events = await this.calendarRepository.getMonthlyEvents(
-        year,
-        month,
+      const events = await this.weatherService.annotateEvents(
+        await this.calendarRepository.getMonthlyEvents(year, month, targetSlug),
       );
 
       // カレンダーの日付範囲を動的に計算
@@ -98,11 +103,82 @@ export class CalendarServiceImpl implements CalendarService {
     }
   }
 
-  async getDayEvents(date: string): Promise<{ events: FujiEvent[] }> {
+  async getRangeEvents(
+    from: string,
+    to: string,
+    targetSlug: string = FUJI_TARGET_SLUG,
+    locationIds?: number[],
+  ): Promise<{
+    from: string;
+    to: string;
+    events: Array<{
+      date: string;
+      type: string;
+      events: FujiEvent[];
+    }>;
+  }> {
+    const startTime = Date.now();
+
+    try {
+      logger.info("期間イベント取得開始", {
+        from,
+        to,
+        targetSlug,
+        locationIds,
+      });
+
+      const events = await this.weatherService.annotateEvents(
+        await this.calendarRepository.getEventsInRange(from, to, {
+          targetSlug,
+          locationIds,
+        }),
+      );
+
+      // 日付ごとにイベントをグループ化（イベントのある日のみ、日付順）
+      const eventsByDate = new Map<string, FujiEvent[]>();
+      events.forEach((event) => {
+        const dateStr = timeUtils.formatDateString(new Date(event.time));
+        if (!eventsByDate.has(dateStr)) {
+          eventsByDate.set(dateStr, []);
+        }
+        eventsByDate.get(dateStr)!.push(event);
+      });
+
+      const responseEvents = [...eventsByDate.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([date, dayEvents]) => ({
+          date,
+          type: this.determineEventType(dayEvents),
+          events: dayEvents.sort(
+            (a, b) => new Date(a.time).getTime() - new Date(b.time).getTime(),
+          ),
+        }));
+
+      logger.info("期間イベント取得完了", {
+        from,
+        to,
+        eventDays: responseEvents.length,
+        totalEvents: events.length,
+        processingTime: Date.now() - startTime,
+      });
+
+      return { from, to, events: responseEvents };
+    } catch (error) {
+      logger.error("期間イベント取得エラー", { from, to, error });
+      throw error;
+    }
+  }
+
+  async getDayEvents(
+    date: string,
+    targetSlug: string = FUJI_TARGET_SLUG,
+  ): Promise<{ events: FujiEvent[] }> {
     try {
-      logger.info("日別イベント取得開始", { date });
+      logger.info("日別イベント取得開始", { date, targetSlug });
 
-      const events = await this.calendarRepository.getDayEvents(date);
+      const events = await this.weatherService.annotateEvents(
+        await this.calendarRepository.getDayEvents(date, targetSlug),
+      );
 
       // 時刻順でソート
       const sortedEvents = events.sort(
@@ -121,11 +197,16 @@ export class CalendarServiceImpl implements CalendarService {
     }
   }
 
-  async getUpcomingEvents(limit: number = 50): Promise<FujiEvent[]> {
+  async getUpcomingEvents(
+    limit: number = 50,
+    targetSlug: string = FUJI_TARGET_SLUG,
+  ): Promise<FujiEvent[]> {
     try {
-      logger.info("今後のイベント取得開始", { limit });
+      logger.info("今後のイベント取得開始", { limit, targetSlug });
 
-      const events = await this.calendarRepository.getUpcomingEvents(limit);
+      const events = await this.weatherService.annotateEvents(
+        await this.calendarRepository.getUpcomingEvents(limit, targetSlug),
+      );
 
       logger.info("今後のイベント取得完了", {
         eventCount: events.length,
@@ -142,13 +223,21 @@ export class CalendarServiceImpl implements CalendarService {
   async getLocationYearlyEvents(
     locationId: number,
     year: number,
+    targetSlug: string = FUJI_TARGET_SLUG,
   ): Promise<FujiEvent[]> {
     try {
-      logger.info("地点別年間イベント取得開始", { locationId, year });
-
-      const events = await this.calendarRepository.getLocationYearlyEvents(
+      logger.info("地点別年間イベント取得開始", {
         locationId,
         year,
+        targetSlug,
+      });
+
+      const events = await this.weatherService.annotateEvents(
+        await this.calendarRepository.getLocationYearlyEvents(
+          locationId,
+          year,
+          targetSlug,
+        ),
       );
 
       logger.info("地点別年間イベント取得完了", {
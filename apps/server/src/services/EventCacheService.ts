@@ -1,21 +1,70 @@
 import { prisma } from "../database/prisma";
 import { AstronomicalCalculator } from "./AstronomicalCalculator";
-import { Location, FujiEvent } from "@fuji-calendar/types";
+import { UserFavoriteService } from "./UserFavoriteService";
+import { RedisService } from "./RedisService";
+import { MonthCalculatedCallback } from "./interfaces/EventService";
+import { Location, FujiEvent, SpecialEventType } from "@fuji-calendar/types";
 import { getComponentLogger, StructuredLogger } from "@fuji-calendar/utils";
+import {
+  AlignmentTarget,
+  FUJI_ALIGNMENT_TARGET,
+  FUJI_TARGET_SLUG,
+  toAlignmentTarget,
+} from "./astronomical/AlignmentTarget";
+
+const ALL_MONTHS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12];
+
+/**
+ * 年ごとのイベント生成状況
+ */
+export interface YearGenerationProgress {
+  year: number;
+  totalLocations: number;
+  completedLocations: number;
+  failedLocations: number;
+  totalEvents: number;
+  lastGeneratedAt: Date | null;
+}
+
+/**
+ * 地点・年ごとの生成状況（event_generations の行）
+ */
+interface EventGenerationRow {
+  locationId: number;
+  year: number;
+  status: string;
+  eventCount: number;
+  generatedAt: Date;
+}
 
 /**
  * イベントキャッシュサービス
  * 事前計算されたダイヤモンド・パール富士データの管理
+ * 地点に関連付けられた整列対象（富士山以外の山頂・建造物を含む）ごとに計算する
  */
 export class EventCacheService {
   private astronomicalCalculator: AstronomicalCalculator;
+  private userFavoriteService: UserFavoriteService | null = null;
+  private redisService: RedisService | null;
   private logger: StructuredLogger;
 
-  constructor(astronomicalCalculator: AstronomicalCalculator) {
+  constructor(
+    astronomicalCalculator: AstronomicalCalculator,
+    redisService: RedisService | null = null,
+  ) {
     this.astronomicalCalculator = astronomicalCalculator;
+    this.redisService = redisService;
     this.logger = getComponentLogger("event-cache-service");
   }
 
+  /**
+   * UserFavoriteService を後から注入（循環依存対策）
+   * 再計算後にお気に入りイベントの時刻を更新し、通知を予定し直すために使う
+   */
+  setUserFavoriteService(userFavoriteService: UserFavoriteService): void {
+    this.userFavoriteService = userFavoriteService;
+  }
+
   /**
    * 全地点の年間データを事前計算・保存
    */
@@ -64,7 +113,11 @@ export class EventCacheService {
       });
 
       // 年間イベントを計算（バッチ処理で進捗報告）
-      const allEvents: Array<{ location: Location; events: FujiEvent[] }> = [];
+      const allEvents: Array<{
+        location: Location;
+        events: FujiEvent[];
+        failed?: boolean;
+      }> = [];
       const batchSize = 5; // 一度に処理する地点数を制限
 
       for (let i = 0; i < locationTyped.length; i += batchSize) {
@@ -82,11 +135,15 @@ export class EventCacheService {
         const batchResults = await Promise.all(
           batch.map(async (location) => {
             try {
-              const events =
-                await this.astronomicalCalculator.calculateLocationYearlyEvents(
-                  location,
-                  year,
-                );
+              const events = await this.calculateForTargets(
+                location.id,
+                (target) =>
+                  this.astronomicalCalculator.calculateLocationYearlyEvents(
+                    location,
+                    year,
+                    target,
+                  ),
+              );
               return { location, events };
             } catch (error) {
               this.logger.error("地点別計算エラー", error, {
@@ -94,7 +151,8 @@ export class EventCacheService {
                 locationId: location.id,
                 locationName: location.name,
               });
-              return { location, events: [] }; // エラー時は空配列を返す
+              await this.recordGeneration(location.id, year, error as Error);
+              return { location, events: [], failed: true }; // エラー時は空配列を返す
             }
           }),
         );
@@ -111,9 +169,9 @@ export class EventCacheService {
         totalEvents: events.length,
       });
 
-      // データベースに保存（バッチ保存）
-      const savedEvents = [];
-      const saveBatchSize = 100; // データベース保存のバッチサイズ
+      // データベースに保存（バッチ単位の一括挿入）
+      let savedCount = 0;
+      const saveBatchSize = 500; // データベース保存のバッチサイズ
 
       for (let i = 0; i < events.length; i += saveBatchSize) {
         const batch = events.slice(i, i + saveBatchSize);
@@ -126,44 +184,39 @@ export class EventCacheService {
           totalEvents: events.length,
         });
 
-        const batchSaved = await Promise.all(
-          batch.map((event) =>
-            prisma.locationEvent.create({
-              data: {
-                locationId: event.location.id,
-                eventDate: this.createJstDateOnly(event.time),
-                eventTime: event.time,
-                azimuth: event.azimuth || 0,
-                altitude: event.elevation || 0,
-                qualityScore: this.getQualityScore(event.accuracy),
-                moonPhase: event.moonPhase,
-                moonIllumination: event.moonIllumination,
-                calculationYear: year,
-                eventType: this.getEventType(event),
-                accuracy: this.mapAccuracy(event.accuracy),
-              },
-            }),
-          ),
-        );
+        const batchSaved = await prisma.locationEvent.createMany({
+          data: batch.map((event) => this.buildLocationEventData(event, year)),
+          skipDuplicates: true,
+        });
 
-        savedEvents.push(...batchSaved);
+        savedCount += batchSaved.count;
       }
 
+      for (const item of allEvents.filter((item) => !item.failed)) {
+        await this.recordGeneration(item.location.id, year, item.events.length);
+      }
+
+      await this.refreshFavoriteEvents(
+        null,
+        new Date(year, 0, 1),
+        new Date(year + 1, 0, 1),
+      );
+
+      await this.publishInvalidations(year, ALL_MONTHS);
+
       const endTime = Date.now();
 
       this.logger.info("年間キャッシュ生成完了", {
         year,
-        totalEvents: savedEvents.length,
+        totalEvents: savedCount,
         timeMs: endTime - startTime,
         locations: locationTyped.length,
-        avgEventsPerLocation: Math.round(
-          savedEvents.length / locationTyped.length,
-        ),
+        avgEventsPerLocation: Math.round(savedCount / locationTyped.length),
       });
 
       return {
         success: true,
-        totalEvents: savedEvents.length,
+        totalEvents: savedCount,
         timeMs: endTime - startTime,
       };
     } catch (error) {
@@ -242,33 +295,27 @@ export class EventCacheService {
       });
 
       // 月間イベントを計算
-      const events = await this.astronomicalCalculator.calculateMonthlyEvents(
-        year,
-        month,
-        [locationTyped],
+      const events = await this.calculateForTargets(locationId, (target) =>
+        this.astronomicalCalculator.calculateMonthlyEvents(
+          year,
+          month,
+          [locationTyped],
+          target,
+        ),
       );
 
       // データベースに保存
       const savedEvents = await Promise.all(
         events.map((event) =>
           prisma.locationEvent.create({
-            data: {
-              locationId: event.location.id,
-              eventDate: this.createJstDateOnly(event.time),
-              eventTime: event.time,
-              azimuth: event.azimuth || 0,
-              altitude: event.elevation || 0,
-              qualityScore: this.getQualityScore(event.accuracy),
-              moonPhase: event.moonPhase,
-              moonIllumination: event.moonIllumination,
-              calculationYear: year,
-              eventType: this.getEventType(event),
-              accuracy: this.mapAccuracy(event.accuracy),
-            },
+            data: this.buildLocationEventData(event, year),
           }),
         ),
       );
 
+      await this.refreshFavoriteEvents(locationId, monthStart, monthEnd);
+      await this.publishInvalidations(year, [month], [locationId]);
+
       const endTime = Date.now();
 
       this.logger.info("地点月間キャッシュ生成完了", {
@@ -366,37 +413,43 @@ export class EventCacheService {
 
       // その日のイベントを計算
       const date = new Date(year, month - 1, day, 12, 0, 0, 0); // JST 正午基準
-      const diamondEvents =
-        await this.astronomicalCalculator.calculateDiamondFuji(date, [
-          locationTyped,
-        ]);
-      const pearlEvents = await this.astronomicalCalculator.calculatePearlFuji(
-        date,
-        [locationTyped],
+      const events = await this.calculateForTargets(
+        locationId,
+        async (target) => {
+          const diamondEvents =
+            await this.astronomicalCalculator.calculateDiamondFuji(
+              date,
+              [locationTyped],
+              target,
+            );
+          const pearlEvents =
+            await this.astronomicalCalculator.calculatePearlFuji(
+              date,
+              [locationTyped],
+              target,
+            );
+          const celestialEvents =
+            await this.astronomicalCalculator.calculateCelestialAlignments(
+              date,
+              [locationTyped],
+              target,
+            );
+          return [...diamondEvents, ...pearlEvents, ...celestialEvents];
+        },
       );
-      const events = [...diamondEvents, ...pearlEvents];
 
       // データベースに保存
       const savedEvents = await Promise.all(
         events.map((event) =>
           prisma.locationEvent.create({
-            data: {
-              locationId: event.location.id,
-              eventDate: this.createJstDateOnly(event.time),
-              eventTime: event.time,
-              azimuth: event.azimuth || 0,
-              altitude: event.elevation || 0,
-              qualityScore: this.getQualityScore(event.accuracy),
-              moonPhase: event.moonPhase,
-              moonIllumination: event.moonIllumination,
-              calculationYear: year,
-              eventType: this.getEventType(event),
-              accuracy: this.mapAccuracy(event.accuracy),
-            },
+            data: this.buildLocationEventData(event, year),
           }),
         ),
       );
 
+      await this.refreshFavoriteEvents(locationId, dayStart, dayEnd);
+      await this.publishInvalidations(year, [month], [locationId]);
+
       const endTime = Date.now();
 
       this.logger.info("地点日別キャッシュ生成完了", {
@@ -434,6 +487,7 @@ export class EventCacheService {
   async generateLocationCache(
     locationId: number,
     year: number,
+    onMonthCalculated?: MonthCalculatedCallback,
   ): Promise<{
     success: boolean;
     totalEvents: number;
@@ -482,36 +536,44 @@ export class EventCacheService {
         },
       });
 
-      // 年間イベントを計算
-      const events =
-        await this.astronomicalCalculator.calculateLocationYearlyEvents(
-          locationTyped,
-          year,
-        );
+      // 月ごとに年間イベントを計算し、月が終わるたびに進捗を通知
+      const targets = await this.getLocationAlignmentTargets(locationId);
+      const events: FujiEvent[] = [];
+      for (const month of ALL_MONTHS) {
+        for (const target of targets) {
+          events.push(
+            ...(await this.astronomicalCalculator.calculateMonthlyEvents(
+              year,
+              month,
+              [locationTyped],
+              target,
+            )),
+          );
+        }
+        await onMonthCalculated?.(locationId, month);
+      }
 
       // データベースに保存
       const savedEvents = await Promise.all(
         events.map((event: any) =>
           prisma.locationEvent.create({
-            data: {
-              locationId: event.location.id,
-              eventDate: this.createJstDateOnly(event.time),
-              eventTime: event.time,
-              azimuth: event.azimuth || 0,
-              altitude: event.elevation || 0,
-              qualityScore: this.getQualityScore(event.accuracy),
-              moonPhase: event.moonPhase,
-              moonIllumination: event.moonIllumination,
-              calculationYear: year,
-              eventType: this.getEventType(event),
-              accuracy: this.mapAccuracy(event.accuracy),
-            },
+            data: this.buildLocationEventData(event, year),
           }),
         ),
       );
 
       const endTime = Date.now();
 
+      await this.recordGeneration(locationId, year, savedEvents.length);
+
+      await this.refreshFavoriteEvents(
+        locationId,
+        new Date(year, 0, 1),
+        new Date(year + 1, 0, 1),
+      );
+
+      await this.publishInvalidations(year, ALL_MONTHS, [locationId]);
+
       this.logger.info("地点キャッシュ生成完了", {
         locationId,
         year,
@@ -529,17 +591,263 @@ export class EventCacheService {
         locationId,
         year,
       });
+      await this.recordGeneration(locationId, year, error as Error);
       throw error;
     }
   }
 
   /**
-   * 精度レベルから品質スコアを計算
+   * 指定年の生成状況を年ごとに集計
    */
-  private getQualityScore(
-    accuracy?: "perfect" | "excellent" | "good" | "fair",
-  ): number {
-    switch (accuracy) {
+  async getGenerationProgress(
+    years: number[],
+  ): Promise<YearGenerationProgress[]> {
+    const [totalLocations, generations]: [number, EventGenerationRow[]] =
+      await Promise.all([
+        prisma.location.count(),
+        prisma.eventGeneration.findMany({
+          where: { year: { in: years } },
+        }),
+      ]);
+
+    return years.map((year) => {
+      const yearGenerations = generations.filter(
+        (generation) => generation.year === year,
+      );
+      const completed = yearGenerations.filter(
+        (generation) => generation.status === "completed",
+      );
+      const lastGeneratedAt = yearGenerations.reduce<Date | null>(
+        (latest, generation) =>
+          !latest || generation.generatedAt > latest
+            ? generation.generatedAt
+            : latest,
+        null,
+      );
+
+      return {
+        year,
+        totalLocations,
+        completedLocations: completed.length,
+        failedLocations: yearGenerations.length - completed.length,
+        totalEvents: completed.reduce(
+          (sum, generation) => sum + generation.eventCount,
+          0,
+        ),
+        lastGeneratedAt,
+      };
+    });
+  }
+
+  /**
+   * 指定年のうち生成が完了していない年を地点ごとに取得
+   * 生成に失敗した年も対象に含める
+   */
+  async getPendingGenerations(
+    years: number[],
+  ): Promise<Array<{ locationId: number; years: number[] }>> {
+    const [locations, completed]: [{ id: number }[], EventGenerationRow[]] =
+      await Promise.all([
+        prisma.location.findMany({
+          select: { id: true },
+          orderBy: { id: "asc" },
+        }),
+        prisma.eventGeneration.findMany({
+          where: { year: { in: years }, status: "completed" },
+        }),
+      ]);
+
+    const completedKeys = new Set(
+      completed.map(
+        (generation) => `${generation.locationId}-${generation.year}`,
+      ),
+    );
+
+    return locations
+      .map((location) => ({
+        locationId: location.id,
+        years: years.filter(
+          (year) => !completedKeys.has(`${location.id}-${year}`),
+        ),
+      }))
+      .filter((pending) => pending.years.length > 0);
+  }
+
+  /**
+   * 再計算した期間のお気に入りイベントを更新して通知を予定し直す
+   * 失敗してもキャッシュ生成は成功とする
+   */
+  private async refreshFavoriteEvents(
+    locationId: number | null,
+    startTime: Date,
+    endTime: Date,
+  ): Promise<void> {
+    if (!this.userFavoriteService) {
+      return;
+    }
+
+    try {
+      await this.userFavoriteService.refreshEventTimes(
+        locationId,
+        startTime,
+        endTime,
+      );
+    } catch (error) {
+      this.logger.warn("お気に入りイベントの更新に失敗", {
+        locationId,
+        startTime,
+        endTime,
+        error,
+      });
+    }
+  }
+
+  /**
+   * 地点・年の生成結果を記録
+   * 記録の失敗は生成処理自体の失敗としない
+   */
+  private async recordGeneration(
+    locationId: number,
+    year: number,
+    result: number | Error,
+  ): Promise<void> {
+    const data =
+      result instanceof Error
+        ? { status: "failed", eventCount: 0, lastError: result.message }
+        : { status: "completed", eventCount: result, lastError: null };
+
+    try {
+      await prisma.eventGeneration.upsert({
+        where: { locationId_year: { locationId, year } },
+        create: { locationId, year, ...data },
+        update: { ...data, generatedAt: new Date() },
+      });
+    } catch (error) {
+      this.logger.warn("生成状況の記録に失敗", { locationId, year, error });
+    }
+  }
+
+  /**
+   * 再計算した月を通知（サーバープロセスが公開ページに送り、カレンダーを再取得させる）
+   * locationIds を省略した場合は全地点
+   */
+  private async publishInvalidations(
+    year: number,
+    months: number[],
+    locationIds?: number[],
+  ): Promise<void> {
+    if (!this.redisService) {
+      return;
+    }
+
+    for (const month of months) {
+      await this.redisService.publishCalendarInvalidation({
+        year,
+        month,
+        locationIds,
+      });
+    }
+  }
+
+  /**
+   * 地点に関連付けられた整列対象ごとにイベントを計算して結合
+   */
+  private async calculateForTargets(
+    locationId: number,
+    calculate: (target: AlignmentTarget) => Promise<FujiEvent[]>,
+  ): Promise<FujiEvent[]> {
+    const targets = await this.getLocationAlignmentTargets(locationId);
+    const events: FujiEvent[] = [];
+
+    for (const target of targets) {
+      events.push(...(await calculate(target)));
+    }
+
+    return events;
+  }
+
+  /**
+   * 地点に関連付けられた整列対象を取得
+   * 関連付けが無い地点は富士山のみを対象とする（富士山の整列対象が未登録の場合はエラー）
+   */
+  private async getLocationAlignmentTargets(
+    locationId: number,
+  ): Promise<AlignmentTarget[]> {
+    const locationTargets = await prisma.locationTarget.findMany({
+      where: { locationId },
+      include: { target: true },
+      orderBy: { targetId: "asc" },
+    });
+
+    if (locationTargets.length > 0) {
+      return locationTargets.map((locationTarget: any) =>
+        toAlignmentTarget({
+          ...locationTarget.target,
+          latitude: Number(locationTarget.target.latitude),
+          longitude: Number(locationTarget.target.longitude),
+          elevation: Number(locationTarget.target.elevation),
+        }),
+      );
+    }
+
+    // イベントは整列対象の ID と共に保存するため、富士山の行が無い場合は計算しない
+    const fujiTarget = await prisma.target.findUnique({
+      where: { slug: FUJI_TARGET_SLUG },
+    });
+    if (!fujiTarget) {
+      throw new Error(
+        `Fuji target not seeded: targets table has no row with slug "${FUJI_TARGET_SLUG}"`,
+      );
+    }
+    return [{ ...FUJI_ALIGNMENT_TARGET, id: fujiTarget.id }];
+  }
+
+  /**
+   * FujiEvent から LocationEvent の保存データを作成
+   */
+  private buildLocationEventData(event: FujiEvent, year: number) {
+    return {
+      locationId: event.location.id,
+      targetId: event.targetId,
+      eventDate: this.createJstDateOnly(event.time),
+      eventTime: event.time,
+      azimuth: event.azimuth || 0,
+      altitude: event.elevation || 0,
+      qualityScore: this.getQualityScore(event),
+      visibilityProbability: event.visibilityProbability,
+      moonPhase: event.moonPhase,
+      moonIllumination: event.moonIllumination,
+      moonBrightLimbAngle: event.moonBrightLimbAngle,
+      moonTilt: event.moonTilt,
+      residualError: event.residualError,
+      summitPosition: event.summitPosition,
+      observerOffsetDistance: event.observerOffsetDistance,
+      observerOffsetBearing: event.observerOffsetBearing,
+      firstContactTime: event.firstContactTime,
+      centerTime: event.centerTime,
+      lastContactTime: event.lastContactTime,
+      timeWindowStart: event.timeWindowStart,
+      timeWindowEnd: event.timeWindowEnd,
+      refractionModel: event.refractionModel,
+      celestialBody: event.celestialBody?.id,
+      magnitude: event.celestialBody?.magnitude,
+      calculationYear: year,
+      eventType: this.getEventType(event),
+      accuracy: this.mapAccuracy(event.accuracy),
+    };
+  }
+
+  /**
+   * 品質スコアを 0-1 の範囲で計算
+   * 計算時のスコア（精度・高度・可視確率、パール富士は月相・輝面の向き・空の暗さも含む）を使用し、
+   * スコアが無いイベントのみ精度レベルから求める
+   */
+  private getQualityScore(event: FujiEvent): number {
+    if (typeof event.qualityScore === "number") {
+      return event.qualityScore / 100;
+    }
+
+    switch (event.accuracy) {
       case "perfect":
         return 1.0;
       case "excellent":
@@ -555,10 +863,28 @@ export class EventCacheService {
 
   /**
    * イベントタイプを Enum 値にマッピング
+   * 日食・月食・スーパームーンと重なるイベントは特別イベントの値で保存する
    */
   private getEventType(
     event: FujiEvent,
-  ): "diamond_sunrise" | "diamond_sunset" | "pearl_moonrise" | "pearl_moonset" {
+  ):
+    | "diamond_sunrise"
+    | "diamond_sunset"
+    | "pearl_moonrise"
+    | "pearl_moonset"
+    | "planet_rising"
+    | "planet_setting"
+    | "star_rising"
+    | "star_setting"
+    | SpecialEventType {
+    if (event.specialEvent) {
+      return event.specialEvent;
+    }
+    if (event.type === "planet" || event.type === "star") {
+      return event.subType === "rising"
+        ? `${event.type}_rising`
+        : `${event.type}_setting`;
+    }
     if (event.type === "diamond") {
       return event.subType === "sunrise" ? "diamond_sunrise" : "diamond_sunset";
     } else {
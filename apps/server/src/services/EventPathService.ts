@@ -0,0 +1,104 @@
+import { EventCelestialPath, FujiEvent } from "@fuji-calendar/types";
+import { getComponentLogger } from "@fuji-calendar/utils";
+import { CalendarRepository } from "../repositories/interfaces/CalendarRepository";
+import { TargetRepository } from "../repositories/interfaces/TargetRepository";
+import { AstronomicalCalculator } from "./interfaces/AstronomicalCalculator";
+import { AlignmentBody } from "./astronomical/FujiAlignmentCalculator";
+import {
+  FUJI_ALIGNMENT_TARGET,
+  toAlignmentTarget,
+} from "./astronomical/AlignmentTarget";
+import { findCelestialObject } from "./astronomical/CelestialObjects";
+
+const logger = getComponentLogger("EventPathService");
+
+// イベント時刻の前後に軌跡を求める範囲（分）
+export const PATH_RANGE_MINUTES = 30;
+
+// 軌跡の点の時間間隔（秒）
+const PATH_INTERVAL_SECONDS = 30;
+
+/**
+ * イベント前後の天体の軌跡サービス
+ * 撮影地点から見た太陽・月・惑星・恒星の方位角・高度の推移を、整列計算と同じ条件で求める
+ */
+export class EventPathService {
+  constructor(
+    private calendarRepository: CalendarRepository,
+    private targetRepository: TargetRepository,
+    private astronomicalCalculator: AstronomicalCalculator,
+  ) {}
+
+  /**
+   * イベントの天体の軌跡を取得
+   * イベントが存在しない場合は null
+   */
+  async getEventPath(
+    eventId: string,
+    rangeMinutes: number = PATH_RANGE_MINUTES,
+  ): Promise<EventCelestialPath | null> {
+    const event = await this.calendarRepository.getEventById(eventId);
+    if (!event) {
+      return null;
+    }
+
+    const body = this.getAlignmentBody(event);
+    if (!body) {
+      logger.warn("軌跡を計算できない天体", {
+        eventId,
+        type: event.type,
+        celestialBody: event.celestialBody?.id,
+      });
+      return null;
+    }
+
+    const targetRecord = event.targetId
+      ? await this.targetRepository.findById(event.targetId)
+      : null;
+    const target = targetRecord
+      ? toAlignmentTarget(targetRecord)
+      : FUJI_ALIGNMENT_TARGET;
+
+    const eventTime = new Date(event.time);
+    const path = await this.astronomicalCalculator.calculateBodyPath(
+      body,
+      event.location,
+      new Date(eventTime.getTime() - rangeMinutes * 60 * 1000),
+      new Date(eventTime.getTime() + rangeMinutes * 60 * 1000),
+      PATH_INTERVAL_SECONDS,
+      target,
+    );
+
+    return {
+      eventId: event.id,
+      eventTime,
+      bodyName: this.getBodyName(event),
+      ...path,
+    };
+  }
+
+  /**
+   * イベントの種類から整列した天体を特定
+   */
+  private getAlignmentBody(event: FujiEvent): AlignmentBody | null {
+    if (event.type === "diamond") {
+      return "sun";
+    }
+    if (event.type === "pearl") {
+      return "moon";
+    }
+    return event.celestialBody
+      ? (findCelestialObject(event.celestialBody.id) ?? null)
+      : null;
+  }
+
+  private getBodyName(event: FujiEvent): string {
+    if (event.type === "diamond") {
+      return "太陽";
+    }
+    if (event.type === "pearl") {
+      return "月";
+    }
+    return event.celestialBody?.name ?? event.type;
+  }
+}
@@ -4,6 +4,7 @@ import {
   MonthlyEventResult,
   YearlyEventResult,
   CacheValidationResult,
+  MonthCalculatedCallback,
 } from "./interfaces/EventService";
 import { EventCacheService } from "./EventCacheService";
 import { AstronomicalCalculator } from "./AstronomicalCalculator";
@@ -32,6 +33,7 @@ export class EventServiceImpl implements EventService {
   async generateLocationCache(
     locationId: number,
     year: number,
+    onMonthCalculated?: MonthCalculatedCallback,
   ): Promise<CacheResult> {
     const startTime = Date.now();
     logger.info("地点キャッシュ生成開始", { locationId, year });
@@ -76,6 +78,7 @@ export class EventServiceImpl implements EventService {
       const result = await this.eventCacheService.generateLocationCache(
         locationId,
         year,
+        onMonthCalculated,
       );
       const processingTime = Date.now() - startTime;
 
@@ -113,6 +116,7 @@ export class EventServiceImpl implements EventService {
     year: number,
     month: number,
     locationIds: number[],
+    onMonthCalculated?: MonthCalculatedCallback,
   ): Promise<MonthlyEventResult> {
     const startTime = Date.now();
     logger.info("月間イベント計算開始", {
@@ -153,6 +157,7 @@ export class EventServiceImpl implements EventService {
             await this.eventCacheService.generateLocationCache(
               locationId,
               year,
+              onMonthCalculated,
             );
           totalEventsGenerated += monthlyResult.totalEvents;
         } catch (error) {
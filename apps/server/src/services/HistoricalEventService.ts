@@ -0,0 +1,206 @@
+import {
+  HistoricalEvent,
+  HistoricalSearchOptions,
+  HistoricalStats,
+  MonthlyHistoricalSummary,
+  ObservationReportRequest,
+} from "@fuji-calendar/types";
+import { getComponentLogger, timeUtils } from "@fuji-calendar/utils";
+import { HistoricalEventRepository } from "../repositories/interfaces/HistoricalEventRepository";
+
+const logger = getComponentLogger("HistoricalEventService");
+
+/**
+ * 撮影結果の記録の結果
+ * duplicate: 同じ報告者が報告済み（既存の報告は上書きしない）
+ */
+export type ObservationReportResult =
+  | { status: "not_found" }
+  | { status: "duplicate" }
+  | { status: "reported"; event: HistoricalEvent };
+
+/**
+ * 過去イベントサービス
+ * 過去のイベントの移動・検索、撮影結果の記録と、地点ごとの成功率の集計を行う
+ */
+export class HistoricalEventService {
+  constructor(private historicalEventRepository: HistoricalEventRepository) {}
+
+  /**
+   * 今日より前のイベントを履歴へ移動
+   */
+  async archivePastEvents(): Promise<number> {
+    const today = timeUtils.formatDateString(new Date());
+    return this.historicalEventRepository.archiveEventsBefore(today);
+  }
+
+  async searchEvents(
+    options: HistoricalSearchOptions,
+  ): Promise<{ events: HistoricalEvent[]; total: number }> {
+    return this.historicalEventRepository.search(options);
+  }
+
+  /**
+   * 撮影結果を記録
+   * 報告は報告者（IP アドレス）ごとに 1 件で、過去イベントには報告の集計を保存する
+   */
+  async reportOutcome(
+    id: number,
+    reporterIp: string,
+    report: ObservationReportRequest,
+  ): Promise<ObservationReportResult> {
+    const event = await this.historicalEventRepository.findById(id);
+    if (!event) {
+      return { status: "not_found" };
+    }
+
+    const reportedEvent = await this.historicalEventRepository.reportOutcome(
+      id,
+      reporterIp,
+      report,
+    );
+    return reportedEvent
+      ? { status: "reported", event: reportedEvent }
+      : { status: "duplicate" };
+  }
+
+  /**
+   * 地点の年・イベント種別ごとの成功率
+   */
+  async getLocationStats(
+    locationId: number,
+    yearStart?: number,
+    yearEnd?: number,
+  ): Promise<HistoricalStats[]> {
+    const { events } = await this.historicalEventRepository.search({
+      locationId,
+      yearStart,
+      yearEnd,
+    });
+
+    const groups = this.groupBy(
+      events,
+      (event) => `${event.year}-${event.eventType}-${event.subType}`,
+    );
+
+    const stats = [...groups.values()].map((group): HistoricalStats => {
+      const times = group.map((event) => event.eventTime.getTime());
+      const { reportedCount, successCount, successRatePercent, avgVisibility } =
+        this.summarizeOutcomes(group);
+      return {
+        locationId,
+        year: group[0].year,
+        eventType: group[0].eventType,
+        subType: group[0].subType,
+        totalEvents: group.length,
+        reportedEvents: reportedCount,
+        successfulPhotos: successCount,
+        successRatePercent,
+        avgVisibility,
+        earliestEvent: new Date(Math.min(...times)).toISOString(),
+        latestEvent: new Date(Math.max(...times)).toISOString(),
+      };
+    });
+
+    logger.debug("地点の過去イベント統計集計", {
+      locationId,
+      eventCount: events.length,
+      groupCount: stats.length,
+    });
+
+    return stats.sort(
+      (a, b) =>
+        b.year - a.year ||
+        a.eventType.localeCompare(b.eventType) ||
+        a.subType.localeCompare(b.subType),
+    );
+  }
+
+  /**
+   * 地点の年月・イベント種別ごとの成功率
+   */
+  async getMonthlySummaries(
+    locationId: number,
+    year?: number,
+  ): Promise<MonthlyHistoricalSummary[]> {
+    const { events } = await this.historicalEventRepository.search({
+      locationId,
+      yearStart: year,
+      yearEnd: year,
+    });
+
+    const groups = this.groupBy(
+      events,
+      (event) => `${event.year}-${event.month}-${event.eventType}`,
+    );
+
+    return [...groups.values()]
+      .map(
+        (group): MonthlyHistoricalSummary => ({
+          locationId,
+          year: group[0].year,
+          month: group[0].month,
+          eventType: group[0].eventType,
+          eventCount: group.length,
+          ...this.summarizeOutcomes(group),
+          eventDays: [...new Set(group.map((event) => event.day))].sort(
+            (a, b) => a - b,
+          ),
+        }),
+      )
+      .sort(
+        (a, b) =>
+          b.year - a.year ||
+          a.month - b.month ||
+          a.eventType.localeCompare(b.eventType),
+      );
+  }
+
+  /**
+   * 報告数・成功数・成功率（%）・見え具合の平均
+   * 報告が無い場合、成功率と平均は null
+   */
+  private summarizeOutcomes(events: HistoricalEvent[]): {
+    reportedCount: number;
+    successCount: number;
+    successRatePercent: number | null;
+    avgVisibility: number | null;
+  } {
+    const reported = events.filter((event) => event.outcome);
+    const successCount = reported.filter(
+      (event) => event.outcome === "success",
+    ).length;
+    const ratings = reported
+      .map((event) => event.visibilityRating)
+      .filter((rating): rating is number => rating !== undefined);
+
+    return {
+      reportedCount: reported.length,
+      successCount,
+      successRatePercent:
+        reported.length > 0
+          ? Math.round((successCount / reported.length) * 1000) / 10
+          : null,
+      avgVisibility:
+        ratings.length > 0
+          ? Math.round(
+              (ratings.reduce((sum, rating) => sum + rating, 0) /
+                ratings.length) *
+                10,
+            ) / 10
+          : null,
+    };
+  }
+
+  private groupBy(
+    events: HistoricalEvent[],
+    keyOf: (event: HistoricalEvent) => string,
+  ): Map<string, HistoricalEvent[]> {
+    const groups = new Map<string, HistoricalEvent[]>();
+    for (const event of events) {
+      const key = keyOf(event);
+      groups.set(key, [...(groups.get(key) ?? []), event]);
+    }
+    return groups;
+  }
+}
@@ -0,0 +1,349 @@
+import jwt from "jsonwebtoken";
+import { FujiEvent } from "@fuji-calendar/types";
+import { getComponentLogger, timeUtils } from "@fuji-calendar/utils";
+import { CalendarRepository } from "../repositories/interfaces/CalendarRepository";
+import { TargetRepository } from "../repositories/interfaces/TargetRepository";
+import { FUJI_TARGET_SLUG } from "./astronomical/AlignmentTarget";
+import { AUTH_CONFIG } from "../config/auth";
+
+const logger = getComponentLogger("IcsService");
+
+// フィードの types パラメータで指定できるイベント種別（EventType の値）
+export const ICS_EVENT_TYPES = [
+  "diamond_sunrise",
+  "diamond_sunset",
+  "pearl_moonrise",
+  "pearl_moonset",
+  "planet_rising",
+  "planet_setting",
+  "star_rising",
+  "star_setting",
+  "solar_eclipse",
+  "lunar_eclipse",
+  "supermoon",
+];
+
+// フィードに含める期間（今日を基準とした日数）
+const FEED_PAST_DAYS = 7;
+const FEED_FUTURE_DAYS = 365;
+
+// 整列時刻の幅が無いイベントの予定の長さ（整列時刻の前後、ミリ秒）
+const DEFAULT_EVENT_MARGIN_MS = 5 * 60 * 1000;
+
+// UID のドメイン部分
+const UID_DOMAIN = "fuji-calendar";
+
+const ACCURACY_LABELS: Record<string, string> = {
+  perfect: "完全一致",
+  excellent: "非常に高精度",
+  good: "高精度",
+  fair: "標準精度",
+};
+
+/**
+ * フィードの絞り込み条件
+ */
+export interface IcsFeedOptions {
+  eventTypes?: string[];
+  targetSlug?: string;
+  alarmMinutes: number; // 整列時刻の何分前に通知するか
+}
+
+/**
+ * お気に入りフィードの署名付きトークンに含める内容
+ */
+interface FavoritesFeedPayload {
+  locationIds: number[];
+  eventTypes?: string[];
+}
+
+/**
+ * iCalendar（RFC 5545）フィード生成サービス
+ * 地点別・全地点・お気に入り地点のイベントを購読可能な ICS 形式で出力する
+ * UID は LocationEvent の一意キー（地点・対象・日付・種別）から作り、
+ * 再計算で整列時刻がずれても予定が置き換わるようにする
+ */
+export class IcsService {
+  constructor(
+    private calendarRepository: CalendarRepository,
+    private targetRepository: TargetRepository,
+  ) {}
+
+  /**
+   * 地点別フィード
+   */
+  async getLocationFeed(
+    locationId: number,
+    options: IcsFeedOptions,
+  ): Promise<string | null> {
+    const events = await this.getFeedEvents(options, [locationId]);
+    return await this.renderCalendar(events, options, (targetName) =>
+      events.length > 0
+        ? `${events[0].location.name}の${targetName}カレンダー`
+        : `${targetName}カレンダー`,
+    );
+  }
+
+  /**
+   * 全地点フィード
+   */
+  async getAllFeed(options: IcsFeedOptions): Promise<string | null> {
+    const events = await this.getFeedEvents(options);
+    return await this.renderCalendar(
+      events,
+      options,
+      (targetName) => `${targetName}カレンダー`,
+    );
+  }
+
+  /**
+   * お気に入り地点フィード（署名付きトークンで地点を指定）
+   * トークンが不正な場合は null
+   */
+  async getFavoritesFeed(
+    token: string,
+    alarmMinutes: number,
+  ): Promise<string | null> {
+    const payload = this.verifyFavoritesToken(token);
+    if (!payload) {
+      return null;
+    }
+
+    const options = { eventTypes: payload.eventTypes, alarmMinutes };
+    const events = await this.getFeedEvents(options, payload.locationIds);
+    return await this.renderCalendar(
+      events,
+      options,
+      (targetName) => `お気に入り地点の${targetName}カレンダー`,
+    );
+  }
+
+  /**
+   * お気に入り地点フィードの署名付きトークンを作成
+   * 期限が切れた購読 URL は再発行が必要
+   */
+  createFavoritesToken(
+    locationIds: number[],
+    eventTypes?: string[],
+  ): { token: string; expiresAt: Date } {
+    const payload: FavoritesFeedPayload = { locationIds, eventTypes };
+    const token = jwt.sign(payload, AUTH_CONFIG.ICS_FEED_SECRET, {
+      subject: "ics-favorites",
+      expiresIn: `${AUTH_CONFIG.ICS_FEED_EXPIRES_DAYS}d`,
+    });
+    const { exp } = jwt.decode(token) as { exp: number };
+    return { token, expiresAt: new Date(exp * 1000) };
+  }
+
+  private verifyFavoritesToken(token: string): FavoritesFeedPayload | null {
+    try {
+      const decoded = jwt.verify(token, AUTH_CONFIG.ICS_FEED_SECRET, {
+        subject: "ics-favorites",
+      }) as FavoritesFeedPayload;
+      if (!Array.isArray(decoded.locationIds)) {
+        return null;
+      }
+      return {
+        locationIds: decoded.locationIds,
+        eventTypes: decoded.eventTypes,
+      };
+    } catch (error) {
+      logger.warn("お気に入りフィードのトークン検証失敗", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * フィード対象期間のイベントを取得
+   */
+  private async getFeedEvents(
+    options: IcsFeedOptions,
+    locationIds?: number[],
+  ): Promise<FujiEvent[]> {
+    const today = new Date();
+    const startDate = new Date(today);
+    startDate.setDate(startDate.getDate() - FEED_PAST_DAYS);
+    const endDate = new Date(today);
+    endDate.setDate(endDate.getDate() + FEED_FUTURE_DAYS);
+
+    return await this.calendarRepository.getEventsInRange(
+      timeUtils.formatDateString(startDate),
+      timeUtils.formatDateString(endDate),
+      {
+        locationIds,
+        eventTypes: options.eventTypes,
+        targetSlug: options.targetSlug,
+      },
+    );
+  }
+
+  /**
+   * VCALENDAR を組み立てる
+   * 整列対象が存在しない場合は null
+   */
+  private async renderCalendar(
+    events: FujiEvent[],
+    options: IcsFeedOptions,
+    getCalendarName: (targetName: string) => string,
+  ): Promise<string | null> {
+    const targetSlug = options.targetSlug ?? FUJI_TARGET_SLUG;
+    const target = await this.targetRepository.findBySlug(targetSlug);
+    if (!target && targetSlug !== FUJI_TARGET_SLUG) {
+      return null;
+    }
+    const targetName = target?.name ?? "富士山";
+
+    const now = new Date();
+    const lines = [
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      "PRODID:-//Fuji Calendar//ICS Feed//JA",
+      "CALSCALE:GREGORIAN",
+      "METHOD:PUBLISH",
+      `X-WR-CALNAME:${this.escapeText(getCalendarName(targetName))}`,
+      "X-WR-TIMEZONE:Asia/Tokyo",
+      "REFRESH-INTERVAL;VALUE=DURATION:PT12H",
+      "X-PUBLISHED-TTL:PT12H",
+      ...events.flatMap((event) =>
+        this.renderEvent(event, targetName, options.alarmMinutes, now),
+      ),
+      "END:VCALENDAR",
+    ];
+
+    return lines.map((line) => this.foldLine(line)).join("\r\n") + "\r\n";
+  }
+
+  /**
+   * VEVENT を組み立てる
+   * 予定の長さは撮影時間帯（無ければ整列時刻の前後 5 分）とする
+   */
+  private renderEvent(
+    event: FujiEvent,
+    targetName: string,
+    alarmMinutes: number,
+    now: Date,
+  ): string[] {
+    const start =
+      event.timeWindowStart ??
+      new Date(event.time.getTime() - DEFAULT_EVENT_MARGIN_MS);
+    const end =
+      event.timeWindowEnd ??
+      new Date(event.time.getTime() + DEFAULT_EVENT_MARGIN_MS);
+    const summary = `${this.getEventName(event, targetName)}（${event.location.name}）`;
+
+    const description = [
+      `整列時刻: ${timeUtils.formatTimeString(event.time)}`,
+      `方位角: ${event.azimuth.toFixed(1)}°`,
+      event.elevation !== undefined
+        ? `仰角: ${event.elevation.toFixed(1)}°`
+        : null,
+      event.qualityScore !== undefined
+        ? `品質スコア: ${event.qualityScore}`
+        : null,
+      event.accuracy ? `精度: ${ACCURACY_LABELS[event.accuracy]}` : null,
+    ].filter((line): line is string => line !== null);
+
+    return [
+      "BEGIN:VEVENT",
+      `UID:${this.getEventUid(event)}`,
+      `DTSTAMP:${this.formatDateTime(now)}`,
+      `DTSTART:${this.formatDateTime(start)}`,
+      `DTEND:${this.formatDateTime(end)}`,
+      `SUMMARY:${this.escapeText(summary)}`,
+      `LOCATION:${this.escapeText(`${event.location.name}（${event.location.prefecture}）`)}`,
+      `GEO:${event.location.latitude.toFixed(6)};${event.location.longitude.toFixed(6)}`,
+      `DESCRIPTION:${this.escapeText(description.join("\n"))}`,
+      `CATEGORIES:${event.celestialBody ? event.celestialBody.kind : event.type}`,
+      "TRANSP:TRANSPARENT",
+      "BEGIN:VALARM",
+      "ACTION:DISPLAY",
+      `DESCRIPTION:${this.escapeText(summary)}`,
+      `TRIGGER:-PT${alarmMinutes}M`,
+      "END:VALARM",
+      "END:VEVENT",
+    ];
+  }
+
+  /**
+   * LocationEvent の一意キーから UID を作成
+   * 整列時刻は再計算でわずかにずれるため含めず、昇る・沈むの向きと天体で区別する
+   */
+  private getEventUid(event: FujiEvent): string {
+    const direction =
+      event.subType === "sunrise" || event.subType === "rising"
+        ? "rising"
+        : "setting";
+    const parts = [
+      event.location.id,
+      event.targetId ?? FUJI_TARGET_SLUG,
+      timeUtils.formatDateString(event.time),
+      event.type,
+      direction,
+      ...(event.celestialBody ? [event.celestialBody.id] : []),
+    ];
+    return `${parts.join("-")}@${UID_DOMAIN}`;
+  }
+
+  private getEventName(event: FujiEvent, targetName: string): string {
+    const rising = event.subType === "sunrise" || event.subType === "rising";
+    const direction = rising ? "昇る" : "沈む";
+
+    if (event.celestialBody) {
+      return `${direction}${event.celestialBody.name}`;
+    }
+
+    // 富士山は「ダイヤモンド富士」のように山を省略する
+    const shortName = targetName === "富士山" ? "富士" : targetName;
+    const typeLabel = event.type === "diamond" ? "ダイヤモンド" : "パール";
+    return `${direction}${typeLabel}${shortName}`;
+  }
+
+  /**
+   * UTC の日時（YYYYMMDDTHHMMSSZ）
+   */
+  private formatDateTime(date: Date): string {
+    return date
+      .toISOString()
+      .replace(/[-:]/g, "")
+      .replace(/\.\d{3}/, "");
+  }
+
+  /**
+   * TEXT 値のエスケープ（RFC 5545 3.3.11）
+   */
+  private escapeText(text: string): string {
+    return text
+      .replace(/\\/g, "\\\\")
+      .replace(/;/g, "\\;")
+      .replace(/,/g, "\\,")
+      .replace(/\r?\n/g, "\\n");
+  }
+
+  /**
+   * 75 オクテットを超える行を折り返す（RFC 5545 3.1）
+   * マルチバイト文字の途中では折り返さない
+   */
+  private foldLine(line: string): string {
+    const chunks: string[] = [];
+    let current = "";
+    let currentBytes = 0;
+
+    for (const char of line) {
+      const charBytes = Buffer.byteLength(char, "utf8");
+      // 継続行は先頭の空白 1 オクテットを含めて 75 オクテット
+      const limit = chunks.length === 0 ? 75 : 74;
+      if (currentBytes + charBytes > limit) {
+        chunks.push(current);
+        current = "";
+        currentBytes = 0;
+      }
+      current += char;
+      currentBytes += charBytes;
+    }
+    chunks.push(current);
+
+    return chunks.join("\r\n ");
+  }
+}
@@ -0,0 +1,85 @@
+import {
+  Location,
+  LocationRequest,
+  LocationRequestApproval,
+  LocationRequestBody,
+  LocationRequestStatus,
+} from "@fuji-calendar/types";
+import { getComponentLogger } from "@fuji-calendar/utils";
+import { LocationRequestRepository } from "../repositories/interfaces/LocationRequestRepository";
+import { LocationService } from "./LocationService";
+
+const logger = getComponentLogger("LocationRequestService");
+
+/**
+ * 撮影地点候補サービス
+ * 訪問者からの撮影地点の投稿と、管理者による承認・却下を行う
+ */
+export class LocationRequestService {
+  constructor(
+    private locationRequestRepository: LocationRequestRepository,
+    private locationService: LocationService,
+  ) {}
+
+  async submitRequest(
+    data: LocationRequestBody & { requesterIp: string },
+  ): Promise<LocationRequest> {
+    return this.locationRequestRepository.create(data);
+  }
+
+  async getRequests(
+    status?: LocationRequestStatus,
+  ): Promise<LocationRequest[]> {
+    return this.locationRequestRepository.findAll(status);
+  }
+
+  async getRequestById(id: number): Promise<LocationRequest | null> {
+    return this.locationRequestRepository.findById(id);
+  }
+
+  /**
+   * 候補を承認して撮影地点を作成
+   * 地点の作成時に天体計算ジョブがキューに登録される
+   */
+  async approveRequest(
+    request: LocationRequest,
+    adminId: number,
+    approval: LocationRequestApproval,
+  ): Promise<{ request: LocationRequest; location: Location }> {
+    const location = await this.locationService.createLocation({
+      name: approval.name ?? request.name,
+      prefecture: approval.prefecture ?? request.prefecture,
+      latitude: approval.latitude ?? request.suggestedLatitude,
+      longitude: approval.longitude ?? request.suggestedLongitude,
+      elevation: approval.elevation,
+      description: approval.description ?? request.description,
+      accessInfo: approval.accessInfo,
+    });
+
+    const approvedRequest = await this.locationRequestRepository.markApproved(
+      request.id,
+      adminId,
+      location.id,
+    );
+
+    logger.info("撮影地点候補から地点作成", {
+      locationRequestId: request.id,
+      locationId: location.id,
+      adminId,
+    });
+
+    return { request: approvedRequest, location };
+  }
+
+  async rejectRequest(
+    request: LocationRequest,
+    adminId: number,
+    reason: string,
+  ): Promise<LocationRequest> {
+    return this.locationRequestRepository.markRejected(
+      request.id,
+      adminId,
+      reason,
+    );
+  }
+}
@@ -3,6 +3,7 @@ import { getComponentLogger } from "@fuji-calendar/utils";
 import { LocationRepository } from "../repositories/interfaces/LocationRepository";
 import { AstronomicalCalculator } from "./interfaces/AstronomicalCalculator";
 import { QueueService } from "./interfaces/QueueService";
+import { TargetService } from "./TargetService";
 
 const logger = getComponentLogger("LocationService");
 
@@ -15,6 +16,7 @@ export class LocationService {
     private locationRepository: LocationRepository,
     private astronomicalCalculator: AstronomicalCalculator,
     private queueService: QueueService,
+    private targetService: TargetService,
   ) {}
 
   /**
@@ -205,6 +207,14 @@ export class LocationService {
       fujiDistance: finalFujiDistance,
     });
 
+    // 富士山（と関連付け済みの整列対象）の事前計算値を保存
+    await this.targetService.refreshLocationTargets({
+      ...location,
+      fujiAzimuth: finalFujiAzimuth,
+      fujiElevation: finalFujiElevation,
+      fujiDistance: finalFujiDistance,
+    });
+
     // キューに天体計算ジョブを追加（前年・当年・翌年の 3 年分）
     const currentYear = new Date().getFullYear();
     const previousYear = currentYear - 1;
@@ -413,6 +423,11 @@ export class LocationService {
     if (updatedLocation) {
       logger.info("地点更新完了", { locationId: id });
 
+      // 整列対象の方位角・仰角・距離を新しい座標で再計算
+      if (locationChanged || fujiDataProvided) {
+        await this.targetService.refreshLocationTargets(updatedLocation);
+      }
+
       // 仰角は既に同期的に計算済み
 
       // 位置情報が変更された場合は天体計算を再実行（前年・当年・翌年の 3 年分）
@@ -0,0 +1,323 @@
+import {
+  FavoriteEvent,
+  NotificationChannel,
+  NotificationChannelType,
+} from "@fuji-calendar/types";
+import { getComponentLogger } from "@fuji-calendar/utils";
+import {
+  NotificationChannelData,
+  NotificationChannelRecord,
+  NotificationRepository,
+} from "../repositories/interfaces/NotificationRepository";
+import {
+  StoredFavoriteEvent,
+  UserFavoriteRepository,
+} from "../repositories/interfaces/UserFavoriteRepository";
+import { QueueService } from "./interfaces/QueueService";
+import {
+  NotificationMessage,
+  NotificationSender,
+} from "./notification/NotificationSender";
+
+const logger = getComponentLogger("NotificationService");
+
+// 予定した通知日時と、現在の通知先・イベントから求めた通知日時の許容差
+const FIRE_TIME_TOLERANCE_MS = 60 * 1000;
+
+// 1 ユーザーが登録できる通知先の数
+export const MAX_CHANNELS_PER_USER = 10;
+
+/**
+ * 通知ジョブの内容（キューに保存する）
+ */
+export interface NotificationJobData {
+  channelId: number;
+  favoriteId: number; // お気に入りイベントの保存行の ID
+  fireAt: string; // ISO 8601
+}
+
+/**
+ * お気に入りイベントの通知サービス
+ *
+ * 通知先ごとに、お気に入りイベントの指定時間前に実行する遅延ジョブをキューに登録する
+ * お気に入り・通知先の変更やイベントの再計算のたびに予定し直し、
+ * 古い予定のジョブは実行時に現在の内容と照合して破棄する
+ */
+export class NotificationService {
+  constructor(
+    private notificationRepository: NotificationRepository,
+    private userFavoriteRepository: UserFavoriteRepository,
+    private queueService: QueueService,
+    private senders: Record<NotificationChannelType, NotificationSender>,
+    private frontendUrl: string,
+  ) {}
+
+  async getChannels(userId: number): Promise<NotificationChannel[]> {
+    const channels =
+      await this.notificationRepository.findChannelsByUserId(userId);
+    return channels.map((channel) => this.toPublicChannel(channel));
+  }
+
+  /**
+   * 通知先を作成（登録数が上限に達している場合は null）
+   */
+  async createChannel(
+    userId: number,
+    data: NotificationChannelData,
+  ): Promise<NotificationChannel | null> {
+    const channels =
+      await this.notificationRepository.findChannelsByUserId(userId);
+    if (channels.length >= MAX_CHANNELS_PER_USER) {
+      return null;
+    }
+
+    const channel = await this.notificationRepository.createChannel(
+      userId,
+      data,
+    );
+    await this.planForUser(userId);
+
+    logger.info("通知先作成", {
+      userId,
+      channelId: channel.id,
+      type: channel.type,
+      leadTimeMinutes: channel.leadTimeMinutes,
+    });
+
+    return this.toPublicChannel(channel);
+  }
+
+  /**
+   * 通知先を更新（他のユーザーの通知先の場合は null）
+   * secret が undefined の場合は登録済みの値を残す
+   */
+  async updateChannel(
+    userId: number,
+    channelId: number,
+    data: Omit<NotificationChannelData, "secret"> & { secret?: string | null },
+  ): Promise<NotificationChannel | null> {
+    const existing = await this.findOwnChannel(userId, channelId);
+    if (!existing) {
+      return null;
+    }
+
+    const channel = await this.notificationRepository.updateChannel(channelId, {
+      ...data,
+      secret: data.secret === undefined ? existing.secret : data.secret,
+    });
+    await this.planForUser(userId);
+
+    return this.toPublicChannel(channel);
+  }
+
+  /**
+   * 通知先を削除（他のユーザーの通知先の場合は false）
+   * 予定済みのジョブは実行時に破棄される
+   */
+  async deleteChannel(userId: number, channelId: number): Promise<boolean> {
+    const existing = await this.findOwnChannel(userId, channelId);
+    if (!existing) {
+      return false;
+    }
+
+    await this.notificationRepository.deleteChannel(channelId);
+    return true;
+  }
+
+  /**
+   * 通知先にテスト通知を送信（他のユーザーの通知先の場合は false）
+   * 送信に失敗した場合は例外
+   */
+  async sendTest(userId: number, channelId: number): Promise<boolean> {
+    const channel = await this.findOwnChannel(userId, channelId);
+    if (!channel) {
+      return false;
+    }
+
+    await this.senders[channel.type].send(channel, {
+      title: "テスト通知",
+      text: "通知の設定が完了しました。お気に入りのイベントの前にお知らせします。",
+      url: `${this.frontendUrl}/favorites`,
+    });
+
+    return true;
+  }
+
+  /**
+   * ユーザーの今後のお気に入りイベントについて、有効な通知先ごとに通知ジョブを登録
+   * 登録したジョブの数を返す（通知日時が過ぎているものは登録しない）
+   */
+  async planForUser(userId: number): Promise<number> {
+    const now = new Date();
+    const [channels, favorites] = await Promise.all([
+      this.notificationRepository.findChannelsByUserId(userId),
+      this.userFavoriteRepository.findUpcomingEvents(userId, now),
+    ]);
+
+    let scheduled = 0;
+    for (const channel of channels.filter((channel) => channel.enabled)) {
+      for (const favorite of favorites) {
+        const fireAt = this.getFireTime(favorite.event, channel);
+        if (fireAt <= now) {
+          continue;
+        }
+
+        const jobId = await this.queueService.scheduleNotification(
+          {
+            channelId: channel.id,
+            favoriteId: favorite.favoriteId,
+            fireAt: fireAt.toISOString(),
+          },
+          fireAt,
+        );
+        if (jobId) {
+          scheduled++;
+        }
+      }
+    }
+
+    logger.info("通知予定完了", {
+      userId,
+      channels: channels.length,
+      favorites: favorites.length,
+      scheduled,
+    });
+
+    return scheduled;
+  }
+
+  /**
+   * 通知ジョブの実行
+   * 通知先・お気に入りが削除された場合や、イベント時刻・通知タイミングが
+   * 予定時から変わった場合（予定し直したジョブが別にある）は送信しない
+   */
+  async deliver(data: NotificationJobData): Promise<"sent" | "skipped"> {
+    const [channel, favorite] = await Promise.all([
+      this.notificationRepository.findChannelById(data.channelId),
+      this.userFavoriteRepository.findEventByFavoriteId(data.favoriteId),
+    ]);
+
+    const skipReason = this.getSkipReason(data, channel, favorite);
+    if (skipReason) {
+      logger.info("通知スキップ", { ...data, reason: skipReason });
+      return "skipped";
+    }
+
+    await this.senders[channel!.type].send(
+      channel!,
+      this.buildMessage(favorite!.event, channel!.leadTimeMinutes),
+    );
+
+    logger.info("通知送信完了", {
+      ...data,
+      type: channel!.type,
+      userId: channel!.userId,
+    });
+
+    return "sent";
+  }
+
+  private getSkipReason(
+    data: NotificationJobData,
+    channel: NotificationChannelRecord | null,
+    favorite: StoredFavoriteEvent | null,
+  ): string | null {
+    if (!channel || !channel.enabled) {
+      return "channel removed or disabled";
+    }
+    if (!favorite || favorite.userId !== channel.userId) {
+      return "favorite removed";
+    }
+    if (new Date(favorite.event.time) <= new Date()) {
+      return "event already passed";
+    }
+
+    const expected = this.getFireTime(favorite.event, channel).getTime();
+    if (
+      Math.abs(expected - new Date(data.fireAt).getTime()) >
+      FIRE_TIME_TOLERANCE_MS
+    ) {
+      return "rescheduled";
+    }
+
+    return null;
+  }
+
+  private getFireTime(
+    event: FavoriteEvent,
+    channel: NotificationChannelRecord,
+  ): Date {
+    return new Date(
+      new Date(event.time).getTime() - channel.leadTimeMinutes * 60 * 1000,
+    );
+  }
+
+  private buildMessage(
+    event: FavoriteEvent,
+    leadTimeMinutes: number,
+  ): NotificationMessage {
+    const eventTime = new Date(event.time);
+    const rising = event.subType === "sunrise" || event.subType === "rising";
+    const eventName = `${rising ? "昇る" : "沈む"}${
+      event.celestialBodyName ??
+      (event.type === "diamond" ? "ダイヤモンド富士" : "パール富士")
+    }`;
+    const timeLabel = eventTime.toLocaleString("ja-JP", {
+      timeZone: "Asia/Tokyo",
+      month: "long",
+      day: "numeric",
+      weekday: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+    const dateString = eventTime
+      .toLocaleDateString("sv-SE", { timeZone: "Asia/Tokyo" })
+      .slice(0, 10);
+
+    return {
+      title: `${this.formatLeadTime(leadTimeMinutes)}後: ${eventName}（${event.locationName}）`,
+      text: [
+        `${timeLabel} ${event.locationName}`,
+        `方位角 ${event.azimuth.toFixed(1)}° / 高度 ${event.elevation.toFixed(1)}°`,
+      ].join("\n"),
+      url: `${this.frontendUrl}/?date=${dateString}`,
+      event,
+    };
+  }
+
+  private formatLeadTime(minutes: number): string {
+    if (minutes % (24 * 60) === 0) {
+      return `${minutes / (24 * 60)} 日`;
+    }
+    if (minutes % 60 === 0) {
+      return `${minutes / 60} 時間`;
+    }
+    return `${minutes} 分`;
+  }
+
+  private async findOwnChannel(
+    userId: number,
+    channelId: number,
+  ): Promise<NotificationChannelRecord | null> {
+    const channel =
+      await this.notificationRepository.findChannelById(channelId);
+    return channel && channel.userId === userId ? channel : null;
+  }
+
+  /**
+   * 署名鍵・ユーザー ID を除いた API 用の通知先
+   */
+  private toPublicChannel(
+    channel: NotificationChannelRecord,
+  ): NotificationChannel {
+    return {
+      id: channel.id,
+      type: channel.type,
+      target: channel.target,
+      hasSecret: channel.hasSecret,
+      leadTimeMinutes: channel.leadTimeMinutes,
+      enabled: channel.enabled,
+      createdAt: channel.createdAt,
+    };
+  }
+}
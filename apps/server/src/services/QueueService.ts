@@ -1,11 +1,16 @@
 import { Queue, Worker, Job } from "bullmq";
 import IORedis from "ioredis";
 import { getComponentLogger } from "@fuji-calendar/utils";
+import { CalculationJobProgress } from "@fuji-calendar/types";
 import { EventService } from "./interfaces/EventService";
 import { QueueService as IQueueService } from "./interfaces/QueueService";
+import { NotificationJobData, NotificationService } from "./NotificationService";
 
 const logger = getComponentLogger("queue-service");
 
+// イベント計算・通知のジョブを扱うキュー（RealtimeService が QueueEvents で購読する）
+export const EVENT_CALCULATION_QUEUE = "event-calculation";
+
 /**
  * リファクタリング後の QueueService
  * 依存注入パターンを使用して循環依存を解消
@@ -16,6 +21,7 @@ export class QueueService implements IQueueService {
   private worker: Worker | null = null;
   private eventService: EventService | null = null;
   private systemSettingsService: any | null = null; // 循環依存回避のためany型
+  private notificationService: NotificationService | null = null;
 
   constructor(eventService: EventService | null = null, enableWorker: boolean = true) {
     this.eventService = eventService;
@@ -47,6 +53,16 @@ export class QueueService implements IQueueService {
     });
   }
 
+  /**
+   * NotificationService を後から注入（循環依存対策）
+   */
+  setNotificationService(notificationService: NotificationService): void {
+    this.notificationService = notificationService;
+    logger.info("NotificationService 注入完了", {
+      hasNotificationService: !!notificationService,
+    });
+  }
+
   /**
    * Redis 接続の初期化
    */
@@ -110,7 +126,7 @@ export class QueueService implements IQueueService {
 
     try {
       // イベント計算キューを作成（常に作成）
-      this.eventCalculationQueue = new Queue("event-calculation", {
+      this.eventCalculationQueue = new Queue(EVENT_CALCULATION_QUEUE, {
         connection: this.redis,
         defaultJobOptions: {
           removeOnComplete: { count: 100 },
@@ -156,7 +172,7 @@ export class QueueService implements IQueueService {
         );
 
         this.worker = new Worker(
-          "event-calculation",
+          EVENT_CALCULATION_QUEUE,
           this.processJob.bind(this),
           {
             connection: this.redis,
@@ -276,11 +292,14 @@ export class QueueService implements IQueueService {
       switch (type) {
         case "location":
         case "location-calculation":
-          return await this.processLocationCalculation(data);
+          return await this.processLocationCalculation(data, job);
 
         case "monthly":
         case "monthly-calculation":
-          return await this.processMonthlyCalculation(data);
+          return await this.processMonthlyCalculation(data, job);
+
+        case "notification":
+          return await this.processNotification(data);
 
         default:
           throw new Error(`Unknown job type: ${type}`);
@@ -298,11 +317,14 @@ export class QueueService implements IQueueService {
   /**
    * 地点計算ジョブの処理（動的設定対応）
    */
-  private async processLocationCalculation(data: {
-    locationId: number;
-    startYear: number;
-    endYear: number;
-  }): Promise<any> {
+  private async processLocationCalculation(
+    data: {
+      locationId: number;
+      startYear: number;
+      endYear: number;
+    },
+    job: Job,
+  ): Promise<any> {
     const { locationId, startYear, endYear } = data;
     logger.info("地点計算処理開始（動的低負荷モード）", { locationId, startYear, endYear });
 
@@ -329,6 +351,8 @@ export class QueueService implements IQueueService {
     }
 
     const results = [];
+    const totalMonths = (endYear - startYear + 1) * 12;
+    let completedMonths = 0;
 
     for (let year = startYear; year <= endYear; year++) {
       logger.info("年間計算開始", { locationId, year });
@@ -341,6 +365,14 @@ export class QueueService implements IQueueService {
       const result = await eventService!.generateLocationCache(
         locationId,
         year,
+        (calculatedLocationId, month) =>
+          this.reportProgress(job, {
+            locationId: calculatedLocationId,
+            year,
+            month,
+            completedMonths: ++completedMonths,
+            totalMonths,
+          }),
       );
       
       logger.info("年間計算完了", {
@@ -372,11 +404,14 @@ export class QueueService implements IQueueService {
   /**
    * 月間計算ジョブの処理
    */
-  private async processMonthlyCalculation(data: {
-    year: number;
-    month: number;
-    locationIds: number[];
-  }): Promise<any> {
+  private async processMonthlyCalculation(
+    data: {
+      year: number;
+      month: number;
+      locationIds: number[];
+    },
+    job: Job,
+  ): Promise<any> {
     const { year, month, locationIds } = data;
 
     // 遅延解決で EventService を取得
@@ -390,10 +425,20 @@ export class QueueService implements IQueueService {
       throw new Error("EventService is not available");
     }
 
+    const totalMonths = locationIds.length * 12;
+    let completedMonths = 0;
     const result = await eventService!.calculateMonthlyEvents(
       year,
       month,
       locationIds,
+      (locationId, calculatedMonth) =>
+        this.reportProgress(job, {
+          locationId,
+          year,
+          month: calculatedMonth,
+          completedMonths: ++completedMonths,
+          totalMonths,
+        }),
     );
 
     return {
@@ -404,6 +449,86 @@ export class QueueService implements IQueueService {
     };
   }
 
+  /**
+   * ジョブの進捗を更新（QueueEvents の progress としてサーバープロセスに届く）
+   * 進捗の更新に失敗しても計算は続ける
+   */
+  private async reportProgress(
+    job: Job,
+    progress: CalculationJobProgress,
+  ): Promise<void> {
+    try {
+      await job.updateProgress(progress);
+    } catch (error) {
+      logger.warn("ジョブ進捗の更新に失敗", { jobId: job.id, error });
+    }
+  }
+
+  /**
+   * 通知ジョブの処理
+   */
+  private async processNotification(data: NotificationJobData): Promise<{
+    success: boolean;
+    result: "sent" | "skipped";
+  }> {
+    const notificationService = this.notificationService;
+    if (!notificationService) {
+      logger.error("NotificationService が設定されていません", data);
+      throw new Error("NotificationService is not available");
+    }
+
+    const result = await notificationService.deliver(data);
+    return { success: true, result };
+  }
+
+  /**
+   * 通知ジョブをスケジュール
+   * ジョブ ID に通知日時を含めるため、イベント時刻や通知タイミングが変わると別のジョブになる
+   * （古いジョブは実行時に NotificationService が破棄する）
+   */
+  async scheduleNotification(
+    data: NotificationJobData,
+    fireAt: Date,
+  ): Promise<string | null> {
+    if (!this.eventCalculationQueue) {
+      logger.warn("キューが無効のため、通知をスケジュールできません", data);
+      return null;
+    }
+
+    try {
+      const job = await this.eventCalculationQueue.add(
+        "notification",
+        {
+          type: "notification",
+          ...data,
+        },
+        {
+          jobId: `notification-${data.channelId}-${data.favoriteId}-${fireAt.getTime()}`,
+          // 計算ジョブより先に処理する
+          priority: this.getPriority("high"),
+          delay: Math.max(0, fireAt.getTime() - Date.now()),
+          attempts: 3,
+          backoff: {
+            type: "exponential",
+            delay: 60 * 1000,
+          },
+        },
+      );
+
+      logger.debug("通知ジョブ登録", {
+        jobId: job.id,
+        channelId: data.channelId,
+        favoriteId: data.favoriteId,
+        fireAt: data.fireAt,
+      });
+
+      return job.id || null;
+    } catch (error) {
+      logger.error("通知ジョブ登録エラー", error, data);
+      return null;
+    }
+  }
+
   /**
    * キューの統計情報を取得
    */
@@ -647,7 +772,7 @@ export class QueueService implements IQueueService {
       // 新しいワーカーを作成（古いワーカーは後で削除）
       const oldWorker = this.worker;
       this.worker = new Worker(
-        "event-calculation",
+        EVENT_CALCULATION_QUEUE,
         this.processJob.bind(this),
         {
           connection: this.redis!,
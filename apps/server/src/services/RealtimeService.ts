@@ -0,0 +1,287 @@
+import { Request, Response } from "express";
+import { QueueEvents } from "bullmq";
+import {
+  CalculationJobProgress,
+  CalendarInvalidation,
+  QueueJobUpdate,
+} from "@fuji-calendar/types";
+import { getComponentLogger } from "@fuji-calendar/utils";
+import { RedisService } from "./RedisService";
+import { EVENT_CALCULATION_QUEUE } from "./QueueService";
+
+const logger = getComponentLogger("RealtimeService");
+
+/**
+ * 配信先
+ * public: 公開ページ（カレンダーの再計算の通知のみ）
+ * admin: 管理画面（ジョブの進捗とカレンダーの再計算の通知）
+ */
+export type RealtimeChannel = "public" | "admin";
+
+/**
+ * 接続の登録結果
+ * channel_full: チャンネルの接続数が上限
+ * ip_limit: 同じ IP アドレスからの接続数が上限
+ */
+export type RealtimeConnectionResult =
+  "connected" | "channel_full" | "ip_limit";
+
+// プロキシのタイムアウト（30 秒）より短い間隔でコメント行を送り、接続を保つ
+const HEARTBEAT_INTERVAL_MS = 20 * 1000;
+
+// 切断時にブラウザが再接続するまでの時間
+const RECONNECT_DELAY_MS = 5000;
+
+const MAX_CLIENTS: Record<RealtimeChannel, number> = {
+  public: 1000,
+  admin: 20,
+};
+
+// 1 つのクライアントがチャンネルの接続枠を占有しないよう、IP アドレスごとの接続数も制限する
+const MAX_CLIENTS_PER_IP: Record<RealtimeChannel, number> = {
+  public: 5,
+  admin: 5,
+};
+
+/**
+ * リアルタイム更新サービス（Server-Sent Events）
+ * BullMQ の QueueEvents でジョブの状態と進捗を、Redis の Pub/Sub でイベントの再計算を受け取り、接続中のクライアントに送る
+ * 計算はワーカープロセスで行うため、どちらも Redis を経由してサーバープロセスに届く
+ */
+export class RealtimeService {
+  private clients: Record<RealtimeChannel, Set<Response>> = {
+    public: new Set(),
+    admin: new Set(),
+  };
+  private clientsPerIp: Record<RealtimeChannel, Map<string, number>> = {
+    public: new Map(),
+    admin: new Map(),
+  };
+  private queueEvents: QueueEvents | null = null;
+  private unsubscribeCalendarInvalidations: (() => Promise<void>) | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+
+  constructor(private redisService: RedisService | null) {}
+
+  /**
+   * 購読を開始（Redis に接続できなくてもサーバーの起動は止めない）
+   */
+  start(): void {
+    if (this.heartbeatTimer) {
+      return;
+    }
+
+    this.heartbeatTimer = setInterval(
+      () => this.sendHeartbeat(),
+      HEARTBEAT_INTERVAL_MS,
+    );
+    this.heartbeatTimer.unref();
+
+    if (!this.redisService) {
+      logger.info("Redis 無効化モード: ジョブの進捗と再計算の通知は送りません");
+      return;
+    }
+
+    this.queueEvents = new QueueEvents(EVENT_CALCULATION_QUEUE, {
+      connection: {
+        host: process.env.REDIS_HOST || "localhost",
+        port: parseInt(process.env.REDIS_PORT || "6379"),
+        maxRetriesPerRequest: null,
+      },
+    });
+    this.setupQueueEventHandlers(this.queueEvents);
+
+    this.redisService
+      .subscribeCalendarInvalidations((invalidation) =>
+        this.publishCalendarInvalidation(invalidation),
+      )
+      .then((unsubscribe) => {
+        this.unsubscribeCalendarInvalidations = unsubscribe;
+        logger.info("カレンダー更新通知の購読開始");
+      })
+      .catch((error) => {
+        logger.error("カレンダー更新通知の購読開始エラー", error);
+      });
+  }
+
+  /**
+   * クライアントを登録してイベントストリームを開始
+   * 接続数が上限に達している場合は登録しない（応答は呼び出し元で返す）
+   */
+  addClient(
+    channel: RealtimeChannel,
+    req: Request,
+    res: Response,
+  ): RealtimeConnectionResult {
+    const clients = this.clients[channel];
+    if (clients.size >= MAX_CLIENTS[channel]) {
+      logger.warn("リアルタイム更新の接続数が上限に達しました", {
+        channel,
+        maxClients: MAX_CLIENTS[channel],
+      });
+      return "channel_full";
+    }
+
+    const ip = req.ip || req.socket.remoteAddress || "unknown";
+    const clientsPerIp = this.clientsPerIp[channel];
+    const ipClientCount = clientsPerIp.get(ip) ?? 0;
+    if (ipClientCount >= MAX_CLIENTS_PER_IP[channel]) {
+      logger.warn(
+        "IP アドレスごとのリアルタイム更新の接続数が上限に達しました",
+        {
+          channel,
+          ip,
+          maxClientsPerIp: MAX_CLIENTS_PER_IP[channel],
+        },
+      );
+      return "ip_limit";
+    }
+
+    res.status(200).set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      // nginx のバッファリングを無効にして即座に届ける
+      "X-Accel-Buffering": "no",
+    });
+    res.flushHeaders();
+    res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+    clients.add(res);
+    clientsPerIp.set(ip, ipClientCount + 1);
+    req.on("close", () => {
+      clients.delete(res);
+      const remaining = (clientsPerIp.get(ip) ?? 1) - 1;
+      if (remaining > 0) {
+        clientsPerIp.set(ip, remaining);
+      } else {
+        clientsPerIp.delete(ip);
+      }
+    });
+
+    logger.debug("リアルタイム更新の接続", {
+      channel,
+      clientCount: clients.size,
+    });
+    return "connected";
+  }
+
+  /**
+   * イベントの再計算を公開ページと管理画面に通知
+   */
+  publishCalendarInvalidation(invalidation: CalendarInvalidation): void {
+    this.broadcast(["public", "admin"], "calendar-invalidated", invalidation);
+  }
+
+  /**
+   * 接続数（チャンネル別）
+   */
+  getClientCounts(): Record<RealtimeChannel, number> {
+    return {
+      public: this.clients.public.size,
+      admin: this.clients.admin.size,
+    };
+  }
+
+  /**
+   * 購読を停止し、接続中のクライアントを切断
+   */
+  async shutdown(): Promise<void> {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+
+    for (const clients of Object.values(this.clients)) {
+      for (const res of clients) {
+        res.end();
+      }
+      clients.clear();
+    }
+    for (const clientsPerIp of Object.values(this.clientsPerIp)) {
+      clientsPerIp.clear();
+    }
+
+    if (this.queueEvents) {
+      await this.queueEvents.close();
+      this.queueEvents = null;
+    }
+
+    if (this.unsubscribeCalendarInvalidations) {
+      await this.unsubscribeCalendarInvalidations();
+      this.unsubscribeCalendarInvalidations = null;
+    }
+
+    logger.info("RealtimeService シャットダウン完了");
+  }
+
+  private setupQueueEventHandlers(queueEvents: QueueEvents): void {
+    queueEvents.on("waiting", ({ jobId }) => {
+      this.sendJobUpdate({ jobId, status: "waiting" });
+    });
+
+    queueEvents.on("active", ({ jobId }) => {
+      this.sendJobUpdate({ jobId, status: "active" });
+    });
+
+    queueEvents.on("progress", ({ jobId, data }) => {
+      this.sendJobUpdate({
+        jobId,
+        status: "progress",
+        progress: this.isCalculationJobProgress(data) ? data : undefined,
+      });
+    });
+
+    queueEvents.on("completed", ({ jobId }) => {
+      this.sendJobUpdate({ jobId, status: "completed" });
+    });
+
+    queueEvents.on("failed", ({ jobId, failedReason }) => {
+      this.sendJobUpdate({ jobId, status: "failed", failedReason });
+    });
+
+    queueEvents.on("error", (error) => {
+      logger.error("QueueEvents エラー", error);
+    });
+  }
+
+  private sendJobUpdate(update: Omit<QueueJobUpdate, "timestamp">): void {
+    const jobUpdate: QueueJobUpdate = {
+      ...update,
+      timestamp: new Date().toISOString(),
+    };
+    this.broadcast(["admin"], "job", jobUpdate);
+  }
+
+  private isCalculationJobProgress(
+    data: unknown,
+  ): data is CalculationJobProgress {
+    return (
+      typeof data === "object" &&
+      data !== null &&
+      typeof (data as CalculationJobProgress).locationId === "number" &&
+      typeof (data as CalculationJobProgress).month === "number"
+    );
+  }
+
+  private broadcast(
+    channels: RealtimeChannel[],
+    event: string,
+    data: unknown,
+  ): void {
+    const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+    for (const channel of channels) {
+      for (const res of this.clients[channel]) {
+        res.write(message);
+      }
+    }
+  }
+
+  private sendHeartbeat(): void {
+    for (const clients of Object.values(this.clients)) {
+      for (const res of clients) {
+        res.write(": heartbeat\n\n");
+      }
+    }
+  }
+}
@@ -1,6 +1,6 @@
 import Redis from "ioredis";
 import { getComponentLogger } from "@fuji-calendar/utils";
-import { FujiEvent } from "@fuji-calendar/types";
+import { CalendarInvalidation, FujiEvent } from "@fuji-calendar/types";
 
 /**
  * Redis 活用拡大サービス
@@ -16,6 +16,13 @@ export class RedisService {
     SESSION: "session:",
     USER_FAVORITES: "favorites:",
     LOCATION_CACHE: "location:",
+    WEATHER: "weather:",
+    API_KEY_USAGE: "api_usage:",
+  } as const;
+
+  // Pub/Sub のチャンネル（ワーカープロセスからサーバープロセスへの通知）
+  private static readonly CHANNELS = {
+    CALENDAR_INVALIDATIONS: "calendar_invalidations",
   } as const;
 
   // キャッシュ TTL 設定（秒）
@@ -24,6 +31,9 @@ export class RedisService {
     SESSION: 24 * 60 * 60, // 24 時間
     USER_FAVORITES: 30 * 24 * 60 * 60, // 30 日
     LOCATION_CACHE: 60 * 60, // 1 時間
+    WEATHER: 60 * 60, // 1 時間（予報の更新間隔に合わせる）
+    API_KEY_USAGE_MINUTE: 2 * 60, // 2 分（1 分間の枠が終わるまで保持）
+    API_KEY_USAGE_DAY: 2 * 24 * 60 * 60, // 2 日（管理画面で今日の分を表示する）
   } as const;
 
   constructor() {
@@ -245,6 +255,20 @@ export class RedisService {
     }
   }
 
+  /**
+   * ユーザーお気に入りキャッシュ削除
+   */
+  async invalidateUserFavorites(userId: string): Promise<void> {
+    try {
+      const key = `${RedisService.PREFIXES.USER_FAVORITES}${userId}`;
+      await this.redis.del(key);
+
+      this.logger.debug("お気に入りキャッシュ削除", { userId });
+    } catch (error) {
+      this.logger.error("お気に入りキャッシュ削除エラー", error, { userId });
+    }
+  }
+
   /**
    * 地点情報キャッシュ
    */
@@ -261,6 +285,153 @@ export class RedisService {
 
 
 
+  /**
+   * 雲量予報キャッシュ（予報が無い場合の null もキャッシュする）
+   */
+  async cacheCloudCover(key: string, cloudCover: number | null): Promise<void> {
+    try {
+      await this.redis.setex(
+        `${RedisService.PREFIXES.WEATHER}${key}`,
+        RedisService.TTL.WEATHER,
+        JSON.stringify({ cloudCover }),
+      );
+    } catch (error) {
+      this.logger.error("雲量予報キャッシュ保存エラー", error, { key });
+    }
+  }
+
+  /**
+   * 雲量予報キャッシュ取得
+   * キャッシュが無い場合は undefined
+   */
+  async getCloudCover(key: string): Promise<number | null | undefined> {
+    try {
+      const cached = await this.redis.get(
+        `${RedisService.PREFIXES.WEATHER}${key}`,
+      );
+      if (!cached) {
+        return undefined;
+      }
+
+      return (JSON.parse(cached) as { cloudCover: number | null }).cloudCover;
+    } catch (error) {
+      this.logger.error("雲量予報キャッシュ取得エラー", error, { key });
+      return undefined;
+    }
+  }
+
+  /**
+   * API キーのリクエスト数を 1 分間の枠と 1 日の枠で加算
+   * 加算後の件数を返す（Redis に接続できない場合は null）
+   */
+  async incrementApiKeyUsage(
+    keyId: number,
+    minuteWindow: number,
+    day: string,
+  ): Promise<{ minute: number; day: number } | null> {
+    try {
+      const minuteKey = `${RedisService.PREFIXES.API_KEY_USAGE}${keyId}:m:${minuteWindow}`;
+      const dayKey = `${RedisService.PREFIXES.API_KEY_USAGE}${keyId}:d:${day}`;
+      const results = await this.redis
+        .multi()
+        .incr(minuteKey)
+        .expire(minuteKey, RedisService.TTL.API_KEY_USAGE_MINUTE)
+        .incr(dayKey)
+        .expire(dayKey, RedisService.TTL.API_KEY_USAGE_DAY)
+        .exec();
+
+      if (!results || results.some(([error]) => error)) {
+        return null;
+      }
+
+      return {
+        minute: results[0][1] as number,
+        day: results[2][1] as number,
+      };
+    } catch (error) {
+      this.logger.error("API キー使用量加算エラー", error, { keyId });
+      return null;
+    }
+  }
+
+  /**
+   * API キーごとの指定日のリクエスト数を取得
+   * Redis に接続できない場合は null
+   */
+  async getApiKeyDailyUsage(
+    keyIds: number[],
+    day: string,
+  ): Promise<Map<number, number> | null> {
+    if (keyIds.length === 0) {
+      return new Map();
+    }
+
+    try {
+      const counts = await this.redis.mget(
+        ...keyIds.map(
+          (keyId) => `${RedisService.PREFIXES.API_KEY_USAGE}${keyId}:d:${day}`,
+        ),
+      );
+
+      return new Map(
+        keyIds.map((keyId, i) => [keyId, parseInt(counts[i] ?? "0")]),
+      );
+    } catch (error) {
+      this.logger.error("API キー使用量取得エラー", error);
+      return null;
+    }
+  }
+
+  /**
+   * イベントを再計算した月を通知（計算はワーカープロセスで行うため Redis 経由で送る）
+   */
+  async publishCalendarInvalidation(
+    invalidation: CalendarInvalidation,
+  ): Promise<void> {
+    try {
+      await this.redis.publish(
+        RedisService.CHANNELS.CALENDAR_INVALIDATIONS,
+        JSON.stringify(invalidation),
+      );
+    } catch (error) {
+      this.logger.error("カレンダー更新通知の送信エラー", error, {
+        year: invalidation.year,
+        month: invalidation.month,
+      });
+    }
+  }
+
+  /**
+   * イベントを再計算した月の通知を購読
+   * 購読中の接続は他のコマンドを送れないため、別の接続を使う。戻り値は購読の解除
+   */
+  async subscribeCalendarInvalidations(
+    handler: (invalidation: CalendarInvalidation) => void,
+  ): Promise<() => Promise<void>> {
+    const subscriber = this.redis.duplicate();
+
+    subscriber.on("error", (error) => {
+      this.logger.error("カレンダー更新通知の購読エラー", error);
+    });
+
+    subscriber.on("message", (channel: string, message: string) => {
+      if (channel !== RedisService.CHANNELS.CALENDAR_INVALIDATIONS) {
+        return;
+      }
+      try {
+        handler(JSON.parse(message));
+      } catch (error) {
+        this.logger.warn("カレンダー更新通知の解析に失敗", { message, error });
+      }
+    });
+
+    await subscriber.subscribe(RedisService.CHANNELS.CALENDAR_INVALIDATIONS);
+
+    return async () => {
+      await subscriber.quit();
+    };
+  }
+
   /**
    * キャッシュ統計取得
    */
@@ -287,7 +287,7 @@ export class SystemSettingsService {
     if (settingKey.includes('worker_') || settingKey.includes('job_') || settingKey.includes('processing_') || settingKey.includes('concurrency') || settingKey.includes('max_active')) {
       return 'performance';
     }
-    if (settingKey.includes('azimuth_') || settingKey.includes('elevation_') || settingKey.includes('sun_') || settingKey.includes('moon_') || settingKey.includes('search_')) {
+    if (settingKey.includes('azimuth_') || settingKey.includes('elevation_') || settingKey.includes('sun_') || settingKey.includes('moon_') || settingKey.includes('search_') || settingKey.includes('refraction_') || settingKey.includes('atmosphere_') || settingKey.includes('_precision') || settingKey.includes('_uncertainty')) {
       return 'astronomical';
     }
     if (settingKey.includes('ui_') || settingKey.includes('theme_') || settingKey.includes('display_')) {
@@ -303,7 +303,8 @@ export class SystemSettingsService {
   async getAstronomicalSettings(): Promise<{
     azimuthTolerance: number;
     elevationTolerance: number;
-    searchInterval: number;
+    coarseSearchInterval: number;
+    refinementPrecision: number;
     sunAngularDiameter: number;
     moonAngularDiameter: number;
   }> {
@@ -318,7 +319,14 @@ export class SystemSettingsService {
         "elevation_tolerance",
         0.05,
       ),
-      searchInterval: await this.getNumberSetting("search_interval", 10),
+      coarseSearchInterval: await this.getNumberSetting(
+        "search_coarse_interval",
+        60,
+      ),
+      refinementPrecision: await this.getNumberSetting(
+        "search_refinement_precision",
+        0.1,
+      ),
       sunAngularDiameter: await this.getNumberSetting(
         "sun_angular_diameter",
         0.53,
@@ -339,6 +347,7 @@ export class SystemSettingsService {
     processingDelay: number;
     enableLowPriorityMode: boolean;
     maxActiveJobs: number;
+    eventHorizonYears: number;
   }> {
     // キャッシュを更新
     if (Date.now() - this.lastCacheUpdate.getTime() > this.CACHE_DURATION) {
@@ -351,6 +360,7 @@ export class SystemSettingsService {
       processingDelay: await this.getNumberSetting("processing_delay_ms", 2000),
       enableLowPriorityMode: await this.getBooleanSetting("enable_low_priority_mode", true),
       maxActiveJobs: await this.getNumberSetting("max_active_jobs", 3),
+      eventHorizonYears: await this.getNumberSetting("event_horizon_years", 2),
     };
   }
 
@@ -364,6 +374,7 @@ export class SystemSettingsService {
       { key: "processing_delay_ms", value: 2000, type: "number", description: "処理間の待機時間（ミリ秒）" },
       { key: "enable_low_priority_mode", value: true, type: "boolean", description: "低優先度モードの有効化" },
       { key: "max_active_jobs", value: 3, type: "number", description: "システム全体で同時実行可能なジョブの上限数。ワーカー数に関係なく、この値を超えるジョブは待機状態になる" },
+      { key: "event_horizon_years", value: 2, type: "number", description: "今年に加えて何年先までのイベントを常に生成しておくか。毎月の年次データ生成で未生成の年を補う" },
     ];
 
     for (const setting of defaultSettings) {
@@ -0,0 +1,154 @@
+import {
+  CreateTargetRequest,
+  Location,
+  LocationTarget,
+  Target,
+} from "@fuji-calendar/types";
+import { getComponentLogger } from "@fuji-calendar/utils";
+import { TargetRepository } from "../repositories/interfaces/TargetRepository";
+import { QueueService } from "./interfaces/QueueService";
+import { CoordinateCalculator } from "./astronomical/CoordinateCalculator";
+import { FUJI_TARGET_SLUG } from "./astronomical/AlignmentTarget";
+
+const logger = getComponentLogger("TargetService");
+
+/**
+ * 整列対象ビジネスロジック層
+ * 整列対象の管理と、撮影地点から見た対象の方位角・仰角・距離の事前計算を担当
+ */
+export class TargetService {
+  private coordinateCalc = new CoordinateCalculator();
+
+  constructor(
+    private targetRepository: TargetRepository,
+    private queueService: QueueService,
+  ) {}
+
+  /**
+   * 全整列対象の取得
+   */
+  async getAllTargets(): Promise<Target[]> {
+    return await this.targetRepository.findAll();
+  }
+
+  /**
+   * 識別子による整列対象の取得
+   */
+  async getTargetBySlug(slug: string): Promise<Target | null> {
+    return await this.targetRepository.findBySlug(slug);
+  }
+
+  /**
+   * 新しい整列対象の作成
+   */
+  async createTarget(data: CreateTargetRequest): Promise<Target> {
+    logger.info("整列対象作成開始", { slug: data.slug, name: data.name });
+    return await this.targetRepository.create(data);
+  }
+
+  /**
+   * 撮影地点に関連付けられた整列対象の取得
+   */
+  async getLocationTargets(locationId: number): Promise<LocationTarget[]> {
+    return await this.targetRepository.findLocationTargets(locationId);
+  }
+
+  /**
+   * 撮影地点の整列対象を置き換え、天体計算を再実行
+   * 富士山は常に関連付ける
+   */
+  async setLocationTargets(
+    location: Location,
+    targets: Target[],
+  ): Promise<LocationTarget[]> {
+    const fujiTarget = await this.targetRepository.findBySlug(FUJI_TARGET_SLUG);
+    const allTargets = [
+      ...(fujiTarget ? [fujiTarget] : []),
+      ...targets.filter((target) => target.slug !== FUJI_TARGET_SLUG),
+    ];
+
+    await this.targetRepository.deleteLocationTargetsExcept(
+      location.id,
+      allTargets.map((target) => target.id),
+    );
+    const locationTargets = await this.saveGeometries(location, allTargets);
+
+    logger.info("撮影地点の整列対象を更新", {
+      locationId: location.id,
+      targets: allTargets.map((target) => target.slug),
+    });
+
+    // 対象ごとのイベントを再計算（前年・当年・翌年の 3 年分）
+    const currentYear = new Date().getFullYear();
+    this.queueService
+      .scheduleLocationCalculation(
+        location.id,
+        currentYear - 1,
+        currentYear + 1,
+        "high",
+      )
+      .catch((error) => {
+        logger.error("天体計算ジョブ追加エラー", error, {
+          locationId: location.id,
+        });
+      });
+
+    return locationTargets;
+  }
+
+  /**
+   * 撮影地点の座標変更に合わせて関連付け済みの整列対象の事前計算値を更新
+   * 関連付けが無い場合は富士山を関連付ける
+   */
+  async refreshLocationTargets(location: Location): Promise<LocationTarget[]> {
+    const current = await this.targetRepository.findLocationTargets(
+      location.id,
+    );
+    const targets = current
+      .map((locationTarget) => locationTarget.target)
+      .filter((target): target is Target => !!target);
+
+    if (!targets.some((target) => target.slug === FUJI_TARGET_SLUG)) {
+      const fujiTarget =
+        await this.targetRepository.findBySlug(FUJI_TARGET_SLUG);
+      if (fujiTarget) {
+        targets.unshift(fujiTarget);
+      }
+    }
+
+    return await this.saveGeometries(location, targets);
+  }
+
+  /**
+   * 整列対象ごとの方位角・仰角・距離を計算して保存
+   * 富士山は地点に保存済みの値（ユーザー入力を含む）を優先する
+   */
+  private async saveGeometries(
+    location: Location,
+    targets: Target[],
+  ): Promise<LocationTarget[]> {
+    const locationTargets: LocationTarget[] = [];
+
+    for (const target of targets) {
+      const geometry = this.coordinateCalc.calculateTargetGeometry(
+        location,
+        target,
+      );
+      if (target.slug === FUJI_TARGET_SLUG) {
+        geometry.azimuth = location.fujiAzimuth ?? geometry.azimuth;
+        geometry.elevation = location.fujiElevation ?? geometry.elevation;
+        geometry.distance = location.fujiDistance ?? geometry.distance;
+      }
+
+      locationTargets.push(
+        await this.targetRepository.upsertLocationTarget(
+          location.id,
+          target.id,
+          geometry,
+        ),
+      );
+    }
+
+    return locationTargets;
+  }
+}
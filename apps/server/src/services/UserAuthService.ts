@@ -0,0 +1,93 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { User } from "@fuji-calendar/types";
+import { getComponentLogger } from "@fuji-calendar/utils";
+import { AUTH_CONFIG } from "../config/auth";
+import { UserRepository } from "../repositories/interfaces/UserRepository";
+import { Mailer } from "./mail/Mailer";
+
+const logger = getComponentLogger("UserAuthService");
+
+/**
+ * 一般ユーザーの認証サービス
+ * メールで送るログインリンク（1 回限り・期限付き）でログインし、ユーザー用のアクセストークンを発行する
+ */
+export class UserAuthService {
+  constructor(
+    private userRepository: UserRepository,
+    private mailer: Mailer,
+    private frontendUrl: string,
+  ) {}
+
+  /**
+   * ログインリンクをメールで送信
+   * 未登録のメールアドレスはリンクの使用時にユーザーを作成する
+   */
+  async requestLoginLink(email: string): Promise<void> {
+    const token = crypto.randomBytes(32).toString("base64url");
+    const expiresAt = new Date(
+      Date.now() + AUTH_CONFIG.LOGIN_LINK_EXPIRES_MINUTES * 60 * 1000,
+    );
+    await this.userRepository.createLoginToken(
+      email,
+      this.hashToken(token),
+      expiresAt,
+    );
+
+    const link = `${this.frontendUrl}/account/verify?token=${encodeURIComponent(token)}`;
+    await this.mailer.send({
+      to: email,
+      subject: "【富士山カレンダー】ログインリンク",
+      text: [
+        "富士山カレンダーへのログインリンクです。",
+        `${AUTH_CONFIG.LOGIN_LINK_EXPIRES_MINUTES} 分以内に次のリンクを開いてください（1 回のみ有効）。`,
+        "",
+        link,
+        "",
+        "このメールに心当たりがない場合は破棄してください。",
+      ].join("\n"),
+    });
+
+    logger.info("ログインリンク送信", { expiresAt });
+  }
+
+  /**
+   * ログインリンクのトークンを検証してアクセストークンを発行
+   * 無効・期限切れ・使用済みの場合は null
+   */
+  async verifyLoginLink(
+    token: string,
+  ): Promise<{ accessToken: string; user: User } | null> {
+    const email = await this.userRepository.consumeLoginToken(
+      this.hashToken(token),
+    );
+    if (!email) {
+      logger.warn("ログインリンク検証失敗");
+      return null;
+    }
+
+    const user = await this.userRepository.upsertForLogin(email);
+    const accessToken = jwt.sign(
+      { userId: user.id, type: "user" },
+      AUTH_CONFIG.USER_JWT_SECRET,
+      {
+        expiresIn: AUTH_CONFIG.USER_JWT_EXPIRES_IN,
+        issuer: "fuji-calendar",
+        audience: AUTH_CONFIG.USER_JWT_AUDIENCE,
+      },
+    );
+
+    return { accessToken, user };
+  }
+
+  async getUser(userId: number): Promise<User | null> {
+    return this.userRepository.findById(userId);
+  }
+
+  /**
+   * トークンは SHA-256 ハッシュのみ保存する
+   */
+  private hashToken(token: string): string {
+    return crypto.createHash("sha256").update(token).digest("hex");
+  }
+}
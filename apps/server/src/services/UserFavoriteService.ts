@@ -0,0 +1,118 @@
+import { FavoriteEvent, Favorites } from "@fuji-calendar/types";
+import { getComponentLogger } from "@fuji-calendar/utils";
+import { UserFavoriteRepository } from "../repositories/interfaces/UserFavoriteRepository";
+import { NotificationService } from "./NotificationService";
+import { RedisService } from "./RedisService";
+
+const logger = getComponentLogger("UserFavoriteService");
+
+/**
+ * ユーザーのお気に入りサービス
+ * サーバーに保存したお気に入りを Redis にキャッシュし、変更時にキャッシュを削除する
+ * お気に入りイベントが変わると通知を予定し直す
+ */
+export class UserFavoriteService {
+  constructor(
+    private userFavoriteRepository: UserFavoriteRepository,
+    private redisService: RedisService | null,
+    private notificationService: NotificationService,
+  ) {}
+
+  async getFavorites(userId: number): Promise<Favorites> {
+    const cached = await this.redisService?.getUserFavorites(String(userId));
+    if (cached) {
+      return cached as Favorites;
+    }
+
+    const favorites = await this.userFavoriteRepository.findByUserId(userId);
+    await this.redisService?.cacheUserFavorites(String(userId), favorites);
+
+    return favorites;
+  }
+
+  async addLocation(userId: number, locationId: number): Promise<boolean> {
+    const added = await this.userFavoriteRepository.addLocation(
+      userId,
+      locationId,
+    );
+    await this.invalidate(userId);
+    return added;
+  }
+
+  async removeLocation(userId: number, locationId: number): Promise<boolean> {
+    const removed = await this.userFavoriteRepository.removeLocation(
+      userId,
+      locationId,
+    );
+    await this.invalidate(userId);
+    return removed;
+  }
+
+  async addEvent(userId: number, event: FavoriteEvent): Promise<boolean> {
+    const added = await this.userFavoriteRepository.addEvent(userId, event);
+    await this.invalidate(userId);
+    if (added) {
+      await this.notificationService.planForUser(userId);
+    }
+    return added;
+  }
+
+  async removeEvent(userId: number, eventId: string): Promise<boolean> {
+    const removed = await this.userFavoriteRepository.removeEvent(
+      userId,
+      eventId,
+    );
+    await this.invalidate(userId);
+    return removed;
+  }
+
+  /**
+   * 端末（localStorage）のお気に入りをサーバーのお気に入りに統合
+   * 登録済みのものはそのまま残し、統合後のお気に入りを返す
+   */
+  async mergeFavorites(
+    userId: number,
+    favorites: Favorites,
+  ): Promise<Favorites> {
+    const added = await this.userFavoriteRepository.merge(userId, favorites);
+    await this.invalidate(userId);
+    if (added.events > 0) {
+      await this.notificationService.planForUser(userId);
+    }
+
+    logger.info("端末のお気に入りを統合", {
+      userId,
+      submittedLocations: favorites.locations.length,
+      submittedEvents: favorites.events.length,
+      addedLocations: added.locations,
+      addedEvents: added.events,
+    });
+
+    return this.getFavorites(userId);
+  }
+
+  /**
+   * イベントの再計算後、お気に入りイベントを再計算後のイベントに合わせて更新し、通知を予定し直す
+   * locationId が null の場合は全地点が対象
+   */
+  async refreshEventTimes(
+    locationId: number | null,
+    startTime: Date,
+    endTime: Date,
+  ): Promise<void> {
+    const userIds = await this.userFavoriteRepository.rematchEvents(
+      locationId,
+      startTime,
+      endTime,
+    );
+
+    for (const userId of userIds) {
+      await this.invalidate(userId);
+      await this.notificationService.planForUser(userId);
+    }
+  }
+
+  private async invalidate(userId: number): Promise<void> {
+    await this.redisService?.invalidateUserFavorites(String(userId));
+  }
+}
@@ -0,0 +1,181 @@
+import { FUJI_COORDINATES, FujiEvent } from "@fuji-calendar/types";
+import { getComponentLogger } from "@fuji-calendar/utils";
+import { TargetRepository } from "../repositories/interfaces/TargetRepository";
+import { RedisService } from "./RedisService";
+import { WeatherProvider } from "./weather/WeatherProvider";
+
+const logger = getComponentLogger("WeatherService");
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * 天気サービス
+ * イベント時刻の撮影地点と山頂の雲量予報を取得し、撮影できる見込み（shootability）を付ける
+ */
+export class WeatherService {
+  constructor(
+    private weatherProvider: WeatherProvider | null,
+    private targetRepository: TargetRepository,
+    private redisService: RedisService | null,
+  ) {
+    logger.info("WeatherService 初期化", {
+      provider: weatherProvider?.name ?? null,
+      cacheEnabled: !!redisService,
+    });
+  }
+
+  /**
+   * 予報の提供元が設定されているか
+   */
+  isEnabled(): boolean {
+    return !!this.weatherProvider;
+  }
+
+  /**
+   * 予報期間内のイベントに雲量と撮影できる見込みを付ける
+   * 予報期間外・予報が無いイベントはそのまま返す
+   */
+  async annotateEvents(events: FujiEvent[]): Promise<FujiEvent[]> {
+    const weatherProvider = this.weatherProvider;
+    if (!weatherProvider) {
+      return events;
+    }
+
+    const now = Date.now();
+    const forecastEnd = now + weatherProvider.forecastDays * DAY_MS;
+    const isInForecast = (event: FujiEvent) => {
+      const time = new Date(event.time).getTime();
+      return time >= now - HOUR_MS && time <= forecastEnd;
+    };
+
+    if (!events.some(isInForecast)) {
+      return events;
+    }
+
+    try {
+      const summits = await this.getSummitCoordinates();
+      // 同じ地点（約 1km 単位）・時刻（1 時間単位）の予報は 1 回だけ取得
+      const lookups = new Map<string, Promise<number | null>>();
+      const cloudCoverAt = (
+        latitude: number,
+        longitude: number,
+        time: Date,
+      ) => {
+        const hour = new Date(Math.round(time.getTime() / HOUR_MS) * HOUR_MS);
+        const key = `${weatherProvider.name}:${latitude.toFixed(2)}:${longitude.toFixed(2)}:${hour.toISOString()}`;
+        if (!lookups.has(key)) {
+          lookups.set(
+            key,
+            this.getCloudCover(weatherProvider, key, latitude, longitude, hour),
+          );
+        }
+        return lookups.get(key)!;
+      };
+
+      const annotated = await Promise.all(
+        events.map(async (event) => {
+          if (!isInForecast(event)) {
+            return event;
+          }
+
+          const time = new Date(event.time);
+          const summit =
+            (event.targetId !== undefined && summits.get(event.targetId)) ||
+            FUJI_COORDINATES;
+          const [observerCloudCover, summitCloudCover] = await Promise.all([
+            cloudCoverAt(
+              event.location.latitude,
+              event.location.longitude,
+              time,
+            ),
+            cloudCoverAt(summit.latitude, summit.longitude, time),
+          ]);
+          if (observerCloudCover === null || summitCloudCover === null) {
+            return event;
+          }
+
+          return {
+            ...event,
+            weather: {
+              observerCloudCover,
+              summitCloudCover,
+              provider: weatherProvider.name,
+            },
+            shootabilityScore: this.calculateShootabilityScore(
+              observerCloudCover,
+              summitCloudCover,
+            ),
+          };
+        }),
+      );
+
+      logger.debug("雲量予報付与完了", {
+        eventCount: events.length,
+        lookupCount: lookups.size,
+        provider: weatherProvider.name,
+      });
+
+      return annotated;
+    } catch (error) {
+      // 天気が取得できなくてもイベント自体は返す
+      logger.error("雲量予報付与エラー", error, {
+        provider: weatherProvider.name,
+      });
+      return events;
+    }
+  }
+
+  /**
+   * 撮影できる見込み（0-100）
+   * 撮影地点と山頂の両方が晴れている割合として、晴れ間（100 - 雲量）の積で求める
+   */
+  calculateShootabilityScore(
+    observerCloudCover: number,
+    summitCloudCover: number,
+  ): number {
+    return Math.round(
+      ((100 - observerCloudCover) * (100 - summitCloudCover)) / 100,
+    );
+  }
+
+  /**
+   * 指定時刻（1 時間単位）の雲量予報を取得（Redis にキャッシュ）
+   */
+  private async getCloudCover(
+    weatherProvider: WeatherProvider,
+    key: string,
+    latitude: number,
+    longitude: number,
+    time: Date,
+  ): Promise<number | null> {
+    const cached = await this.redisService?.getCloudCover(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const cloudCover = await weatherProvider.getCloudCover(
+      latitude,
+      longitude,
+      time,
+    );
+    await this.redisService?.cacheCloudCover(key, cloudCover);
+
+    return cloudCover;
+  }
+
+  /**
+   * 整列対象 ID ごとの頂部の座標
+   */
+  private async getSummitCoordinates(): Promise<
+    Map<number, { latitude: number; longitude: number }>
+  > {
+    const targets = await this.targetRepository.findAll();
+    return new Map(
+      targets.map((target) => [
+        target.id,
+        { latitude: target.latitude, longitude: target.longitude },
+      ]),
+    );
+  }
+}
@@ -0,0 +1,250 @@
+import * as Astronomy from "astronomy-engine";
+import {
+  AlignmentLineEventType,
+  AlignmentLinePoint,
+} from "@fuji-calendar/types";
+import { getComponentLogger } from "@fuji-calendar/utils";
+import { CoordinateCalculator } from "./CoordinateCalculator";
+import { CelestialPositionCalculator } from "./CelestialPositionCalculator";
+import { AlignmentTarget, FUJI_ALIGNMENT_TARGET } from "./AlignmentTarget";
+
+// 線を探す山頂からの距離の範囲（m）。山頂付近は地形の影響が大きく、
+// 遠方は富士山の最遠望地点（約 320km）を目安とする
+const MIN_LINE_DISTANCE = 3000;
+const MAX_LINE_DISTANCE = 320000;
+
+// 距離の二分探索の収束精度（m）
+const DISTANCE_PRECISION = 10;
+
+// 天体の方位角に合わせて地点を補正する回数（収束は 2-3 回で十分）
+const AZIMUTH_ITERATIONS = 4;
+
+// 時間範囲を省略した場合の出入り時刻からの範囲（ミリ秒）
+const DEFAULT_RANGE_BEFORE_MS = 10 * 60 * 1000;
+const DEFAULT_RANGE_AFTER_MS = 3 * 60 * 60 * 1000;
+
+/**
+ * 撮影地点の逆算
+ * 指定した日時に太陽・月が山頂に重なって見える地上の点を時刻ごとに求め、線として返す
+ */
+export class AlignmentLineCalculator {
+  private logger = getComponentLogger("AlignmentLineCalculator");
+  private coordinateCalc = new CoordinateCalculator();
+  private celestialCalc = new CelestialPositionCalculator();
+
+  /**
+   * 時刻ごとの線上の点を計算
+   * 天体が低すぎる（320km より遠い）・高すぎる（3km より近い）時刻は含めない
+   */
+  calculateLine(
+    eventType: AlignmentLineEventType,
+    startTime: Date,
+    endTime: Date,
+    intervalMinutes: number,
+    observerElevation: number,
+    target: AlignmentTarget = FUJI_ALIGNMENT_TARGET,
+  ): AlignmentLinePoint[] {
+    const points: AlignmentLinePoint[] = [];
+
+    for (
+      let time = startTime.getTime();
+      time <= endTime.getTime();
+      time += intervalMinutes * 60 * 1000
+    ) {
+      const point = this.calculatePoint(
+        eventType,
+        new Date(time),
+        observerElevation,
+        target,
+      );
+      if (point) {
+        points.push(point);
+      }
+    }
+
+    return points;
+  }
+
+  /**
+   * 時間範囲を省略した場合の既定の範囲
+   * 山頂での出（入り）時刻の 10 分前（後）から 3 時間後（前）まで
+   * 指定日に出入りが無い場合は null
+   */
+  getDefaultTimeRange(
+    eventType: AlignmentLineEventType,
+    date: Date,
+    target: AlignmentTarget = FUJI_ALIGNMENT_TARGET,
+  ): { startTime: Date; endTime: Date } | null {
+    const observer = new Astronomy.Observer(
+      target.latitude,
+      target.longitude,
+      target.elevation,
+    );
+    const body = this.isSun(eventType)
+      ? Astronomy.Body.Sun
+      : Astronomy.Body.Moon;
+    const rising = this.isRising(eventType);
+
+    const dayStart = new Date(date);
+    dayStart.setHours(0, 0, 0, 0);
+    const riseSet = Astronomy.SearchRiseSet(
+      body,
+      observer,
+      rising ? 1 : -1,
+      dayStart,
+      1,
+    );
+    if (!riseSet) {
+      return null;
+    }
+
+    const time = riseSet.date.getTime();
+    return rising
+      ? {
+          startTime: new Date(time - DEFAULT_RANGE_BEFORE_MS),
+          endTime: new Date(time + DEFAULT_RANGE_AFTER_MS),
+        }
+      : {
+          startTime: new Date(time - DEFAULT_RANGE_AFTER_MS),
+          endTime: new Date(time + DEFAULT_RANGE_BEFORE_MS),
+        };
+  }
+
+  /**
+   * 指定時刻に天体が山頂に重なる地点を計算
+   * 山頂から天体と反対の方位へ進み、山頂の仰角が天体の高度と等しくなる距離を二分探索で求める。
+   * 天体の方位角・高度は観測地点によってわずかに変わるため、求めた地点で再計算して補正する
+   */
+  private calculatePoint(
+    eventType: AlignmentLineEventType,
+    time: Date,
+    observerElevation: number,
+    target: AlignmentTarget,
+  ): AlignmentLinePoint | null {
+    let observer = { latitude: target.latitude, longitude: target.longitude };
+    let bearing: number | null = null;
+    let distance: number | null = null;
+
+    for (let i = 0; i < AZIMUTH_ITERATIONS; i++) {
+      const position = this.calculateBodyPosition(eventType, time, observer);
+      if (!position) {
+        return null;
+      }
+
+      // 観測地点から見た山頂の方位角が天体の方位角と一致するよう、山頂からの方位を補正
+      if (bearing === null) {
+        bearing = (position.azimuth + 180) % 360;
+      } else {
+        const summitAzimuth = this.coordinateCalc.calculateAzimuthToPoint(
+          observer,
+          target,
+        );
+        let azimuthError = position.azimuth - summitAzimuth;
+        if (azimuthError > 180) azimuthError -= 360;
+        if (azimuthError < -180) azimuthError += 360;
+        bearing = (bearing + azimuthError + 360) % 360;
+      }
+
+      distance = this.searchDistance(
+        bearing,
+        position.elevation,
+        observerElevation,
+        target,
+      );
+      if (distance === null) {
+        return null;
+      }
+      observer = this.coordinateCalc.calculateDestinationPoint(
+        target,
+        bearing,
+        distance,
+      );
+    }
+
+    if (distance === null) {
+      return null;
+    }
+
+    const geometry = this.coordinateCalc.calculateTargetGeometry(
+      { ...observer, elevation: observerElevation },
+      target,
+    );
+    return {
+      time,
+      latitude: observer.latitude,
+      longitude: observer.longitude,
+      azimuth: geometry.azimuth,
+      elevation: geometry.elevation,
+      distance,
+    };
+  }
+
+  /**
+   * 山頂の仰角が指定した高度になる距離を二分探索
+   * 仰角は距離とともに単調に小さくなる
+   */
+  private searchDistance(
+    bearing: number,
+    elevation: number,
+    observerElevation: number,
+    target: AlignmentTarget,
+  ): number | null {
+    const elevationAt = (distance: number) =>
+      this.coordinateCalc.calculateElevationToPoint(
+        {
+          ...this.coordinateCalc.calculateDestinationPoint(
+            target,
+            bearing,
+            distance,
+          ),
+          elevation: observerElevation,
+        },
+        target,
+      );
+
+    if (
+      elevation > elevationAt(MIN_LINE_DISTANCE) ||
+      elevation < elevationAt(MAX_LINE_DISTANCE)
+    ) {
+      return null;
+    }
+
+    let near = MIN_LINE_DISTANCE;
+    let far = MAX_LINE_DISTANCE;
+    while (far - near > DISTANCE_PRECISION) {
+      const middle = (near + far) / 2;
+      if (elevationAt(middle) > elevation) {
+        near = middle;
+      } else {
+        far = middle;
+      }
+    }
+
+    return (near + far) / 2;
+  }
+
+  private calculateBodyPosition(
+    eventType: AlignmentLineEventType,
+    time: Date,
+    observer: { latitude: number; longitude: number },
+  ): { azimuth: number; elevation: number } | null {
+    const position = this.isSun(eventType)
+      ? this.celestialCalc.calculateSunPosition(time, observer)
+      : this.celestialCalc.calculateMoonPosition(time, observer);
+    if (!position) {
+      this.logger.warn("天体位置が計算できません", {
+        eventType,
+        time: time.toISOString(),
+      });
+    }
+    return position;
+  }
+
+  private isSun(eventType: AlignmentLineEventType): boolean {
+    return eventType.startsWith("diamond");
+  }
+
+  private isRising(eventType: AlignmentLineEventType): boolean {
+    return eventType === "diamond_sunrise" || eventType === "pearl_moonrise";
+  }
+}
@@ -0,0 +1,64 @@
+import {
+  FUJI_COORDINATES,
+  FUJI_SUMMIT_RIDGE,
+  SummitPosition,
+  Target,
+} from "@fuji-calendar/types";
+
+// 富士山の整列対象を表す識別子（target パラメータ省略時の既定値）
+export const FUJI_TARGET_SLUG = "fuji";
+
+/**
+ * 整列計算に使う対象の形状
+ * ridge は観測者から見た稜線上の点（視線と直交する方向のオフセット m と標高）
+ */
+export interface AlignmentTarget {
+  id?: number;
+  slug: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  elevation: number;
+  ridge: ReadonlyArray<{
+    position: SummitPosition;
+    offset: number;
+    elevation: number;
+  }>;
+}
+
+/**
+ * 富士山（お鉢中央と左肩・中央・右肩の稜線）
+ */
+export const FUJI_ALIGNMENT_TARGET: AlignmentTarget = {
+  slug: FUJI_TARGET_SLUG,
+  name: "富士山",
+  ...FUJI_COORDINATES,
+  ridge: FUJI_SUMMIT_RIDGE,
+};
+
+/**
+ * 富士山を対象とした整列か
+ */
+export function isFujiTarget(target: AlignmentTarget): boolean {
+  return target.slug === FUJI_TARGET_SLUG;
+}
+
+/**
+ * DB の整列対象から計算用の形状を作成
+ * 富士山以外は稜線の形状データが無いため、頂部の 1 点（中央）として扱う
+ */
+export function toAlignmentTarget(target: Target): AlignmentTarget {
+  if (target.slug === FUJI_TARGET_SLUG) {
+    return { ...FUJI_ALIGNMENT_TARGET, id: target.id, name: target.name };
+  }
+
+  return {
+    id: target.id,
+    slug: target.slug,
+    name: target.name,
+    latitude: target.latitude,
+    longitude: target.longitude,
+    elevation: target.elevation,
+    ridge: [{ position: "center", offset: 0, elevation: target.elevation }],
+  };
+}
@@ -0,0 +1,126 @@
+import * as Astronomy from "astronomy-engine";
+import { CelestialObjectKind } from "@fuji-calendar/types";
+
+/**
+ * 太陽・月以外の整列対象の天体
+ * 惑星は astronomy-engine の天体をそのまま使い、恒星などの固定天体は
+ * J2000 の赤経・赤緯をユーザー定義恒星（Star1〜Star8）として登録して扱う
+ */
+export interface CelestialObject {
+  id: string;
+  name: string;
+  kind: CelestialObjectKind;
+  body: Astronomy.Body;
+  // 固定天体の J2000 赤経（時）・赤緯（度）・距離（光年）
+  star?: { ra: number; dec: number; distanceLightYears: number };
+  // 可視条件
+  maxMagnitude?: number; // これより暗い場合は見えないものとする（惑星のみ）
+  maxSunAltitude: number; // 太陽高度がこれ以下のときのみ見える（度）
+}
+
+// 既定で整列を検索する天体（`celestial_alignment_objects` 設定で変更可能）
+export const DEFAULT_CELESTIAL_OBJECT_IDS = [
+  "venus",
+  "jupiter",
+  "milky_way_core",
+  "orion_belt",
+];
+
+/**
+ * 整列を検索できる天体の一覧
+ * 太陽高度の条件は、金星が常用薄明（-6 度）より明るい空でも見えること、
+ * 天の川中心は天文薄明（-18 度）が終わらないと写らないことを考慮している
+ */
+export const CELESTIAL_OBJECTS: ReadonlyArray<CelestialObject> = [
+  {
+    id: "mercury",
+    name: "水星",
+    kind: "planet",
+    body: Astronomy.Body.Mercury,
+    maxMagnitude: 0,
+    maxSunAltitude: -6,
+  },
+  {
+    id: "venus",
+    name: "金星",
+    kind: "planet",
+    body: Astronomy.Body.Venus,
+    maxMagnitude: -3,
+    maxSunAltitude: -3,
+  },
+  {
+    id: "mars",
+    name: "火星",
+    kind: "planet",
+    body: Astronomy.Body.Mars,
+    maxMagnitude: 1,
+    maxSunAltitude: -6,
+  },
+  {
+    id: "jupiter",
+    name: "木星",
+    kind: "planet",
+    body: Astronomy.Body.Jupiter,
+    maxMagnitude: -1.5,
+    maxSunAltitude: -6,
+  },
+  {
+    id: "saturn",
+    name: "土星",
+    kind: "planet",
+    body: Astronomy.Body.Saturn,
+    maxMagnitude: 1,
+    maxSunAltitude: -6,
+  },
+  {
+    id: "milky_way_core",
+    name: "天の川中心",
+    kind: "star",
+    body: Astronomy.Body.Star1,
+    star: { ra: 17.76112, dec: -29.00781, distanceLightYears: 26700 },
+    maxSunAltitude: -18,
+  },
+  {
+    id: "orion_belt",
+    name: "オリオン座の三つ星",
+    kind: "star",
+    body: Astronomy.Body.Star2,
+    star: { ra: 5.60356, dec: -1.20192, distanceLightYears: 2000 },
+    maxSunAltitude: -12,
+  },
+  {
+    id: "sirius",
+    name: "シリウス",
+    kind: "star",
+    body: Astronomy.Body.Star3,
+    star: { ra: 6.75248, dec: -16.71611, distanceLightYears: 8.6 },
+    maxSunAltitude: -6,
+  },
+];
+
+// ユーザー定義恒星として登録済みの固定天体
+const definedStars = new Set<string>();
+
+/**
+ * 識別子から天体を取得
+ */
+export function findCelestialObject(id: string): CelestialObject | undefined {
+  return CELESTIAL_OBJECTS.find((object) => object.id === id);
+}
+
+/**
+ * astronomy-engine で計算する天体を取得
+ * 固定天体は初回のみ赤経・赤緯をユーザー定義恒星として登録する
+ */
+export function resolveCelestialBody(object: CelestialObject): Astronomy.Body {
+  if (object.star && !definedStars.has(object.id)) {
+    Astronomy.DefineStar(
+      object.body,
+      object.star.ra,
+      object.star.dec,
+      object.star.distanceLightYears,
+    );
+    definedStars.add(object.id);
+  }
+  return object.body;
+}
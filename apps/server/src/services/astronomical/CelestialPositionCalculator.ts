@@ -1,20 +1,32 @@
 import * as Astronomy from "astronomy-engine";
-import { SunPosition, MoonPosition } from "@fuji-calendar/types";
+import {
+  SunPosition,
+  MoonPosition,
+  MoonOrientation,
+  CelestialObjectPosition,
+} from "@fuji-calendar/types";
 import { getComponentLogger } from "@fuji-calendar/utils";
+import { RefractionModel } from "./RefractionModel";
+import { CelestialObject, resolveCelestialBody } from "./CelestialObjects";
+
+// 太陽の半径（km）
+const SUN_RADIUS_KM = 695700;
 
 /**
  * 天体位置計算を担当するクラス
- * 太陽・月の位置計算を集約
+ * 太陽・月と、惑星・恒星の位置計算を集約
  */
 export class CelestialPositionCalculator {
   private logger = getComponentLogger("CelestialPositionCalculator");
 
   /**
    * 指定した時刻・地点での太陽位置を計算
+   * 屈折モデルを省略した場合は astronomy-engine の標準屈折を適用
    */
   calculateSunPosition(
     date: Date,
     location: { latitude: number; longitude: number },
+    refraction?: RefractionModel,
   ): SunPosition | null {
     try {
       const observer = new Astronomy.Observer(
@@ -29,12 +41,11 @@ export class CelestialPositionCalculator {
         true,
         true,
       );
-      const horizon = Astronomy.Horizon(
+      const horizon = this.calculateHorizon(
         date,
         observer,
-        equator.ra,
-        equator.dec,
-        "normal",
+        equator,
+        refraction,
       );
 
       return {
@@ -53,10 +64,12 @@ export class CelestialPositionCalculator {
 
   /**
    * 指定した時刻・地点での月位置を計算
+   * 屈折モデルを省略した場合は astronomy-engine の標準屈折を適用
    */
   calculateMoonPosition(
     date: Date,
     location: { latitude: number; longitude: number },
+    refraction?: RefractionModel,
   ): MoonPosition | null {
     try {
       const observer = new Astronomy.Observer(
@@ -71,12 +84,11 @@ export class CelestialPositionCalculator {
         true,
         true,
       );
-      const horizon = Astronomy.Horizon(
+      const horizon = this.calculateHorizon(
         date,
         observer,
-        equator.ra,
-        equator.dec,
-        "normal",
+        equator,
+        refraction,
       );
 
       // 月相計算
@@ -99,6 +111,185 @@ export class CelestialPositionCalculator {
     }
   }
 
+  /**
+   * 指定した時刻・地点での月の輝面の向きを計算
+   * 輝面の位置角 χ と月の位置での視差角 q を求め、その差を観測者から見た傾きとする
+   * （Meeus『Astronomical Algorithms』48 章・14 章）
+   */
+  calculateMoonOrientation(
+    date: Date,
+    location: { latitude: number; longitude: number },
+  ): MoonOrientation | null {
+    try {
+      const observer = new Astronomy.Observer(
+        location.latitude,
+        location.longitude,
+        0,
+      );
+      const sun = Astronomy.Equator(
+        Astronomy.Body.Sun,
+        date,
+        observer,
+        true,
+        true,
+      );
+      const moon = Astronomy.Equator(
+        Astronomy.Body.Moon,
+        date,
+        observer,
+        true,
+        true,
+      );
+
+      const toRad = Math.PI / 180;
+      const sunRa = sun.ra * 15 * toRad;
+      const sunDec = sun.dec * toRad;
+      const moonRa = moon.ra * 15 * toRad;
+      const moonDec = moon.dec * toRad;
+
+      // 輝面の位置角（月から見た太陽の方向）
+      const brightLimbAngle = Math.atan2(
+        Math.cos(sunDec) * Math.sin(sunRa - moonRa),
+        Math.sin(sunDec) * Math.cos(moonDec) -
+          Math.cos(sunDec) * Math.sin(moonDec) * Math.cos(sunRa - moonRa),
+      );
+
+      // 視差角（月から見た天頂の方向）
+      const hourAngle =
+        (Astronomy.SiderealTime(date) * 15 + location.longitude) * toRad -
+        moonRa;
+      const latitude = location.latitude * toRad;
+      const parallacticAngle = Math.atan2(
+        Math.sin(hourAngle),
+        Math.tan(latitude) * Math.cos(moonDec) -
+          Math.sin(moonDec) * Math.cos(hourAngle),
+      );
+
+      const normalize = (angle: number) =>
+        ((angle / toRad) % 360 + 360) % 360;
+
+      return {
+        brightLimbAngle: normalize(brightLimbAngle),
+        parallacticAngle: normalize(parallacticAngle),
+        tilt: normalize(brightLimbAngle - parallacticAngle),
+      };
+    } catch (error) {
+      this.logger.error("月の輝面の向き計算エラー", error, {
+        date: date.toISOString(),
+        location,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * 指定した時刻・地点での惑星・恒星の位置を計算
+   * 惑星は等級も求める。屈折モデルを省略した場合は astronomy-engine の標準屈折を適用
+   */
+  calculateCelestialObjectPosition(
+    object: CelestialObject,
+    date: Date,
+    location: { latitude: number; longitude: number },
+    refraction?: RefractionModel,
+  ): CelestialObjectPosition | null {
+    try {
+      const body = resolveCelestialBody(object);
+      const observer = new Astronomy.Observer(
+        location.latitude,
+        location.longitude,
+        0,
+      );
+      const equator = Astronomy.Equator(body, date, observer, true, true);
+      const horizon = this.calculateHorizon(
+        date,
+        observer,
+        equator,
+        refraction,
+      );
+
+      return {
+        azimuth: horizon.azimuth,
+        elevation: horizon.altitude,
+        distance: equator.dist,
+        magnitude:
+          object.kind === "planet"
+            ? Astronomy.Illumination(body, date).mag
+            : undefined,
+      };
+    } catch (error) {
+      this.logger.error("天体位置計算エラー", error, {
+        object: object.id,
+        date: date.toISOString(),
+        location,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * 天体が指定した高度を昇る・沈む方向に通過する時刻を検索
+   * 屈折を含まない幾何学的な高度で判定するため、整列検索の範囲の目安として使う
+   */
+  searchCelestialObjectAltitude(
+    object: CelestialObject,
+    direction: 1 | -1,
+    startDate: Date,
+    location: { latitude: number; longitude: number },
+    altitude: number,
+  ): Date | null {
+    try {
+      const observer = new Astronomy.Observer(
+        location.latitude,
+        location.longitude,
+        0,
+      );
+      const crossing = Astronomy.SearchAltitude(
+        resolveCelestialBody(object),
+        observer,
+        direction,
+        startDate,
+        1,
+        altitude,
+      );
+      return crossing ? crossing.date : null;
+    } catch (error) {
+      this.logger.error("天体高度通過時刻検索エラー", error, {
+        object: object.id,
+        date: startDate.toISOString(),
+        location,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * 赤道座標を地平座標に変換し、屈折モデルによる高度の上昇を加える
+   */
+  private calculateHorizon(
+    date: Date,
+    observer: Astronomy.Observer,
+    equator: Astronomy.EquatorialCoordinates,
+    refraction?: RefractionModel,
+  ): { azimuth: number; altitude: number } {
+    if (!refraction) {
+      return Astronomy.Horizon(
+        date,
+        observer,
+        equator.ra,
+        equator.dec,
+        "normal",
+      );
+    }
+
+    // 屈折なしの真の高度に、モデルの屈折量を加える
+    const horizon = Astronomy.Horizon(date, observer, equator.ra, equator.dec);
+    return {
+      azimuth: horizon.azimuth,
+      altitude:
+        horizon.altitude + refraction.calculateRefraction(horizon.altitude),
+    };
+  }
+
   /**
    * 太陽の最高高度を計算
    */
@@ -262,6 +453,26 @@ export class CelestialPositionCalculator {
     }
   }
 
+  /**
+   * 天体の視半径（度）を計算
+   * 太陽は距離から求め、月は Libration の視直径を観測地点からの距離で補正する
+   */
+  calculateApparentRadius(
+    body: "sun" | "moon",
+    date: Date,
+    distance: number,
+  ): number {
+    const distanceKm = distance * Astronomy.KM_PER_AU;
+
+    if (body === "sun") {
+      return Astronomy.RAD2DEG * Math.atan(SUN_RADIUS_KM / distanceKm);
+    }
+
+    // Libration の視直径は地心距離基準のため地表からの距離に換算
+    const libration = Astronomy.Libration(date);
+    return (libration.diam_deg / 2) * (libration.dist_km / distanceKm);
+  }
+
   /**
    * 天体の可視性を判定（高度による）
    */
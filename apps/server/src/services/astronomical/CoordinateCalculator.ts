@@ -1,5 +1,7 @@
-import { FUJI_COORDINATES } from "@fuji-calendar/types";
+import { FUJI_COORDINATES, SummitPosition } from "@fuji-calendar/types";
 import { getComponentLogger } from "@fuji-calendar/utils";
+import { STANDARD_TERRESTRIAL_COEFFICIENT } from "./RefractionModel";
+import { AlignmentTarget, FUJI_ALIGNMENT_TARGET } from "./AlignmentTarget";
 
 /**
  * 座標・方位角・距離計算を担当するクラス
@@ -30,10 +32,20 @@ export class CoordinateCalculator {
     latitude: number;
     longitude: number;
   }): number {
+    return this.calculateAzimuthToPoint(location, FUJI_COORDINATES);
+  }
+
+  /**
+   * 撮影地点から任意の地点への方位角を計算
+   */
+  calculateAzimuthToPoint(
+    location: { latitude: number; longitude: number },
+    target: { latitude: number; longitude: number },
+  ): number {
     const lat1 = this.toRadians(location.latitude);
     const lon1 = this.toRadians(location.longitude);
-    const lat2 = this.toRadians(FUJI_COORDINATES.latitude);
-    const lon2 = this.toRadians(FUJI_COORDINATES.longitude);
+    const lat2 = this.toRadians(target.latitude);
+    const lon2 = this.toRadians(target.longitude);
 
     const deltaLon = lon2 - lon1;
     const y = Math.sin(deltaLon) * Math.cos(lat2);
@@ -52,10 +64,20 @@ export class CoordinateCalculator {
     latitude: number;
     longitude: number;
   }): number {
+    return this.calculateDistanceToPoint(location, FUJI_COORDINATES);
+  }
+
+  /**
+   * 撮影地点から任意の地点への距離を計算（ハバーサイン公式）
+   */
+  calculateDistanceToPoint(
+    location: { latitude: number; longitude: number },
+    target: { latitude: number; longitude: number },
+  ): number {
     const lat1 = this.toRadians(location.latitude);
     const lon1 = this.toRadians(location.longitude);
-    const lat2 = this.toRadians(FUJI_COORDINATES.latitude);
-    const lon2 = this.toRadians(FUJI_COORDINATES.longitude);
+    const lat2 = this.toRadians(target.latitude);
+    const lon2 = this.toRadians(target.longitude);
 
     const deltaLat = lat2 - lat1;
     const deltaLon = lon2 - lon1;
@@ -74,24 +96,42 @@ export class CoordinateCalculator {
   /**
    * 富士山頂への仰角を計算（地球曲率と大気屈折を考慮）
    */
-  calculateElevationToFujiSummit(location: {
-    latitude: number;
-    longitude: number;
-    elevation: number;
-  }): number {
-    const distance = this.calculateDistanceToFuji(location);
+  calculateElevationToFujiSummit(
+    location: {
+      latitude: number;
+      longitude: number;
+      elevation: number;
+    },
+    refractionCoefficient: number = STANDARD_TERRESTRIAL_COEFFICIENT,
+  ): number {
+    return this.calculateElevationToPoint(
+      location,
+      FUJI_COORDINATES,
+      refractionCoefficient,
+    );
+  }
+
+  /**
+   * 任意の地点への仰角を計算（地球曲率と大気屈折を考慮）
+   * refractionCoefficient は地球曲率による低下を大気屈折が相殺する割合
+   */
+  calculateElevationToPoint(
+    location: { latitude: number; longitude: number; elevation: number },
+    target: { latitude: number; longitude: number; elevation: number },
+    refractionCoefficient: number = STANDARD_TERRESTRIAL_COEFFICIENT,
+  ): number {
+    const distance = this.calculateDistanceToPoint(location, target);
 
     // 観測者実効高度（アイレベル 1.7m を考慮）
     const observerEffectiveHeight = location.elevation + 1.7;
-    const heightDifference =
-      FUJI_COORDINATES.elevation - observerEffectiveHeight;
+    const heightDifference = target.elevation - observerEffectiveHeight;
 
     // 地球曲率による見かけの高度低下
     const curvatureDrop =
       Math.pow(distance, 2) / (2 * CoordinateCalculator.EARTH_RADIUS);
 
-    // 大気屈折による見かけの高度上昇（曲率の 13% を相殺）
-    const refractionLift = 0.13 * curvatureDrop;
+    // 大気屈折による見かけの高度上昇（標準では曲率の 13% を相殺）
+    const refractionLift = refractionCoefficient * curvatureDrop;
 
     // 正味の見かけ低下
     const netApparentDrop = curvatureDrop - refractionLift;
@@ -103,7 +143,7 @@ export class CoordinateCalculator {
     const elevationRadians = Math.atan2(apparentVerticalDistance, distance);
     const elevationDegrees = this.toDegrees(elevationRadians);
 
-    this.logger.debug("富士山頂仰角計算", {
+    this.logger.debug("仰角計算", {
       distance: Math.round(distance),
       observerEffectiveHeight,
       heightDifference,
@@ -117,6 +157,102 @@ export class CoordinateCalculator {
     return elevationDegrees;
   }
 
+  /**
+   * 起点から方位角・距離だけ進んだ地点を計算
+   */
+  calculateDestinationPoint(
+    origin: { latitude: number; longitude: number },
+    bearing: number,
+    distance: number,
+  ): { latitude: number; longitude: number } {
+    const lat1 = this.toRadians(origin.latitude);
+    const lon1 = this.toRadians(origin.longitude);
+    const theta = this.toRadians(bearing);
+    const delta = distance / CoordinateCalculator.EARTH_RADIUS;
+
+    const lat2 = Math.asin(
+      Math.sin(lat1) * Math.cos(delta) +
+        Math.cos(lat1) * Math.sin(delta) * Math.cos(theta),
+    );
+    const lon2 =
+      lon1 +
+      Math.atan2(
+        Math.sin(theta) * Math.sin(delta) * Math.cos(lat1),
+        Math.cos(delta) - Math.sin(lat1) * Math.sin(lat2),
+      );
+
+    return { latitude: this.toDegrees(lat2), longitude: this.toDegrees(lon2) };
+  }
+
+  /**
+   * 撮影地点から見た整列対象の方位角・仰角・距離を計算
+   */
+  calculateTargetGeometry(
+    location: {
+      latitude: number;
+      longitude: number;
+      elevation: number;
+    },
+    target: { latitude: number; longitude: number; elevation: number },
+    refractionCoefficient: number = STANDARD_TERRESTRIAL_COEFFICIENT,
+  ): { azimuth: number; elevation: number; distance: number } {
+    return {
+      azimuth: this.calculateAzimuthToPoint(location, target),
+      elevation: this.calculateElevationToPoint(
+        location,
+        target,
+        refractionCoefficient,
+      ),
+      distance: this.calculateDistanceToPoint(location, target),
+    };
+  }
+
+  /**
+   * 撮影地点から見た山頂稜線（富士山は左肩・中央・右肩）の方位角・仰角を計算
+   * 稜線は視線と直交する方向に並ぶものとして扱う
+   */
+  calculateSummitRidgePoints(
+    location: {
+      latitude: number;
+      longitude: number;
+      elevation: number;
+    },
+    refractionCoefficient: number = STANDARD_TERRESTRIAL_COEFFICIENT,
+    target: AlignmentTarget = FUJI_ALIGNMENT_TARGET,
+  ): Array<{
+    position: SummitPosition;
+    latitude: number;
+    longitude: number;
+    azimuth: number;
+    elevation: number;
+  }> {
+    const lineOfSight = this.calculateAzimuthToPoint(location, target);
+
+    return target.ridge.map((point) => {
+      // 観測者から見て右方向は視線の方位角 + 90 度
+      const ridgePoint = {
+        ...this.calculateDestinationPoint(
+          target,
+          lineOfSight + 90,
+          point.offset,
+        ),
+        elevation: point.elevation,
+      };
+
+      return {
+        position: point.position,
+        latitude: ridgePoint.latitude,
+        longitude: ridgePoint.longitude,
+        azimuth: this.calculateAzimuthToPoint(location, ridgePoint),
+        elevation: this.calculateElevationToPoint(
+          location,
+          ridgePoint,
+          refractionCoefficient,
+        ),
+      };
+    });
+  }
+
   /**
    * 方位角の差を計算（最短角度）
    */
@@ -124,4 +260,24 @@ export class CoordinateCalculator {
     const diff = Math.abs(azimuth1 - azimuth2);
     return Math.min(diff, 360 - diff);
   }
+
+  /**
+   * 地平座標上の 2 方向の角距離を計算（度）
+   */
+  calculateAngularSeparation(
+    azimuth1: number,
+    elevation1: number,
+    azimuth2: number,
+    elevation2: number,
+  ): number {
+    const el1 = this.toRadians(elevation1);
+    const el2 = this.toRadians(elevation2);
+    const deltaAz = this.toRadians(azimuth1 - azimuth2);
+
+    const cosSeparation =
+      Math.sin(el1) * Math.sin(el2) +
+      Math.cos(el1) * Math.cos(el2) * Math.cos(deltaAz);
+
+    return this.toDegrees(Math.acos(Math.min(1, Math.max(-1, cosSeparation))));
+  }
 }
@@ -1,14 +1,168 @@
-import { FujiEvent, Location, MoonPosition } from "@fuji-calendar/types";
+import {
+  CelestialBody,
+  CelestialObjectPosition,
+  CelestialPathPoint,
+  EventCelestialPath,
+  FujiEvent,
+  Location,
+  MoonOrientation,
+  MoonPosition,
+  RefractionModelName,
+  SummitPosition,
+  SunPosition,
+} from "@fuji-calendar/types";
 import { getComponentLogger, timeUtils } from "@fuji-calendar/utils";
 import { CoordinateCalculator } from "./CoordinateCalculator";
 import { CelestialPositionCalculator } from "./CelestialPositionCalculator";
 import { SeasonCalculator } from "./SeasonCalculator";
+import {
+  createRefractionModel,
+  RefractionModel,
+  STANDARD_TERRESTRIAL_COEFFICIENT,
+} from "./RefractionModel";
 import { SystemSettingsService } from "../SystemSettingsService";
+import { LineOfSightAnalyzer } from "../terrain/LineOfSightAnalyzer";
+import {
+  AlignmentTarget,
+  FUJI_ALIGNMENT_TARGET,
+  isFujiTarget,
+} from "./AlignmentTarget";
+import {
+  CelestialObject,
+  DEFAULT_CELESTIAL_OBJECT_IDS,
+  findCelestialObject,
+} from "./CelestialObjects";
+
+// 黄金分割探索の縮小率 (√5 - 1) / 2
+const INVERSE_GOLDEN_RATIO = (Math.sqrt(5) - 1) / 2;
+
+// 粗探索の間隔・精密化の収束精度の下限（秒、0 以下の設定で探索が終わらなくなるのを防ぐ）
+const MIN_COARSE_INTERVAL = 1;
+const MIN_REFINEMENT_PRECISION = 0.001;
+
+// 太陽・月の見かけの移動速度の目安（度/秒、約 0.25 度/分）
+const CELESTIAL_ANGULAR_SPEED = 0.25 / 60;
+
+// 許容範囲を超えたずれに課す重み（最小化を許容範囲内の最良点へ誘導する）
+const TOLERANCE_PENALTY = 100;
+
+// 接触時刻を探す範囲（整列時刻の前後、ミリ秒）
+const CONTACT_SEARCH_WINDOW_MS = 10 * 60 * 1000;
+
+// 時間幅の算出で天体の角速度を測る間隔（整列時刻の前後、ミリ秒）
+const ANGULAR_SPEED_SAMPLE_MS = 30 * 1000;
+
+// 山頂中央に正確に重なる位置への移動として提示する距離の上限（m）
+const MAX_OBSERVER_OFFSET = 3000;
+
+// 惑星・恒星の整列を探す範囲（山頂の仰角を通過する時刻の前後、ミリ秒）
+const CELESTIAL_OBJECT_SEARCH_WINDOW_MS = 30 * 60 * 1000;
+
+// 山頂の仰角を通過する時刻の方位角が許容誤差からこれ以上離れていれば整列を探さない（度）
+const CELESTIAL_OBJECT_AZIMUTH_MARGIN = 2;
+
+// 山頂が地形に隠れる場合に品質スコアへ掛ける係数
+const TERRAIN_OCCLUDED_QUALITY_FACTOR = 0.3;
+
+// パール富士の品質スコアの配分（合計 100 点）
+const PEARL_QUALITY_WEIGHTS = {
+  alignment: 60, // 整列の精度・高度（通常の品質スコアを換算）
+  illumination: 20, // 月の明るさ
+  skyDarkness: 15, // 空の暗さ
+  tilt: 5, // 細い月の輝面の向き
+} as const;
+
+// 空が十分に暗いとみなす太陽高度（度、航海薄明の終わり）
+const DARK_SKY_SUN_ALTITUDE = -12;
+
+const REFRACTION_MODEL_NAMES: RefractionModelName[] = [
+  "standard",
+  "bennett",
+  "saemundsson",
+  "custom",
+];
+
+// 季節ごとの気温・気圧の既定値（℃・hPa）
+const DEFAULT_ATMOSPHERE = {
+  spring: { temperature: 15, pressure: 1013 },
+  summer: { temperature: 25, pressure: 1008 },
+  autumn: { temperature: 18, pressure: 1013 },
+  winter: { temperature: 5, pressure: 1018 },
+} as const;
+
+/**
+ * 整列検索で使用する設定値（ループ外で一度だけ取得）
+ */
+interface AlignmentSearchSettings {
+  azimuthTolerance: number;
+  elevationTolerance: number;
+  coarseInterval: number; // 粗探索の間隔（秒）
+  refinementPrecision: number; // 精密化の収束精度（秒）
+  refraction: RefractionModel; // 検索日の気象条件に基づく大気屈折モデル
+  coordinatePrecision: number; // 地点の水平座標の精度（m）
+  elevationPrecision: number; // 地点の標高の精度（m）
+  refractionUncertainty: number; // 大気屈折量のばらつき（屈折量に対する割合）
+}
+
+/**
+ * ある時刻における天体と対象の山頂のずれ
+ */
+interface AlignmentSample {
+  time: Date;
+  position: SunPosition | MoonPosition | CelestialObjectPosition;
+  azimuthDiff: number;
+  elevationDiff: number;
+  score: number;
+}
+
+/**
+ * 整列を探す天体（惑星・恒星は CelestialObject で指定）
+ */
+export type AlignmentBody = "sun" | "moon" | CelestialObject;
+
+/**
+ * 1 回の整列検索で共通の条件
+ */
+interface AlignmentContext {
+  location: Location;
+  body: AlignmentBody;
+  target: AlignmentTarget;
+  targetAzimuth: number;
+  targetElevation: number; // 屈折モデルを反映した対象の山頂への仰角
+  settings: AlignmentSearchSettings;
+}
+
+/**
+ * 整列時刻の不確かさを考慮した撮影時間帯
+ */
+interface TimeWindow {
+  timeWindowStart: Date;
+  timeWindowEnd: Date;
+}
+
+/**
+ * 天体中心が山頂中央に正確に重なる位置への、撮影地点からの移動
+ */
+interface ObserverOffset {
+  observerOffsetDistance: number; // 移動距離（m）
+  observerOffsetBearing: number; // 移動する方位（度、視線と直交する方向）
+}
+
+/**
+ * 天体の円盤が山頂を通過する際の接触時刻
+ */
+interface ContactTimes {
+  firstContactTime: Date;
+  centerTime: Date;
+  lastContactTime: Date;
+}
 
 /**
  * 富士山との整列計算を担当するクラス
- * ダイアモンド富士・パール富士の検出
+ * ダイアモンド富士・パール富士と、惑星・恒星との整列の検出
+ * 対象を指定すれば富士山以外の山頂・建造物との整列も同じ手順で検出する
  * システム設定を DB から動的に取得して計算精度を調整可能
+ * 標高タイルが設定されている場合は地形による山頂の遮蔽を評価に反映
  */
 export class FujiAlignmentCalculator {
   private logger = getComponentLogger("FujiAlignmentCalculator");
@@ -16,21 +170,33 @@ export class FujiAlignmentCalculator {
   private celestialCalc = new CelestialPositionCalculator();
   private seasonCalc = new SeasonCalculator();
   private settingsService: SystemSettingsService;
+  private lineOfSightAnalyzer?: LineOfSightAnalyzer;
 
-  constructor(settingsService: SystemSettingsService) {
+  constructor(
+    settingsService: SystemSettingsService,
+    lineOfSightAnalyzer?: LineOfSightAnalyzer,
+  ) {
     this.settingsService = settingsService;
+    this.lineOfSightAnalyzer = lineOfSightAnalyzer;
   }
 
   /**
    * ダイアモンド富士イベントを検索
    */
-  async findDiamondFuji(date: Date, location: Location): Promise<FujiEvent[]> {
+  async findDiamondFuji(
+    date: Date,
+    location: Location,
+    target: AlignmentTarget = FUJI_ALIGNMENT_TARGET,
+  ): Promise<FujiEvent[]> {
     const events: FujiEvent[] = [];
-    const fujiAzimuth = this.coordinateCalc.calculateAzimuthToFuji(location);
+    const targetAzimuth = this.coordinateCalc.calculateAzimuthToPoint(
+      location,
+      target,
+    );
 
-    // 富士山の方位角に基づいて日の出・日の入りどちらが可能かを判定
-    const canSeeSunrise = this.canObserveSunrise(fujiAzimuth);
-    const canSeeSunset = this.canObserveSunset(fujiAzimuth);
+    // 対象の方位角に基づいて日の出・日の入りどちらが可能かを判定
+    const canSeeSunrise = this.canObserveSunrise(targetAzimuth);
+    const canSeeSunset = this.canObserveSunset(targetAzimuth);
 
     let sunriseEvents: FujiEvent[] = [];
     let sunsetEvents: FujiEvent[] = [];
@@ -42,6 +208,7 @@ export class FujiAlignmentCalculator {
         location,
         "sunrise",
         "diamond_sunrise",
+        target,
       );
     }
 
@@ -52,6 +219,7 @@ export class FujiAlignmentCalculator {
         location,
         "sunset",
         "diamond_sunset",
+        target,
       );
     }
 
@@ -60,7 +228,8 @@ export class FujiAlignmentCalculator {
     this.logger.debug("ダイアモンド富士検索完了", {
       date: timeUtils.formatDateString(date),
       locationId: location.id,
-      fujiAzimuth,
+      target: target.slug,
+      targetAzimuth,
       canSeeSunrise,
       canSeeSunset,
       sunriseEvents: sunriseEvents.length,
@@ -73,7 +242,11 @@ export class FujiAlignmentCalculator {
   /**
    * パール富士イベントを検索
    */
-  async findPearlFuji(date: Date, location: Location): Promise<FujiEvent[]> {
+  async findPearlFuji(
+    date: Date,
+    location: Location,
+    target: AlignmentTarget = FUJI_ALIGNMENT_TARGET,
+  ): Promise<FujiEvent[]> {
     const events: FujiEvent[] = [];
 
     // 月の出イベントを検索
@@ -82,6 +255,7 @@ export class FujiAlignmentCalculator {
       location,
       "moonrise",
       "pearl_moonrise",
+      target,
     );
 
     // 月の入りイベントを検索
@@ -90,6 +264,7 @@ export class FujiAlignmentCalculator {
       location,
       "moonset",
       "pearl_moonset",
+      target,
     );
 
     events.push(...moonriseEvents, ...moonsetEvents);
@@ -97,6 +272,7 @@ export class FujiAlignmentCalculator {
     this.logger.debug("パール富士検索完了", {
       date: timeUtils.formatDateString(date),
       locationId: location.id,
+      target: target.slug,
       moonriseEvents: moonriseEvents.length,
       moonsetEvents: moonsetEvents.length,
     });
@@ -105,7 +281,105 @@ export class FujiAlignmentCalculator {
   }
 
   /**
-   * 天体と富士山の整列を検索
+   * 惑星・恒星と対象の山頂の整列を検索
+   * 検索する天体は `celestial_alignment_objects` 設定（カンマ区切りの識別子）で選択し、
+   * 天体ごとの可視条件（空の暗さ・等級）を満たす整列のみを返す
+   */
+  async findCelestialObjectAlignments(
+    date: Date,
+    location: Location,
+    target: AlignmentTarget = FUJI_ALIGNMENT_TARGET,
+  ): Promise<FujiEvent[]> {
+    const objects = await this.getEnabledCelestialObjects();
+    if (objects.length === 0) {
+      return [];
+    }
+
+    const settings = await this.getSearchSettings(date);
+    const targetAzimuth = this.coordinateCalc.calculateAzimuthToPoint(
+      location,
+      target,
+    );
+    const targetElevation = this.getSummitElevation(
+      location,
+      settings.refraction,
+      target,
+    );
+    const dayStart = new Date(
+      date.getFullYear(),
+      date.getMonth(),
+      date.getDate(),
+      0,
+      0,
+      0,
+    );
+    const events: FujiEvent[] = [];
+
+    for (const object of objects) {
+      const context: AlignmentContext = {
+        location,
+        body: object,
+        target,
+        targetAzimuth,
+        targetElevation,
+        settings,
+      };
+
+      for (const direction of [1, -1] as const) {
+        const range = this.getCelestialObjectSearchRange(
+          object,
+          direction,
+          dayStart,
+          context,
+        );
+        if (!range) {
+          continue;
+        }
+
+        const bestCandidate = this.findBestAlignment(
+          context,
+          range.startTime,
+          range.endTime,
+        );
+        if (
+          !bestCandidate ||
+          !this.isCelestialObjectVisible(object, bestCandidate, location)
+        ) {
+          continue;
+        }
+
+        const subType = direction === 1 ? "rising" : "setting";
+        events.push(
+          await this.createAlignmentEvent(bestCandidate, context, {
+            eventType: `${object.kind}_${subType}-${object.id}`,
+            date,
+            type: object.kind,
+            subType,
+            celestialBody: {
+              id: object.id,
+              name: object.name,
+              kind: object.kind,
+              magnitude: (bestCandidate.position as CelestialObjectPosition)
+                .magnitude,
+            },
+          }),
+        );
+      }
+    }
+
+    this.logger.debug("惑星・恒星整列検索完了", {
+      date: timeUtils.formatDateString(date),
+      locationId: location.id,
+      target: target.slug,
+      objects: objects.map((object) => object.id),
+      events: events.length,
+    });
+
+    return events;
+  }
+
+  /**
+   * 太陽・月と対象の山頂の整列を検索
    */
   private async searchCelestialAlignment(
     date: Date,
@@ -116,9 +390,10 @@ export class FujiAlignmentCalculator {
       | "diamond_sunset"
       | "pearl_moonrise"
       | "pearl_moonset",
+    target: AlignmentTarget,
   ): Promise<FujiEvent[]> {
     const events: FujiEvent[] = [];
-    const fujiAzimuth = this.coordinateCalc.calculateAzimuthToFuji(location);
+    const isDiamond = eventType.includes("diamond");
 
     // 検索時間範囲を設定
     const { startTime, endTime } = this.getSearchTimeRange(
@@ -127,100 +402,47 @@ export class FujiAlignmentCalculator {
       location,
     );
 
-    let bestCandidate: {
-      time: Date;
-      azimuthDiff: number;
-      elevationDiff: number;
-      position: { azimuth: number; elevation: number };
-      moonPhase?: number;
-      moonIllumination?: number;
-    } | null = null;
-
-    // 設定値に基づく間隔で検索
-    const searchInterval = await this.settingsService.getNumberSetting(
-      "search_interval",
-      10,
+    // 設定値はループ内で参照するため事前に一括取得
+    const settings = await this.getSearchSettings(date);
+    const targetAzimuth = this.coordinateCalc.calculateAzimuthToPoint(
+      location,
+      target,
     );
-    for (
-      let time = new Date(startTime);
-      time <= endTime;
-      time.setSeconds(time.getSeconds() + searchInterval)
-    ) {
-      const position = eventType.includes("diamond")
-        ? this.celestialCalc.calculateSunPosition(time, location)
-        : this.celestialCalc.calculateMoonPosition(time, location);
-
-      if (!position || !this.celestialCalc.isVisible(position.elevation)) {
-        continue;
-      }
-
-      const azimuthDiff = this.coordinateCalc.getAzimuthDifference(
-        position.azimuth,
-        fujiAzimuth,
-      );
-
-      // 富士山頂への仰角を取得（地点の富士山仰角データを使用）
-      const fujiElevation = location.fujiElevation || 0;
-      const elevationDiff = Math.abs(position.elevation - fujiElevation);
+    const context: AlignmentContext = {
+      location,
+      body: isDiamond ? "sun" : "moon",
+      target,
+      targetAzimuth,
+      targetElevation: this.getSummitElevation(
+        location,
+        settings.refraction,
+        target,
+      ),
+      settings,
+    };
 
-      // 許容範囲内かチェック（方位角・高度の両方を考慮）
-      const azimuthTolerance = await this.settingsService.getNumberSetting(
-        "azimuth_tolerance",
-        1.5,
-      );
-      const elevationTolerance = await this.settingsService.getNumberSetting(
-        "elevation_tolerance",
-        1.0,
-      );
-      if (
-        azimuthDiff <= azimuthTolerance &&
-        elevationDiff <= elevationTolerance
-      ) {
-        // 総合精度スコアで最良候補を選択
-        const totalScore = azimuthDiff + elevationDiff * 2; // 高度差を重視
-        const currentScore = !bestCandidate
-          ? Infinity
-          : bestCandidate.azimuthDiff + bestCandidate.elevationDiff * 2;
-
-        if (totalScore < currentScore) {
-          bestCandidate = {
-            time: new Date(time),
-            azimuthDiff,
-            elevationDiff,
-            position,
-            moonPhase:
-              "phase" in position
-                ? (position as MoonPosition).phase
-                : undefined,
-            moonIllumination:
-              "illumination" in position
-                ? (position as MoonPosition).illumination
-                : undefined,
-          };
-        }
-      }
-    }
+    const bestCandidate = this.findBestAlignment(context, startTime, endTime);
 
     // 最良候補が見つかった場合、イベントを作成
     if (bestCandidate) {
+      const moonPosition =
+        "illumination" in bestCandidate.position
+          ? (bestCandidate.position as MoonPosition)
+          : undefined;
+
       // パール富士の場合は月相チェック
-      if (
-        eventType.includes("pearl") &&
-        bestCandidate.moonIllumination !== undefined
-      ) {
-        if (
-          !this.celestialCalc.isVisibleMoonPhase(bestCandidate.moonIllumination)
-        ) {
+      if (eventType.includes("pearl") && moonPosition) {
+        if (!this.celestialCalc.isVisibleMoonPhase(moonPosition.illumination)) {
           return events; // 月が暗すぎる場合はスキップ
         }
       }
 
-      // 富士山の方向に基づいて昇る・沈むを判定
+      // 対象の方向に基づいて昇る・沈むを判定
       let subType: "sunrise" | "sunset" | "rising" | "setting";
       
-      if (eventType.includes("diamond")) {
+      if (isDiamond) {
         // ダイヤモンド富士の場合も富士山の方向で判定
-        if (fujiAzimuth < 180) {
+        if (targetAzimuth < 180) {
           // 富士山が東側（0-180度）→ 太陽も東側 → sunrise
           subType = "sunrise";
         } else {
@@ -229,7 +451,7 @@ export class FujiAlignmentCalculator {
         }
       } else {
         // パール富士の場合は富士山の方向で判定
-        if (fujiAzimuth < 180) {
+        if (targetAzimuth < 180) {
           // 富士山が東側（0-180度）→ 月も東側 → moonrise → rising
           subType = "rising";
         } else {
@@ -238,28 +460,914 @@ export class FujiAlignmentCalculator {
         }
       }
 
-      events.push({
-        id: `${location.id}-${timeUtils.formatDateString(date)}-${eventType}`,
-        type: eventType.includes("diamond") ? "diamond" : "pearl",
-        subType,
-        time: bestCandidate.time,
-        location: location,
-        azimuth: bestCandidate.position.azimuth,
-        elevation: bestCandidate.position.elevation,
-        accuracy: await this.getOverallAccuracy(
-          bestCandidate.azimuthDiff,
-          bestCandidate.elevationDiff,
+      events.push(
+        await this.createAlignmentEvent(bestCandidate, context, {
+          eventType,
+          date,
+          type: isDiamond ? "diamond" : "pearl",
+          subType,
+        }),
+      );
+    }
+
+    return events;
+  }
+
+  /**
+   * 検索範囲内で天体と対象の山頂のずれが最小となる整列を求める
+   * 粗探索で整列付近を囲い込み、黄金分割探索で秒未満まで精密化する
+   * 許容範囲内の整列が無い場合は null を返す
+   */
+  private findBestAlignment(
+    context: AlignmentContext,
+    startTime: Date,
+    endTime: Date,
+  ): AlignmentSample | null {
+    const { settings } = context;
+    const evaluate = (time: Date): AlignmentSample | null =>
+      this.evaluateAlignment(time, context);
+
+    // 1. 粗探索：設定値に基づく間隔でずれを標本化
+    const coarseStepMs = settings.coarseInterval * 1000;
+    const coarseSamples: Array<AlignmentSample | null> = [];
+    for (
+      let timeMs = startTime.getTime();
+      timeMs <= endTime.getTime();
+      timeMs += coarseStepMs
+    ) {
+      coarseSamples.push(evaluate(new Date(timeMs)));
+    }
+
+    // 粗探索の 1 区間で天体が動き得る角度（これ以上離れた谷は精密化しない）
+    const coarseSlack = CELESTIAL_ANGULAR_SPEED * settings.coarseInterval;
+
+    // 2. 精密化：粗探索の局所最小を前後の標本で囲い、その区間内で最小化
+    let bestCandidate: AlignmentSample | null = null;
+    for (let i = 0; i < coarseSamples.length; i++) {
+      const sample = coarseSamples[i];
+      if (!sample) {
+        continue;
+      }
+
+      const prev = coarseSamples[i - 1];
+      const next = coarseSamples[i + 1];
+      if (
+        (prev && prev.score < sample.score) ||
+        (next && next.score <= sample.score)
+      ) {
+        continue;
+      }
+
+      if (
+        sample.azimuthDiff > settings.azimuthTolerance + coarseSlack ||
+        sample.elevationDiff > settings.elevationTolerance + coarseSlack
+      ) {
+        continue;
+      }
+
+      const bracketStart = Math.max(
+        startTime.getTime(),
+        sample.time.getTime() - coarseStepMs,
+      );
+      const bracketEnd = Math.min(
+        endTime.getTime(),
+        sample.time.getTime() + coarseStepMs,
+      );
+      const refined = this.refineAlignment(
+        bracketStart,
+        bracketEnd,
+        settings.refinementPrecision * 1000,
+        evaluate,
+      );
+      const candidate =
+        refined && refined.score < sample.score ? refined : sample;
+
+      // 許容範囲内かチェック（方位角・高度の両方を考慮）
+      if (
+        candidate.azimuthDiff > settings.azimuthTolerance ||
+        candidate.elevationDiff > settings.elevationTolerance
+      ) {
+        continue;
+      }
+
+      // 総合精度スコアで最良候補を選択
+      if (!bestCandidate || candidate.score < bestCandidate.score) {
+        bestCandidate = candidate;
+      }
+    }
+
+    return bestCandidate;
+  }
+
+  /**
+   * 最良の整列からイベントを作成
+   * 接触時刻・撮影時間帯・稜線上の位置・地形による遮蔽を求めて精度と品質を評価する
+   */
+  private async createAlignmentEvent(
+    sample: AlignmentSample,
+    context: AlignmentContext,
+    event: {
+      eventType: string;
+      date: Date;
+      type: FujiEvent["type"];
+      subType: FujiEvent["subType"];
+      celestialBody?: CelestialBody;
+    },
+  ): Promise<FujiEvent> {
+    const { location, target, settings } = context;
+    const moonPosition =
+      "illumination" in sample.position
+        ? (sample.position as MoonPosition)
+        : undefined;
+
+    // 円盤の縁が山頂に接する・中心が重なる・離れる時刻
+    const contactTimes = this.calculateContactTimes(sample.time, context);
+
+    // 座標精度・大気屈折のばらつきを考慮した撮影時間帯
+    const timeWindow = this.calculateTimeWindow(sample, context);
+
+    // 天体中心が重なる稜線上の位置と、その位置が地形に隠れるか
+    const summitPosition = this.classifySummitPosition(
+      sample.position,
+      location,
+      settings.refraction,
+      target,
+    );
+    const terrainOccluded = await this.isSummitOccluded(
+      location,
+      summitPosition,
+      target,
+    );
+
+    // 月の輝面の向き（パール富士のみ）
+    const moonOrientation = moonPosition
+      ? this.celestialCalc.calculateMoonOrientation(sample.time, location)
+      : null;
+
+    // 距離・季節・時間帯・太陽による霞から見た山頂が見える確率
+    const visibilityProbability = this.calculateVisibilityProbability(
+      sample.time,
+      context,
+    );
+
+    // 富士山以外の対象はイベント ID に対象の識別子を付けて区別する
+    const eventId = `${location.id}-${timeUtils.formatDateString(event.date)}-${event.eventType}`;
+    return {
+      id: isFujiTarget(target) ? eventId : `${eventId}-${target.slug}`,
+      type: event.type,
+      subType: event.subType,
+      time: sample.time,
+      location: location,
+      azimuth: sample.position.azimuth,
+      elevation: sample.position.elevation,
+      accuracy: terrainOccluded
+        ? "fair"
+        : await this.getOverallAccuracy(
+            sample.azimuthDiff,
+            sample.elevationDiff,
+          ),
+      qualityScore: moonPosition
+        ? await this.calculatePearlQualityScore(
+            sample,
+            moonPosition,
+            moonOrientation,
+            context,
+            visibilityProbability,
+            terrainOccluded,
+          )
+        : await this.calculateQualityScore(
+            sample.azimuthDiff,
+            sample.position.elevation,
+            visibilityProbability,
+            terrainOccluded,
+          ),
+      visibilityProbability: Math.round(visibilityProbability * 100),
+      moonPhase: moonPosition?.phase,
+      moonIllumination: moonPosition?.illumination,
+      moonBrightLimbAngle: moonOrientation?.brightLimbAngle,
+      moonTilt: moonOrientation?.tilt,
+      residualError: this.calculateResidualError(sample),
+      summitPosition,
+      ...this.calculateObserverOffset(sample, context),
+      ...contactTimes,
+      ...timeWindow,
+      refractionModel: settings.refraction.name,
+      targetId: target.id,
+      celestialBody: event.celestialBody,
+    };
+  }
+
+  /**
+   * 惑星・恒星の整列を探す時間範囲を取得
+   * 天体が山頂の仰角を通過する時刻の前後を範囲とし、
+   * その時刻の方位角が山頂から大きく離れている場合は検索しない
+   */
+  private getCelestialObjectSearchRange(
+    object: CelestialObject,
+    direction: 1 | -1,
+    dayStart: Date,
+    context: AlignmentContext,
+  ): { startTime: Date; endTime: Date } | null {
+    const crossing = this.celestialCalc.searchCelestialObjectAltitude(
+      object,
+      direction,
+      dayStart,
+      context.location,
+      context.targetElevation,
+    );
+    if (!crossing) {
+      return null;
+    }
+
+    const position = this.celestialCalc.calculateCelestialObjectPosition(
+      object,
+      crossing,
+      context.location,
+      context.settings.refraction,
+    );
+    if (
+      !position ||
+      this.coordinateCalc.getAzimuthDifference(
+        position.azimuth,
+        context.targetAzimuth,
+      ) >
+        context.settings.azimuthTolerance + CELESTIAL_OBJECT_AZIMUTH_MARGIN
+    ) {
+      return null;
+    }
+
+    return {
+      startTime: new Date(crossing.getTime() - CELESTIAL_OBJECT_SEARCH_WINDOW_MS),
+      endTime: new Date(crossing.getTime() + CELESTIAL_OBJECT_SEARCH_WINDOW_MS),
+    };
+  }
+
+  /**
+   * 整列時刻に惑星・恒星が見えるかを判定
+   * 太陽高度が天体ごとの上限以下（空が十分暗い）で、惑星は等級が上限以下であること
+   */
+  private isCelestialObjectVisible(
+    object: CelestialObject,
+    sample: AlignmentSample,
+    location: Location,
+  ): boolean {
+    const sunPosition = this.celestialCalc.calculateSunPosition(
+      sample.time,
+      location,
+    );
+    if (!sunPosition || sunPosition.elevation > object.maxSunAltitude) {
+      return false;
+    }
+
+    const magnitude = (sample.position as CelestialObjectPosition).magnitude;
+    return (
+      object.maxMagnitude === undefined ||
+      magnitude === undefined ||
+      magnitude <= object.maxMagnitude
+    );
+  }
+
+  /**
+   * 設定で有効になっている惑星・恒星を取得（未知の識別子は無視）
+   */
+  private async getEnabledCelestialObjects(): Promise<CelestialObject[]> {
+    const setting = await this.settingsService.getStringSetting(
+      "celestial_alignment_objects",
+      DEFAULT_CELESTIAL_OBJECT_IDS.join(","),
+    );
+
+    return setting
+      .split(",")
+      .map((id) => findCelestialObject(id.trim()))
+      .filter((object): object is CelestialObject => !!object);
+  }
+
+  /**
+   * 稜線上の指定位置が地形に隠れるかを判定
+   * 標高タイルが無い・データ不足の場合は遮蔽なしとして扱う
+   * 見通し解析は富士山の稜線のみを対象とするため、他の対象は判定しない
+   */
+  private async isSummitOccluded(
+    location: Location,
+    summitPosition: SummitPosition,
+    target: AlignmentTarget,
+  ): Promise<boolean> {
+    if (!isFujiTarget(target) || !this.lineOfSightAnalyzer?.isEnabled()) {
+      return false;
+    }
+
+    try {
+      const lineOfSight = await this.lineOfSightAnalyzer.analyze(location);
+      return lineOfSight.points.some(
+        (point) => point.position === summitPosition && point.occluded === true,
+      );
+    } catch (error) {
+      this.logger.warn("見通し解析エラー", {
+        locationId: location.id,
+        error,
+      });
+      return false;
+    }
+  }
+
+  /**
+   * 撮影地点から見た天体の軌跡を計算
+   * 整列検索と同じ大気屈折モデル・山頂仰角を使用し、地平線下の時刻も含める
+   */
+  async calculateBodyPath(
+    body: AlignmentBody,
+    location: Location,
+    startTime: Date,
+    endTime: Date,
+    intervalSeconds: number,
+    target: AlignmentTarget = FUJI_ALIGNMENT_TARGET,
+  ): Promise<Omit<EventCelestialPath, "eventId" | "eventTime" | "bodyName">> {
+    const settings = await this.getSearchSettings(startTime);
+    const context: AlignmentContext = {
+      location,
+      body,
+      target,
+      targetAzimuth: this.coordinateCalc.calculateAzimuthToPoint(
+        location,
+        target,
+      ),
+      targetElevation: this.getSummitElevation(
+        location,
+        settings.refraction,
+        target,
+      ),
+      settings,
+    };
+
+    const points: CelestialPathPoint[] = [];
+    for (
+      let timeMs = startTime.getTime();
+      timeMs <= endTime.getTime();
+      timeMs += intervalSeconds * 1000
+    ) {
+      const time = new Date(timeMs);
+      const position = this.calculateBodyPosition(time, context);
+      if (position) {
+        points.push({
+          time,
+          azimuth: position.azimuth,
+          elevation: position.elevation,
+        });
+      }
+    }
+
+    // 視半径は軌跡の中央の時刻で代表させる
+    let apparentRadius: number | undefined;
+    if (body === "sun" || body === "moon") {
+      const centerTime = new Date(
+        (startTime.getTime() + endTime.getTime()) / 2,
+      );
+      const centerPosition = this.calculateBodyPosition(centerTime, context);
+      if (centerPosition) {
+        apparentRadius = this.celestialCalc.calculateApparentRadius(
+          body,
+          centerTime,
+          centerPosition.distance,
+        );
+      }
+    }
+
+    return {
+      apparentRadius,
+      summitAzimuth: context.targetAzimuth,
+      summitElevation: context.targetElevation,
+      refractionModel: settings.refraction.name,
+      points,
+    };
+  }
+
+  /**
+   * 整列検索で使用する設定値を取得
+   */
+  private async getSearchSettings(
+    date: Date,
+  ): Promise<AlignmentSearchSettings> {
+    return {
+      azimuthTolerance: await this.settingsService.getNumberSetting(
+        "azimuth_tolerance",
+        1.5,
+      ),
+      elevationTolerance: await this.settingsService.getNumberSetting(
+        "elevation_tolerance",
+        1.0,
+      ),
+      coarseInterval: this.clampSetting(
+        await this.settingsService.getNumberSetting(
+          "search_coarse_interval",
+          60,
         ),
-        qualityScore: await this.calculateQualityScore(
-          bestCandidate.azimuthDiff,
-          bestCandidate.position.elevation,
+        MIN_COARSE_INTERVAL,
+        60,
+      ),
+      refinementPrecision: this.clampSetting(
+        await this.settingsService.getNumberSetting(
+          "search_refinement_precision",
+          0.1,
         ),
-        moonPhase: bestCandidate.moonPhase,
-        moonIllumination: bestCandidate.moonIllumination,
+        MIN_REFINEMENT_PRECISION,
+        0.1,
+      ),
+      refraction: await this.getRefractionModel(date),
+      coordinatePrecision: await this.settingsService.getNumberSetting(
+        "location_coordinate_precision",
+        10,
+      ),
+      elevationPrecision: await this.settingsService.getNumberSetting(
+        "location_elevation_precision",
+        5,
+      ),
+      refractionUncertainty: await this.settingsService.getNumberSetting(
+        "refraction_uncertainty",
+        0.2,
+      ),
+    };
+  }
+
+  /**
+   * 数値設定を下限で丸める（数値でない場合は既定値）
+   */
+  private clampSetting(
+    value: number,
+    minimum: number,
+    defaultValue: number,
+  ): number {
+    const numberValue = Number(value);
+    if (!Number.isFinite(numberValue)) {
+      this.logger.warn("設定値が数値ではないため既定値を使用", {
+        value,
+        defaultValue,
       });
+      return defaultValue;
     }
+    return Math.max(minimum, numberValue);
+  }
 
-    return events;
+  /**
+   * 設定と検索日の季節の気温・気圧から大気屈折モデルを生成
+   */
+  private async getRefractionModel(date: Date): Promise<RefractionModel> {
+    const modelSetting = await this.settingsService.getStringSetting(
+      "refraction_model",
+      "standard",
+    );
+    const modelName = REFRACTION_MODEL_NAMES.includes(
+      modelSetting as RefractionModelName,
+    )
+      ? (modelSetting as RefractionModelName)
+      : "standard";
+
+    const season = this.seasonCalc.getMeteorologicalSeason(date);
+    const conditions = {
+      temperature: await this.settingsService.getNumberSetting(
+        `atmosphere_temperature_${season}`,
+        DEFAULT_ATMOSPHERE[season].temperature,
+      ),
+      pressure: await this.settingsService.getNumberSetting(
+        `atmosphere_pressure_${season}`,
+        DEFAULT_ATMOSPHERE[season].pressure,
+      ),
+    };
+    const customCoefficient = await this.settingsService.getNumberSetting(
+      "refraction_custom_coefficient",
+      STANDARD_TERRESTRIAL_COEFFICIENT,
+    );
+
+    return createRefractionModel(modelName, conditions, customCoefficient);
+  }
+
+  /**
+   * 対象の山頂への仰角を取得
+   * 富士山は地点の富士山仰角データを使用し、屈折モデルの係数が標準と異なる場合は
+   * その差による仰角の変化を加える。他の対象は屈折モデルの係数で直接計算する
+   */
+  private getSummitElevation(
+    location: Location,
+    refraction: RefractionModel,
+    target: AlignmentTarget,
+  ): number {
+    if (!isFujiTarget(target)) {
+      return this.coordinateCalc.calculateElevationToPoint(
+        location,
+        target,
+        refraction.getTerrestrialCoefficient(),
+      );
+    }
+
+    const fujiElevation = location.fujiElevation || 0;
+    const coefficient = refraction.getTerrestrialCoefficient();
+    if (coefficient === STANDARD_TERRESTRIAL_COEFFICIENT) {
+      return fujiElevation;
+    }
+
+    return (
+      fujiElevation +
+      this.coordinateCalc.calculateElevationToFujiSummit(location, coefficient) -
+      this.coordinateCalc.calculateElevationToFujiSummit(location)
+    );
+  }
+
+  /**
+   * 指定時刻における天体の位置を計算
+   */
+  private calculateBodyPosition(
+    time: Date,
+    context: AlignmentContext,
+  ): SunPosition | MoonPosition | CelestialObjectPosition | null {
+    const { body, location, settings } = context;
+    if (body === "sun") {
+      return this.celestialCalc.calculateSunPosition(
+        time,
+        location,
+        settings.refraction,
+      );
+    }
+    if (body === "moon") {
+      return this.celestialCalc.calculateMoonPosition(
+        time,
+        location,
+        settings.refraction,
+      );
+    }
+    return this.celestialCalc.calculateCelestialObjectPosition(
+      body,
+      time,
+      location,
+      settings.refraction,
+    );
+  }
+
+  /**
+   * 指定時刻における天体と対象の山頂のずれを評価
+   * 天体が見えない場合は null を返す
+   */
+  private evaluateAlignment(
+    time: Date,
+    context: AlignmentContext,
+  ): AlignmentSample | null {
+    const { targetAzimuth, targetElevation, settings } = context;
+    const position = this.calculateBodyPosition(time, context);
+
+    if (!position || !this.celestialCalc.isVisible(position.elevation)) {
+      return null;
+    }
+
+    const azimuthDiff = this.coordinateCalc.getAzimuthDifference(
+      position.azimuth,
+      targetAzimuth,
+    );
+
+    const elevationDiff = Math.abs(position.elevation - targetElevation);
+
+    // 許容範囲外のずれには重みを課し、許容範囲内では総合精度スコアと一致させる
+    const excess =
+      Math.max(0, azimuthDiff - settings.azimuthTolerance) +
+      Math.max(0, elevationDiff - settings.elevationTolerance);
+
+    return {
+      time,
+      position,
+      azimuthDiff,
+      elevationDiff,
+      // 高度差を重視
+      score: azimuthDiff + elevationDiff * 2 + excess * TOLERANCE_PENALTY,
+    };
+  }
+
+  /**
+   * 黄金分割探索で区間内のずれが最小となる時刻を求める
+   * ずれの評価値は整列付近で単峰となるため、区間を縮小して収束させる
+   */
+  private refineAlignment(
+    startMs: number,
+    endMs: number,
+    precisionMs: number,
+    evaluate: (time: Date) => AlignmentSample | null,
+  ): AlignmentSample | null {
+    const refinedMs = this.minimizeOverTime(
+      startMs,
+      endMs,
+      precisionMs,
+      (timeMs) => evaluate(new Date(timeMs))?.score ?? Infinity,
+    );
+
+    return evaluate(new Date(refinedMs));
+  }
+
+  /**
+   * 天体の縁が山頂に接する時刻（第 1 接触）、中心が重なる時刻、離れる時刻（第 2 接触）を求める
+   * 視半径は astronomy-engine の距離・視直径から求め、円盤が山頂を通過しない場合は null を返す
+   * 惑星・恒星は点光源のため接触時刻を持たない
+   */
+  private calculateContactTimes(
+    time: Date,
+    context: AlignmentContext,
+  ): ContactTimes | null {
+    const { body, targetAzimuth, targetElevation, settings } = context;
+    if (body !== "sun" && body !== "moon") {
+      return null;
+    }
+
+    const precisionMs = settings.refinementPrecision * 1000;
+    const positionAt = (timeMs: number) =>
+      this.calculateBodyPosition(new Date(timeMs), context);
+    const separationAt = (timeMs: number): number => {
+      const position = positionAt(timeMs);
+      return position
+        ? this.coordinateCalc.calculateAngularSeparation(
+            position.azimuth,
+            position.elevation,
+            targetAzimuth,
+            targetElevation,
+          )
+        : Infinity;
+    };
+
+    // 天体中心が山頂に最も近づく時刻
+    const centerMs = this.minimizeOverTime(
+      time.getTime() - CONTACT_SEARCH_WINDOW_MS,
+      time.getTime() + CONTACT_SEARCH_WINDOW_MS,
+      precisionMs,
+      separationAt,
+    );
+    const centerPosition = positionAt(centerMs);
+    if (!centerPosition) {
+      return null;
+    }
+
+    const radius = this.celestialCalc.calculateApparentRadius(
+      body,
+      new Date(centerMs),
+      centerPosition.distance,
+    );
+    const isOnDisk = (timeMs: number): boolean =>
+      separationAt(timeMs) <= radius;
+
+    const windowStart = centerMs - CONTACT_SEARCH_WINDOW_MS;
+    const windowEnd = centerMs + CONTACT_SEARCH_WINDOW_MS;
+    if (!isOnDisk(centerMs) || isOnDisk(windowStart) || isOnDisk(windowEnd)) {
+      return null;
+    }
+
+    return {
+      firstContactTime: new Date(
+        this.findBoundaryTime(centerMs, windowStart, precisionMs, isOnDisk),
+      ),
+      centerTime: new Date(centerMs),
+      lastContactTime: new Date(
+        this.findBoundaryTime(centerMs, windowEnd, precisionMs, isOnDisk),
+      ),
+    };
+  }
+
+  /**
+   * 黄金分割探索で区間内の評価値が最小となる時刻（ミリ秒）を求める
+   */
+  private minimizeOverTime(
+    startMs: number,
+    endMs: number,
+    precisionMs: number,
+    scoreAt: (timeMs: number) => number,
+  ): number {
+    let lower = startMs;
+    let upper = endMs;
+    let left = upper - INVERSE_GOLDEN_RATIO * (upper - lower);
+    let right = lower + INVERSE_GOLDEN_RATIO * (upper - lower);
+    let leftScore = scoreAt(left);
+    let rightScore = scoreAt(right);
+
+    while (upper - lower > precisionMs) {
+      if (leftScore < rightScore) {
+        upper = right;
+        right = left;
+        rightScore = leftScore;
+        left = upper - INVERSE_GOLDEN_RATIO * (upper - lower);
+        leftScore = scoreAt(left);
+      } else {
+        lower = left;
+        left = right;
+        leftScore = rightScore;
+        right = lower + INVERSE_GOLDEN_RATIO * (upper - lower);
+        rightScore = scoreAt(right);
+      }
+    }
+
+    return Math.round((lower + upper) / 2);
+  }
+
+  /**
+   * 二分法で条件が成り立つ時刻と成り立たない時刻の境界（ミリ秒）を求める
+   */
+  private findBoundaryTime(
+    insideMs: number,
+    outsideMs: number,
+    precisionMs: number,
+    isInside: (timeMs: number) => boolean,
+  ): number {
+    let inside = insideMs;
+    let outside = outsideMs;
+
+    while (Math.abs(outside - inside) > precisionMs) {
+      const middle = (inside + outside) / 2;
+      if (isInside(middle)) {
+        inside = middle;
+      } else {
+        outside = middle;
+      }
+    }
+
+    return Math.round((inside + outside) / 2);
+  }
+
+  /**
+   * 天体中心が山頂稜線のどこに重なるかを判定
+   * 稜線の左肩・中央・右肩のうち天体中心に最も近い点を採用する
+   */
+  private classifySummitPosition(
+    position: SunPosition | MoonPosition | CelestialObjectPosition,
+    location: Location,
+    refraction: RefractionModel,
+    target: AlignmentTarget,
+  ): SummitPosition {
+    const ridgePoints = this.coordinateCalc.calculateSummitRidgePoints(
+      location,
+      refraction.getTerrestrialCoefficient(),
+      target,
+    );
+
+    let nearest = ridgePoints[0];
+    let nearestSeparation = Infinity;
+    for (const point of ridgePoints) {
+      const separation = this.coordinateCalc.calculateAngularSeparation(
+        position.azimuth,
+        position.elevation,
+        point.azimuth,
+        point.elevation,
+      );
+      if (separation < nearestSeparation) {
+        nearest = point;
+        nearestSeparation = separation;
+      }
+    }
+
+    return nearest.position;
+  }
+
+  /**
+   * 精密化後に残る天体中心と富士山頂の角距離（度）
+   * 方位角差は高度に応じて天球上の距離に換算する
+   */
+  private calculateResidualError(sample: AlignmentSample): number {
+    const azimuthOffset =
+      sample.azimuthDiff *
+      Math.cos(this.coordinateCalc.toRadians(sample.position.elevation));
+    return Math.sqrt(azimuthOffset ** 2 + sample.elevationDiff ** 2);
+  }
+
+  /**
+   * 天体中心が山頂中央に正確に重なる位置への移動を求める
+   * 天体の高度が山頂の仰角と一致する時刻の方位角のずれを、視線と直交する方向の移動距離に換算する。
+   * 直交方向の移動では山頂までの距離・仰角はほぼ変わらないため、高度は一致したままとなる
+   */
+  private calculateObserverOffset(
+    sample: AlignmentSample,
+    context: AlignmentContext,
+  ): ObserverOffset | null {
+    const { location, target, targetAzimuth, targetElevation, settings } =
+      context;
+
+    const positionAt = (timeMs: number) =>
+      this.calculateBodyPosition(new Date(timeMs), context);
+    const crossingMs = this.minimizeOverTime(
+      sample.time.getTime() - CONTACT_SEARCH_WINDOW_MS,
+      sample.time.getTime() + CONTACT_SEARCH_WINDOW_MS,
+      settings.refinementPrecision * 1000,
+      (timeMs) => {
+        const position = positionAt(timeMs);
+        return position
+          ? Math.abs(position.elevation - targetElevation)
+          : Infinity;
+      },
+    );
+    const position = positionAt(crossingMs);
+    if (
+      !position ||
+      Math.abs(position.elevation - targetElevation) >
+        settings.elevationTolerance
+    ) {
+      return null;
+    }
+
+    // 天体が山頂より右（方位角が大きい）にあれば、視線の左へ移動すると山頂が右へずれて重なる
+    let azimuthError = position.azimuth - targetAzimuth;
+    if (azimuthError > 180) azimuthError -= 360;
+    if (azimuthError < -180) azimuthError += 360;
+
+    const distance =
+      this.coordinateCalc.calculateDistanceToPoint(location, target) *
+      Math.abs(Math.tan(this.coordinateCalc.toRadians(azimuthError)));
+    if (distance > MAX_OBSERVER_OFFSET) {
+      return null;
+    }
+
+    const bearing = targetAzimuth + (azimuthError > 0 ? -90 : 90);
+    return {
+      observerOffsetDistance: Math.round(distance),
+      observerOffsetBearing: Math.round(((bearing + 360) % 360) * 10) / 10,
+    };
+  }
+
+  /**
+   * 整列時刻の不確かさを前後の時間幅に換算する
+   * 地点座標の精度と大気屈折のばらつきによる山頂と天体の相対位置の誤差（許容誤差を上限とする）を、
+   * 整列時刻付近の天体の角速度で割って時間に変換する
+   */
+  private calculateTimeWindow(
+    sample: AlignmentSample,
+    context: AlignmentContext,
+  ): TimeWindow {
+    const { location, target, settings } = context;
+    const distance = this.coordinateCalc.calculateDistanceToPoint(
+      location,
+      target,
+    );
+
+    // 1. 地点座標の精度による山頂の方位角・仰角の誤差
+    const coordinateAzimuthError = this.coordinateCalc.toDegrees(
+      Math.atan(settings.coordinatePrecision / distance),
+    );
+    const coordinateElevationError = this.coordinateCalc.toDegrees(
+      Math.atan(settings.elevationPrecision / distance),
+    );
+
+    // 2. 大気屈折のばらつきによる天体・山頂の仰角の誤差
+    const celestialRefractionError =
+      settings.refraction.calculateRefraction(sample.position.elevation) *
+      settings.refractionUncertainty;
+    const coefficient = settings.refraction.getTerrestrialCoefficient();
+    const terrestrialRefractionError = Math.abs(
+      this.coordinateCalc.calculateElevationToPoint(
+        location,
+        target,
+        coefficient * (1 + settings.refractionUncertainty),
+      ) -
+        this.coordinateCalc.calculateElevationToPoint(
+          location,
+          target,
+          coefficient,
+        ),
+    );
+
+    // 独立な誤差として合成し、検出の許容誤差を上限とする
+    const azimuthError = Math.min(
+      coordinateAzimuthError,
+      settings.azimuthTolerance,
+    );
+    const elevationError = Math.min(
+      Math.sqrt(
+        coordinateElevationError ** 2 +
+          celestialRefractionError ** 2 +
+          terrestrialRefractionError ** 2,
+      ),
+      settings.elevationTolerance,
+    );
+    const angularError = Math.sqrt(
+      (azimuthError *
+        Math.cos(this.coordinateCalc.toRadians(sample.position.elevation))) **
+        2 +
+        elevationError ** 2,
+    );
+
+    // 整列時刻の前後で天体が動く角速度（度/秒）
+    const positionAt = (timeMs: number) =>
+      this.calculateBodyPosition(new Date(timeMs), context);
+    const before = positionAt(sample.time.getTime() - ANGULAR_SPEED_SAMPLE_MS);
+    const after = positionAt(sample.time.getTime() + ANGULAR_SPEED_SAMPLE_MS);
+    const angularSpeed =
+      before && after
+        ? this.coordinateCalc.calculateAngularSeparation(
+            before.azimuth,
+            before.elevation,
+            after.azimuth,
+            after.elevation,
+          ) /
+          ((2 * ANGULAR_SPEED_SAMPLE_MS) / 1000)
+        : CELESTIAL_ANGULAR_SPEED;
+
+    // 時間幅は精密化の収束精度を下限とする
+    const halfWidthMs = Math.max(
+      settings.refinementPrecision * 1000,
+      (angularError / angularSpeed) * 1000,
+    );
+
+    return {
+      timeWindowStart: new Date(sample.time.getTime() - halfWidthMs),
+      timeWindowEnd: new Date(sample.time.getTime() + halfWidthMs),
+    };
   }
 
   /**
@@ -510,9 +1618,49 @@ export class FujiAlignmentCalculator {
     }
   }
 
+  /**
+   * 山頂が見える確率（0-1）
+   * 山頂までの距離（富士山は地点の富士山までの距離）と、その時刻の太陽の位置から推定する
+   */
+  private calculateVisibilityProbability(
+    time: Date,
+    context: AlignmentContext,
+  ): number {
+    const { location, target, settings } = context;
+    const distance =
+      isFujiTarget(target) && location.fujiDistance
+        ? location.fujiDistance
+        : this.coordinateCalc.calculateDistanceToPoint(location, target);
+
+    const sunPosition = this.celestialCalc.calculateSunPosition(
+      time,
+      location,
+      settings.refraction,
+    );
+    if (!sunPosition) {
+      return this.seasonCalc.estimateSummitVisibility(time, distance, -90, 180);
+    }
+
+    const sunSeparation = this.coordinateCalc.calculateAngularSeparation(
+      sunPosition.azimuth,
+      sunPosition.elevation,
+      context.targetAzimuth,
+      context.targetElevation,
+    );
+
+    return this.seasonCalc.estimateSummitVisibility(
+      time,
+      distance,
+      sunPosition.elevation,
+      sunSeparation,
+    );
+  }
+
   private async calculateQualityScore(
     azimuthDiff: number,
     elevation: number,
+    visibilityProbability: number,
+    terrainOccluded: boolean = false,
   ): Promise<number> {
     // 方位角精度スコア（0-50 点）
     const azimuthTolerance = await this.settingsService.getNumberSetting(
@@ -527,9 +1675,67 @@ export class FujiAlignmentCalculator {
     // 高度スコア（0-30 点）：高度 1 度以上で満点
     const elevationScore = Math.min(30, Math.max(0, elevation + 2) * 15);
 
-    // 可視性スコア（0-20 点）：高度が高いほど高スコア
-    const visibilityScore = Math.min(20, Math.max(0, elevation) * 2);
+    // 可視性スコア（0-20 点）：山頂が見える確率
+    const visibilityScore = visibilityProbability * 20;
+
+    const totalScore = azimuthScore + elevationScore + visibilityScore;
 
-    return Math.round(azimuthScore + elevationScore + visibilityScore);
+    // 山頂が地形に隠れる場合は実際には見えないため大きく減点
+    return Math.round(
+      terrainOccluded ? totalScore * TERRAIN_OCCLUDED_QUALITY_FACTOR : totalScore,
+    );
+  }
+
+  /**
+   * パール富士の品質スコア（0-100 点）
+   * 整列の精度に、月の明るさ・空の暗さ・輝面の向きを加えて評価する
+   * 細い月は輝面が下（山頂側）を向くほど山頂に光の縁が乗って見えるため高く評価し、
+   * 満月に近いほど向きの影響は小さくなる
+   */
+  private async calculatePearlQualityScore(
+    sample: AlignmentSample,
+    moonPosition: MoonPosition,
+    moonOrientation: MoonOrientation | null,
+    context: AlignmentContext,
+    visibilityProbability: number,
+    terrainOccluded: boolean,
+  ): Promise<number> {
+    const alignmentScore =
+      ((await this.calculateQualityScore(
+        sample.azimuthDiff,
+        sample.position.elevation,
+        visibilityProbability,
+      )) /
+        100) *
+      PEARL_QUALITY_WEIGHTS.alignment;
+
+    const illumination = Math.min(1, Math.max(0, moonPosition.illumination));
+    const illuminationScore = illumination * PEARL_QUALITY_WEIGHTS.illumination;
+
+    // 太陽高度 0 度で 0 点、航海薄明の終わりで満点
+    const sunPosition = this.celestialCalc.calculateSunPosition(
+      sample.time,
+      context.location,
+      context.settings.refraction,
+    );
+    const sunAltitude = sunPosition?.elevation ?? 0;
+    const skyDarknessScore =
+      Math.min(1, Math.max(0, sunAltitude / DARK_SKY_SUN_ALTITUDE)) *
+      PEARL_QUALITY_WEIGHTS.skyDarkness;
+
+    // 輝面が真下（傾き 180 度）で 1、真上で 0。満月に近いほど 1 に近づける
+    const tiltFactor = moonOrientation
+      ? (1 - Math.cos((moonOrientation.tilt * Math.PI) / 180)) / 2
+      : 0.5;
+    const tiltScore =
+      ((1 - illumination) * tiltFactor + illumination) *
+      PEARL_QUALITY_WEIGHTS.tilt;
+
+    const totalScore =
+      alignmentScore + illuminationScore + skyDarknessScore + tiltScore;
+
+    return Math.round(
+      terrainOccluded ? totalScore * TERRAIN_OCCLUDED_QUALITY_FACTOR : totalScore,
+    );
   }
 }
@@ -0,0 +1,159 @@
+import * as Astronomy from "astronomy-engine";
+import { RefractionModelName } from "@fuji-calendar/types";
+
+// 地上の視線に対する標準の屈折係数（地球曲率による低下の 13% を相殺）
+export const STANDARD_TERRESTRIAL_COEFFICIENT = 0.13;
+
+// Bennett・Sæmundsson の式が前提とする標準大気（℃・hPa）
+const REFERENCE_TEMPERATURE = 10;
+const REFERENCE_PRESSURE = 1010;
+
+// 地平線付近での発散を避けるための高度の下限（度、astronomy-engine と同じ）
+const MIN_REFRACTION_ALTITUDE = -1;
+
+/**
+ * 屈折計算に使う気象条件
+ */
+export interface AtmosphericConditions {
+  temperature: number; // 気温（℃）
+  pressure: number; // 気圧（hPa）
+}
+
+/**
+ * 大気屈折モデル
+ * 天体の見かけの高度の上昇量と、地上の視線（富士山頂への仰角）の屈折係数を提供する
+ */
+export interface RefractionModel {
+  readonly name: RefractionModelName;
+  /**
+   * 真の高度（度）に対する屈折による高度の上昇量（度）
+   */
+  calculateRefraction(altitude: number): number;
+  /**
+   * 地球曲率による見かけの低下を相殺する割合
+   */
+  getTerrestrialCoefficient(): number;
+}
+
+/**
+ * 気温・気圧による屈折量の補正係数
+ */
+function atmosphericScale(conditions: AtmosphericConditions): number {
+  return (
+    (conditions.pressure / REFERENCE_PRESSURE) *
+    ((273 + REFERENCE_TEMPERATURE) / (273 + conditions.temperature))
+  );
+}
+
+/**
+ * 標準モデル：astronomy-engine の "normal" 屈折と固定の屈折係数（気象条件は使用しない）
+ */
+export class StandardRefractionModel implements RefractionModel {
+  readonly name = "standard" as const;
+
+  calculateRefraction(altitude: number): number {
+    return Astronomy.Refraction("normal", altitude);
+  }
+
+  getTerrestrialCoefficient(): number {
+    return STANDARD_TERRESTRIAL_COEFFICIENT;
+  }
+}
+
+/**
+ * Sæmundsson の式：真の高度から屈折量を直接求める
+ * R = 1.02 / tan(h + 10.3 / (h + 5.11)) 分角
+ */
+export class SaemundssonRefractionModel implements RefractionModel {
+  readonly name: RefractionModelName = "saemundsson";
+
+  constructor(private conditions: AtmosphericConditions) {}
+
+  calculateRefraction(altitude: number): number {
+    const h = Math.max(altitude, MIN_REFRACTION_ALTITUDE);
+    const arcMinutes =
+      1.02 / Math.tan(Astronomy.DEG2RAD * (h + 10.3 / (h + 5.11)));
+    return (arcMinutes / 60) * atmosphericScale(this.conditions);
+  }
+
+  getTerrestrialCoefficient(): number {
+    return STANDARD_TERRESTRIAL_COEFFICIENT * atmosphericScale(this.conditions);
+  }
+}
+
+/**
+ * Bennett の式：見かけの高度に対する屈折量のため、真の高度から反復して解く
+ * R = 1 / tan(ha + 7.31 / (ha + 4.4)) 分角
+ */
+export class BennettRefractionModel implements RefractionModel {
+  readonly name = "bennett" as const;
+
+  constructor(private conditions: AtmosphericConditions) {}
+
+  calculateRefraction(altitude: number): number {
+    const scale = atmosphericScale(this.conditions);
+    let refraction = 0;
+
+    // 見かけの高度 = 真の高度 + 屈折量 を数回の反復で収束させる
+    for (let i = 0; i < 4; i++) {
+      const ha = Math.max(altitude + refraction, MIN_REFRACTION_ALTITUDE);
+      const arcMinutes =
+        1 / Math.tan(Astronomy.DEG2RAD * (ha + 7.31 / (ha + 4.4)));
+      refraction = (arcMinutes / 60) * scale;
+    }
+
+    return refraction;
+  }
+
+  getTerrestrialCoefficient(): number {
+    return STANDARD_TERRESTRIAL_COEFFICIENT * atmosphericScale(this.conditions);
+  }
+}
+
+/**
+ * ユーザー指定の屈折係数を使うモデル
+ * 地上の視線には指定係数をそのまま使い、天体の屈折量は Sæmundsson の式を係数の比で拡大・縮小する
+ * 逆転層などで標準より強い屈折が観測される場合の調整用
+ */
+export class CustomRefractionModel extends SaemundssonRefractionModel {
+  readonly name = "custom" as const;
+
+  constructor(
+    conditions: AtmosphericConditions,
+    private coefficient: number,
+  ) {
+    super(conditions);
+  }
+
+  calculateRefraction(altitude: number): number {
+    return (
+      super.calculateRefraction(altitude) *
+      (this.coefficient / STANDARD_TERRESTRIAL_COEFFICIENT)
+    );
+  }
+
+  getTerrestrialCoefficient(): number {
+    return this.coefficient;
+  }
+}
+
+/**
+ * モデル名と気象条件から屈折モデルを生成
+ */
+export function createRefractionModel(
+  name: RefractionModelName,
+  conditions: AtmosphericConditions,
+  customCoefficient: number = STANDARD_TERRESTRIAL_COEFFICIENT,
+): RefractionModel {
+  switch (name) {
+    case "bennett":
+      return new BennettRefractionModel(conditions);
+    case "saemundsson":
+      return new SaemundssonRefractionModel(conditions);
+    case "custom":
+      return new CustomRefractionModel(conditions, customCoefficient);
+    case "standard":
+    default:
+      return new StandardRefractionModel();
+  }
+}
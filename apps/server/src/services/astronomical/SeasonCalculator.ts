@@ -1,4 +1,35 @@
-import { getComponentLogger } from "@fuji-calendar/utils";
+import { getComponentLogger, JST_OFFSET } from "@fuji-calendar/utils";
+
+// 季節ごとの平均的な視程（km）。夏は水蒸気と煙霧で遠方が霞みやすい
+const MEAN_VISIBILITY_KM = {
+  spring: 60,
+  summer: 35,
+  autumn: 80,
+  winter: 130,
+} as const;
+
+// 時間帯（JST の時）ごとの視程の係数。朝が最も澄み、日中の対流・煙霧で午後ほど霞む
+const TIME_OF_DAY_VISIBILITY_FACTORS: { fromHour: number; factor: number }[] =
+  [
+    { fromHour: 0, factor: 0.9 },
+    { fromHour: 4, factor: 1.0 },
+    { fromHour: 9, factor: 0.85 },
+    { fromHour: 15, factor: 0.75 },
+    { fromHour: 20, factor: 0.9 },
+  ];
+
+// 太陽が出ているとみなす高度（度）
+const SUN_VISIBLE_ALTITUDE = -2;
+
+// 太陽が視線上にあるとき、霞が前方散乱で明るく光って山頂が見えなくなる割合
+const MAX_SUN_GLARE_PENALTY = 0.35;
+
+// まぶしさが弱まる太陽と視線の離角の目安（度）
+const SUN_GLARE_SCALE = 8;
+
+// 日中の明るい空で霞が白く浮き、山頂のコントラストが下がる割合（太陽高度 30 度で最大）
+const MAX_DAYLIGHT_HAZE_PENALTY = 0.15;
+const DAYLIGHT_HAZE_FULL_ALTITUDE = 30;
 
 /**
  * 季節・可視性判定を担当するクラス
@@ -86,6 +117,61 @@ export class SeasonCalculator {
     return "ダイアモンド富士の撮影に適した時期です";
   }
 
+  /**
+   * 気象学的な季節を取得（3-5 月を春、6-8 月を夏、9-11 月を秋、12-2 月を冬とする）
+   */
+  getMeteorologicalSeason(
+    date: Date,
+  ): "spring" | "summer" | "autumn" | "winter" {
+    const month = date.getMonth() + 1;
+    if (month >= 3 && month <= 5) return "spring";
+    if (month >= 6 && month <= 8) return "summer";
+    if (month >= 9 && month <= 11) return "autumn";
+    return "winter";
+  }
+
+  /**
+   * 山頂が見える確率（0-1）を推定
+   * 季節と時間帯から見込まれる視程に対する距離で霞による透過率を求め、
+   * 霞が太陽光で明るく光る分（太陽と視線の離角・太陽高度）をさらに差し引く
+   *
+   * @param time 観測時刻
+   * @param distance 山頂までの距離（m）
+   * @param sunAltitude 太陽高度（度）
+   * @param sunSeparation 太陽と山頂方向の離角（度）
+   */
+  estimateSummitVisibility(
+    time: Date,
+    distance: number,
+    sunAltitude: number,
+    sunSeparation: number,
+  ): number {
+    const season = this.getMeteorologicalSeason(time);
+    const hour = (time.getUTCHours() + JST_OFFSET) % 24;
+    const timeOfDayFactor = TIME_OF_DAY_VISIBILITY_FACTORS.reduce(
+      (factor, entry) => (hour >= entry.fromHour ? entry.factor : factor),
+      1,
+    );
+    const visibilityKm = MEAN_VISIBILITY_KM[season] * timeOfDayFactor;
+
+    // 視程を指数分布とみなし、視程が距離を上回る確率を透過率とする
+    const transmittance = Math.exp(-distance / 1000 / visibilityKm);
+    const haze = 1 - transmittance;
+
+    let veil = 0;
+    if (sunAltitude > SUN_VISIBLE_ALTITUDE) {
+      veil +=
+        MAX_SUN_GLARE_PENALTY *
+        Math.exp(-Math.max(0, sunSeparation) / SUN_GLARE_SCALE);
+      veil +=
+        MAX_DAYLIGHT_HAZE_PENALTY *
+        Math.min(1, Math.max(0, sunAltitude) / DAYLIGHT_HAZE_FULL_ALTITUDE);
+    }
+
+    // 霞が多いほど太陽光の影響を受ける
+    return Math.min(1, Math.max(0, transmittance * (1 - haze * veil)));
+  }
+
   /**
    * 年内の指定月日の Date オブジェクトを作成
    */
@@ -0,0 +1,227 @@
+import * as Astronomy from "astronomy-engine";
+import { FujiEvent, Location, SpecialEventType } from "@fuji-calendar/types";
+import { getComponentLogger } from "@fuji-calendar/utils";
+
+// スーパームーンとみなす満月時の地心距離の上限（km）
+const SUPERMOON_MAX_DISTANCE_KM = 360000;
+
+// 満月の前後何時間までの月をスーパームーンとして扱うか
+const SUPERMOON_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// 満月の検索間隔（朔望月より長く取り、次の満月を必ず含める）
+const FULL_MOON_SEARCH_DAYS = 40;
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * 日食・月食の欠けている期間
+ */
+interface EclipseInterval {
+  start: Date;
+  end: Date;
+  kind: Astronomy.EclipseKind;
+}
+
+/**
+ * 日食・月食・スーパームーンと富士山との整列を照合するクラス
+ *
+ * 整列の検出自体は FujiAlignmentCalculator が行い、このクラスは
+ * 円盤が山頂にかかる時間帯が欠け始めから欠け終わりの間にあるか、
+ * 近地点付近の満月かを判定して特別イベントとして印を付ける
+ * 日食は地点ごとに見え方が異なるため撮影地点の座標で検索する
+ */
+export class SpecialEventCalculator {
+  private logger = getComponentLogger("SpecialEventCalculator");
+  private lunarEclipseCache = new Map<number, EclipseInterval[]>();
+  private solarEclipseCache = new Map<string, EclipseInterval[]>();
+  private supermoonCache = new Map<number, Date[]>();
+
+  /**
+   * 整列イベントのうち特別な天文現象と重なるものに specialEvent を設定
+   */
+  annotateSpecialEvents(events: FujiEvent[]): FujiEvent[] {
+    return events.map((event) => {
+      const specialEvent = this.findSpecialEvent(event);
+      if (!specialEvent) {
+        return event;
+      }
+
+      this.logger.info("特別イベントを検出", {
+        eventId: event.id,
+        locationId: event.location.id,
+        specialEvent,
+        time: event.time.toISOString(),
+      });
+
+      return { ...event, specialEvent };
+    });
+  }
+
+  /**
+   * 1 件の整列イベントに該当する特別な天文現象を判定
+   * 月食とスーパームーンが重なる場合は月食を優先する
+   */
+  private findSpecialEvent(event: FujiEvent): SpecialEventType | null {
+    const [start, end] = this.getAlignmentPeriod(event);
+
+    if (event.type === "diamond") {
+      const eclipses = this.getLocalSolarEclipses(
+        event.location,
+        event.time.getFullYear(),
+      );
+      return this.overlapsAny(eclipses, start, end) ? "solar_eclipse" : null;
+    }
+
+    const lunarEclipses = this.getLunarEclipses(event.time.getFullYear());
+    if (this.overlapsAny(lunarEclipses, start, end)) {
+      return "lunar_eclipse";
+    }
+
+    const isSupermoon = this.getSupermoons(event.time.getFullYear()).some(
+      (fullMoon) =>
+        Math.abs(fullMoon.getTime() - event.time.getTime()) <=
+        SUPERMOON_WINDOW_MS,
+    );
+    return isSupermoon ? "supermoon" : null;
+  }
+
+  /**
+   * 円盤が山頂にかかっている期間（接触時刻が無い場合は整列時刻のみ）
+   */
+  private getAlignmentPeriod(event: FujiEvent): [Date, Date] {
+    return [
+      event.firstContactTime ?? event.time,
+      event.lastContactTime ?? event.time,
+    ];
+  }
+
+  private overlapsAny(
+    intervals: EclipseInterval[],
+    start: Date,
+    end: Date,
+  ): boolean {
+    return intervals.some(
+      (interval) => interval.start <= end && interval.end >= start,
+    );
+  }
+
+  /**
+   * 指定年の月食（部分食以上）の欠けている期間を取得
+   * 半影食は肉眼でほとんど判別できないため対象外とする
+   */
+  private getLunarEclipses(year: number): EclipseInterval[] {
+    const cached = this.lunarEclipseCache.get(year);
+    if (cached) {
+      return cached;
+    }
+
+    const { yearStart, yearEnd } = this.getSearchRange(year);
+    const intervals: EclipseInterval[] = [];
+
+    let eclipse = Astronomy.SearchLunarEclipse(yearStart);
+    while (eclipse.peak.date < yearEnd) {
+      if (eclipse.kind !== Astronomy.EclipseKind.Penumbral) {
+        const peakMs = eclipse.peak.date.getTime();
+        const halfDurationMs = eclipse.sd_partial * MINUTE_MS;
+        intervals.push({
+          start: new Date(peakMs - halfDurationMs),
+          end: new Date(peakMs + halfDurationMs),
+          kind: eclipse.kind,
+        });
+      }
+      eclipse = Astronomy.NextLunarEclipse(eclipse.peak);
+    }
+
+    this.logger.debug("月食検索完了", { year, count: intervals.length });
+    this.lunarEclipseCache.set(year, intervals);
+    return intervals;
+  }
+
+  /**
+   * 撮影地点から見える指定年の日食の欠けている期間を取得
+   */
+  private getLocalSolarEclipses(
+    location: Location,
+    year: number,
+  ): EclipseInterval[] {
+    const cacheKey = `${year}:${location.latitude},${location.longitude},${location.elevation}`;
+    const cached = this.solarEclipseCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const { yearStart, yearEnd } = this.getSearchRange(year);
+    const observer = new Astronomy.Observer(
+      location.latitude,
+      location.longitude,
+      location.elevation,
+    );
+    const intervals: EclipseInterval[] = [];
+
+    let eclipse = Astronomy.SearchLocalSolarEclipse(yearStart, observer);
+    while (eclipse.peak.time.date < yearEnd) {
+      intervals.push({
+        start: eclipse.partial_begin.time.date,
+        end: eclipse.partial_end.time.date,
+        kind: eclipse.kind,
+      });
+      eclipse = Astronomy.NextLocalSolarEclipse(eclipse.peak.time, observer);
+    }
+
+    this.logger.debug("日食検索完了", {
+      year,
+      locationId: location.id,
+      count: intervals.length,
+    });
+    this.solarEclipseCache.set(cacheKey, intervals);
+    return intervals;
+  }
+
+  /**
+   * 指定年のスーパームーン（近地点付近の満月）の時刻を取得
+   */
+  private getSupermoons(year: number): Date[] {
+    const cached = this.supermoonCache.get(year);
+    if (cached) {
+      return cached;
+    }
+
+    const { yearStart, yearEnd } = this.getSearchRange(year);
+    const supermoons: Date[] = [];
+
+    let fullMoon = Astronomy.SearchMoonPhase(
+      180,
+      yearStart,
+      FULL_MOON_SEARCH_DAYS,
+    );
+    while (fullMoon && fullMoon.date < yearEnd) {
+      const distanceKm =
+        Astronomy.GeoMoon(fullMoon).Length() * Astronomy.KM_PER_AU;
+      if (distanceKm <= SUPERMOON_MAX_DISTANCE_KM) {
+        supermoons.push(fullMoon.date);
+      }
+      fullMoon = Astronomy.SearchMoonPhase(
+        180,
+        fullMoon.AddDays(1),
+        FULL_MOON_SEARCH_DAYS,
+      );
+    }
+
+    this.logger.debug("スーパームーン検索完了", {
+      year,
+      count: supermoons.length,
+    });
+    this.supermoonCache.set(year, supermoons);
+    return supermoons;
+  }
+
+  /**
+   * 年をまたぐ現象を取りこぼさないよう前後 2 日を含めた検索範囲
+   */
+  private getSearchRange(year: number): { yearStart: Date; yearEnd: Date } {
+    return {
+      yearStart: new Date(year, 0, 1 - 2),
+      yearEnd: new Date(year + 1, 0, 1 + 2),
+    };
+  }
+}
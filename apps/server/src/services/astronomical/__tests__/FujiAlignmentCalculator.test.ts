@@ -0,0 +1,233 @@
+import { describe, expect, it } from "@jest/globals";
+import { Location } from "@fuji-calendar/types";
+import { FujiAlignmentCalculator } from "../FujiAlignmentCalculator";
+import { CoordinateCalculator } from "../CoordinateCalculator";
+import { FUJI_ALIGNMENT_TARGET } from "../AlignmentTarget";
+import { SystemSettingsService } from "../../SystemSettingsService";
+
+// 設定はすべて既定値を返す
+const settingsService = {
+  getNumberSetting: async (_key: string, defaultValue: number) => defaultValue,
+  getStringSetting: async (_key: string, defaultValue: string) => defaultValue,
+  getBooleanSetting: async (_key: string, defaultValue: boolean) =>
+    defaultValue,
+} as unknown as SystemSettingsService;
+
+const coordinateCalc = new CoordinateCalculator();
+
+// 富士山への方位角・仰角・距離を事前計算した地点（DB に保存する値と同じ計算）
+const createLocation = (
+  latitude: number,
+  longitude: number,
+  elevation: number,
+): Location => {
+  const location = {
+    id: 11,
+    name: "田貫湖",
+    prefecture: "静岡県",
+    latitude,
+    longitude,
+    elevation,
+    createdAt: new Date("2025-01-01T00:00:00Z"),
+    updatedAt: new Date("2025-01-01T00:00:00Z"),
+  };
+  return {
+    ...location,
+    fujiAzimuth: coordinateCalc.calculateAzimuthToFuji(location),
+    fujiElevation: coordinateCalc.calculateElevationToFujiSummit(location),
+    fujiDistance: coordinateCalc.calculateDistanceToFuji(location),
+  };
+};
+
+// 田貫湖（4 月下旬・8 月中旬に朝のダイアモンド富士が見られる）
+const TANUKIKO = createLocation(35.3427, 138.5628, 660);
+
+// 太陽の中心が山頂をほぼ通過する日と、1 度ほどずれて通過する日
+const CLOSE_DATE = new Date("2025-08-17T00:00:00+09:00");
+const OFFSET_DATE = new Date("2025-08-19T00:00:00+09:00");
+
+const findSunrise = async (
+  calculator: FujiAlignmentCalculator,
+  date: Date,
+  location: Location = TANUKIKO,
+) => {
+  const events = await calculator.findDiamondFuji(date, location);
+  return events.find((event) => event.subType === "sunrise");
+};
+
+describe("FujiAlignmentCalculator", () => {
+  const calculator = new FujiAlignmentCalculator(settingsService);
+
+  // 田貫湖から太陽と富士山頂の整列を探す条件
+  const createSunContext = async (date: Date) => ({
+    location: TANUKIKO,
+    body: "sun" as const,
+    target: FUJI_ALIGNMENT_TARGET,
+    targetAzimuth: coordinateCalc.calculateAzimuthToPoint(
+      TANUKIKO,
+      FUJI_ALIGNMENT_TARGET,
+    ),
+    targetElevation: TANUKIKO.fujiElevation,
+    settings: await calculator["getSearchSettings"](date),
+  });
+
+  describe("findDiamondFuji", () => {
+    it("田貫湖の 2025-08-17 の朝のダイアモンド富士を 6:07 に検出する", async () => {
+      const event = await findSunrise(calculator, CLOSE_DATE);
+
+      expect(event).toBeDefined();
+      expect(event.type).toBe("diamond");
+      expect(
+        Math.abs(
+          event.time.getTime() -
+            new Date("2025-08-17T06:07:41+09:00").getTime(),
+        ),
+      ).toBeLessThan(30 * 1000);
+      expect(Math.abs(event.azimuth - TANUKIKO.fujiAzimuth)).toBeLessThan(0.2);
+      expect(Math.abs(event.elevation - TANUKIKO.fujiElevation)).toBeLessThan(
+        0.1,
+      );
+      expect(event.residualError).toBeLessThan(0.25);
+      expect(event.accuracy).toBe("excellent");
+    });
+
+    it("西向きの地点の日の出は検索しない", async () => {
+      // 富士山の東（山中湖畔）からは日の入りのみ
+      const yamanakako = createLocation(35.4156, 138.8739, 990);
+      const events = await calculator.findDiamondFuji(CLOSE_DATE, yamanakako);
+
+      expect(events.every((event) => event.subType === "sunset")).toBe(true);
+    });
+  });
+
+  describe("refineAlignment", () => {
+    it("黄金分割探索の結果が 1 秒間隔の全探索の最小値と一致する", async () => {
+      const context = await createSunContext(CLOSE_DATE);
+      const evaluate = (time: Date) =>
+        calculator["evaluateAlignment"](time, context);
+
+      const startMs = new Date("2025-08-17T06:06:00+09:00").getTime();
+      const endMs = new Date("2025-08-17T06:09:00+09:00").getTime();
+      const refined = calculator["refineAlignment"](
+        startMs,
+        endMs,
+        100,
+        evaluate,
+      );
+
+      let best = evaluate(new Date(startMs));
+      for (let timeMs = startMs; timeMs <= endMs; timeMs += 1000) {
+        const sample = evaluate(new Date(timeMs));
+        if (sample && sample.score < best.score) {
+          best = sample;
+        }
+      }
+
+      expect(refined).not.toBeNull();
+      expect(refined.score).toBeLessThanOrEqual(best.score + 1e-6);
+      expect(
+        Math.abs(refined.time.getTime() - best.time.getTime()),
+      ).toBeLessThanOrEqual(1000);
+    });
+
+    it("粗探索の格子点より評価値を改善する", async () => {
+      const context = await createSunContext(CLOSE_DATE);
+      const evaluate = (time: Date) =>
+        calculator["evaluateAlignment"](time, context);
+
+      const startTime = new Date("2025-08-17T06:00:00+09:00");
+      const endTime = new Date("2025-08-17T06:15:00+09:00");
+      const refined = calculator["findBestAlignment"](
+        context,
+        startTime,
+        endTime,
+      );
+
+      // 粗探索の間隔（60 秒）の格子点の最良値
+      const coarseScores: number[] = [];
+      for (
+        let timeMs = startTime.getTime();
+        timeMs <= endTime.getTime();
+        timeMs += context.settings.coarseInterval * 1000
+      ) {
+        coarseScores.push(evaluate(new Date(timeMs))?.score ?? Infinity);
+      }
+
+      expect(refined).not.toBeNull();
+      expect(refined.score).toBeLessThan(Math.min(...coarseScores));
+    });
+  });
+
+  describe("calculateContactTimes", () => {
+    it("太陽の円盤が山頂を通過する接触時刻を求める", async () => {
+      const event = await findSunrise(calculator, CLOSE_DATE);
+
+      expect(event.firstContactTime).toBeDefined();
+      expect(event.firstContactTime.getTime()).toBeLessThan(
+        event.centerTime.getTime(),
+      );
+      expect(event.centerTime.getTime()).toBeLessThan(
+        event.lastContactTime.getTime(),
+      );
+      expect(
+        Math.abs(
+          event.centerTime.getTime() -
+            new Date("2025-08-17T06:08:04+09:00").getTime(),
+        ),
+      ).toBeLessThan(30 * 1000);
+
+      // 視直径約 0.53 度の太陽が斜めに昇りながら山頂を横切る時間（約 2 分）
+      const durationSeconds =
+        (event.lastContactTime.getTime() - event.firstContactTime.getTime()) /
+        1000;
+      expect(durationSeconds).toBeGreaterThan(90);
+      expect(durationSeconds).toBeLessThan(150);
+    });
+
+    it("円盤が山頂を通過しない日は接触時刻を持たない", async () => {
+      const event = await findSunrise(calculator, OFFSET_DATE);
+
+      expect(event).toBeDefined();
+      expect(event.firstContactTime).toBeUndefined();
+      expect(event.centerTime).toBeUndefined();
+      expect(event.lastContactTime).toBeUndefined();
+    });
+  });
+
+  describe("calculateObserverOffset", () => {
+    it("移動距離は山頂までの距離と方位角のずれから求まる", async () => {
+      const event = await findSunrise(calculator, OFFSET_DATE);
+
+      // 約 15.4 km 先の山頂で約 0.6 度のずれ
+      expect(event.observerOffsetDistance).toBeGreaterThan(140);
+      expect(event.observerOffsetDistance).toBeLessThan(200);
+      // 視線（約 81.6 度）と直交する方向
+      expect(event.observerOffsetBearing).toBeCloseTo(
+        (TANUKIKO.fujiAzimuth + 270) % 360,
+        0,
+      );
+    });
+
+    it("提示した位置へ移動すると太陽の中心が山頂に重なる", async () => {
+      const event = await findSunrise(calculator, OFFSET_DATE);
+      const destination = coordinateCalc.calculateDestinationPoint(
+        TANUKIKO,
+        event.observerOffsetBearing,
+        event.observerOffsetDistance,
+      );
+      const moved = await findSunrise(
+        calculator,
+        OFFSET_DATE,
+        createLocation(
+          destination.latitude,
+          destination.longitude,
+          TANUKIKO.elevation,
+        ),
+      );
+
+      expect(moved.observerOffsetDistance).toBeLessThan(15);
+      expect(moved.residualError).toBeLessThan(event.residualError);
+      expect(moved.firstContactTime).toBeDefined();
+    });
+  });
+});
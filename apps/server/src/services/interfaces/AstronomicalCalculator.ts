@@ -3,7 +3,10 @@ import {
   FujiEvent,
   SunPosition,
   MoonPosition,
+  EventCelestialPath,
 } from "@fuji-calendar/types";
+import { AlignmentTarget } from "../astronomical/AlignmentTarget";
+import { AlignmentBody } from "../astronomical/FujiAlignmentCalculator";
 
 /**
  * 天体計算インターフェース
@@ -11,14 +14,31 @@ import {
  */
 export interface AstronomicalCalculator {
   /**
-   * ダイヤモンド富士イベントを計算
+   * ダイヤモンド富士イベントを計算（target 省略時は富士山）
    */
-  calculateDiamondFuji(date: Date, locations: Location[]): Promise<FujiEvent[]>;
+  calculateDiamondFuji(
+    date: Date,
+    locations: Location[],
+    target?: AlignmentTarget,
+  ): Promise<FujiEvent[]>;
+
+  /**
+   * パール富士イベントを計算（target 省略時は富士山）
+   */
+  calculatePearlFuji(
+    date: Date,
+    locations: Location[],
+    target?: AlignmentTarget,
+  ): Promise<FujiEvent[]>;
 
   /**
-   * パール富士イベントを計算
+   * 惑星・恒星と山頂の整列を計算（target 省略時は富士山）
    */
-  calculatePearlFuji(date: Date, locations: Location[]): Promise<FujiEvent[]>;
+  calculateCelestialAlignments(
+    date: Date,
+    locations: Location[],
+    target?: AlignmentTarget,
+  ): Promise<FujiEvent[]>;
 
   /**
    * 月間イベントを計算
@@ -27,6 +47,7 @@ export interface AstronomicalCalculator {
     year: number,
     month: number,
     locations: Location[],
+    target?: AlignmentTarget,
   ): Promise<FujiEvent[]>;
 
   /**
@@ -35,6 +56,7 @@ export interface AstronomicalCalculator {
   calculateLocationYearlyEvents(
     location: Location,
     year: number,
+    target?: AlignmentTarget,
   ): Promise<FujiEvent[]>;
 
   /**
@@ -93,6 +115,18 @@ export interface AstronomicalCalculator {
    * 月相が観測に適しているかチェック
    */
   isVisibleMoonPhase(date: Date): boolean;
+
+  /**
+   * 撮影地点から見た天体の軌跡を整列計算と同じ条件で計算（target 省略時は富士山）
+   */
+  calculateBodyPath(
+    body: AlignmentBody,
+    location: Location,
+    startTime: Date,
+    endTime: Date,
+    intervalSeconds: number,
+    target?: AlignmentTarget,
+  ): Promise<Omit<EventCelestialPath, "eventId" | "eventTime" | "bodyName">>;
 }
 
 /**
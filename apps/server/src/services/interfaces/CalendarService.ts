@@ -1,10 +1,12 @@
 import { FujiEvent, CalendarStats } from "@fuji-calendar/types";
 
+// targetSlug は整列対象の識別子（省略時は富士山）
 export interface CalendarService {
   // 月間カレンダーデータを取得
   getMonthlyCalendar(
     year: number,
     month: number,
+    targetSlug?: string,
   ): Promise<{
     year: number;
     month: number;
@@ -15,16 +17,36 @@ export interface CalendarService {
     }>;
   }>;
 
+  // 期間内のイベントを日付ごとに取得（年をまたぐ範囲も 1 回で取得）
+  getRangeEvents(
+    from: string,
+    to: string,
+    targetSlug?: string,
+    locationIds?: number[],
+  ): Promise<{
+    from: string;
+    to: string;
+    events: Array<{
+      date: string;
+      type: string;
+      events: FujiEvent[];
+    }>;
+  }>;
+
   // 日別イベント取得
-  getDayEvents(date: string): Promise<{ events: FujiEvent[] }>;
+  getDayEvents(
+    date: string,
+    targetSlug?: string,
+  ): Promise<{ events: FujiEvent[] }>;
 
   // 今後のイベント取得
-  getUpcomingEvents(limit?: number): Promise<FujiEvent[]>;
+  getUpcomingEvents(limit?: number, targetSlug?: string): Promise<FujiEvent[]>;
 
   // 地点別年間イベント取得
   getLocationYearlyEvents(
     locationId: number,
     year: number,
+    targetSlug?: string,
   ): Promise<FujiEvent[]>;
 
   // カレンダー統計情報取得
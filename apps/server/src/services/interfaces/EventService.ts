@@ -6,7 +6,11 @@ export interface EventService {
   /**
    * 特定の撮影地点の天体イベントキャッシュを生成
    */
-  generateLocationCache(locationId: number, year: number): Promise<CacheResult>;
+  generateLocationCache(
+    locationId: number,
+    year: number,
+    onMonthCalculated?: MonthCalculatedCallback,
+  ): Promise<CacheResult>;
 
   /**
    * 月間天体イベントを計算
@@ -15,6 +19,7 @@ export interface EventService {
     year: number,
     month: number,
     locationIds: number[],
+    onMonthCalculated?: MonthCalculatedCallback,
   ): Promise<MonthlyEventResult>;
 
   /**
@@ -34,6 +39,14 @@ export interface EventService {
   ): Promise<CacheValidationResult>;
 }
 
+/**
+ * 地点 × 月の計算が終わるたびに呼ばれる（キューのジョブの進捗報告に使う）
+ */
+export type MonthCalculatedCallback = (
+  locationId: number,
+  month: number,
+) => Promise<void> | void;
+
 /**
  * キャッシュ生成結果
  */
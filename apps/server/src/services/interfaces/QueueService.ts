@@ -1,4 +1,8 @@
 import { EventService } from "./EventService";
+import {
+  NotificationJobData,
+  NotificationService,
+} from "../NotificationService";
 
 /**
  * QueueService インターフェース
@@ -15,6 +19,11 @@ export interface QueueService {
    */
   setSystemSettingsService?(systemSettingsService: any): void;
 
+  /**
+   * NotificationService を後から注入（循環依存対策）
+   */
+  setNotificationService?(notificationService: NotificationService): void;
+
   /**
    * 地点計算ジョブをスケジュール
    */
@@ -25,6 +34,15 @@ export interface QueueService {
     priority?: "low" | "normal" | "high",
   ): Promise<string | null>;
 
+  /**
+   * 通知ジョブを指定日時に実行するようスケジュール
+   * 同じ通知先・お気に入りイベント・日時のジョブは重複して登録しない
+   */
+  scheduleNotification(
+    data: NotificationJobData,
+    fireAt: Date,
+  ): Promise<string | null>;
+
   /**
    * キューの統計情報を取得
    */
@@ -0,0 +1,18 @@
+/**
+ * 送信するメール
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * メールの送信手段
+ *
+ * 開発・検証用のファイル出力以外に、SMTP 等の送信手段を
+ * 同じインターフェースで実装して切り替えられるようにする
+ */
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
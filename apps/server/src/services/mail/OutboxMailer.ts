@@ -0,0 +1,44 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { getComponentLogger } from "@fuji-calendar/utils";
+import { Mailer, MailMessage } from "./Mailer";
+
+/**
+ * 実際には送信せず、メールをファイルに書き出す送信手段（ローカル・開発用）
+ *
+ * 出力先ディレクトリを指定すると 1 通ごとに .eml ファイルを作成する
+ * 本文にはログインリンクが含まれるため、ログには宛先と件名のみを出力する
+ */
+export class OutboxMailer implements Mailer {
+  private logger = getComponentLogger("OutboxMailer");
+
+  constructor(private outboxDir: string | undefined) {
+    this.logger.info("OutboxMailer 初期化", {
+      outboxDir: outboxDir || null,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    this.logger.info("メール送信（出力のみ）", {
+      to: message.to,
+      subject: message.subject,
+    });
+
+    if (!this.outboxDir) {
+      return;
+    }
+
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${Math.random().toString(36).substring(2, 8)}.eml`;
+    const content = [
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      "Content-Type: text/plain; charset=UTF-8",
+      "",
+      message.text,
+      "",
+    ].join("\r\n");
+
+    await fs.mkdir(this.outboxDir, { recursive: true });
+    await fs.writeFile(path.join(this.outboxDir, fileName), content, "utf8");
+  }
+}
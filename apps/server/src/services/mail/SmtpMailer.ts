@@ -0,0 +1,58 @@
+import nodemailer, { Transporter } from "nodemailer";
+import { getComponentLogger } from "@fuji-calendar/utils";
+import { Mailer, MailMessage } from "./Mailer";
+
+/**
+ * SMTP の接続設定
+ */
+export interface SmtpMailerConfig {
+  host: string;
+  port: number;
+  user?: string;
+  pass?: string;
+  from: string;
+}
+
+/**
+ * SMTP サーバー経由でメールを送信する送信手段
+ *
+ * ポート 465 は接続時から TLS、それ以外は STARTTLS を使用する
+ */
+export class SmtpMailer implements Mailer {
+  private logger = getComponentLogger("SmtpMailer");
+  private transporter: Transporter;
+
+  constructor(private config: SmtpMailerConfig) {
+    if (!config.from) {
+      throw new Error("MAIL_FROM を設定してください");
+    }
+
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.port === 465,
+      auth: config.user ? { user: config.user, pass: config.pass } : undefined,
+    });
+
+    this.logger.info("SmtpMailer 初期化", {
+      host: config.host,
+      port: config.port,
+      from: config.from,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: this.config.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+    });
+
+    // 本文にはログインリンクが含まれるため、宛先と件名のみを記録する
+    this.logger.info("メール送信", {
+      to: message.to,
+      subject: message.subject,
+    });
+  }
+}
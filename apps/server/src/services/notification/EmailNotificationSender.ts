@@ -0,0 +1,30 @@
+import { Mailer } from "../mail/Mailer";
+import {
+  NotificationDestination,
+  NotificationMessage,
+  NotificationSender,
+} from "./NotificationSender";
+
+/**
+ * メールで通知（送信は Mailer に任せる）
+ */
+export class EmailNotificationSender implements NotificationSender {
+  constructor(private mailer: Mailer) {}
+
+  async send(
+    destination: NotificationDestination,
+    message: NotificationMessage,
+  ): Promise<void> {
+    await this.mailer.send({
+      to: destination.target,
+      subject: `【富士山カレンダー】${message.title}`,
+      text: [
+        message.text,
+        "",
+        message.url,
+        "",
+        "通知の設定はお気に入りページから変更できます。",
+      ].join("\n"),
+    });
+  }
+}
@@ -0,0 +1,32 @@
+import { FavoriteEvent } from "@fuji-calendar/types";
+
+/**
+ * 通知の内容
+ */
+export interface NotificationMessage {
+  title: string;
+  text: string;
+  url: string; // イベントの日のカレンダー
+  event?: FavoriteEvent; // テスト通知では付けない
+}
+
+/**
+ * 通知の送信先（通知先に登録された送信先と署名鍵・アクセストークン）
+ */
+export interface NotificationDestination {
+  target: string;
+  secret: string | null;
+}
+
+/**
+ * 通知の送信手段
+ *
+ * 通知方法（メール・Webhook・Slack・LINE）ごとに実装する
+ * 送信に失敗した場合は例外を投げ、キューの再試行に任せる
+ */
+export interface NotificationSender {
+  send(
+    destination: NotificationDestination,
+    message: NotificationMessage,
+  ): Promise<void>;
+}
@@ -0,0 +1,91 @@
+import crypto from "crypto";
+import {
+  NotificationDestination,
+  NotificationMessage,
+  NotificationSender,
+} from "./NotificationSender";
+import { validateWebhookUrl } from "./webhookUrl";
+
+// 送信先が応答しない場合に打ち切るまでの時間
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Webhook の形式
+ * - json: 汎用 JSON（署名鍵があれば本文の HMAC-SHA256 を X-Fuji-Calendar-Signature に付ける）
+ * - slack: Slack Incoming Webhook 互換
+ * - line: LINE Messaging API の broadcast 互換（署名鍵をチャネルアクセストークンとして使う）
+ */
+export type WebhookFormat = "json" | "slack" | "line";
+
+/**
+ * Webhook で通知
+ */
+export class WebhookNotificationSender implements NotificationSender {
+  constructor(private format: WebhookFormat) {}
+
+  async send(
+    destination: NotificationDestination,
+    message: NotificationMessage,
+  ): Promise<void> {
+    // 登録後に DNS の向き先が内部アドレスに変わっていないかを送信の直前にも確認する
+    const urlError = await validateWebhookUrl(destination.target);
+    if (urlError) {
+      throw new Error(`Webhook target rejected: ${urlError}`);
+    }
+
+    const body = JSON.stringify(this.buildPayload(message));
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "User-Agent": "fuji-calendar-notifier",
+    };
+
+    if (destination.secret && this.format === "line") {
+      headers.Authorization = `Bearer ${destination.secret}`;
+    } else if (destination.secret && this.format === "json") {
+      const signature = crypto
+        .createHmac("sha256", destination.secret)
+        .update(body)
+        .digest("hex");
+      headers["X-Fuji-Calendar-Signature"] = `sha256=${signature}`;
+    }
+
+    const response = await fetch(destination.target, {
+      method: "POST",
+      headers,
+      body,
+      // リダイレクト先は検証していないため追わない（3xx は送信失敗として扱う）
+      redirect: "manual",
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook responded with status ${response.status}`);
+    }
+  }
+
+  private buildPayload(message: NotificationMessage): object {
+    switch (this.format) {
+      case "slack":
+        return {
+          text: `*${message.title}*\n${message.text}\n<${message.url}|カレンダーを開く>`,
+        };
+      case "line":
+        return {
+          messages: [
+            {
+              type: "text",
+              text: `${message.title}\n${message.text}\n${message.url}`,
+            },
+          ],
+        };
+      case "json":
+        return {
+          type: "fuji-calendar.reminder",
+          title: message.title,
+          text: message.text,
+          url: message.url,
+          event: message.event,
+        };
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import { promises as dns } from "dns";
+import net from "net";
+
+/**
+ * 通知先として許可しないアドレス
+ * ループバック・プライベート・リンクローカル・ユニークローカルなど、
+ * サーバー内部のサービスやクラウドのメタデータにリクエストさせないようにする
+ */
+const BLOCKED_ADDRESSES = new net.BlockList();
+
+const BLOCKED_IPV4_SUBNETS: Array<[string, number]> = [
+  ["0.0.0.0", 8], // このネットワーク
+  ["10.0.0.0", 8], // プライベート
+  ["100.64.0.0", 10], // キャリアグレード NAT
+  ["127.0.0.0", 8], // ループバック
+  ["169.254.0.0", 16], // リンクローカル（メタデータ）
+  ["172.16.0.0", 12], // プライベート
+  ["192.0.0.0", 24], // IETF プロトコル割り当て
+  ["192.168.0.0", 16], // プライベート
+  ["198.18.0.0", 15], // ベンチマーク
+  ["224.0.0.0", 3], // マルチキャスト・予約・ブロードキャスト
+];
+
+const BLOCKED_IPV6_SUBNETS: Array<[string, number]> = [
+  ["::", 96], // 未指定・ループバック・IPv4 互換
+  ["64:ff9b::", 96], // NAT64
+  ["fc00::", 7], // ユニークローカル
+  ["fe80::", 10], // リンクローカル
+  ["ff00::", 8], // マルチキャスト
+];
+
+for (const [network, prefix] of BLOCKED_IPV4_SUBNETS) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+// IPv4 射影アドレス（::ffff:127.0.0.1 など）は IPv4 の範囲で判定される
+for (const [network, prefix] of BLOCKED_IPV6_SUBNETS) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+const isBlockedAddress = (address: string): boolean => {
+  const family = net.isIP(address);
+  return (
+    family === 0 ||
+    BLOCKED_ADDRESSES.check(address, family === 4 ? "ipv4" : "ipv6")
+  );
+};
+
+/**
+ * 通知先の URL を検証（問題がある場合は理由、問題が無い場合は null）
+ * https のみを許可し、ホスト名が解決するすべてのアドレスが公開アドレスであることを確認する
+ * 登録時と送信の直前の両方で呼び出す
+ */
+export const validateWebhookUrl = async (
+  value: string,
+): Promise<string | null> => {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return "通知先の URL の形式が正しくありません。";
+  }
+
+  if (url.protocol !== "https:") {
+    return "通知先の URL は https で指定してください。";
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  let addresses: string[];
+  if (net.isIP(hostname)) {
+    addresses = [hostname];
+  } else {
+    try {
+      const results = await dns.lookup(hostname, { all: true });
+      addresses = results.map((result) => result.address);
+    } catch {
+      return "通知先のホスト名を解決できません。";
+    }
+  }
+
+  if (addresses.length === 0 || addresses.some(isBlockedAddress)) {
+    return "通知先に内部ネットワークのアドレスは指定できません。";
+  }
+
+  return null;
+};
@@ -0,0 +1,149 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { getComponentLogger } from "@fuji-calendar/utils";
+
+// 地理院タイルの 1 辺のピクセル数
+const TILE_SIZE = 256;
+
+// メモリに保持するタイル数の上限（1 タイル約 256KB）
+const MAX_CACHED_TILES = 128;
+
+/**
+ * ローカルディレクトリに配置した標高タイルを読み込むクラス
+ *
+ * 国土地理院の標高タイル（テキスト形式）と同じ {z}/{x}/{y}.txt の配置を想定する
+ * 各タイルは 256 行 × 256 列のカンマ区切りで、データなしのセルは "e" で表される
+ * GeoTIFF 等の標高データは同じ XYZ 形式に変換して配置すれば利用できる
+ */
+export class DemTileStore {
+  private logger = getComponentLogger("DemTileStore");
+  private tileCache = new Map<string, Float32Array | null>();
+
+  constructor(
+    private tileDir: string | undefined,
+    private zoom: number = 14,
+  ) {
+    this.logger.info("DemTileStore 初期化", {
+      tileDir: tileDir || null,
+      zoom,
+      enabled: this.isEnabled(),
+    });
+  }
+
+  /**
+   * 標高タイルが設定されているか
+   */
+  isEnabled(): boolean {
+    return !!this.tileDir;
+  }
+
+  /**
+   * 指定地点の標高を取得（m）
+   * タイルが存在しない・データなしの場合は null
+   */
+  async getElevation(
+    latitude: number,
+    longitude: number,
+  ): Promise<number | null> {
+    if (!this.tileDir) {
+      return null;
+    }
+
+    const { tileX, tileY, pixelX, pixelY } = this.toTilePixel(
+      latitude,
+      longitude,
+    );
+    const tile = await this.loadTile(tileX, tileY);
+    if (!tile) {
+      return null;
+    }
+
+    const value = tile[pixelY * TILE_SIZE + pixelX];
+    return Number.isNaN(value) ? null : value;
+  }
+
+  /**
+   * 緯度経度をタイル座標とタイル内ピクセル位置に変換（Web メルカトル）
+   */
+  private toTilePixel(
+    latitude: number,
+    longitude: number,
+  ): { tileX: number; tileY: number; pixelX: number; pixelY: number } {
+    const scale = Math.pow(2, this.zoom) * TILE_SIZE;
+    const latRad = (latitude * Math.PI) / 180;
+
+    const worldX = ((longitude + 180) / 360) * scale;
+    const worldY =
+      ((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) *
+      scale;
+
+    return {
+      tileX: Math.floor(worldX / TILE_SIZE),
+      tileY: Math.floor(worldY / TILE_SIZE),
+      pixelX: Math.floor(worldX) % TILE_SIZE,
+      pixelY: Math.floor(worldY) % TILE_SIZE,
+    };
+  }
+
+  /**
+   * タイルを読み込んでキャッシュ（存在しないタイルも null としてキャッシュ）
+   */
+  private async loadTile(
+    tileX: number,
+    tileY: number,
+  ): Promise<Float32Array | null> {
+    const key = `${tileX}/${tileY}`;
+    if (this.tileCache.has(key)) {
+      const cached = this.tileCache.get(key)!;
+      // 最近使ったタイルを末尾へ移動
+      this.tileCache.delete(key);
+      this.tileCache.set(key, cached);
+      return cached;
+    }
+
+    const tilePath = path.join(
+      this.tileDir!,
+      String(this.zoom),
+      String(tileX),
+      `${tileY}.txt`,
+    );
+
+    let tile: Float32Array | null = null;
+    try {
+      const content = await fs.readFile(tilePath, "utf8");
+      tile = this.parseTile(content);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        this.logger.warn("標高タイル読み込みエラー", { tilePath, error });
+      }
+    }
+
+    this.tileCache.set(key, tile);
+    if (this.tileCache.size > MAX_CACHED_TILES) {
+      const oldestKey = this.tileCache.keys().next().value as string;
+      this.tileCache.delete(oldestKey);
+    }
+
+    return tile;
+  }
+
+  /**
+   * テキスト形式の標高タイルを解析（データなしは NaN）
+   */
+  private parseTile(content: string): Float32Array {
+    const tile = new Float32Array(TILE_SIZE * TILE_SIZE).fill(NaN);
+    const rows = content.trim().split(/\r?\n/);
+
+    for (let y = 0; y < Math.min(rows.length, TILE_SIZE); y++) {
+      const cells = rows[y].split(",");
+      for (let x = 0; x < Math.min(cells.length, TILE_SIZE); x++) {
+        const value = parseFloat(cells[x]);
+        if (!Number.isNaN(value)) {
+          tile[y * TILE_SIZE + x] = value;
+        }
+      }
+    }
+
+    return tile;
+  }
+}
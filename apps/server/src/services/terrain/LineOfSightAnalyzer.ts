@@ -0,0 +1,187 @@
+import {
+  LineOfSightStatus,
+  Location,
+  SummitLineOfSight,
+  TerrainObstruction,
+} from "@fuji-calendar/types";
+import { getComponentLogger } from "@fuji-calendar/utils";
+import { CoordinateCalculator } from "../astronomical/CoordinateCalculator";
+import { DemTileStore } from "./DemTileStore";
+
+// 断面の標本間隔（m）
+const SAMPLE_INTERVAL = 50;
+
+// 撮影地点近傍の除外距離（m、足元の地形や建物上の撮影地点を誤判定しないため）
+const NEAR_FIELD_EXCLUSION = 200;
+
+// 山頂近傍の除外距離（m、富士山自身の斜面は遮蔽物として扱わない）
+const SUMMIT_EXCLUSION = 500;
+
+// 遮蔽なしと判定するために必要な標高データの割合
+const MIN_COVERAGE = 0.9;
+
+type SummitRidgePoint = ReturnType<
+  CoordinateCalculator["calculateSummitRidgePoints"]
+>[number];
+
+/**
+ * 撮影地点の見通し解析結果（地点情報を除く）
+ */
+export interface LineOfSightResult {
+  status: LineOfSightStatus;
+  distance: number;
+  sampleInterval: number;
+  points: SummitLineOfSight[];
+}
+
+/**
+ * 撮影地点から富士山頂までの地形断面を解析し、見通しを判定するクラス
+ * 大円経路に沿って標高を標本化し、山頂稜線（左肩・中央・右肩）が
+ * 途中の地形に隠れるかどうかを判定する
+ */
+export class LineOfSightAnalyzer {
+  private logger = getComponentLogger("LineOfSightAnalyzer");
+  private coordinateCalc = new CoordinateCalculator();
+  private resultCache = new Map<string, LineOfSightResult>();
+
+  constructor(private tileStore: DemTileStore) {}
+
+  /**
+   * 標高データが利用可能か
+   */
+  isEnabled(): boolean {
+    return this.tileStore.isEnabled();
+  }
+
+  /**
+   * 撮影地点の見通しを解析（座標ごとに結果をキャッシュ）
+   */
+  async analyze(location: Location): Promise<LineOfSightResult> {
+    const cacheKey = `${location.latitude},${location.longitude},${location.elevation}`;
+    const cached = this.resultCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const ridgePoints =
+      this.coordinateCalc.calculateSummitRidgePoints(location);
+    const points: SummitLineOfSight[] = [];
+
+    for (const ridgePoint of ridgePoints) {
+      points.push(await this.analyzeRidgePoint(location, ridgePoint));
+    }
+
+    const result: LineOfSightResult = {
+      status: this.determineStatus(points),
+      distance: Math.round(
+        this.coordinateCalc.calculateDistanceToFuji(location),
+      ),
+      sampleInterval: SAMPLE_INTERVAL,
+      points,
+    };
+
+    if (result.status === "occluded" || result.status === "partial") {
+      this.logger.warn("地形による山頂の遮蔽を検出", {
+        locationId: location.id,
+        locationName: location.name,
+        status: result.status,
+        occludedPositions: points
+          .filter((point) => point.occluded)
+          .map((point) => point.position),
+      });
+    }
+
+    this.resultCache.set(cacheKey, result);
+    return result;
+  }
+
+  /**
+   * 山頂稜線上の 1 点への断面を解析
+   */
+  private async analyzeRidgePoint(
+    location: Location,
+    ridgePoint: SummitRidgePoint,
+  ): Promise<SummitLineOfSight> {
+    const distance = this.coordinateCalc.calculateDistanceToPoint(
+      location,
+      ridgePoint,
+    );
+
+    let obstruction: TerrainObstruction | null = null;
+    let sampleCount = 0;
+    let coveredCount = 0;
+
+    for (
+      let sampleDistance = NEAR_FIELD_EXCLUSION;
+      sampleDistance < distance - SUMMIT_EXCLUSION;
+      sampleDistance += SAMPLE_INTERVAL
+    ) {
+      sampleCount++;
+
+      const samplePoint = this.coordinateCalc.calculateDestinationPoint(
+        location,
+        ridgePoint.azimuth,
+        sampleDistance,
+      );
+      const terrainElevation = await this.tileStore.getElevation(
+        samplePoint.latitude,
+        samplePoint.longitude,
+      );
+      if (terrainElevation === null) {
+        continue;
+      }
+      coveredCount++;
+
+      // 山頂と同じ曲率・大気屈折の補正で地形の見かけの仰角を求める
+      const elevationAngle = this.coordinateCalc.calculateElevationToPoint(
+        location,
+        { ...samplePoint, elevation: terrainElevation },
+      );
+
+      if (!obstruction || elevationAngle > obstruction.elevationAngle) {
+        obstruction = {
+          latitude: samplePoint.latitude,
+          longitude: samplePoint.longitude,
+          distance: Math.round(sampleDistance),
+          terrainElevation,
+          elevationAngle,
+        };
+      }
+    }
+
+    const coverage = sampleCount > 0 ? coveredCount / sampleCount : 0;
+    const clearance = obstruction
+      ? ridgePoint.elevation - obstruction.elevationAngle
+      : null;
+
+    return {
+      position: ridgePoint.position,
+      azimuth: ridgePoint.azimuth,
+      summitElevation: ridgePoint.elevation,
+      clearance,
+      occluded: clearance === null ? null : clearance < 0,
+      obstruction,
+      coverage,
+    };
+  }
+
+  /**
+   * 稜線各点の結果から地点全体の見通し状態を判定
+   */
+  private determineStatus(points: SummitLineOfSight[]): LineOfSightStatus {
+    const occludedPoints = points.filter((point) => point.occluded === true);
+    const centerPoint = points.find((point) => point.position === "center");
+
+    if (centerPoint?.occluded) {
+      return "occluded";
+    }
+    if (occludedPoints.length > 0) {
+      return "partial";
+    }
+    // 遮蔽が見つからなくても標高データが不足していれば判定しない
+    if (points.some((point) => point.coverage < MIN_COVERAGE)) {
+      return "unknown";
+    }
+    return "clear";
+  }
+}
@@ -0,0 +1,114 @@
+import { promises as fs } from "fs";
+import { getComponentLogger } from "@fuji-calendar/utils";
+import { CoordinateCalculator } from "../astronomical/CoordinateCalculator";
+import { WeatherProvider } from "./WeatherProvider";
+
+// この距離（m）より離れた予報地点は使わない
+const MAX_POINT_DISTANCE = 30000;
+
+// この時間より離れた予報時刻は使わない
+const MAX_TIME_DIFFERENCE_MS = 90 * 60 * 1000;
+
+interface ForecastFixture {
+  points: Array<{
+    name?: string;
+    latitude: number;
+    longitude: number;
+    hourly: Array<{ time: string; cloudCover: number }>;
+  }>;
+}
+
+interface ForecastPoint {
+  latitude: number;
+  longitude: number;
+  hourly: Array<{ time: number; cloudCover: number }>;
+}
+
+/**
+ * JSON ファイルの雲量予報を使う提供元（オフライン・開発用）
+ *
+ * 形式: { "points": [{ "latitude", "longitude", "hourly": [{ "time": ISO 8601, "cloudCover": 0-100 }] }] }
+ * 最も近い予報地点の、最も近い時刻の雲量を返す
+ */
+export class FixtureWeatherProvider implements WeatherProvider {
+  readonly name = "fixture";
+  readonly forecastDays = 16;
+
+  private logger = getComponentLogger("FixtureWeatherProvider");
+  private coordinateCalculator = new CoordinateCalculator();
+  private points: Promise<ForecastPoint[]> | null = null;
+
+  constructor(private fixturePath: string) {}
+
+  async getCloudCover(
+    latitude: number,
+    longitude: number,
+    time: Date,
+  ): Promise<number | null> {
+    const points = await this.loadPoints();
+
+    let nearest: ForecastPoint | null = null;
+    let nearestDistance = MAX_POINT_DISTANCE;
+    for (const point of points) {
+      const distance = this.coordinateCalculator.calculateDistanceToPoint(
+        { latitude, longitude },
+        point,
+      );
+      if (distance <= nearestDistance) {
+        nearest = point;
+        nearestDistance = distance;
+      }
+    }
+    if (!nearest) {
+      return null;
+    }
+
+    const target = time.getTime();
+    let cloudCover: number | null = null;
+    let nearestDifference = MAX_TIME_DIFFERENCE_MS;
+    for (const forecast of nearest.hourly) {
+      const difference = Math.abs(forecast.time - target);
+      if (difference <= nearestDifference) {
+        cloudCover = forecast.cloudCover;
+        nearestDifference = difference;
+      }
+    }
+
+    return cloudCover;
+  }
+
+  /**
+   * フィクスチャを読み込み（初回のみ）
+   * 読み込めない場合は予報なしとして扱う
+   */
+  private loadPoints(): Promise<ForecastPoint[]> {
+    if (!this.points) {
+      this.points = fs
+        .readFile(this.fixturePath, "utf-8")
+        .then((content) => {
+          const fixture = JSON.parse(content) as ForecastFixture;
+          const points = fixture.points.map((point) => ({
+            latitude: point.latitude,
+            longitude: point.longitude,
+            hourly: point.hourly.map((forecast) => ({
+              time: new Date(forecast.time).getTime(),
+              cloudCover: Math.min(100, Math.max(0, forecast.cloudCover)),
+            })),
+          }));
+          this.logger.info("雲量予報フィクスチャ読み込み完了", {
+            fixturePath: this.fixturePath,
+            pointCount: points.length,
+          });
+          return points;
+        })
+        .catch((error) => {
+          this.logger.error("雲量予報フィクスチャ読み込みエラー", error, {
+            fixturePath: this.fixturePath,
+          });
+          return [];
+        });
+    }
+
+    return this.points;
+  }
+}
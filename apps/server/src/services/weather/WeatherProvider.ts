@@ -0,0 +1,23 @@
+/**
+ * 雲量予報の提供元
+ *
+ * ファイル（フィクスチャ）以外に、気象庁・Open-Meteo 等の予報 API を
+ * 同じインターフェースで実装して切り替えられるようにする
+ */
+export interface WeatherProvider {
+  // キャッシュキーとレスポンスに使う提供元の名前
+  readonly name: string;
+
+  // 予報を取得できる日数（これより先のイベントには天気を付けない）
+  readonly forecastDays: number;
+
+  /**
+   * 指定地点・時刻の雲量（0-100%）を取得
+   * 予報が無い場合は null
+   */
+  getCloudCover(
+    latitude: number,
+    longitude: number,
+    time: Date,
+  ): Promise<number | null>;
+}
@@ -66,6 +66,40 @@ export const FUJI_COORDINATES = {
   elevation: 3776, // 富士山山頂の標高
 } as const;
 
+/**
+ * 山頂稜線上の位置（観測者から見た左肩・中央・右肩）
+ */
+export type SummitPosition = "left_shoulder" | "center" | "right_shoulder";
+
+/**
+ * 富士山頂の稜線プロファイル（幅約 700m）
+ * お鉢中央から視線と直交する方向へのオフセット（m、観測者から見て右が正）と標高で表す
+ */
+export const FUJI_SUMMIT_RIDGE = [
+  { position: "left_shoulder", offset: -350, elevation: 3720 },
+  { position: "center", offset: 0, elevation: 3776 },
+  { position: "right_shoulder", offset: 350, elevation: 3720 },
+] as const;
+
+/**
+ * 大気屈折モデル（standard: astronomy-engine 標準、custom: ユーザー指定の屈折係数）
+ */
+export type RefractionModelName =
+  | "standard"
+  | "bennett"
+  | "saemundsson"
+  | "custom";
+
+/**
+ * ダイヤモンド富士・パール富士と重なる特別な天文現象
+ */
+export type SpecialEventType = "solar_eclipse" | "lunar_eclipse" | "supermoon";
+
+/**
+ * 太陽・月以外の天体との整列イベントの種類（planet: 惑星、star: 恒星・天の川中心など固定天体）
+ */
+export type CelestialObjectKind = "planet" | "star";
+
 /**
  * JST 関連定数
  */
@@ -1,5 +1,11 @@
 // 共通型定義をインポート
 export * from "./common";
+import {
+  CelestialObjectKind,
+  RefractionModelName,
+  SpecialEventType,
+  SummitPosition,
+} from "./common";
 
 // 詳細な Location インターフェース
 export interface Location {
@@ -21,18 +27,54 @@ export interface Location {
   updatedAt: Date;
 }
 
+// 惑星・恒星との整列で山頂に重なる天体
+export interface CelestialBody {
+  id: string; // 天体の識別子（例: venus, milky_way_core）
+  name: string;
+  kind: CelestialObjectKind;
+  magnitude?: number; // 整列時の等級（惑星のみ）
+}
+
 export interface FujiEvent {
   id: string;
-  type: "diamond" | "pearl";
+  type: "diamond" | "pearl" | CelestialObjectKind;
   subType: "sunrise" | "sunset" | "rising" | "setting";
   time: Date;
   location: Location;
   azimuth: number;
   elevation?: number;
   qualityScore?: number;
+  visibilityProbability?: number; // 距離・季節・時間帯・太陽による霞から推定した山頂が見える確率（0-100）
   accuracy?: "perfect" | "excellent" | "good" | "fair";
   moonPhase?: number;
   moonIllumination?: number;
+  moonBrightLimbAngle?: number; // 月の輝面の位置角（度、天の北極から東回り）
+  moonTilt?: number; // 観測者から見た月の輝面の向き（度、天頂から反時計回り。0 で上、180 で下）
+  residualError?: number; // 精密化後の天体中心と富士山頂の角距離（度）
+  summitPosition?: SummitPosition; // 天体中心が重なる山頂稜線上の位置
+  // 天体中心が山頂中央に正確に重なる位置への移動（視線と直交する方向）
+  observerOffsetDistance?: number; // 撮影地点からの移動距離（m）
+  observerOffsetBearing?: number; // 移動する方位（度、北から時計回り）
+  // 天体の円盤が山頂を通過する時刻（円盤が山頂にかからない場合は未設定）
+  firstContactTime?: Date; // 縁が山頂に接する時刻
+  centerTime?: Date; // 中心が山頂に重なる時刻
+  lastContactTime?: Date; // 縁が山頂から離れる時刻
+  // 座標精度・大気屈折のばらつきを考慮した整列時刻の前後の幅
+  timeWindowStart?: Date; // 最も早く整列し得る時刻
+  timeWindowEnd?: Date; // 最も遅く整列し得る時刻
+  refractionModel?: RefractionModelName; // 計算に使用した大気屈折モデル
+  specialEvent?: SpecialEventType; // 整列と同時に起きる日食・月食・スーパームーン
+  targetId?: number; // 整列の対象（未設定は富士山）
+  celestialBody?: CelestialBody; // 惑星・恒星との整列の場合の天体
+  weather?: EventWeather; // イベント時刻の雲量予報（予報期間外は未設定）
+  shootabilityScore?: number; // 撮影地点と山頂の雲量から求めた撮影できる見込み（0-100）
+}
+
+// イベント時刻の撮影地点と山頂の雲量予報
+export interface EventWeather {
+  observerCloudCover: number; // 撮影地点の雲量（%）
+  summitCloudCover: number; // 山頂の雲量（%）
+  provider: string; // 予報の提供元
 }
 
 export interface CalendarEvent {
@@ -52,32 +94,178 @@ export interface CalendarEventResponse {
 
 export interface FujiEventResponse {
   id: string;
-  type: "diamond" | "pearl";
+  type: "diamond" | "pearl" | CelestialObjectKind;
   subType: "sunrise" | "sunset" | "rising" | "setting";
   time: string;
   location: Location;
   azimuth: number;
   elevation?: number;
+  residualError?: number;
+  summitPosition?: SummitPosition;
+  visibilityProbability?: number;
+  firstContactTime?: string;
+  centerTime?: string;
+  lastContactTime?: string;
+  timeWindowStart?: string;
+  timeWindowEnd?: string;
+  refractionModel?: RefractionModelName;
+  specialEvent?: SpecialEventType;
+  targetId?: number;
+  celestialBody?: CelestialBody;
+  weather?: EventWeather;
+  shootabilityScore?: number;
+}
+
+// 整列対象（富士山以外の山頂・建造物）の型定義
+export interface Target {
+  id: number;
+  slug: string; // API の target パラメータで指定する識別子（例: fuji, tsukuba）
+  name: string;
+  latitude: number;
+  longitude: number;
+  elevation: number; // 山頂・頂部の標高（m）
+  description?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// 撮影地点から見た整列対象の事前計算値
+export interface LocationTarget {
+  locationId: number;
+  targetId: number;
+  azimuth: number; // 対象への方位角（度）
+  elevation: number; // 対象頂部への仰角（度）
+  distance: number; // 対象までの距離（m）
+  target?: Target;
+}
+
+export interface CreateTargetRequest {
+  slug: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  elevation: number;
+  description?: string;
+}
+
+// 地形による見通し判定の型定義
+
+// 地点全体の見通し状態（partial は稜線の一部のみ遮蔽）
+export type LineOfSightStatus = "clear" | "partial" | "occluded" | "unknown";
+
+// 視線を最も大きく遮る地形
+export interface TerrainObstruction {
+  latitude: number;
+  longitude: number;
+  distance: number; // 撮影地点からの距離（m）
+  terrainElevation: number; // 地形の標高（m）
+  elevationAngle: number; // 撮影地点から見た地形の仰角（度）
+}
+
+// 山頂稜線上の 1 点に対する見通し
+export interface SummitLineOfSight {
+  position: SummitPosition;
+  azimuth: number; // 稜線上の点への方位角（度）
+  summitElevation: number; // 稜線上の点の見かけの仰角（度）
+  clearance: number | null; // 山頂仰角と地形の最大仰角の差（度、負なら遮蔽）
+  occluded: boolean | null; // 標高データが無い場合は null
+  obstruction: TerrainObstruction | null;
+  coverage: number; // 標高データが得られた標本の割合（0-1）
+}
+
+export interface LineOfSightReport {
+  locationId: number;
+  locationName: string;
+  status: LineOfSightStatus;
+  distance: number; // 富士山頂までの距離（m）
+  sampleInterval: number; // 断面の標本間隔（m）
+  points: SummitLineOfSight[];
+  analyzedAt: Date;
+}
+
+// 指定日に天体が山頂に重なる地上の線（撮影地点の逆算）で扱うイベント種別
+export type AlignmentLineEventType =
+  | "diamond_sunrise"
+  | "diamond_sunset"
+  | "pearl_moonrise"
+  | "pearl_moonset";
+
+// 線上の 1 点（その時刻にこの地点から見ると天体が山頂に重なる）
+export interface AlignmentLinePoint {
+  time: Date;
+  latitude: number;
+  longitude: number;
+  azimuth: number; // 地点から見た山頂の方位角（度）
+  elevation: number; // 天体の高度＝山頂の仰角（度）
+  distance: number; // 山頂までの距離（m）
+}
+
+// 線の近くにある撮影地点
+export interface AlignmentLineCandidate {
+  location: Location;
+  distance: number; // 線までの距離（m）
+  estimatedTime: Date; // 線上の最寄り点の時刻
+  event?: FujiEvent; // 計算済みのイベント（同日・同種別）
+  rankScore: number; // 線までの近さと品質スコアによる順位付けの値（0-1）
+}
+
+export interface AlignmentLine {
+  date: string; // YYYY-MM-DD
+  eventType: AlignmentLineEventType;
+  targetSlug: string;
+  observerElevation: number; // 線の計算に仮定した観測者の標高（m）
+  startTime: Date;
+  endTime: Date;
+  points: AlignmentLinePoint[];
+  candidates: AlignmentLineCandidate[];
+}
+
+// イベント前後の天体の軌跡（撮影地点から見た位置）
+export interface CelestialPathPoint {
+  time: Date;
+  azimuth: number; // 天体の方位角（度）
+  elevation: number; // 屈折を含む天体の高度（度）
+}
+
+export interface EventCelestialPath {
+  eventId: string;
+  eventTime: Date;
+  bodyName: string; // 太陽・月・惑星・恒星の名前
+  apparentRadius?: number; // 太陽・月のイベント時刻の視半径（度）
+  summitAzimuth: number; // 山頂の方位角（度）
+  summitElevation: number; // 屈折モデルを反映した山頂の仰角（度）
+  refractionModel: RefractionModelName; // 計算に使用した大気屈折モデル
+  points: CelestialPathPoint[];
 }
 
 // 過去データ用の型定義
+
+// 撮影結果の報告（成功・雲で見えず・撮り逃し）
+export type ObservationOutcome = "success" | "clouded_out" | "missed";
+
 export interface HistoricalEvent {
   id: number;
   locationId: number;
+  targetId: number;
   year: number;
   month: number;
   day: number;
-  eventType: "diamond" | "pearl";
-  subType: "sunrise" | "sunset";
+  eventType: FujiEvent["type"];
+  subType: FujiEvent["subType"];
   eventTime: Date;
   azimuth: number;
   elevation: number;
+  qualityScore: number; // 計算時の品質スコア（0-100）
+  accuracy?: "perfect" | "excellent" | "good" | "fair";
   moonPhase?: number; // パール富士の場合のみ
-  visibilityRating?: number; // 1-5
+  celestialBodyId?: string; // 惑星・恒星との整列の場合のみ
+  outcome?: ObservationOutcome; // 報告で最も多い撮影結果（同数の場合は新しい報告）
+  visibilityRating?: number; // 1-5（報告の平均）
+  reportCount: number; // 撮影結果の報告数（報告者ごとに 1 件）
   photoSuccessReported: boolean;
-  calculationAccuracy: number;
-  dataSource: "calculated" | "observed" | "reported";
-  notes?: string;
+  dataSource: "calculated" | "reported"; // 撮影結果の報告があれば reported
+  notes?: string; // 最新の報告のメモ
+  reportedAt?: Date; // 最新の報告日時
   archivedAt: Date;
   createdAt: Date;
 }
@@ -85,33 +273,41 @@ export interface HistoricalEvent {
 export interface HistoricalEventResponse {
   id: number;
   locationId: number;
+  targetId: number;
   year: number;
   month: number;
   day: number;
-  eventType: "diamond" | "pearl";
-  subType: "sunrise" | "sunset";
+  eventType: FujiEvent["type"];
+  subType: FujiEvent["subType"];
   eventTime: string;
   azimuth: number;
   elevation: number;
+  qualityScore: number;
+  accuracy?: "perfect" | "excellent" | "good" | "fair";
   moonPhase?: number;
+  celestialBodyId?: string;
+  outcome?: ObservationOutcome;
   visibilityRating?: number;
+  reportCount: number;
   photoSuccessReported: boolean;
-  calculationAccuracy: number;
-  dataSource: "calculated" | "observed" | "reported";
+  dataSource: "calculated" | "reported";
   notes?: string;
+  reportedAt?: string;
   archivedAt: string;
   createdAt: string;
 }
 
+// 成功率は結果が報告されたイベントに対する成功の割合
 export interface HistoricalStats {
   locationId: number;
   year: number;
-  eventType: "diamond" | "pearl";
-  subType: "sunrise" | "sunset";
+  eventType: FujiEvent["type"];
+  subType: FujiEvent["subType"];
   totalEvents: number;
+  reportedEvents: number;
   successfulPhotos: number;
-  successRatePercent: number;
-  avgVisibility: number;
+  successRatePercent: number | null; // 報告が無い場合は null
+  avgVisibility: number | null;
   earliestEvent: string;
   latestEvent: string;
 }
@@ -120,10 +316,12 @@ export interface MonthlyHistoricalSummary {
   locationId: number;
   year: number;
   month: number;
-  eventType: "diamond" | "pearl";
+  eventType: FujiEvent["type"];
   eventCount: number;
+  reportedCount: number;
   successCount: number;
-  avgVisibility: number;
+  successRatePercent: number | null;
+  avgVisibility: number | null;
   eventDays: number[];
 }
 
@@ -131,15 +329,21 @@ export interface HistoricalSearchOptions {
   locationId?: number;
   yearStart?: number;
   yearEnd?: number;
-  eventType?: "diamond" | "pearl";
-  subType?: "sunrise" | "sunset";
+  eventType?: FujiEvent["type"];
+  subType?: FujiEvent["subType"];
   photoSuccessOnly?: boolean;
   minVisibility?: number;
-  dataSource?: "calculated" | "observed" | "reported";
+  dataSource?: "calculated" | "reported";
   limit?: number;
   offset?: number;
 }
 
+export interface ObservationReportRequest {
+  outcome: ObservationOutcome;
+  visibilityRating?: number; // 1-5
+  notes?: string;
+}
+
 export interface Admin {
   id: number;
   username: string;
@@ -151,15 +355,20 @@ export interface Admin {
   lockedUntil?: Date;
 }
 
+export type LocationRequestStatus = "pending" | "approved" | "rejected";
+
+// 訪問者から投稿された撮影地点の候補（管理者が承認すると Location を作成）
 export interface LocationRequest {
   id: number;
   name: string;
   prefecture: string;
   description: string;
-  suggestedLatitude?: number;
-  suggestedLongitude?: number;
+  suggestedLatitude: number;
+  suggestedLongitude: number;
   requesterIp: string;
-  status: "pending" | "approved" | "rejected";
+  status: LocationRequestStatus;
+  rejectionReason?: string;
+  locationId?: number; // 承認時に作成された地点
   createdAt: Date;
   processedAt?: Date;
   processedBy?: number;
@@ -173,6 +382,13 @@ export interface CalendarResponse {
   events: CalendarEvent[];
 }
 
+// 期間指定のイベント（イベントのある日のみ、日付順）
+export interface CalendarRangeResponse {
+  from: string;
+  to: string;
+  events: CalendarEvent[];
+}
+
 export interface EventsResponse {
   date: string;
   events: FujiEvent[];
@@ -201,11 +417,21 @@ export interface LocationRequestBody {
   name: string;
   prefecture: string;
   description: string;
-  suggestedCoordinates?: {
+  suggestedCoordinates: {
     latitude: number;
     longitude: number;
   };
-  captchaToken: string;
+}
+
+// 撮影地点候補の承認（標高は必須、その他は投稿内容を修正する場合のみ指定）
+export interface LocationRequestApproval {
+  elevation: number;
+  name?: string;
+  prefecture?: string;
+  latitude?: number;
+  longitude?: number;
+  description?: string;
+  accessInfo?: string;
 }
 
 // 認証関連型
@@ -254,6 +480,19 @@ export interface MoonPosition {
   illumination: number; // 照度（0-1）
 }
 
+export interface MoonOrientation {
+  brightLimbAngle: number; // 輝面の位置角（度、天の北極から東回り）
+  parallacticAngle: number; // 天頂方向の位置角（度、天の北極から東回り）
+  tilt: number; // 観測者から見た輝面の向き（度、天頂から反時計回り）
+}
+
+export interface CelestialObjectPosition {
+  azimuth: number;
+  elevation: number;
+  distance: number; // 地球からの距離（AU 単位）
+  magnitude?: number; // 等級（惑星のみ）
+}
+
 // 富士山座標と JST 定数は common.ts から継承
 
 // 統計関連型
@@ -285,9 +524,12 @@ export interface FavoriteLocation {
 
 export interface FavoriteEvent {
   id: string;
-  type: "diamond" | "pearl";
+  type: "diamond" | "pearl" | CelestialObjectKind;
   subType: string;
+  celestialBodyName?: string; // 惑星・恒星との整列の場合の天体名
   time: string; // ISO 文字列
+  timeWindowStart?: string; // ISO 文字列
+  timeWindowEnd?: string; // ISO 文字列
   locationId: number;
   locationName: string;
   azimuth: number;
@@ -300,6 +542,122 @@ export interface Favorites {
   events: FavoriteEvent[];
 }
 
+// 一般ユーザー（管理者とは別。メールのログインリンクでログインし、お気に入りをサーバーに保存する）
+export interface User {
+  id: number;
+  email: string;
+  createdAt: Date;
+  lastLoginAt?: Date;
+}
+
+export interface LoginLinkRequest {
+  email: string;
+}
+
+export interface LoginLinkVerifyResponse {
+  success: boolean;
+  accessToken?: string;
+  user?: User;
+  message: string;
+}
+
+// 通知（お気に入りイベントの指定時間前にメール・Webhook で知らせる）
+export type NotificationChannelType = "email" | "webhook" | "slack" | "line";
+
+export interface NotificationChannel {
+  id: number;
+  type: NotificationChannelType;
+  target: string; // メールアドレスまたは Webhook URL
+  hasSecret: boolean; // 署名鍵・アクセストークンは返さない
+  leadTimeMinutes: number; // イベントの何分前に通知するか
+  enabled: boolean;
+  createdAt: Date;
+}
+
+export interface NotificationChannelRequest {
+  type: NotificationChannelType;
+  target?: string; // email の場合はログインに使うメールアドレス（指定不要）
+  secret?: string;
+  leadTimeMinutes: number;
+  enabled?: boolean;
+}
+
+// 公開 API（/api/v1）の API キー
+export interface ApiKey {
+  id: number;
+  name: string;
+  keyPrefix: string; // キーの先頭部分（キー自体は発行時のみ返す）
+  rateLimitPerMinute: number; // 1 分間のリクエスト数の上限
+  dailyQuota: number; // 1 日（日本時間）のリクエスト数の上限
+  enabled: boolean;
+  usageToday?: number; // 今日のリクエスト数（Redis が無効の場合は未設定）
+  lastUsedAt?: Date;
+  createdAt: Date;
+}
+
+export interface ApiKeyRequest {
+  name: string;
+  rateLimitPerMinute?: number;
+  dailyQuota?: number;
+  enabled?: boolean;
+}
+
+// 公開 API v1 のエラー応答
+export interface ApiV1ErrorResponse {
+  success: false;
+  error: string;
+  message: string;
+}
+
+// 公開 API v1 の月間カレンダー（日付は YYYY-MM-DD 形式の文字列）
+export interface ApiV1CalendarDay {
+  date: string;
+  type: CalendarEvent["type"];
+  events: FujiEvent[];
+}
+
+export interface ApiV1CalendarResponse {
+  year: number;
+  month: number;
+  events: ApiV1CalendarDay[];
+}
+
+// 公開 API v1 の今後のイベント
+export interface UpcomingEventsResponse {
+  events: FujiEvent[];
+}
+
+// 公開 API v1 の整列対象一覧
+export interface TargetsResponse {
+  targets: Target[];
+}
+
+// リアルタイム更新（Server-Sent Events）
+// 計算ジョブの進捗（地点 × 月の単位）
+export interface CalculationJobProgress {
+  locationId: number;
+  year: number;
+  month: number; // 計算が終わった月
+  completedMonths: number; // ジョブ全体で計算が終わった地点 × 月の数
+  totalMonths: number;
+}
+
+// 管理画面に送るジョブの状態の変化（event: job）
+export interface QueueJobUpdate {
+  jobId: string;
+  status: "waiting" | "active" | "progress" | "completed" | "failed";
+  progress?: CalculationJobProgress;
+  failedReason?: string;
+  timestamp: string;
+}
+
+// イベントを再計算した月（event: calendar-invalidated）
+export interface CalendarInvalidation {
+  year: number;
+  month: number;
+  locationIds?: number[]; // 未設定は全地点
+}
+
 // システム設定関連型
 export interface SystemSetting {
   id: number;
@@ -0,0 +1,10 @@
+-- イベント残差カラム追加マイグレーション
+-- 作成日: 2026-10-19
+-- 説明: 整列時刻の精密化後に残る天体中心と富士山頂の角距離を保存する
+
+-- 1. LocationEvent テーブルに残差カラムを追加
+ALTER TABLE "location_events"
+  ADD COLUMN "residual_error" DOUBLE PRECISION;
+
+-- 2. コメントの追加
+COMMENT ON COLUMN "location_events"."residual_error" IS '精密化後の天体中心と富士山頂の角距離（度）';
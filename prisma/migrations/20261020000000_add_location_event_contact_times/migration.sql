@@ -0,0 +1,14 @@
+-- イベント接触時刻カラム追加マイグレーション
+-- 作成日: 2026-10-20
+-- 説明: 太陽・月の円盤が富士山頂に接する時刻、中心が重なる時刻、離れる時刻を保存する
+
+-- 1. LocationEvent テーブルに接触時刻カラムを追加
+ALTER TABLE "location_events"
+  ADD COLUMN "first_contact_time" TIMESTAMPTZ(6),
+  ADD COLUMN "center_time" TIMESTAMPTZ(6),
+  ADD COLUMN "last_contact_time" TIMESTAMPTZ(6);
+
+-- 2. コメントの追加
+COMMENT ON COLUMN "location_events"."first_contact_time" IS '天体の縁が山頂に接する時刻（第1接触）';
+COMMENT ON COLUMN "location_events"."center_time" IS '天体の中心が山頂に重なる時刻';
+COMMENT ON COLUMN "location_events"."last_contact_time" IS '天体の縁が山頂から離れる時刻（第2接触）';
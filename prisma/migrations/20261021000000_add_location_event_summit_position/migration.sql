@@ -0,0 +1,13 @@
+-- 山頂稜線位置カラム追加マイグレーション
+-- 作成日: 2026-10-21
+-- 説明: 天体中心が山頂稜線の左肩・中央・右肩のどこに重なるかを保存する
+
+-- 1. SummitPosition enum の作成
+CREATE TYPE "SummitPosition" AS ENUM ('left_shoulder', 'center', 'right_shoulder');
+
+-- 2. LocationEvent テーブルに稜線位置カラムを追加
+ALTER TABLE "location_events"
+  ADD COLUMN "summit_position" "SummitPosition";
+
+-- 3. コメントの追加
+COMMENT ON COLUMN "location_events"."summit_position" IS '天体中心が重なる山頂稜線上の位置（左肩・中央・右肩）';
@@ -0,0 +1,13 @@
+-- 大気屈折モデルカラム追加マイグレーション
+-- 作成日: 2026-10-22
+-- 説明: 各イベントの計算に使用した大気屈折モデルを保存する
+
+-- 1. RefractionModel enum の作成
+CREATE TYPE "RefractionModel" AS ENUM ('standard', 'bennett', 'saemundsson', 'custom');
+
+-- 2. LocationEvent テーブルに屈折モデルカラムを追加
+ALTER TABLE "location_events"
+  ADD COLUMN "refraction_model" "RefractionModel";
+
+-- 3. コメントの追加
+COMMENT ON COLUMN "location_events"."refraction_model" IS 'イベントの計算に使用した大気屈折モデル';
@@ -0,0 +1,12 @@
+-- 撮影時間帯カラム追加マイグレーション
+-- 作成日: 2026-10-23
+-- 説明: 座標精度・大気屈折のばらつきから求めた整列時刻の前後の幅を保存する
+
+-- 1. LocationEvent テーブルに撮影時間帯カラムを追加
+ALTER TABLE "location_events"
+  ADD COLUMN "time_window_start" TIMESTAMPTZ(6),
+  ADD COLUMN "time_window_end" TIMESTAMPTZ(6);
+
+-- 2. コメントの追加
+COMMENT ON COLUMN "location_events"."time_window_start" IS '最も早く整列し得る時刻';
+COMMENT ON COLUMN "location_events"."time_window_end" IS '最も遅く整列し得る時刻';
@@ -0,0 +1,8 @@
+-- 特別イベント種別追加マイグレーション
+-- 作成日: 2026-10-24
+-- 説明: 日食・月食・スーパームーンと重なる整列イベントを区別して保存する
+
+-- 1. EventType に特別イベントの値を追加
+ALTER TYPE "EventType" ADD VALUE 'solar_eclipse';
+ALTER TYPE "EventType" ADD VALUE 'lunar_eclipse';
+ALTER TYPE "EventType" ADD VALUE 'supermoon';
@@ -0,0 +1,91 @@
+-- 整列対象追加マイグレーション
+-- 作成日: 2026-10-25
+-- 説明: 富士山以外の山頂・建造物との整列を扱うため、整列対象と撮影地点との関連を追加する
+
+-- 1. 整列対象テーブル
+CREATE TABLE "targets" (
+    "id" SERIAL NOT NULL,
+    "slug" VARCHAR(50) NOT NULL,
+    "name" VARCHAR(255) NOT NULL,
+    "latitude" DOUBLE PRECISION NOT NULL,
+    "longitude" DOUBLE PRECISION NOT NULL,
+    "elevation" DOUBLE PRECISION NOT NULL,
+    "description" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "targets_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "targets_slug_key" ON "targets"("slug");
+
+-- 2. 撮影地点と整列対象の関連テーブル（方位角・仰角・距離の事前計算値）
+CREATE TABLE "location_targets" (
+    "id" SERIAL NOT NULL,
+    "location_id" INTEGER NOT NULL,
+    "target_id" INTEGER NOT NULL,
+    "azimuth" DOUBLE PRECISION NOT NULL,
+    "elevation" DOUBLE PRECISION NOT NULL,
+    "distance" DOUBLE PRECISION NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "location_targets_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "unique_location_target" ON "location_targets"("location_id", "target_id");
+CREATE INDEX "idx_location_targets_target" ON "location_targets"("target_id");
+
+ALTER TABLE "location_targets"
+ADD CONSTRAINT "location_targets_location_id_fkey"
+FOREIGN KEY ("location_id") REFERENCES "locations"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "location_targets"
+ADD CONSTRAINT "location_targets_target_id_fkey"
+FOREIGN KEY ("target_id") REFERENCES "targets"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- 3. 初期データ（富士山と代表的な整列対象）
+INSERT INTO "targets" ("slug", "name", "latitude", "longitude", "elevation", "description") VALUES
+    ('fuji', '富士山', 35.3628, 138.730781, 3776, 'お鉢中央を基準とし、左肩・中央・右肩の稜線で判定'),
+    ('tsukuba', '筑波山', 36.2253, 140.1067, 877, '女体山山頂'),
+    ('tanigawa', '谷川岳', 36.8372, 138.9303, 1977, 'オキの耳山頂'),
+    ('skytree', '東京スカイツリー', 35.7101, 139.8107, 634, '頂部（地上高 634m）');
+
+-- 4. 既存の撮影地点を富士山に関連付け（事前計算済みの富士山データを使用）
+INSERT INTO "location_targets" ("location_id", "target_id", "azimuth", "elevation", "distance")
+SELECT l."id", t."id", l."fuji_azimuth", l."fuji_elevation", l."fuji_distance"
+FROM "locations" l
+CROSS JOIN "targets" t
+WHERE t."slug" = 'fuji'
+  AND l."fuji_azimuth" IS NOT NULL
+  AND l."fuji_elevation" IS NOT NULL
+  AND l."fuji_distance" IS NOT NULL;
+
+-- 5. LocationEvent に整列対象を追加（既存イベントは富士山）
+ALTER TABLE "location_events" ADD COLUMN "target_id" INTEGER;
+
+UPDATE "location_events"
+SET "target_id" = (SELECT "id" FROM "targets" WHERE "slug" = 'fuji');
+
+ALTER TABLE "location_events" ALTER COLUMN "target_id" SET NOT NULL;
+
+ALTER TABLE "location_events"
+ADD CONSTRAINT "location_events_target_id_fkey"
+FOREIGN KEY ("target_id") REFERENCES "targets"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+DROP INDEX "unique_location_event";
+CREATE UNIQUE INDEX "unique_location_event" ON "location_events"("location_id", "target_id", "event_date", "event_time", "event_type");
+CREATE INDEX "idx_target_date" ON "location_events"("target_id", "event_date");
+
+-- 6. コメントの追加
+COMMENT ON TABLE "targets" IS 'ダイヤモンド・パールの整列対象となる山頂・建造物';
+COMMENT ON COLUMN "targets"."slug" IS 'API の target パラメータで指定する識別子';
+COMMENT ON COLUMN "targets"."elevation" IS '山頂・頂部の標高（m）';
+COMMENT ON TABLE "location_targets" IS '撮影地点と整列対象の関連';
+COMMENT ON COLUMN "location_targets"."azimuth" IS '撮影地点から対象への方位角（度）';
+COMMENT ON COLUMN "location_targets"."elevation" IS '撮影地点から対象頂部への仰角（度）';
+COMMENT ON COLUMN "location_targets"."distance" IS '撮影地点から対象までの距離（m）';
+COMMENT ON COLUMN "location_events"."target_id" IS '整列対象';
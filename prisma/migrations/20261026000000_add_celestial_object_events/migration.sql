@@ -0,0 +1,18 @@
+-- 惑星・恒星整列イベント追加マイグレーション
+-- 作成日: 2026-10-26
+-- 説明: 金星・木星などの惑星や天の川中心・オリオン座の三つ星などの固定天体と山頂の整列を保存する
+
+-- 1. EventType に惑星・恒星の整列イベントの値を追加
+ALTER TYPE "EventType" ADD VALUE 'planet_rising';
+ALTER TYPE "EventType" ADD VALUE 'planet_setting';
+ALTER TYPE "EventType" ADD VALUE 'star_rising';
+ALTER TYPE "EventType" ADD VALUE 'star_setting';
+
+-- 2. LocationEvent テーブルに天体カラムを追加
+ALTER TABLE "location_events"
+  ADD COLUMN "celestial_body" VARCHAR(30),
+  ADD COLUMN "magnitude" DOUBLE PRECISION;
+
+-- 3. コメントの追加
+COMMENT ON COLUMN "location_events"."celestial_body" IS '惑星・恒星の整列で山頂に重なる天体の識別子（太陽・月は NULL）';
+COMMENT ON COLUMN "location_events"."magnitude" IS '整列時の天体の等級（惑星のみ）';
@@ -0,0 +1,13 @@
+-- 月の輝面の向き追加マイグレーション
+-- 作成日: 2026-10-27
+-- 説明: パール富士の月の輝面の位置角と観測者から見た傾きを保存し、品質スコアに月相・空の暗さを反映する
+
+-- 1. LocationEvent テーブルに月の輝面の向きカラムを追加
+ALTER TABLE "location_events"
+  ADD COLUMN "moon_bright_limb_angle" DOUBLE PRECISION,
+  ADD COLUMN "moon_tilt" DOUBLE PRECISION;
+
+-- 2. コメントの追加
+COMMENT ON COLUMN "location_events"."moon_bright_limb_angle" IS '月の輝面の位置角（度、天の北極から東回り。パール富士のみ）';
+COMMENT ON COLUMN "location_events"."moon_tilt" IS '観測者から見た月の輝面の向き（度、天頂から反時計回り。0 で上、180 で下）';
+COMMENT ON COLUMN "location_events"."quality_score" IS '品質スコア（0-1）。パール富士は月の明るさ・輝面の向き・空の暗さを含む';
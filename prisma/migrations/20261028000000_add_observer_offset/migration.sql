@@ -0,0 +1,12 @@
+-- 撮影位置の移動量追加マイグレーション
+-- 作成日: 2026-10-28
+-- 説明: 天体中心が山頂中央に正確に重なる位置への、撮影地点からの移動距離と方位を保存する
+
+-- 1. LocationEvent テーブルに撮影位置の移動量カラムを追加
+ALTER TABLE "location_events"
+  ADD COLUMN "observer_offset_distance" DOUBLE PRECISION,
+  ADD COLUMN "observer_offset_bearing" DOUBLE PRECISION;
+
+-- 2. コメントの追加
+COMMENT ON COLUMN "location_events"."observer_offset_distance" IS '山頂中央に正確に重なる位置までの移動距離（m、視線と直交する方向）';
+COMMENT ON COLUMN "location_events"."observer_offset_bearing" IS '移動する方位（度、北から時計回り）';
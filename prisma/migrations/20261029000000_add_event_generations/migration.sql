@@ -0,0 +1,35 @@
+-- イベント生成状況追加マイグレーション
+-- 作成日: 2026-10-29
+-- 説明: 数年先までのイベントを常に保持するため、地点・年ごとの生成状況を記録する
+
+-- 1. イベント生成状況テーブル
+CREATE TABLE "event_generations" (
+    "id" SERIAL NOT NULL,
+    "location_id" INTEGER NOT NULL,
+    "year" INTEGER NOT NULL,
+    "status" VARCHAR(20) NOT NULL,
+    "event_count" INTEGER NOT NULL DEFAULT 0,
+    "last_error" TEXT,
+    "generated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "event_generations_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "unique_location_year" ON "event_generations"("location_id", "year");
+CREATE INDEX "idx_event_generations_year" ON "event_generations"("year");
+
+ALTER TABLE "event_generations"
+ADD CONSTRAINT "event_generations_location_id_fkey"
+FOREIGN KEY ("location_id") REFERENCES "locations"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- 2. 既存のイベントから生成済みの地点・年を登録
+INSERT INTO "event_generations" ("location_id", "year", "status", "event_count")
+SELECT "location_id", "calculation_year", 'completed', COUNT(*)
+FROM "location_events"
+GROUP BY "location_id", "calculation_year";
+
+-- 3. コメントの追加
+COMMENT ON TABLE "event_generations" IS '地点・年ごとのイベント生成状況';
+COMMENT ON COLUMN "event_generations"."status" IS '生成結果（completed / failed）';
+COMMENT ON COLUMN "event_generations"."event_count" IS '生成したイベント数';
@@ -0,0 +1,51 @@
+-- 過去イベント履歴追加マイグレーション
+-- 作成日: 2026-10-30
+-- 説明: 過去のイベントを location_events から移動して保持し、撮影結果（成功・雲で見えず・撮り逃し）と見え具合の報告を受け付ける
+
+-- 1. ObservationOutcome enum の作成
+CREATE TYPE "ObservationOutcome" AS ENUM ('success', 'clouded_out', 'missed');
+
+-- 2. 過去イベントテーブル
+CREATE TABLE "historical_events" (
+    "id" BIGSERIAL NOT NULL,
+    "location_id" INTEGER NOT NULL,
+    "target_id" INTEGER NOT NULL,
+    "event_type" "EventType" NOT NULL,
+    "event_date" DATE NOT NULL,
+    "event_time" TIMESTAMPTZ(6) NOT NULL,
+    "azimuth" DOUBLE PRECISION NOT NULL,
+    "altitude" DOUBLE PRECISION NOT NULL,
+    "accuracy" "Accuracy",
+    "quality_score" DOUBLE PRECISION NOT NULL DEFAULT 0.0,
+    "moon_phase" DOUBLE PRECISION,
+    "celestial_body" VARCHAR(30),
+    "outcome" "ObservationOutcome",
+    "visibility_rating" SMALLINT,
+    "notes" TEXT,
+    "reported_at" TIMESTAMPTZ(6),
+    "archived_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "historical_events_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "historical_events_visibility_rating_check" CHECK ("visibility_rating" BETWEEN 1 AND 5)
+);
+
+CREATE UNIQUE INDEX "unique_historical_event" ON "historical_events"("location_id", "target_id", "event_date", "event_time", "event_type");
+CREATE INDEX "idx_historical_location_date" ON "historical_events"("location_id", "event_date");
+CREATE INDEX "idx_historical_event_date" ON "historical_events"("event_date");
+
+ALTER TABLE "historical_events"
+ADD CONSTRAINT "historical_events_location_id_fkey"
+FOREIGN KEY ("location_id") REFERENCES "locations"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "historical_events"
+ADD CONSTRAINT "historical_events_target_id_fkey"
+FOREIGN KEY ("target_id") REFERENCES "targets"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- 3. コメントの追加
+COMMENT ON TABLE "historical_events" IS '過去のイベント（日次メンテナンスで location_events から移動）';
+COMMENT ON COLUMN "historical_events"."outcome" IS '報告された撮影結果（success / clouded_out / missed）';
+COMMENT ON COLUMN "historical_events"."visibility_rating" IS '報告された見え具合（1-5）';
+COMMENT ON COLUMN "historical_events"."created_at" IS '元のイベントの計算日時';
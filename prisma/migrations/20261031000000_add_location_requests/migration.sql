@@ -0,0 +1,43 @@
+-- 撮影地点候補の投稿追加マイグレーション
+-- 作成日: 2026-10-31
+-- 説明: 訪問者が地図から投稿した撮影地点の候補を保持し、管理者による承認（地点の作成）・却下（理由付き）を記録する
+
+-- 1. LocationRequestStatus enum の作成
+CREATE TYPE "LocationRequestStatus" AS ENUM ('pending', 'approved', 'rejected');
+
+-- 2. 撮影地点候補テーブル
+CREATE TABLE "location_requests" (
+    "id" SERIAL NOT NULL,
+    "name" VARCHAR(255) NOT NULL,
+    "prefecture" VARCHAR(100) NOT NULL,
+    "description" TEXT NOT NULL,
+    "suggested_latitude" DOUBLE PRECISION NOT NULL,
+    "suggested_longitude" DOUBLE PRECISION NOT NULL,
+    "requester_ip" VARCHAR(45) NOT NULL,
+    "status" "LocationRequestStatus" NOT NULL DEFAULT 'pending',
+    "rejection_reason" TEXT,
+    "location_id" INTEGER,
+    "processed_by" INTEGER,
+    "processed_at" TIMESTAMPTZ(6),
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "location_requests_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "idx_location_requests_status" ON "location_requests"("status", "created_at");
+
+ALTER TABLE "location_requests"
+ADD CONSTRAINT "location_requests_location_id_fkey"
+FOREIGN KEY ("location_id") REFERENCES "locations"("id")
+ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "location_requests"
+ADD CONSTRAINT "location_requests_processed_by_fkey"
+FOREIGN KEY ("processed_by") REFERENCES "admins"("id")
+ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- 3. コメントの追加
+COMMENT ON TABLE "location_requests" IS '訪問者から投稿された撮影地点の候補';
+COMMENT ON COLUMN "location_requests"."requester_ip" IS '投稿者の IP アドレス（レート制限・不正投稿の調査用）';
+COMMENT ON COLUMN "location_requests"."rejection_reason" IS '却下の理由';
+COMMENT ON COLUMN "location_requests"."location_id" IS '承認時に作成された撮影地点';
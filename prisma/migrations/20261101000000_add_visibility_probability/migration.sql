@@ -0,0 +1,10 @@
+-- 山頂が見える確率追加マイグレーション
+-- 作成日: 2026-11-01
+-- 説明: 距離・季節・時間帯・太陽による霞から推定した山頂が見える確率を保存し、並べ替えに使えるようにする
+
+-- 1. LocationEvent テーブルに山頂が見える確率カラムを追加
+ALTER TABLE "location_events"
+  ADD COLUMN "visibility_probability" DOUBLE PRECISION;
+
+-- 2. コメントの追加
+COMMENT ON COLUMN "location_events"."visibility_probability" IS '山頂が見える確率（0-100、再計算で設定）';
@@ -0,0 +1,92 @@
+-- 一般ユーザーとお気に入りの同期追加マイグレーション
+-- 作成日: 2026-11-02
+-- 説明: 管理者とは別の一般ユーザーを追加し、メールのログインリンクでのログインと、お気に入りの撮影地点・イベントのサーバー保存に対応する
+
+-- 1. ユーザーテーブル
+CREATE TABLE "users" (
+    "id" SERIAL NOT NULL,
+    "email" VARCHAR(255) NOT NULL,
+    "last_login_at" TIMESTAMPTZ(6),
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "users_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "users_email_key" ON "users"("email");
+
+-- 2. ログインリンクのトークンテーブル
+CREATE TABLE "user_login_tokens" (
+    "id" SERIAL NOT NULL,
+    "email" VARCHAR(255) NOT NULL,
+    "token_hash" VARCHAR(64) NOT NULL,
+    "expires_at" TIMESTAMPTZ(6) NOT NULL,
+    "used_at" TIMESTAMPTZ(6),
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "user_login_tokens_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "user_login_tokens_token_hash_key" ON "user_login_tokens"("token_hash");
+CREATE INDEX "idx_user_login_tokens_expires" ON "user_login_tokens"("expires_at");
+
+-- 3. お気に入り撮影地点テーブル
+CREATE TABLE "user_favorite_locations" (
+    "id" SERIAL NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "location_id" INTEGER NOT NULL,
+    "added_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "user_favorite_locations_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "unique_user_favorite_location" ON "user_favorite_locations"("user_id", "location_id");
+
+ALTER TABLE "user_favorite_locations"
+ADD CONSTRAINT "user_favorite_locations_user_id_fkey"
+FOREIGN KEY ("user_id") REFERENCES "users"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "user_favorite_locations"
+ADD CONSTRAINT "user_favorite_locations_location_id_fkey"
+FOREIGN KEY ("location_id") REFERENCES "locations"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- 4. お気に入りイベントテーブル
+CREATE TABLE "user_favorite_events" (
+    "id" SERIAL NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "event_id" VARCHAR(100) NOT NULL,
+    "event_type" VARCHAR(20) NOT NULL,
+    "sub_type" VARCHAR(20) NOT NULL,
+    "celestial_body_name" VARCHAR(50),
+    "event_time" TIMESTAMPTZ(6) NOT NULL,
+    "time_window_start" TIMESTAMPTZ(6),
+    "time_window_end" TIMESTAMPTZ(6),
+    "location_id" INTEGER NOT NULL,
+    "location_name" VARCHAR(255) NOT NULL,
+    "azimuth" DOUBLE PRECISION NOT NULL,
+    "elevation" DOUBLE PRECISION NOT NULL,
+    "added_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "user_favorite_events_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "unique_user_favorite_event" ON "user_favorite_events"("user_id", "event_id");
+CREATE INDEX "idx_user_favorite_events_time" ON "user_favorite_events"("user_id", "event_time");
+
+ALTER TABLE "user_favorite_events"
+ADD CONSTRAINT "user_favorite_events_user_id_fkey"
+FOREIGN KEY ("user_id") REFERENCES "users"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "user_favorite_events"
+ADD CONSTRAINT "user_favorite_events_location_id_fkey"
+FOREIGN KEY ("location_id") REFERENCES "locations"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- 5. コメントの追加
+COMMENT ON TABLE "users" IS '一般ユーザー（管理者とは別）';
+COMMENT ON TABLE "user_login_tokens" IS 'ログインリンクのトークン（SHA-256 ハッシュのみ保存）';
+COMMENT ON COLUMN "user_login_tokens"."used_at" IS '使用日時（使用済みのトークンは再利用不可）';
+COMMENT ON TABLE "user_favorite_events" IS 'ユーザーのお気に入りイベント（登録時のイベント内容を保存）';
@@ -0,0 +1,37 @@
+-- お気に入りイベントの通知追加マイグレーション
+-- 作成日: 2026-11-03
+-- 説明: お気に入りイベントの指定時間前にメール・Webhook・Slack・LINE で通知する通知先を追加する
+
+-- 1. 通知方法の列挙型
+CREATE TYPE "NotificationChannelType" AS ENUM ('email', 'webhook', 'slack', 'line');
+
+-- 2. 通知先テーブル
+CREATE TABLE "notification_channels" (
+    "id" SERIAL NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "type" "NotificationChannelType" NOT NULL,
+    "target" VARCHAR(500) NOT NULL,
+    "secret" VARCHAR(255),
+    "lead_time_minutes" INTEGER NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "notification_channels_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "idx_notification_channels_user" ON "notification_channels"("user_id");
+
+ALTER TABLE "notification_channels"
+ADD CONSTRAINT "notification_channels_user_id_fkey"
+FOREIGN KEY ("user_id") REFERENCES "users"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- 3. イベント再計算時にお気に入りイベントを地点・時刻で照合するためのインデックス
+CREATE INDEX "idx_user_favorite_events_location_time" ON "user_favorite_events"("location_id", "event_time");
+
+-- コメント追加
+COMMENT ON TABLE "notification_channels" IS '通知先（お気に入りイベントの指定時間前に通知）';
+COMMENT ON COLUMN "notification_channels"."target" IS '送信先（メールアドレスまたは Webhook URL）';
+COMMENT ON COLUMN "notification_channels"."secret" IS 'Webhook の署名鍵、または LINE のチャネルアクセストークン';
+COMMENT ON COLUMN "notification_channels"."lead_time_minutes" IS 'イベントの何分前に通知するか';
@@ -0,0 +1,28 @@
+-- 公開 API の API キー追加マイグレーション
+-- 作成日: 2026-11-04
+-- 説明: /api/v1 の API キーを追加する（キーは SHA-256 ハッシュのみ保存）
+
+-- 1. API キーテーブル
+CREATE TABLE "api_keys" (
+    "id" SERIAL NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "key_prefix" VARCHAR(16) NOT NULL,
+    "key_hash" VARCHAR(64) NOT NULL,
+    "rate_limit_per_minute" INTEGER NOT NULL,
+    "daily_quota" INTEGER NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "last_used_at" TIMESTAMPTZ(6),
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "api_keys_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "api_keys_key_hash_key" ON "api_keys"("key_hash");
+
+-- コメント追加
+COMMENT ON TABLE "api_keys" IS '公開 API（/api/v1）の API キー';
+COMMENT ON COLUMN "api_keys"."key_prefix" IS 'キーの先頭部分（管理画面での識別用）';
+COMMENT ON COLUMN "api_keys"."key_hash" IS 'キーの SHA-256 ハッシュ';
+COMMENT ON COLUMN "api_keys"."rate_limit_per_minute" IS '1 分間のリクエスト数の上限';
+COMMENT ON COLUMN "api_keys"."daily_quota" IS '1 日（日本時間）のリクエスト数の上限';
@@ -0,0 +1,42 @@
+-- 撮影結果の報告者ごとの保存マイグレーション
+-- 作成日: 2026-11-05
+-- 説明: 過去イベントの撮影結果を 1 件の上書きから報告者（IP アドレス）ごとの報告に変更し、過去イベントには報告の集計を保存する
+
+-- 1. 撮影結果の報告テーブル
+CREATE TABLE "observation_reports" (
+    "id" BIGSERIAL NOT NULL,
+    "historical_event_id" BIGINT NOT NULL,
+    "reporter_ip" VARCHAR(45) NOT NULL,
+    "outcome" "ObservationOutcome" NOT NULL,
+    "visibility_rating" SMALLINT,
+    "notes" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "observation_reports_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "observation_reports_visibility_rating_check" CHECK ("visibility_rating" BETWEEN 1 AND 5)
+);
+
+CREATE UNIQUE INDEX "unique_observation_report" ON "observation_reports"("historical_event_id", "reporter_ip");
+
+ALTER TABLE "observation_reports"
+ADD CONSTRAINT "observation_reports_historical_event_id_fkey"
+FOREIGN KEY ("historical_event_id") REFERENCES "historical_events"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- 2. 過去イベントに報告数を追加
+ALTER TABLE "historical_events" ADD COLUMN "report_count" INTEGER NOT NULL DEFAULT 0;
+
+-- 3. 既存の報告を移行（報告者は記録されていないため unknown とする）
+INSERT INTO "observation_reports" ("historical_event_id", "reporter_ip", "outcome", "visibility_rating", "notes", "created_at")
+SELECT "id", 'unknown', "outcome", "visibility_rating", "notes", COALESCE("reported_at", CURRENT_TIMESTAMP)
+FROM "historical_events"
+WHERE "outcome" IS NOT NULL;
+
+UPDATE "historical_events" SET "report_count" = 1 WHERE "outcome" IS NOT NULL;
+
+-- 4. コメントの追加
+COMMENT ON TABLE "observation_reports" IS '過去イベントの撮影結果の報告（報告者の IP アドレスごとに 1 件）';
+COMMENT ON COLUMN "observation_reports"."reporter_ip" IS '報告者の IP アドレス（同じ報告者による重複・上書きを防ぐ）';
+COMMENT ON COLUMN "historical_events"."outcome" IS '報告で最も多い撮影結果（同数の場合は新しい報告）';
+COMMENT ON COLUMN "historical_events"."visibility_rating" IS '報告された見え具合の平均（1-5）';
+COMMENT ON COLUMN "historical_events"."report_count" IS '撮影結果の報告数';
@@ -0,0 +1,71 @@
+-- 過去イベントの一意キー変更マイグレーション
+-- 作成日: 2026-11-06
+-- 説明: 再計算で整列時刻がずれても同じイベントとみなすよう、一意キーから event_time を外して天体を加える
+--       既に重複して移動された行は最も新しく移動した行にまとめ、報告を移して集計し直す
+
+-- 1. 同じイベント（地点・対象・日付・種別・天体）の重複行と残す行
+CREATE TEMP TABLE "historical_event_merge" AS
+SELECT "id", "keep_id"
+FROM (
+    SELECT "id", FIRST_VALUE("id") OVER (
+        PARTITION BY "location_id", "target_id", "event_date", "event_type", "celestial_body"
+        ORDER BY "archived_at" DESC, "id" DESC
+    ) AS "keep_id"
+    FROM "historical_events"
+) AS "grouped"
+WHERE "id" <> "keep_id";
+
+-- 2. 報告を残す行へ移す（同じ報告者が両方に報告していた場合は残す行の報告、無ければ新しい報告を残す）
+UPDATE "observation_reports" AS "r"
+SET "historical_event_id" = "moved"."keep_id"
+FROM (
+    SELECT DISTINCT ON ("m"."keep_id", "r2"."reporter_ip") "r2"."id", "m"."keep_id"
+    FROM "observation_reports" AS "r2"
+    JOIN "historical_event_merge" AS "m" ON "m"."id" = "r2"."historical_event_id"
+    WHERE NOT EXISTS (
+        SELECT 1 FROM "observation_reports" AS "k"
+        WHERE "k"."historical_event_id" = "m"."keep_id" AND "k"."reporter_ip" = "r2"."reporter_ip"
+    )
+    ORDER BY "m"."keep_id", "r2"."reporter_ip", "r2"."created_at" DESC, "r2"."id" DESC
+) AS "moved"
+WHERE "r"."id" = "moved"."id";
+
+-- 3. 重複行を削除（移さなかった報告も削除される）
+DELETE FROM "historical_events" WHERE "id" IN (SELECT "id" FROM "historical_event_merge");
+
+-- 4. 報告を移した行の集計をやり直す（撮影結果は最も多いもの・同数は新しい報告、見え具合は平均、メモは最新の報告）
+UPDATE "historical_events" AS "h"
+SET
+    "outcome" = (
+        SELECT "r"."outcome" FROM "observation_reports" AS "r"
+        WHERE "r"."historical_event_id" = "h"."id"
+        GROUP BY "r"."outcome"
+        ORDER BY COUNT(*) DESC, MAX("r"."created_at") DESC
+        LIMIT 1
+    ),
+    "visibility_rating" = "s"."visibility_rating",
+    "notes" = (
+        SELECT "r"."notes" FROM "observation_reports" AS "r"
+        WHERE "r"."historical_event_id" = "h"."id" AND "r"."notes" <> ''
+        ORDER BY "r"."created_at" DESC, "r"."id" DESC
+        LIMIT 1
+    ),
+    "reported_at" = "s"."reported_at",
+    "report_count" = "s"."report_count"
+FROM (
+    SELECT
+        "historical_event_id",
+        ROUND(AVG("visibility_rating"))::SMALLINT AS "visibility_rating",
+        MAX("created_at") AS "reported_at",
+        COUNT(*)::INTEGER AS "report_count"
+    FROM "observation_reports"
+    GROUP BY "historical_event_id"
+) AS "s"
+WHERE "s"."historical_event_id" = "h"."id"
+  AND "h"."id" IN (SELECT DISTINCT "keep_id" FROM "historical_event_merge");
+
+DROP TABLE "historical_event_merge";
+
+-- 5. 一意キーの変更（太陽・月のイベントは天体が NULL のため NULL 同士も重複とみなす）
+DROP INDEX "unique_historical_event";
+CREATE UNIQUE INDEX "unique_historical_event" ON "historical_events"("location_id", "target_id", "event_date", "event_type", "celestial_body") NULLS NOT DISTINCT;
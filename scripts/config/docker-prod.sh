@@ -50,6 +50,16 @@ check_env() {
         print_error "REFRESH_SECRET を本番用の値に変更してください。"
         exit 1
     fi
+    
+    if [ -z "${USER_JWT_SECRET}" ] || [ "${USER_JWT_SECRET}" = "${JWT_SECRET}" ]; then
+        print_error "USER_JWT_SECRET に JWT_SECRET と異なる値を設定してください。"
+        exit 1
+    fi
+    
+    if [ -z "${ICS_FEED_SECRET}" ] || [ "${ICS_FEED_SECRET}" = "${JWT_SECRET}" ]; then
+        print_error "ICS_FEED_SECRET に JWT_SECRET と異なる値を設定してください。"
+        exit 1
+    fi
 }
 
 # ヘルプ表示
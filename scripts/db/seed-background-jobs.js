@@ -12,14 +12,14 @@ const defaultJobs = [
   {
     id: 'yearly-data-generation',
     name: '年次データ生成',
-    description: '毎年 12 月 1 日に翌年のダイヤモンド富士・パール富士データを全地点で生成',
-    schedule: '0 2 1 12 *',
+    description: '毎月 1 日に今年から設定年数先（event_horizon_years）までの未生成の年のデータを全地点で生成',
+    schedule: '0 2 1 * *',
     enabled: true
   },
   {
     id: 'daily-maintenance',
     name: '日次メンテナンス',
-    description: '毎日 AM3:00 にキュー統計ログ出力と失敗ジョブクリーンアップ（7 日以上前）',
+    description: '毎日 AM3:00 にキュー統計ログ出力、失敗ジョブクリーンアップ（7 日以上前）、前日までのイベントの履歴への移動',
     schedule: '0 3 * * *',
     enabled: true
   },
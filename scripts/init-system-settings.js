@@ -13,10 +13,18 @@ const prisma = new PrismaClient();
 const initialSettings = [
   // 天体計算の基本設定
   {
-    settingKey: 'search_interval',
+    settingKey: 'search_coarse_interval',
     settingType: 'number',
-    numberValue: 10,
-    description: '天体検索の時間間隔（秒）',
+    numberValue: 60,
+    description: '天体検索の粗探索間隔（秒）',
+    category: 'astronomical',
+    editable: true
+  },
+  {
+    settingKey: 'search_refinement_precision',
+    settingType: 'number',
+    numberValue: 0.1,
+    description: '整列時刻の精密化の収束精度（秒）',
     category: 'astronomical',
     editable: true
   },
@@ -120,6 +128,114 @@ const initialSettings = [
     category: 'astronomical',
     editable: true
   },
+
+  // 大気屈折の設定
+  {
+    settingKey: 'refraction_model',
+    settingType: 'string',
+    stringValue: 'standard',
+    description: '大気屈折モデル（standard / bennett / saemundsson / custom）',
+    category: 'astronomical',
+    editable: true
+  },
+  {
+    settingKey: 'refraction_custom_coefficient',
+    settingType: 'number',
+    numberValue: 0.13,
+    description: 'custom モデルの屈折係数（地球曲率による低下を相殺する割合）',
+    category: 'astronomical',
+    editable: true
+  },
+  {
+    settingKey: 'atmosphere_temperature_spring',
+    settingType: 'number',
+    numberValue: 15,
+    description: '春（3-5 月）の屈折計算に使う気温（℃）',
+    category: 'astronomical',
+    editable: true
+  },
+  {
+    settingKey: 'atmosphere_pressure_spring',
+    settingType: 'number',
+    numberValue: 1013,
+    description: '春（3-5 月）の屈折計算に使う気圧（hPa）',
+    category: 'astronomical',
+    editable: true
+  },
+  {
+    settingKey: 'atmosphere_temperature_summer',
+    settingType: 'number',
+    numberValue: 25,
+    description: '夏（6-8 月）の屈折計算に使う気温（℃）',
+    category: 'astronomical',
+    editable: true
+  },
+  {
+    settingKey: 'atmosphere_pressure_summer',
+    settingType: 'number',
+    numberValue: 1008,
+    description: '夏（6-8 月）の屈折計算に使う気圧（hPa）',
+    category: 'astronomical',
+    editable: true
+  },
+  {
+    settingKey: 'atmosphere_temperature_autumn',
+    settingType: 'number',
+    numberValue: 18,
+    description: '秋（9-11 月）の屈折計算に使う気温（℃）',
+    category: 'astronomical',
+    editable: true
+  },
+  {
+    settingKey: 'atmosphere_pressure_autumn',
+    settingType: 'number',
+    numberValue: 1013,
+    description: '秋（9-11 月）の屈折計算に使う気圧（hPa）',
+    category: 'astronomical',
+    editable: true
+  },
+  {
+    settingKey: 'atmosphere_temperature_winter',
+    settingType: 'number',
+    numberValue: 5,
+    description: '冬（12-2 月）の屈折計算に使う気温（℃）',
+    category: 'astronomical',
+    editable: true
+  },
+  {
+    settingKey: 'atmosphere_pressure_winter',
+    settingType: 'number',
+    numberValue: 1018,
+    description: '冬（12-2 月）の屈折計算に使う気圧（hPa）',
+    category: 'astronomical',
+    editable: true
+  },
+
+  // 撮影時間帯（整列時刻の不確かさ）の設定
+  {
+    settingKey: 'location_coordinate_precision',
+    settingType: 'number',
+    numberValue: 10,
+    description: '撮影地点の水平座標の精度（m）',
+    category: 'astronomical',
+    editable: true
+  },
+  {
+    settingKey: 'location_elevation_precision',
+    settingType: 'number',
+    numberValue: 5,
+    description: '撮影地点の標高の精度（m）',
+    category: 'astronomical',
+    editable: true
+  },
+  {
+    settingKey: 'refraction_uncertainty',
+    settingType: 'number',
+    numberValue: 0.2,
+    description: '大気屈折量のばらつき（屈折量に対する割合）',
+    category: 'astronomical',
+    editable: true
+  },
   
   // パフォーマンス設定
   {